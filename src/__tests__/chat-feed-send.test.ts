@@ -81,6 +81,6 @@ describe("Chat feed send handling", () => {
         });
 
         expect(result).toBe(true);
-        expect(sendChatMessage).toHaveBeenCalledWith("Hello");
+        expect(sendChatMessage).toHaveBeenCalledWith("Hello", "reply-id");
     });
 });
@@ -23,6 +23,7 @@ jest.mock("../main", () => ({
 }));
 
 jest.mock("../util/datafile", () => ({
+    ...jest.requireActual("../util/datafile"),
     getDataFilePath: jest.fn((filename: string) => `/mock/path/${filename}`)
 }));
 
@@ -273,7 +274,10 @@ describe("YouTubeIntegration - Offline Monitoring", () => {
 
         mockQuotaManager = {
             isQuotaExceededError: jest.fn(() => false),
-            getQuotaUsage: jest.fn()
+            isDailyQuotaExhaustedError: jest.fn(() => false),
+            markQuotaExhausted: jest.fn(),
+            getQuotaUsage: jest.fn(),
+            checkBudget: jest.fn(() => true)
         };
 
         mockQuotaFailoverManager = {
@@ -494,6 +498,34 @@ describe("YouTubeIntegration - Offline Monitoring", () => {
             expect(integration["currentLiveChatId"]).toBe(originalState.liveChatId);
             expect(integration["currentBroadcastId"]).toBe(originalState.broadcastId);
         });
+
+        it("should send a critical notification when no access token is available and no reconnect is scheduled", async () => {
+            // Arrange
+            mockMultiAuthManager.getAccessToken.mockResolvedValue("");
+            const disconnectSpy = jest.spyOn(integration, "disconnectAfterFailure").mockResolvedValue(false);
+            const notificationSpy = jest.spyOn(integration, "sendCriticalErrorNotification").mockImplementation(() => undefined);
+
+            // Act
+            await integration["checkForBroadcast"]();
+
+            // Assert
+            expect(disconnectSpy).toHaveBeenCalled();
+            expect(notificationSpy).toHaveBeenCalledWith(expect.stringContaining("access token"));
+            expect(mockBroadcastManager.findLiveBroadcast).not.toHaveBeenCalled();
+        });
+
+        it("should not send a critical notification when a reconnect is scheduled after the access token failure", async () => {
+            // Arrange
+            mockMultiAuthManager.getAccessToken.mockResolvedValue("");
+            jest.spyOn(integration, "disconnectAfterFailure").mockResolvedValue(true);
+            const notificationSpy = jest.spyOn(integration, "sendCriticalErrorNotification").mockImplementation(() => undefined);
+
+            // Act
+            await integration["checkForBroadcast"]();
+
+            // Assert
+            expect(notificationSpy).not.toHaveBeenCalled();
+        });
     });
 
     describe("handleStreamOnline", () => {
@@ -557,4 +589,78 @@ describe("YouTubeIntegration - Offline Monitoring", () => {
             expect(integration["currentLiveChatId"]).toBeNull();
         });
     });
+
+    describe("broadcast title changes", () => {
+        const { firebot } = require("../main");
+        const titleChangedEvents = () => (firebot.modules.eventManager.triggerEvent as jest.Mock).mock.calls.filter(([, eventId]) => eventId === "title-changed").map(([, , metadata]) => metadata);
+
+        const liveBroadcast = (title: string) => ({
+            liveChatId: "test-live-chat-id",
+            broadcastId: "test-broadcast-id",
+            channelId: "test-channel-id",
+            privacyStatus: "public",
+            title,
+            description: "Description"
+        });
+
+        beforeEach(() => {
+            integration["currentBroadcastId"] = "test-broadcast-id";
+        });
+
+        it("should trigger title changed when the title was changed outside Firebot", async () => {
+            integration["currentBroadcastTitle"] = "Old title";
+            mockBroadcastManager.findLiveBroadcast.mockResolvedValue(liveBroadcast("Changed in YouTube Studio"));
+
+            await integration["refreshBroadcastDetails"]();
+
+            expect(integration.getCurrentBroadcastTitle()).toBe("Changed in YouTube Studio");
+            expect(titleChangedEvents()).toEqual([expect.objectContaining({ title: "Changed in YouTube Studio", previousTitle: "Old title" })]);
+        });
+
+        it("should not trigger title changed when the title is loaded for the first time", async () => {
+            mockBroadcastManager.findLiveBroadcast.mockResolvedValue(liveBroadcast("First title"));
+
+            await integration["refreshBroadcastDetails"]();
+
+            expect(integration.getCurrentBroadcastTitle()).toBe("First title");
+            expect(titleChangedEvents()).toEqual([]);
+        });
+
+        it("should not trigger title changed when the title is unchanged", async () => {
+            integration["currentBroadcastTitle"] = "Same title";
+            mockBroadcastManager.findLiveBroadcast.mockResolvedValue(liveBroadcast("Same title"));
+
+            await integration["refreshBroadcastDetails"]();
+
+            expect(titleChangedEvents()).toEqual([]);
+        });
+
+        it("should not check the broadcast while the broadcast quota budget is used up", async () => {
+            integration["currentBroadcastTitle"] = "Old title";
+            mockQuotaManager.checkBudget.mockReturnValue(false);
+
+            await integration["refreshBroadcastDetails"]();
+
+            expect(mockQuotaManager.checkBudget).toHaveBeenCalledWith("test-app-id", "liveBroadcasts.list", expect.any(Number), false);
+            expect(mockBroadcastManager.findLiveBroadcast).not.toHaveBeenCalled();
+        });
+
+        it("should trigger title changed when Firebot updates the title", async () => {
+            integration["currentBroadcastTitle"] = "Old title";
+            integration["restApiClient"] = { updateBroadcast: jest.fn().mockResolvedValue({ title: "New title", description: "Description" }) } as any;
+
+            await integration.updateBroadcastMetadata({ title: "New title" });
+
+            expect(titleChangedEvents()).toEqual([expect.objectContaining({ title: "New title", previousTitle: "Old title" })]);
+        });
+
+        it("should not trigger title changed when Firebot updates a title that was never loaded", async () => {
+            integration["restApiClient"] = { updateBroadcast: jest.fn().mockResolvedValue({ title: "New title", description: "Description" }) } as any;
+
+            await integration.updateBroadcastMetadata({ title: "New title" });
+
+            expect(integration.getCurrentBroadcastTitle()).toBe("New title");
+            expect(titleChangedEvents()).toEqual([]);
+        });
+    });
 });
@@ -3,7 +3,13 @@ export const YouTubeMessageTypes = {
     SUPER_CHAT_EVENT: 15,
     SUPER_STICKER_EVENT: 16,
     NEW_SPONSOR_EVENT: 7,
-    MEMBER_MILESTONE_EVENT: 17
+    MESSAGE_DELETED_EVENT: 8,
+    MESSAGE_RETRACTED_EVENT: 9,
+    USER_BANNED_EVENT: 10,
+    MEMBER_MILESTONE_EVENT: 17,
+    MEMBERSHIP_GIFTING_EVENT: 18,
+    GIFT_MEMBERSHIP_RECEIVED_EVENT: 19,
+    POLL_EVENT: 20
 } as const;
 
 export const YouTubeMessageTypeStrings = {
@@ -11,7 +17,13 @@ export const YouTubeMessageTypeStrings = {
     [YouTubeMessageTypes.SUPER_CHAT_EVENT]: "superChat",
     [YouTubeMessageTypes.SUPER_STICKER_EVENT]: "superSticker",
     [YouTubeMessageTypes.NEW_SPONSOR_EVENT]: "newSponsor",
-    [YouTubeMessageTypes.MEMBER_MILESTONE_EVENT]: "memberMilestone"
+    [YouTubeMessageTypes.MESSAGE_DELETED_EVENT]: "messageDeleted",
+    [YouTubeMessageTypes.MESSAGE_RETRACTED_EVENT]: "messageRetracted",
+    [YouTubeMessageTypes.USER_BANNED_EVENT]: "userBanned",
+    [YouTubeMessageTypes.MEMBER_MILESTONE_EVENT]: "memberMilestone",
+    [YouTubeMessageTypes.MEMBERSHIP_GIFTING_EVENT]: "membershipGifting",
+    [YouTubeMessageTypes.GIFT_MEMBERSHIP_RECEIVED_EVENT]: "giftMembershipReceived",
+    [YouTubeMessageTypes.POLL_EVENT]: "poll"
 } as const;
 
 export type YouTubeMessageType = (typeof YouTubeMessageTypes)[keyof typeof YouTubeMessageTypes];
@@ -24,5 +36,6 @@ export const IntegrationConstants = {
     PLATFORM_LIB_VERSION_CONSTRAINT: ">=0.0.5",
     YOUTUBE_SCOPES: ["https://www.googleapis.com/auth/youtube", "https://www.googleapis.com/auth/youtube.force-ssl"],
     YOUTUBE_CHAT_MESSAGE_CHARACTER_LIMIT: 200, // Hard limit, determined by testing
-    STREAM_STATUS_CHECK_INTERVAL_MS: 10000 // Check stream status every 10 seconds
+    STREAM_STATUS_CHECK_INTERVAL_MS: 10000, // Check stream status every 10 seconds
+    BROADCAST_DETAILS_CHECK_INTERVAL_MS: 300000 // Check the live broadcast's title every 5 minutes (1 quota unit per check)
 } as const;
@@ -0,0 +1,57 @@
+/* eslint-disable @typescript-eslint/unbound-method */
+import { integration } from "../../integration";
+import { addModeratorEffect } from "../add-moderator";
+
+jest.mock("../../integration", () => ({
+    integration: {
+        getModeratorManager: jest.fn()
+    }
+}));
+
+jest.mock("../../main", () => ({
+    logger: {
+        error: jest.fn(),
+        debug: jest.fn(),
+        info: jest.fn()
+    }
+}));
+
+describe("YouTube Add Moderator Effect", () => {
+    const mockModeratorManager = {
+        addModerator: jest.fn()
+    };
+
+    const runEffect = (effect: any) =>
+        addModeratorEffect.onTriggerEvent({
+            trigger: {} as any,
+            effect,
+            sendDataToOverlay: jest.fn(),
+            abortSignal: new AbortController().signal
+        });
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        (integration.getModeratorManager as jest.Mock).mockReturnValue(mockModeratorManager);
+        mockModeratorManager.addModerator.mockResolvedValue(true);
+    });
+
+    it("should require a user ID", () => {
+        expect(addModeratorEffect.optionsValidator?.({ userId: "" })).toEqual(["User ID can't be blank."]);
+        expect(addModeratorEffect.optionsValidator?.({ userId: "$userId" })).toEqual([]);
+    });
+
+    it("should add the moderator by channel ID", async () => {
+        const result = await runEffect({ userId: " yUCviewer " });
+
+        expect(result).toBe(true);
+        expect(mockModeratorManager.addModerator).toHaveBeenCalledWith("UCviewer");
+    });
+
+    it("should handle exceptions without crashing (fire-and-forget)", async () => {
+        mockModeratorManager.addModerator.mockRejectedValue(new Error("Test error"));
+
+        const result = await runEffect({ userId: "UCviewer" });
+
+        expect(result).toBe(true);
+    });
+});
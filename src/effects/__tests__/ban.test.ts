@@ -0,0 +1,69 @@
+/* eslint-disable @typescript-eslint/unbound-method */
+import { integration } from "../../integration";
+import { banEffect } from "../ban";
+
+jest.mock("../../integration", () => ({
+    integration: {
+        getRestApiClient: jest.fn()
+    }
+}));
+
+jest.mock("../../main", () => ({
+    logger: {
+        error: jest.fn(),
+        warn: jest.fn(),
+        debug: jest.fn(),
+        info: jest.fn()
+    }
+}));
+
+describe("YouTube Ban Effect", () => {
+    const mockRestApiClient = {
+        banUser: jest.fn(),
+        unbanUser: jest.fn()
+    };
+
+    const runEffect = (effect: any) =>
+        banEffect.onTriggerEvent({
+            trigger: {} as any,
+            effect,
+            sendDataToOverlay: jest.fn(),
+            abortSignal: new AbortController().signal
+        });
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        (integration.getRestApiClient as jest.Mock).mockReturnValue(mockRestApiClient);
+        mockRestApiClient.banUser.mockResolvedValue(true);
+        mockRestApiClient.unbanUser.mockResolvedValue(true);
+    });
+
+    it("should require a user ID", () => {
+        expect(banEffect.optionsValidator?.({ action: "Ban", userId: " " })).toEqual(["User ID can't be blank."]);
+        expect(banEffect.optionsValidator?.({ action: "Ban", userId: "yUCviewer" })).toEqual([]);
+    });
+
+    it("should permanently ban the user by channel ID", async () => {
+        const result = await runEffect({ action: "Ban", userId: "yUCviewer" });
+
+        expect(result).toBe(true);
+        expect(mockRestApiClient.banUser).toHaveBeenCalledWith("UCviewer");
+        expect(mockRestApiClient.unbanUser).not.toHaveBeenCalled();
+    });
+
+    it("should unban the user by channel ID", async () => {
+        const result = await runEffect({ action: "Unban", userId: "UCviewer" });
+
+        expect(result).toBe(true);
+        expect(mockRestApiClient.unbanUser).toHaveBeenCalledWith("UCviewer");
+        expect(mockRestApiClient.banUser).not.toHaveBeenCalled();
+    });
+
+    it("should handle exceptions without crashing (fire-and-forget)", async () => {
+        mockRestApiClient.banUser.mockRejectedValue(new Error("Test error"));
+
+        const result = await runEffect({ action: "Ban", userId: "yUCviewer" });
+
+        expect(result).toBe(true);
+    });
+});
@@ -0,0 +1,74 @@
+/* eslint-disable @typescript-eslint/unbound-method */
+import { integration } from "../../integration";
+import { logger } from "../../main";
+import { deleteMessageEffect } from "../delete-message";
+
+jest.mock("../../integration", () => ({
+    integration: {
+        getRestApiClient: jest.fn()
+    }
+}));
+
+jest.mock("../../main", () => ({
+    logger: {
+        error: jest.fn(),
+        warn: jest.fn(),
+        debug: jest.fn(),
+        info: jest.fn()
+    }
+}));
+
+describe("YouTube Delete Chat Message Effect", () => {
+    const mockRestApiClient = {
+        deleteChatMessage: jest.fn()
+    };
+
+    const runEffect = (effect: any, metadata: any = {}) =>
+        deleteMessageEffect.onTriggerEvent({
+            trigger: { type: "command", metadata } as any,
+            effect,
+            sendDataToOverlay: jest.fn(),
+            abortSignal: new AbortController().signal
+        });
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        (integration.getRestApiClient as jest.Mock).mockReturnValue(mockRestApiClient);
+        mockRestApiClient.deleteChatMessage.mockResolvedValue(true);
+    });
+
+    it("should delete the message with the given ID", async () => {
+        const result = await runEffect({ messageId: " msg123 " }, { chatMessage: { id: "other" } });
+
+        expect(result).toBe(true);
+        expect(mockRestApiClient.deleteChatMessage).toHaveBeenCalledWith("msg123");
+    });
+
+    it("should delete the triggering command message when no ID is given", async () => {
+        await runEffect({ messageId: "" }, { chatMessage: { id: "cmd-msg" } });
+
+        expect(mockRestApiClient.deleteChatMessage).toHaveBeenCalledWith("cmd-msg");
+    });
+
+    it("should delete the triggering event message when no ID is given", async () => {
+        await runEffect({}, { eventData: { messageId: "event-msg" } });
+
+        expect(mockRestApiClient.deleteChatMessage).toHaveBeenCalledWith("event-msg");
+    });
+
+    it("should warn when there is no message to delete", async () => {
+        const result = await runEffect({}, {});
+
+        expect(result).toBe(true);
+        expect(mockRestApiClient.deleteChatMessage).not.toHaveBeenCalled();
+        expect(logger.warn).toHaveBeenCalledWith("Delete Chat Message effect: No message ID provided and no triggering chat message found");
+    });
+
+    it("should handle exceptions without crashing (fire-and-forget)", async () => {
+        mockRestApiClient.deleteChatMessage.mockRejectedValue(new Error("Test error"));
+
+        const result = await runEffect({ messageId: "msg123" });
+
+        expect(result).toBe(true);
+    });
+});
@@ -0,0 +1,96 @@
+/* eslint-disable @typescript-eslint/unbound-method */
+import { integration } from "../../integration";
+import { logger } from "../../main";
+import { pollEffect } from "../poll";
+
+jest.mock("../../integration", () => ({
+    integration: {
+        getActivePollId: jest.fn(),
+        getRestApiClient: jest.fn()
+    }
+}));
+
+jest.mock("../../main", () => ({
+    logger: {
+        error: jest.fn(),
+        warn: jest.fn(),
+        debug: jest.fn(),
+        info: jest.fn()
+    }
+}));
+
+describe("YouTube Poll Effect", () => {
+    const mockRestApiClient = {
+        createPoll: jest.fn(),
+        endPoll: jest.fn()
+    };
+
+    const runEffect = (effect: any) =>
+        pollEffect.onTriggerEvent({
+            trigger: {} as any,
+            effect,
+            sendDataToOverlay: jest.fn(),
+            abortSignal: new AbortController().signal
+        });
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        (integration.getRestApiClient as jest.Mock).mockReturnValue(mockRestApiClient);
+        mockRestApiClient.createPoll.mockResolvedValue("poll123");
+        mockRestApiClient.endPoll.mockResolvedValue(true);
+    });
+
+    describe("optionsValidator", () => {
+        it("should require a question and 2-4 options when creating", () => {
+            expect(pollEffect.optionsValidator?.({ action: "create", question: "", options: ["A"] })).toEqual(["Poll question can't be blank.", "A poll must have between 2 and 4 options."]);
+        });
+
+        it("should ignore blank options when counting", () => {
+            expect(pollEffect.optionsValidator?.({ action: "create", question: "Q?", options: ["A", " ", "B"] })).toEqual([]);
+        });
+
+        it("should reject more than 4 options", () => {
+            expect(pollEffect.optionsValidator?.({ action: "create", question: "Q?", options: ["A", "B", "C", "D", "E"] })).toEqual(["A poll must have between 2 and 4 options."]);
+        });
+
+        it("should not require a question when ending", () => {
+            expect(pollEffect.optionsValidator?.({ action: "end", question: "", options: [] })).toEqual([]);
+        });
+    });
+
+    describe("onTriggerEvent", () => {
+        it("should create a poll with trimmed, non-blank options", async () => {
+            const result = await runEffect({ action: "create", question: " Q? ", options: [" A ", "", "B"] });
+
+            expect(result).toBe(true);
+            expect(mockRestApiClient.createPoll).toHaveBeenCalledWith("Q?", ["A", "B"]);
+        });
+
+        it("should end the active poll", async () => {
+            (integration.getActivePollId as jest.Mock).mockReturnValue("poll123");
+
+            const result = await runEffect({ action: "end", question: "", options: [] });
+
+            expect(result).toBe(true);
+            expect(mockRestApiClient.endPoll).toHaveBeenCalledWith("poll123");
+        });
+
+        it("should warn and do nothing when ending with no active poll", async () => {
+            (integration.getActivePollId as jest.Mock).mockReturnValue(null);
+
+            const result = await runEffect({ action: "end", question: "", options: [] });
+
+            expect(result).toBe(true);
+            expect(mockRestApiClient.endPoll).not.toHaveBeenCalled();
+            expect(logger.warn).toHaveBeenCalledWith("Poll effect: No active YouTube poll to end");
+        });
+
+        it("should handle exceptions without crashing (fire-and-forget)", async () => {
+            mockRestApiClient.createPoll.mockRejectedValue(new Error("Test error"));
+
+            const result = await runEffect({ action: "create", question: "Q?", options: ["A", "B"] });
+
+            expect(result).toBe(true);
+        });
+    });
+});
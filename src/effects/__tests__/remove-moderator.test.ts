@@ -0,0 +1,57 @@
+/* eslint-disable @typescript-eslint/unbound-method */
+import { integration } from "../../integration";
+import { removeModeratorEffect } from "../remove-moderator";
+
+jest.mock("../../integration", () => ({
+    integration: {
+        getModeratorManager: jest.fn()
+    }
+}));
+
+jest.mock("../../main", () => ({
+    logger: {
+        error: jest.fn(),
+        debug: jest.fn(),
+        info: jest.fn()
+    }
+}));
+
+describe("YouTube Remove Moderator Effect", () => {
+    const mockModeratorManager = {
+        removeModerator: jest.fn()
+    };
+
+    const runEffect = (effect: any) =>
+        removeModeratorEffect.onTriggerEvent({
+            trigger: {} as any,
+            effect,
+            sendDataToOverlay: jest.fn(),
+            abortSignal: new AbortController().signal
+        });
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        (integration.getModeratorManager as jest.Mock).mockReturnValue(mockModeratorManager);
+        mockModeratorManager.removeModerator.mockResolvedValue(true);
+    });
+
+    it("should require a user ID", () => {
+        expect(removeModeratorEffect.optionsValidator?.({ userId: "" })).toEqual(["User ID can't be blank."]);
+        expect(removeModeratorEffect.optionsValidator?.({ userId: "$userId" })).toEqual([]);
+    });
+
+    it("should remove the moderator by channel ID", async () => {
+        const result = await runEffect({ userId: " yUCviewer " });
+
+        expect(result).toBe(true);
+        expect(mockModeratorManager.removeModerator).toHaveBeenCalledWith("UCviewer");
+    });
+
+    it("should handle exceptions without crashing (fire-and-forget)", async () => {
+        mockModeratorManager.removeModerator.mockRejectedValue(new Error("Test error"));
+
+        const result = await runEffect({ userId: "UCviewer" });
+
+        expect(result).toBe(true);
+    });
+});
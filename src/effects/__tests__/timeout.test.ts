@@ -0,0 +1,59 @@
+/* eslint-disable @typescript-eslint/unbound-method */
+import { integration } from "../../integration";
+import { logger } from "../../main";
+import { timeoutEffect } from "../timeout";
+
+jest.mock("../../integration", () => ({
+    integration: {
+        getRestApiClient: jest.fn()
+    }
+}));
+
+jest.mock("../../main", () => ({
+    logger: {
+        error: jest.fn(),
+        warn: jest.fn(),
+        debug: jest.fn(),
+        info: jest.fn()
+    }
+}));
+
+describe("YouTube Timeout Effect", () => {
+    const mockRestApiClient = {
+        banUser: jest.fn()
+    };
+
+    const runEffect = (effect: any) =>
+        timeoutEffect.onTriggerEvent({
+            trigger: {} as any,
+            effect,
+            sendDataToOverlay: jest.fn(),
+            abortSignal: new AbortController().signal
+        });
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        (integration.getRestApiClient as jest.Mock).mockReturnValue(mockRestApiClient);
+        mockRestApiClient.banUser.mockResolvedValue(true);
+    });
+
+    it("should require a user ID and time", () => {
+        expect(timeoutEffect.optionsValidator?.({ userId: "", time: "" })).toEqual(["User ID can't be blank.", "Time can't be blank."]);
+        expect(timeoutEffect.optionsValidator?.({ userId: "yUCviewer", time: "$arg[2]" })).toEqual([]);
+    });
+
+    it("should temporarily ban the user for the given number of seconds", async () => {
+        const result = await runEffect({ userId: "yUCviewer", time: "300" });
+
+        expect(result).toBe(true);
+        expect(mockRestApiClient.banUser).toHaveBeenCalledWith("UCviewer", 300);
+    });
+
+    it.each(["0", "-5", "abc"])("should warn and skip an invalid duration (%s)", async (time) => {
+        const result = await runEffect({ userId: "yUCviewer", time });
+
+        expect(result).toBe(true);
+        expect(mockRestApiClient.banUser).not.toHaveBeenCalled();
+        expect(logger.warn).toHaveBeenCalledWith(`Timeout effect: Invalid timeout duration "${time}"`);
+    });
+});
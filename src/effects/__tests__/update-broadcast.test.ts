@@ -0,0 +1,88 @@
+/* eslint-disable @typescript-eslint/unbound-method */
+import { integration } from "../../integration";
+import { logger } from "../../main";
+import { updateBroadcastEffect } from "../update-broadcast";
+
+jest.mock("../../integration", () => ({
+    integration: {
+        updateBroadcastMetadata: jest.fn()
+    }
+}));
+
+jest.mock("../../main", () => ({
+    logger: {
+        error: jest.fn(),
+        warn: jest.fn(),
+        debug: jest.fn(),
+        info: jest.fn()
+    }
+}));
+
+describe("YouTube Update Broadcast Effect", () => {
+    const emptyEffect = { title: "", description: "", privacyStatus: "" as const, categoryId: "" };
+
+    const runEffect = (effect: any) =>
+        updateBroadcastEffect.onTriggerEvent({
+            trigger: {} as any,
+            effect,
+            sendDataToOverlay: jest.fn(),
+            abortSignal: new AbortController().signal
+        });
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        (integration.updateBroadcastMetadata as jest.Mock).mockResolvedValue(true);
+    });
+
+    describe("optionsValidator", () => {
+        it("should require at least one change", () => {
+            expect(updateBroadcastEffect.optionsValidator?.(emptyEffect)).toEqual(["Choose at least one thing to change."]);
+        });
+
+        it("should accept a privacy change on its own", () => {
+            expect(updateBroadcastEffect.optionsValidator?.({ ...emptyEffect, privacyStatus: "unlisted" })).toEqual([]);
+        });
+
+        it("should reject titles over 100 characters and angle brackets", () => {
+            expect(updateBroadcastEffect.optionsValidator?.({ ...emptyEffect, title: "x".repeat(101) })).toEqual(["Title can't be longer than 100 characters."]);
+            expect(updateBroadcastEffect.optionsValidator?.({ ...emptyEffect, title: "<b>hi</b>" })).toEqual(["Title and description can't contain < or >."]);
+        });
+    });
+
+    describe("onTriggerEvent", () => {
+        it("should only send the fields that were filled in", async () => {
+            const result = await runEffect({ ...emptyEffect, title: " New Title ", categoryId: "20" });
+
+            expect(result).toBe(true);
+            expect(integration.updateBroadcastMetadata).toHaveBeenCalledWith({ title: "New Title", categoryId: "20" });
+        });
+
+        it("should send every field when all are set", async () => {
+            await runEffect({ title: "T", description: "D", privacyStatus: "public", categoryId: "24" });
+
+            expect(integration.updateBroadcastMetadata).toHaveBeenCalledWith({ title: "T", description: "D", privacyStatus: "public", categoryId: "24" });
+        });
+
+        it("should skip the update when an expanded title is too long", async () => {
+            const result = await runEffect({ ...emptyEffect, title: "x".repeat(150) });
+
+            expect(result).toBe(true);
+            expect(integration.updateBroadcastMetadata).not.toHaveBeenCalled();
+            expect(logger.warn).toHaveBeenCalledWith("Update Broadcast effect: Title can't be longer than 100 characters.");
+        });
+
+        it("should do nothing when there is nothing to change", async () => {
+            await runEffect(emptyEffect);
+
+            expect(integration.updateBroadcastMetadata).not.toHaveBeenCalled();
+        });
+
+        it("should handle exceptions without crashing (fire-and-forget)", async () => {
+            (integration.updateBroadcastMetadata as jest.Mock).mockRejectedValue(new Error("Test error"));
+
+            const result = await runEffect({ ...emptyEffect, title: "T" });
+
+            expect(result).toBe(true);
+        });
+    });
+});
@@ -0,0 +1,46 @@
+import { Firebot } from "@crowbartools/firebot-custom-scripts-types";
+import { integration } from "../integration";
+import { logger } from "../main";
+import { unYouTubeifyUserId } from "../util/user";
+
+type addModeratorEffectParams = {
+    userId: string;
+};
+
+export const addModeratorEffect: Firebot.EffectType<addModeratorEffectParams> = {
+    definition: {
+        id: "mage-youtube-integration:add-moderator",
+        name: "Add Moderator (YouTube)",
+        description: "Make a viewer a moderator of the YouTube live chat.",
+        icon: "fad fa-user-shield",
+        categories: ["common", "Moderation"],
+        dependencies: ["chat"]
+    },
+    optionsTemplate: `
+    <eos-container header="User ID" pad-top="true">
+        <firebot-input
+            model="effect.userId"
+            placeholder-text="Enter YouTube user ID (e.g. $userId)"
+            menu-position="under"
+        />
+    </eos-container>
+    `,
+    optionsController: () => {
+        // No options to initialize
+    },
+    optionsValidator: (effect) => {
+        const errors = [];
+        if (effect.userId == null || effect.userId.trim() === "") {
+            errors.push("User ID can't be blank.");
+        }
+        return errors;
+    },
+    onTriggerEvent: async ({ effect }) => {
+        // Fire and forget: don't await the API call to avoid blocking
+        const moderatorManager = integration.getModeratorManager();
+        moderatorManager.addModerator(unYouTubeifyUserId(effect.userId.trim())).catch((error) => {
+            logger.error(`Error adding YouTube moderator in effect: ${error}`);
+        });
+        return true;
+    }
+};
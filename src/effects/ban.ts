@@ -0,0 +1,62 @@
+import { Firebot } from "@crowbartools/firebot-custom-scripts-types";
+import { integration } from "../integration";
+import { logger } from "../main";
+import { unYouTubeifyUserId } from "../util/user";
+
+type banEffectParams = {
+    action: "Ban" | "Unban";
+    userId: string;
+};
+
+export const banEffect: Firebot.EffectType<banEffectParams> = {
+    definition: {
+        id: "mage-youtube-integration:ban",
+        name: "Ban (YouTube)",
+        description: "Ban or unban a viewer from YouTube live chat.",
+        icon: "fad fa-ban",
+        categories: ["common", "Moderation"],
+        dependencies: ["chat"]
+    },
+    optionsTemplate: `
+    <eos-container header="Action" pad-top="true">
+        <dropdown-select options="['Ban', 'Unban']" selected="effect.action"></dropdown-select>
+    </eos-container>
+
+    <eos-container header="User ID" pad-top="true">
+        <firebot-input
+            model="effect.userId"
+            placeholder-text="Enter YouTube user ID (e.g. $userId)"
+            menu-position="under"
+        />
+        <p class="muted" ng-if="effect.action === 'Unban'">Only bans issued by this integration can be lifted.</p>
+    </eos-container>
+    `,
+    optionsController: ($scope) => {
+        if ($scope.effect.action == null) {
+            $scope.effect.action = "Ban";
+        }
+    },
+    optionsValidator: (effect) => {
+        const errors = [];
+        if (effect.userId == null || effect.userId.trim() === "") {
+            errors.push("User ID can't be blank.");
+        }
+        return errors;
+    },
+    onTriggerEvent: async ({ effect }) => {
+        const channelId = unYouTubeifyUserId(effect.userId.trim());
+        const restApiClient = integration.getRestApiClient();
+
+        // Fire and forget: don't await the API call to avoid blocking
+        if (effect.action === "Unban") {
+            restApiClient.unbanUser(channelId).catch((error) => {
+                logger.error(`Error unbanning YouTube user in effect: ${error}`);
+            });
+        } else {
+            restApiClient.banUser(channelId).catch((error) => {
+                logger.error(`Error banning YouTube user in effect: ${error}`);
+            });
+        }
+        return true;
+    }
+};
@@ -0,0 +1,48 @@
+import { Firebot } from "@crowbartools/firebot-custom-scripts-types";
+import { integration } from "../integration";
+import { logger } from "../main";
+
+type deleteMessageEffectParams = {
+    messageId: string;
+};
+
+export const deleteMessageEffect: Firebot.EffectType<deleteMessageEffectParams> = {
+    definition: {
+        id: "mage-youtube-integration:delete-message",
+        name: "Delete Chat Message (YouTube)",
+        description: "Delete a message from YouTube live chat.",
+        icon: "fad fa-comment-times",
+        categories: ["common", "chat based", "Moderation"],
+        dependencies: ["chat"]
+    },
+    optionsTemplate: `
+    <eos-container header="Message ID" pad-top="true">
+        <firebot-input
+            model="effect.messageId"
+            placeholder-text="Leave blank to delete the triggering message"
+            menu-position="under"
+        />
+        <p class="muted">When blank, deletes the chat message that triggered this command or event.</p>
+    </eos-container>
+    `,
+    optionsController: () => {
+        // No options to initialize
+    },
+    optionsValidator: () => {
+        return [];
+    },
+    onTriggerEvent: async ({ effect, trigger }) => {
+        const messageId = effect.messageId?.trim() || trigger.metadata.chatMessage?.id || trigger.metadata.eventData?.messageId;
+        if (!messageId) {
+            logger.warn("Delete Chat Message effect: No message ID provided and no triggering chat message found");
+            return true;
+        }
+
+        // Fire and forget: don't await the API call to avoid blocking
+        const restApiClient = integration.getRestApiClient();
+        restApiClient.deleteChatMessage(messageId as string).catch((error) => {
+            logger.error(`Error deleting YouTube chat message in effect: ${error}`);
+        });
+        return true;
+    }
+};
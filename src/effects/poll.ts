@@ -0,0 +1,104 @@
+import { Firebot } from "@crowbartools/firebot-custom-scripts-types";
+import { integration } from "../integration";
+import { logger } from "../main";
+
+type pollEffectParams = {
+    action: "create" | "end";
+    question: string;
+    options: string[];
+};
+
+const MIN_POLL_OPTIONS = 2;
+const MAX_POLL_OPTIONS = 4;
+
+export const pollEffect: Firebot.EffectType<pollEffectParams> = {
+    definition: {
+        id: "mage-youtube-integration:poll",
+        name: "Poll (YouTube)",
+        description: "Create or end a poll in YouTube live chat.",
+        icon: "fad fa-poll-h",
+        categories: ["common", "chat based"],
+        dependencies: ["chat"]
+    },
+    optionsTemplate: `
+    <eos-container header="Action" pad-top="true">
+        <dropdown-select options="actionOptions" selected="effect.action"></dropdown-select>
+    </eos-container>
+
+    <eos-container header="Question" pad-top="true" ng-if="effect.action === 'create'">
+        <firebot-input
+            model="effect.question"
+            placeholder-text="Enter poll question"
+            menu-position="under"
+        />
+    </eos-container>
+
+    <eos-container header="Options" pad-top="true" ng-if="effect.action === 'create'">
+        <editable-list settings="optionListSettings" model="effect.options" />
+        <p class="muted">YouTube polls require between ${MIN_POLL_OPTIONS} and ${MAX_POLL_OPTIONS} options.</p>
+    </eos-container>
+
+    <eos-container pad-top="true" ng-if="effect.action === 'end'">
+        <p class="muted">Ends the poll that is currently running in YouTube live chat, if any.</p>
+    </eos-container>
+    `,
+    optionsController: ($scope) => {
+        $scope.actionOptions = {
+            create: "Create poll",
+            end: "End active poll"
+        };
+
+        $scope.optionListSettings = {
+            sortable: true,
+            addLabel: "Add Option",
+            editLabel: "Edit Option",
+            inputPlaceholder: "Enter option",
+            noneAddedText: "No options added"
+        };
+
+        if ($scope.effect.action == null) {
+            $scope.effect.action = "create";
+        }
+        if ($scope.effect.options == null) {
+            $scope.effect.options = [];
+        }
+    },
+    optionsValidator: (effect) => {
+        const errors = [];
+        if (effect.action === "create") {
+            if (effect.question == null || effect.question.trim() === "") {
+                errors.push("Poll question can't be blank.");
+            }
+            const options = (effect.options || []).filter((option) => option && option.trim() !== "");
+            if (options.length < MIN_POLL_OPTIONS || options.length > MAX_POLL_OPTIONS) {
+                errors.push(`A poll must have between ${MIN_POLL_OPTIONS} and ${MAX_POLL_OPTIONS} options.`);
+            }
+        }
+        return errors;
+    },
+    onTriggerEvent: async ({ effect }) => {
+        const restApiClient = integration.getRestApiClient();
+
+        if (effect.action === "end") {
+            const pollId = integration.getActivePollId();
+            if (!pollId) {
+                logger.warn("Poll effect: No active YouTube poll to end");
+                return true;
+            }
+
+            // Fire and forget: don't await the API call to avoid blocking
+            restApiClient.endPoll(pollId).catch((error) => {
+                logger.error(`Error ending YouTube poll in effect: ${error}`);
+            });
+            return true;
+        }
+
+        const options = (effect.options || []).map((option) => option.trim()).filter((option) => option !== "");
+
+        // Fire and forget: don't await the API call to avoid blocking
+        restApiClient.createPoll(effect.question.trim(), options).catch((error) => {
+            logger.error(`Error creating YouTube poll in effect: ${error}`);
+        });
+        return true;
+    }
+};
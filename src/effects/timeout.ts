@@ -0,0 +1,64 @@
+import { Firebot } from "@crowbartools/firebot-custom-scripts-types";
+import { integration } from "../integration";
+import { logger } from "../main";
+import { unYouTubeifyUserId } from "../util/user";
+
+type timeoutEffectParams = {
+    userId: string;
+    time: string;
+};
+
+export const timeoutEffect: Firebot.EffectType<timeoutEffectParams> = {
+    definition: {
+        id: "mage-youtube-integration:timeout",
+        name: "Timeout (YouTube)",
+        description: "Temporarily ban a viewer from YouTube live chat.",
+        icon: "fad fa-user-clock",
+        categories: ["common", "Moderation"],
+        dependencies: ["chat"]
+    },
+    optionsTemplate: `
+    <eos-container header="User ID" pad-top="true">
+        <firebot-input
+            model="effect.userId"
+            placeholder-text="Enter YouTube user ID (e.g. $userId)"
+            menu-position="under"
+        />
+    </eos-container>
+
+    <eos-container header="Time" pad-top="true">
+        <firebot-input
+            model="effect.time"
+            placeholder-text="Enter time in seconds"
+            menu-position="under"
+        />
+    </eos-container>
+    `,
+    optionsController: () => {
+        // No options to initialize
+    },
+    optionsValidator: (effect) => {
+        const errors = [];
+        if (effect.userId == null || effect.userId.trim() === "") {
+            errors.push("User ID can't be blank.");
+        }
+        if (effect.time == null || String(effect.time).trim() === "") {
+            errors.push("Time can't be blank.");
+        }
+        return errors;
+    },
+    onTriggerEvent: async ({ effect }) => {
+        const duration = Math.floor(Number(effect.time));
+        if (!Number.isFinite(duration) || duration <= 0) {
+            logger.warn(`Timeout effect: Invalid timeout duration "${effect.time}"`);
+            return true;
+        }
+
+        // Fire and forget: don't await the API call to avoid blocking
+        const restApiClient = integration.getRestApiClient();
+        restApiClient.banUser(unYouTubeifyUserId(effect.userId.trim()), duration).catch((error) => {
+            logger.error(`Error timing out YouTube user in effect: ${error}`);
+        });
+        return true;
+    }
+};
@@ -0,0 +1,152 @@
+import { Firebot } from "@crowbartools/firebot-custom-scripts-types";
+import { integration } from "../integration";
+import type { BroadcastMetadataUpdate, BroadcastPrivacyStatus } from "../internal/broadcast-manager";
+import { logger } from "../main";
+
+type updateBroadcastEffectParams = {
+    title: string;
+    description: string;
+    privacyStatus: "" | BroadcastPrivacyStatus;
+    categoryId: string;
+};
+
+const MAX_TITLE_LENGTH = 100;
+const MAX_DESCRIPTION_LENGTH = 5000;
+
+/**
+ * Common YouTube video categories (IDs are the same in all regions that offer the category)
+ */
+const VIDEO_CATEGORIES: Record<string, string> = {
+    "1": "Film & Animation",
+    "2": "Autos & Vehicles",
+    "10": "Music",
+    "15": "Pets & Animals",
+    "17": "Sports",
+    "19": "Travel & Events",
+    "20": "Gaming",
+    "22": "People & Blogs",
+    "23": "Comedy",
+    "24": "Entertainment",
+    "25": "News & Politics",
+    "26": "Howto & Style",
+    "27": "Education",
+    "28": "Science & Technology",
+    "29": "Nonprofits & Activism"
+};
+
+/**
+ * Check title and description against YouTube's limits
+ */
+function validateText(title: string, description: string): string[] {
+    const errors = [];
+    if (title.length > MAX_TITLE_LENGTH) {
+        errors.push(`Title can't be longer than ${MAX_TITLE_LENGTH} characters.`);
+    }
+    if (/[<>]/.test(title) || /[<>]/.test(description)) {
+        errors.push("Title and description can't contain < or >.");
+    }
+    if (description.length > MAX_DESCRIPTION_LENGTH) {
+        errors.push(`Description can't be longer than ${MAX_DESCRIPTION_LENGTH} characters.`);
+    }
+    return errors;
+}
+
+export const updateBroadcastEffect: Firebot.EffectType<updateBroadcastEffectParams> = {
+    definition: {
+        id: "mage-youtube-integration:update-broadcast",
+        name: "Update Broadcast (YouTube)",
+        description: "Change the title, description, privacy status or category of the active YouTube broadcast.",
+        icon: "fad fa-edit",
+        categories: ["common"],
+        dependencies: []
+    },
+    optionsTemplate: `
+    <eos-container header="Title" pad-top="true">
+        <firebot-input
+            model="effect.title"
+            placeholder-text="Leave blank to keep the current title"
+            menu-position="under"
+        />
+    </eos-container>
+
+    <eos-container header="Description" pad-top="true">
+        <firebot-input
+            model="effect.description"
+            use-text-area="true"
+            placeholder-text="Leave blank to keep the current description"
+            rows="4"
+            cols="40"
+            menu-position="under"
+        />
+    </eos-container>
+
+    <eos-container header="Privacy Status" pad-top="true">
+        <dropdown-select options="privacyOptions" selected="effect.privacyStatus"></dropdown-select>
+    </eos-container>
+
+    <eos-container header="Category" pad-top="true">
+        <dropdown-select options="categoryOptions" selected="effect.categoryId"></dropdown-select>
+    </eos-container>
+    `,
+    optionsController: ($scope) => {
+        $scope.privacyOptions = {
+            "": "Don't change",
+            public: "Public",
+            unlisted: "Unlisted",
+            private: "Private"
+        };
+
+        $scope.categoryOptions = {
+            "": "Don't change",
+            ...VIDEO_CATEGORIES
+        };
+
+        if ($scope.effect.privacyStatus == null) {
+            $scope.effect.privacyStatus = "";
+        }
+        if ($scope.effect.categoryId == null) {
+            $scope.effect.categoryId = "";
+        }
+    },
+    optionsValidator: (effect) => {
+        const title = effect.title?.trim() || "";
+        const description = effect.description?.trim() || "";
+        if (!title && !description && !effect.privacyStatus && !effect.categoryId) {
+            return ["Choose at least one thing to change."];
+        }
+        return validateText(title, description);
+    },
+    onTriggerEvent: async ({ effect }) => {
+        const update: BroadcastMetadataUpdate = {};
+        if (effect.title?.trim()) {
+            update.title = effect.title.trim();
+        }
+        if (effect.description?.trim()) {
+            update.description = effect.description.trim();
+        }
+        if (effect.privacyStatus) {
+            update.privacyStatus = effect.privacyStatus;
+        }
+        if (effect.categoryId) {
+            update.categoryId = effect.categoryId;
+        }
+
+        // Variables are expanded at run time, so check the limits again
+        const errors = validateText(update.title || "", update.description || "");
+        if (errors.length > 0) {
+            logger.warn(`Update Broadcast effect: ${errors.join(" ")}`);
+            return true;
+        }
+
+        if (Object.keys(update).length === 0) {
+            logger.debug("Update Broadcast effect: Nothing to change");
+            return true;
+        }
+
+        // Fire and forget: don't await the API call to avoid blocking
+        integration.updateBroadcastMetadata(update).catch((error) => {
+            logger.error(`Error updating YouTube broadcast in effect: ${error}`);
+        });
+        return true;
+    }
+};
@@ -16,7 +16,19 @@ export enum ApplicationActivationCause {
     USER_CLICKED = "User clicked",
     AUTHORIZED_FIRST_APPLICATION = "Authorized first application",
     CHANGED_BY_EFFECT = "Changed by effect",
-    AUTOMATIC_QUOTA_FAILOVER = "Automatic quota failover"
+    AUTOMATIC_QUOTA_FAILOVER = "Automatic quota failover",
+    ROTATION_POLICY = "Rotation policy"
+}
+
+/**
+ * Connection states reported by the connection supervisor
+ */
+export enum ConnectionState {
+    DISCONNECTED = "Disconnected",
+    CONNECTED = "Connected",
+    RECONNECTING = "Reconnecting",
+    WAITING_FOR_QUOTA_RESET = "Waiting for quota reset",
+    FAILED = "Failed"
 }
 
 /**
@@ -168,6 +180,245 @@ export const YouTubeEventSource: EventSource = {
                 userDisplayName: "ExampleUser"
             }
         },
+        {
+            id: "super-chat",
+            name: "Super Chat (YouTube)",
+            description: "When a viewer purchases a Super Chat",
+            cached: false,
+            activityFeed: {
+                icon: "fad fa-comment-dollar",
+                getMessage: (eventData: Record<string, unknown>) => {
+                    return `**${eventData.userDisplayName || eventData.username}** sent a **${eventData.amountDisplayString}** Super Chat${eventData.userComment ? `: ${eventData.userComment}` : ""}`;
+                }
+            },
+            manualMetadata: {
+                username: "ExampleUser@youtube",
+                userId: "yUC1234567890",
+                userDisplayName: "ExampleUser",
+                amount: 5,
+                amountMicros: 5000000,
+                currency: "USD",
+                amountDisplayString: "$5.00",
+                tier: 2,
+                userComment: "Great stream!"
+            }
+        },
+        {
+            id: "super-sticker",
+            name: "Super Sticker (YouTube)",
+            description: "When a viewer purchases a Super Sticker",
+            cached: false,
+            activityFeed: {
+                icon: "fad fa-sticky-note",
+                getMessage: (eventData: Record<string, unknown>) => {
+                    return `**${eventData.userDisplayName || eventData.username}** sent a **${eventData.amountDisplayString}** Super Sticker${eventData.stickerAltText ? ` (${eventData.stickerAltText})` : ""}`;
+                }
+            },
+            manualMetadata: {
+                username: "ExampleUser@youtube",
+                userId: "yUC1234567890",
+                userDisplayName: "ExampleUser",
+                amount: 1.99,
+                amountMicros: 1990000,
+                currency: "USD",
+                amountDisplayString: "$1.99",
+                tier: 1,
+                stickerId: "example-sticker",
+                stickerAltText: "Example sticker",
+                stickerAltTextLanguage: "en"
+            }
+        },
+        {
+            id: "new-member",
+            name: "New Member (YouTube)",
+            description: "When a viewer becomes a channel member or upgrades their membership level",
+            cached: false,
+            activityFeed: {
+                icon: "fad fa-star",
+                getMessage: (eventData: Record<string, unknown>) => {
+                    const level = eventData.memberLevelName ? ` (**${eventData.memberLevelName}**)` : "";
+                    return `**${eventData.userDisplayName || eventData.username}** ${eventData.isUpgrade ? "upgraded their membership" : "became a member"}${level}`;
+                }
+            },
+            manualMetadata: {
+                username: "ExampleUser@youtube",
+                userId: "yUC1234567890",
+                userDisplayName: "ExampleUser",
+                memberLevelName: "Member",
+                isUpgrade: false
+            }
+        },
+        {
+            id: "member-milestone",
+            name: "Member Milestone (YouTube)",
+            description: "When a member shares a membership milestone in chat",
+            cached: false,
+            activityFeed: {
+                icon: "fad fa-calendar-star",
+                getMessage: (eventData: Record<string, unknown>) => {
+                    return `**${eventData.userDisplayName || eventData.username}** has been a member for **${eventData.memberMonth}** months${eventData.userComment ? `: ${eventData.userComment}` : ""}`;
+                }
+            },
+            manualMetadata: {
+                username: "ExampleUser@youtube",
+                userId: "yUC1234567890",
+                userDisplayName: "ExampleUser",
+                memberLevelName: "Member",
+                memberMonth: 6,
+                userComment: "Half a year already!"
+            }
+        },
+        {
+            id: "membership-gifting",
+            name: "Memberships Gifted (YouTube)",
+            description: "When a viewer purchases memberships to gift to other viewers",
+            cached: false,
+            activityFeed: {
+                icon: "fad fa-gifts",
+                getMessage: (eventData: Record<string, unknown>) => {
+                    return `**${eventData.userDisplayName || eventData.username}** gifted **${eventData.giftCount}** memberships`;
+                }
+            },
+            manualMetadata: {
+                username: "ExampleUser@youtube",
+                userId: "yUC1234567890",
+                userDisplayName: "ExampleUser",
+                memberLevelName: "Member",
+                giftCount: 5
+            }
+        },
+        {
+            id: "gift-membership-received",
+            name: "Gift Membership Received (YouTube)",
+            description: "When a viewer receives a gifted membership",
+            cached: false,
+            manualMetadata: {
+                username: "ExampleUser@youtube",
+                userId: "yUC1234567890",
+                userDisplayName: "ExampleUser",
+                memberLevelName: "Member",
+                gifterUserId: "yUC0987654321",
+                gifterUsername: "GenerousUser@youtube",
+                gifterDisplayName: "GenerousUser",
+                associatedGiftingMessageId: "example-gifting-message-id"
+            }
+        },
+        {
+            id: "message-deleted",
+            name: "Chat Message Deleted (YouTube)",
+            description: "When a chat message is deleted by a moderator or retracted by its author",
+            cached: false,
+            manualMetadata: {
+                deletedMessageId: "example-message-id",
+                retracted: false,
+                username: "ExampleUser@youtube",
+                userId: "yUC1234567890",
+                userDisplayName: "ExampleUser",
+                messageText: "Example deleted message",
+                moderator: "ExampleModerator"
+            }
+        },
+        {
+            id: "viewer-banned",
+            name: "Viewer Banned (YouTube)",
+            description: "When a viewer is permanently banned from the live chat",
+            cached: false,
+            activityFeed: {
+                icon: "fad fa-gavel",
+                getMessage: (eventData: Record<string, unknown>) => {
+                    return `**${eventData.userDisplayName || eventData.username}** was banned by **${eventData.moderator}**`;
+                }
+            },
+            manualMetadata: {
+                username: "ExampleUser@youtube",
+                userId: "yUC1234567890",
+                userDisplayName: "ExampleUser",
+                moderator: "ExampleModerator",
+                banType: "permanent",
+                banDurationSeconds: 0
+            }
+        },
+        {
+            id: "viewer-timeout",
+            name: "Viewer Timeout (YouTube)",
+            description: "When a viewer is temporarily banned (timed out) from the live chat",
+            cached: false,
+            activityFeed: {
+                icon: "fad fa-stopwatch",
+                getMessage: (eventData: Record<string, unknown>) => {
+                    return `**${eventData.userDisplayName || eventData.username}** was timed out for **${eventData.timeoutDuration}** sec(s) by **${eventData.moderator}**`;
+                }
+            },
+            manualMetadata: {
+                username: "ExampleUser@youtube",
+                userId: "yUC1234567890",
+                userDisplayName: "ExampleUser",
+                moderator: "ExampleModerator",
+                banType: "temporary",
+                banDurationSeconds: 300,
+                timeoutDuration: 300
+            }
+        },
+        {
+            id: "poll-started",
+            name: "Poll Started (YouTube)",
+            description: "When a poll is opened in YouTube live chat",
+            cached: false,
+            activityFeed: {
+                icon: "fad fa-poll-h",
+                getMessage: (eventData: Record<string, unknown>) => {
+                    return `Poll started: **${eventData.questionText}**`;
+                }
+            },
+            manualMetadata: {
+                pollId: "example-poll-id",
+                questionText: "What should we play next?",
+                options: [
+                    { optionText: "Puzzle game", tally: 12 },
+                    { optionText: "Racing game", tally: 7 }
+                ],
+                totalVotes: 19,
+                winningOption: "Puzzle game"
+            }
+        },
+        {
+            id: "poll-updated",
+            name: "Poll Votes Updated (YouTube)",
+            description: "When the vote totals of the active YouTube poll change",
+            cached: false,
+            manualMetadata: {
+                pollId: "example-poll-id",
+                questionText: "What should we play next?",
+                options: [
+                    { optionText: "Puzzle game", tally: 12 },
+                    { optionText: "Racing game", tally: 7 }
+                ],
+                totalVotes: 19,
+                winningOption: "Puzzle game"
+            }
+        },
+        {
+            id: "poll-ended",
+            name: "Poll Ended (YouTube)",
+            description: "When a poll in YouTube live chat is closed",
+            cached: false,
+            activityFeed: {
+                icon: "fad fa-poll-h",
+                getMessage: (eventData: Record<string, unknown>) => {
+                    return `Poll ended: **${eventData.questionText}**${eventData.winningOption ? ` (winner: **${eventData.winningOption}**)` : ""}`;
+                }
+            },
+            manualMetadata: {
+                pollId: "example-poll-id",
+                questionText: "What should we play next?",
+                options: [
+                    { optionText: "Puzzle game", tally: 12 },
+                    { optionText: "Racing game", tally: 7 }
+                ],
+                totalVotes: 19,
+                winningOption: "Puzzle game"
+            }
+        },
         {
             id: "application-activated",
             name: "YouTube Application Activated",
@@ -192,6 +443,20 @@ export const YouTubeEventSource: EventSource = {
                 consecutiveFailures: 3
             }
         },
+        {
+            id: "connection-state-changed",
+            name: "Connection State Changed (YouTube)",
+            description: "When the YouTube connection is lost, reconnects, or gives up reconnecting",
+            cached: false,
+            manualMetadata: {
+                state: ConnectionState.RECONNECTING,
+                previousState: ConnectionState.CONNECTED,
+                errorCategory: ErrorCategory.NETWORK_ERROR,
+                errorMessage: "connect ECONNREFUSED 142.250.80.42:443",
+                attempt: 1,
+                retryInSeconds: 4
+            }
+        },
         {
             id: "stream-online",
             name: "Stream Started (YouTube)",
@@ -214,6 +479,22 @@ export const YouTubeEventSource: EventSource = {
                 getMessage: () => "YouTube stream ended"
             }
         },
+        {
+            id: "title-changed",
+            name: "Stream Title Changed (YouTube)",
+            description: "When the title of your YouTube broadcast is changed from Firebot or YouTube Studio",
+            cached: false,
+            activityFeed: {
+                icon: "fad fa-text",
+                getMessage: (eventData: Record<string, unknown>) => {
+                    return `YouTube stream title changed to **${eventData.title}**`;
+                }
+            },
+            manualMetadata: {
+                title: "Playing something new!",
+                previousTitle: "Just chatting"
+            }
+        },
         {
             id: "quota-threshold-crossed",
             name: "Quota Threshold Crossed (YouTube)",
@@ -240,6 +521,22 @@ export const YouTubeEventSource: EventSource = {
                 quotaLimit: 10000,
                 threshold: 95
             }
+        },
+        {
+            id: "quota-budget-blocked",
+            name: "Quota Budget Blocked Call (YouTube)",
+            description: "When an API call is refused because it would exceed its quota budget or use quota reserved for chat polling",
+            cached: false,
+            manualMetadata: {
+                applicationId: "12345678-1234-1234-1234-123456789012",
+                applicationName: "Example Application",
+                endpoint: "liveChatMessages.insert",
+                operationClass: "sending",
+                cost: 20,
+                reason: "8000 units are reserved for chat polling and only 8010 remain",
+                quotaConsumed: 1990,
+                quotaLimit: 10000
+            }
         }
     ]
 };
@@ -0,0 +1,40 @@
+import { IntegrationConstants } from "../../constants";
+import { ConnectionState } from "../../events";
+import { ErrorCategory } from "../../internal/error-constants";
+import { firebot } from "../../main";
+import { triggerConnectionStateChanged, YouTubeConnectionStateChangedEvent } from "../connection";
+
+// Mock the logger and firebot modules
+jest.mock("../../main", () => ({
+    firebot: {
+        modules: {
+            eventManager: {
+                triggerEvent: jest.fn()
+            }
+        }
+    },
+    logger: {
+        debug: jest.fn()
+    }
+}));
+
+describe("triggerConnectionStateChanged", () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+    });
+
+    it("should trigger the connection-state-changed event with correct event ID", () => {
+        const eventData: YouTubeConnectionStateChangedEvent = {
+            state: ConnectionState.RECONNECTING,
+            previousState: ConnectionState.CONNECTED,
+            errorCategory: ErrorCategory.NETWORK_ERROR,
+            errorMessage: "connect ECONNREFUSED",
+            attempt: 1,
+            retryInSeconds: 4
+        };
+
+        triggerConnectionStateChanged(eventData);
+
+        expect(firebot.modules.eventManager.triggerEvent).toHaveBeenCalledWith(IntegrationConstants.INTEGRATION_ID, "connection-state-changed", eventData as unknown as Record<string, unknown>);
+    });
+});
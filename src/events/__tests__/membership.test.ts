@@ -0,0 +1,81 @@
+/**
+ * Unit tests for channel membership event triggers
+ */
+
+import { IntegrationConstants } from "../../constants";
+import { firebot } from "../../main";
+import { triggerGiftMembershipReceived, triggerMemberMilestone, triggerMembershipGifting, triggerNewMember } from "../membership";
+
+jest.mock("../../main", () => ({
+    firebot: {
+        modules: {
+            eventManager: {
+                triggerEvent: jest.fn()
+            }
+        }
+    },
+    logger: {
+        debug: jest.fn()
+    }
+}));
+
+describe("Membership event triggers", () => {
+    const author = {
+        username: "Member@youtube",
+        userId: "yUCmember",
+        userDisplayName: "Member",
+        profilePicUrl: "https://example.com/avatar.jpg",
+        messageId: "message-1"
+    };
+
+    const expectTriggered = (eventId: string, eventData: Record<string, unknown>) => {
+        expect(firebot.modules.eventManager.triggerEvent).toHaveBeenCalledWith(IntegrationConstants.INTEGRATION_ID, eventId, {
+            eventSource: { id: IntegrationConstants.INTEGRATION_ID },
+            platform: "youtube",
+            ...eventData
+        });
+    };
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+    });
+
+    it("should trigger new-member event", () => {
+        const eventData = { ...author, memberLevelName: "Gold", isUpgrade: true };
+
+        triggerNewMember(eventData);
+
+        expectTriggered("new-member", eventData);
+    });
+
+    it("should trigger member-milestone event", () => {
+        const eventData = { ...author, memberLevelName: "Gold", memberMonth: 12, userComment: "One year!" };
+
+        triggerMemberMilestone(eventData);
+
+        expectTriggered("member-milestone", eventData);
+    });
+
+    it("should trigger membership-gifting event", () => {
+        const eventData = { ...author, memberLevelName: "Gold", giftCount: 10 };
+
+        triggerMembershipGifting(eventData);
+
+        expectTriggered("membership-gifting", eventData);
+    });
+
+    it("should trigger gift-membership-received event", () => {
+        const eventData = {
+            ...author,
+            memberLevelName: "Gold",
+            gifterUserId: "yUCgifter",
+            gifterUsername: "Gifter@youtube",
+            gifterDisplayName: "Gifter",
+            associatedGiftingMessageId: "gifting-1"
+        };
+
+        triggerGiftMembershipReceived(eventData);
+
+        expectTriggered("gift-membership-received", eventData);
+    });
+});
@@ -0,0 +1,74 @@
+/**
+ * Unit tests for chat moderation event triggers
+ */
+
+import { IntegrationConstants } from "../../constants";
+import { firebot } from "../../main";
+import { triggerMessageDeleted, triggerViewerBanned, triggerViewerTimeout } from "../moderation";
+
+jest.mock("../../main", () => ({
+    firebot: {
+        modules: {
+            eventManager: {
+                triggerEvent: jest.fn()
+            }
+        }
+    },
+    logger: {
+        debug: jest.fn()
+    }
+}));
+
+describe("Moderation event triggers", () => {
+    const bannedUser = {
+        username: "Troll@youtube",
+        userId: "yUCbanned",
+        userDisplayName: "Troll",
+        profilePicUrl: "",
+        moderator: "Moderator"
+    };
+
+    const expectTriggered = (eventId: string, eventData: object) => {
+        expect(firebot.modules.eventManager.triggerEvent).toHaveBeenCalledWith(IntegrationConstants.INTEGRATION_ID, eventId, {
+            eventSource: { id: IntegrationConstants.INTEGRATION_ID },
+            platform: "youtube",
+            ...eventData
+        });
+    };
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+    });
+
+    it("should trigger message-deleted event", () => {
+        const eventData = {
+            deletedMessageId: "message-1",
+            retracted: false,
+            username: "Viewer@youtube",
+            userId: "yUCviewer",
+            userDisplayName: "Viewer",
+            messageText: "spam",
+            moderator: "Moderator"
+        };
+
+        triggerMessageDeleted(eventData);
+
+        expectTriggered("message-deleted", eventData);
+    });
+
+    it("should trigger viewer-banned event", () => {
+        const eventData = { ...bannedUser, banType: "permanent" as const, banDurationSeconds: 0 };
+
+        triggerViewerBanned(eventData);
+
+        expectTriggered("viewer-banned", eventData);
+    });
+
+    it("should trigger viewer-timeout event", () => {
+        const eventData = { ...bannedUser, banType: "temporary" as const, banDurationSeconds: 60, timeoutDuration: 60 };
+
+        triggerViewerTimeout(eventData);
+
+        expectTriggered("viewer-timeout", eventData);
+    });
+});
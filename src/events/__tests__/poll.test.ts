@@ -0,0 +1,84 @@
+/**
+ * Unit tests for poll event triggers
+ */
+
+import { IntegrationConstants } from "../../constants";
+import { firebot } from "../../main";
+import { buildPollEventData, triggerPollEnded, triggerPollStarted, triggerPollUpdated } from "../poll";
+
+jest.mock("../../main", () => ({
+    firebot: {
+        modules: {
+            eventManager: {
+                triggerEvent: jest.fn()
+            }
+        }
+    },
+    logger: {
+        debug: jest.fn()
+    }
+}));
+
+describe("Poll events", () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+    });
+
+    describe("buildPollEventData", () => {
+        it("should convert tallies to numbers and compute totals and winner", () => {
+            const result = buildPollEventData("poll-1", "Best game?", [
+                { optionText: "A", tally: "3" },
+                { optionText: "B", tally: "5" }
+            ]);
+
+            expect(result).toEqual({
+                pollId: "poll-1",
+                questionText: "Best game?",
+                options: [
+                    { optionText: "A", tally: 3 },
+                    { optionText: "B", tally: 5 }
+                ],
+                totalVotes: 8,
+                winningOption: "B"
+            });
+        });
+
+        it("should join tied winners", () => {
+            const result = buildPollEventData("poll-1", "Best game?", [
+                { optionText: "A", tally: "4" },
+                { optionText: "B", tally: "4" },
+                { optionText: "C", tally: "1" }
+            ]);
+
+            expect(result.winningOption).toBe("A, B");
+        });
+
+        it("should have no winner when there are no votes", () => {
+            const result = buildPollEventData("poll-1", "Best game?", [{ optionText: "A" }, { optionText: "B", tally: "0" }]);
+
+            expect(result.totalVotes).toBe(0);
+            expect(result.winningOption).toBe("");
+        });
+    });
+
+    describe("triggers", () => {
+        const eventData = buildPollEventData("poll-1", "Best game?", [
+            { optionText: "A", tally: "1" },
+            { optionText: "B", tally: "2" }
+        ]);
+
+        it.each([
+            ["poll-started", triggerPollStarted],
+            ["poll-updated", triggerPollUpdated],
+            ["poll-ended", triggerPollEnded]
+        ])("should trigger %s event", (eventId, trigger) => {
+            trigger(eventData);
+
+            expect(firebot.modules.eventManager.triggerEvent).toHaveBeenCalledWith(IntegrationConstants.INTEGRATION_ID, eventId, {
+                eventSource: { id: IntegrationConstants.INTEGRATION_ID },
+                platform: "youtube",
+                ...eventData
+            });
+        });
+    });
+});
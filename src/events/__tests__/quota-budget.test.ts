@@ -0,0 +1,43 @@
+/**
+ * Unit tests for quota budget blocked call event trigger
+ */
+
+import { IntegrationConstants } from "../../constants";
+import { firebot } from "../../main";
+import { triggerQuotaBudgetBlocked, YouTubeQuotaBudgetBlockedEvent } from "../quota-budget";
+
+jest.mock("../../main", () => ({
+    firebot: {
+        modules: {
+            eventManager: {
+                triggerEvent: jest.fn()
+            }
+        }
+    },
+    logger: {
+        debug: jest.fn()
+    }
+}));
+
+describe("triggerQuotaBudgetBlocked", () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+    });
+
+    it("should trigger the quota-budget-blocked event with the event data", () => {
+        const eventData: YouTubeQuotaBudgetBlockedEvent = {
+            applicationId: "test-app-id",
+            applicationName: "Test App",
+            endpoint: "liveChatMessages.insert",
+            operationClass: "sending",
+            cost: 40,
+            reason: "2000 units are reserved for chat polling and only 2010 remain",
+            quotaConsumed: 7990,
+            quotaLimit: 10000
+        };
+
+        triggerQuotaBudgetBlocked(eventData);
+
+        expect(firebot.modules.eventManager.triggerEvent).toHaveBeenCalledWith(IntegrationConstants.INTEGRATION_ID, "quota-budget-blocked", eventData as unknown as Record<string, unknown>);
+    });
+});
@@ -4,7 +4,7 @@
 
 import { IntegrationConstants } from "../../constants";
 import { firebot } from "../../main";
-import { triggerStreamOffline, triggerStreamOnline } from "../stream";
+import { triggerStreamOffline, triggerStreamOnline, triggerTitleChanged } from "../stream";
 
 jest.mock("../../main", () => ({
     firebot: {
@@ -41,4 +41,18 @@ describe("Stream event triggers", () => {
             expect(mockEventManager.triggerEvent).toHaveBeenCalledWith(IntegrationConstants.INTEGRATION_ID, "stream-offline", {});
         });
     });
+
+    describe("triggerTitleChanged", () => {
+        it("should call eventManager.triggerEvent with the new and previous titles", () => {
+            triggerTitleChanged("New Title", "Old Title");
+
+            const mockEventManager = firebot.modules.eventManager;
+            expect(mockEventManager.triggerEvent).toHaveBeenCalledWith(IntegrationConstants.INTEGRATION_ID, "title-changed", {
+                eventSource: { id: IntegrationConstants.INTEGRATION_ID },
+                platform: "youtube",
+                title: "New Title",
+                previousTitle: "Old Title"
+            });
+        });
+    });
 });
@@ -0,0 +1,96 @@
+/**
+ * Unit tests for Super Chat and Super Sticker event triggers
+ */
+
+import { IntegrationConstants } from "../../constants";
+import { firebot } from "../../main";
+import { microsToAmount, triggerSuperChat, triggerSuperSticker, YouTubeSuperChatEvent, YouTubeSuperStickerEvent } from "../super-chat";
+
+jest.mock("../../main", () => ({
+    firebot: {
+        modules: {
+            eventManager: {
+                triggerEvent: jest.fn()
+            }
+        }
+    },
+    logger: {
+        debug: jest.fn()
+    }
+}));
+
+describe("Super Chat event triggers", () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+    });
+
+    describe("microsToAmount", () => {
+        it("should convert micros string to standard units", () => {
+            expect(microsToAmount("5000000")).toBe(5);
+            expect(microsToAmount("1990000")).toBe(1.99);
+        });
+
+        it("should convert micros number to standard units", () => {
+            expect(microsToAmount(250000)).toBe(0.25);
+        });
+
+        it("should return 0 for missing or invalid values", () => {
+            expect(microsToAmount(undefined)).toBe(0);
+            expect(microsToAmount("not-a-number")).toBe(0);
+        });
+    });
+
+    describe("triggerSuperChat", () => {
+        it("should trigger the super-chat event with event source and platform", () => {
+            const eventData: YouTubeSuperChatEvent = {
+                username: "Generous Viewer@youtube",
+                userId: "yUCsuperchatter",
+                userDisplayName: "Generous Viewer",
+                profilePicUrl: "https://example.com/avatar.jpg",
+                messageId: "superchat-1",
+                amount: 5,
+                amountMicros: 5000000,
+                currency: "USD",
+                amountDisplayString: "$5.00",
+                tier: 2,
+                userComment: "Keep it up!"
+            };
+
+            triggerSuperChat(eventData);
+
+            expect(firebot.modules.eventManager.triggerEvent).toHaveBeenCalledWith(IntegrationConstants.INTEGRATION_ID, "super-chat", {
+                eventSource: { id: IntegrationConstants.INTEGRATION_ID },
+                platform: "youtube",
+                ...eventData
+            });
+        });
+    });
+
+    describe("triggerSuperSticker", () => {
+        it("should trigger the super-sticker event with event source and platform", () => {
+            const eventData: YouTubeSuperStickerEvent = {
+                username: "Generous Viewer@youtube",
+                userId: "yUCsuperchatter",
+                userDisplayName: "Generous Viewer",
+                profilePicUrl: "https://example.com/avatar.jpg",
+                messageId: "supersticker-1",
+                amount: 1.99,
+                amountMicros: 1990000,
+                currency: "EUR",
+                amountDisplayString: "€1.99",
+                tier: 1,
+                stickerId: "sticker-123",
+                stickerAltText: "Dancing cat",
+                stickerAltTextLanguage: "en"
+            };
+
+            triggerSuperSticker(eventData);
+
+            expect(firebot.modules.eventManager.triggerEvent).toHaveBeenCalledWith(IntegrationConstants.INTEGRATION_ID, "super-sticker", {
+                eventSource: { id: IntegrationConstants.INTEGRATION_ID },
+                platform: "youtube",
+                ...eventData
+            });
+        });
+    });
+});
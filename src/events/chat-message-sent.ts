@@ -32,7 +32,7 @@ export function mapYouTubeChatMessageToChat(youtubeMessage: any, broadcaster: Yo
 
     return {
         messageId: youtubeMessage.id,
-        repliesTo: undefined, // YouTube API doesn't provide reply context in basic response
+        repliesTo: undefined, // YouTube has no native replies; ChatManager fills this in for replies sent by this integration
         broadcaster,
         sender,
         content: snippet.displayMessage || snippet.textMessageDetails?.messageText || "",
@@ -110,11 +110,11 @@ export class FirebotChatHelpers {
             isHiddenFromChatFeed: false,
             isFirstChat: false,
             isReturningChatter: false,
-            isReply: undefined,
-            replyParentMessageId: undefined, // Replies not fully supported yet
-            replyParentMessageText: undefined,
-            replyParentMessageSenderUserId: undefined,
-            replyParentMessageSenderDisplayName: undefined,
+            isReply: msg.repliesTo ? true : undefined,
+            replyParentMessageId: msg.repliesTo?.messageId,
+            replyParentMessageText: msg.repliesTo?.content,
+            replyParentMessageSenderUserId: msg.repliesTo ? youTubeifyUserId(msg.repliesTo.sender.userId) : undefined,
+            replyParentMessageSenderDisplayName: msg.repliesTo?.sender.displayName,
             threadParentMessageId: undefined,
             threadParentMessageSenderUserId: undefined,
             threadParentMessageSenderDisplayName: undefined,
@@ -0,0 +1,57 @@
+/**
+ * Connection State Changed Event
+ *
+ * Triggers when the connection supervisor changes state, e.g. when the integration
+ * loses its connection and starts reconnecting, or reconnects.
+ */
+
+import { IntegrationConstants } from "../constants";
+import type { ConnectionState } from "../events";
+import type { ErrorCategory } from "../internal/error-constants";
+import { firebot, logger } from "../main";
+
+/**
+ * YouTube connection state changed event metadata
+ */
+export interface YouTubeConnectionStateChangedEvent {
+    /**
+     * The new connection state
+     */
+    state: ConnectionState;
+
+    /**
+     * The connection state before the change
+     */
+    previousState: ConnectionState;
+
+    /**
+     * The category of the failure that caused the change, or empty if there was no failure
+     */
+    errorCategory: ErrorCategory | "";
+
+    /**
+     * The message of the failure that caused the change, or empty if there was no failure
+     */
+    errorMessage: string;
+
+    /**
+     * The number of reconnect attempts since the connection was lost
+     */
+    attempt: number;
+
+    /**
+     * Seconds until the next reconnect attempt, or -1 if none is scheduled
+     */
+    retryInSeconds: number;
+}
+
+/**
+ * Trigger connection state changed event
+ */
+export function triggerConnectionStateChanged(eventData: YouTubeConnectionStateChangedEvent): void {
+    const { eventManager } = firebot.modules;
+
+    logger.debug(`Triggering connection-state-changed event: ${eventData.previousState} -> ${eventData.state}`);
+
+    eventManager.triggerEvent(IntegrationConstants.INTEGRATION_ID, "connection-state-changed", eventData as unknown as Record<string, unknown>);
+}
@@ -0,0 +1,108 @@
+/**
+ * Channel Membership Event Handlers
+ *
+ * Triggers when a viewer becomes a member, reaches a membership milestone,
+ * gifts memberships, or receives a gifted membership.
+ */
+
+import { IntegrationConstants } from "../constants";
+import { firebot, logger } from "../main";
+
+/**
+ * Metadata identifying the viewer a membership event is about
+ */
+interface YouTubeMembershipEventAuthor {
+    username: string;
+    userId: string;
+    userDisplayName: string;
+    profilePicUrl: string;
+    messageId: string;
+}
+
+export interface YouTubeNewMemberEvent extends YouTubeMembershipEventAuthor {
+    /**
+     * Name of the membership level the viewer joined (or upgraded to)
+     */
+    memberLevelName: string;
+
+    /**
+     * Whether this is an upgrade from a lower membership level
+     */
+    isUpgrade: boolean;
+}
+
+export interface YouTubeMemberMilestoneEvent extends YouTubeMembershipEventAuthor {
+    memberLevelName: string;
+
+    /**
+     * Number of months the viewer has been a member
+     */
+    memberMonth: number;
+
+    userComment: string;
+}
+
+export interface YouTubeMembershipGiftingEvent extends YouTubeMembershipEventAuthor {
+    memberLevelName: string;
+
+    /**
+     * Number of memberships the viewer purchased as gifts
+     */
+    giftCount: number;
+}
+
+export interface YouTubeGiftMembershipReceivedEvent extends YouTubeMembershipEventAuthor {
+    memberLevelName: string;
+
+    /**
+     * YouTubeified user ID of the viewer who gifted the membership
+     */
+    gifterUserId: string;
+
+    /**
+     * YouTubeified username of the gifter, if their gifting message was seen on this connection
+     */
+    gifterUsername: string;
+
+    /**
+     * Display name of the gifter, if their gifting message was seen on this connection
+     */
+    gifterDisplayName: string;
+
+    /**
+     * Message ID of the gifting announcement this membership belongs to
+     */
+    associatedGiftingMessageId: string;
+}
+
+function triggerMembershipEvent(eventId: string, eventData: YouTubeMembershipEventAuthor): void {
+    const { eventManager } = firebot.modules;
+
+    const metadata = {
+        eventSource: {
+            id: IntegrationConstants.INTEGRATION_ID
+        },
+        platform: "youtube",
+        ...eventData
+    };
+
+    logger.debug(`Triggering ${eventId} event for user: ${eventData.userDisplayName} (${eventData.userId})`);
+
+    eventManager.triggerEvent(IntegrationConstants.INTEGRATION_ID, eventId, metadata as unknown as Record<string, unknown>);
+}
+
+export function triggerNewMember(eventData: YouTubeNewMemberEvent): void {
+    triggerMembershipEvent("new-member", eventData);
+}
+
+export function triggerMemberMilestone(eventData: YouTubeMemberMilestoneEvent): void {
+    triggerMembershipEvent("member-milestone", eventData);
+}
+
+export function triggerMembershipGifting(eventData: YouTubeMembershipGiftingEvent): void {
+    triggerMembershipEvent("membership-gifting", eventData);
+}
+
+export function triggerGiftMembershipReceived(eventData: YouTubeGiftMembershipReceivedEvent): void {
+    triggerMembershipEvent("gift-membership-received", eventData);
+}
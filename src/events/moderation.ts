@@ -0,0 +1,94 @@
+/**
+ * Chat Moderation Event Handlers
+ *
+ * Triggers when a chat message is deleted or retracted, or when a viewer is
+ * banned or timed out in the live chat.
+ */
+
+import { IntegrationConstants } from "../constants";
+import { firebot, logger } from "../main";
+
+export interface YouTubeMessageDeletedEvent {
+    /**
+     * ID of the message that was removed from chat
+     */
+    deletedMessageId: string;
+
+    /**
+     * True when the author retracted their own message, false when a moderator deleted it
+     */
+    retracted: boolean;
+
+    /**
+     * YouTubeified username of the message author (empty if the message was not seen on this connection)
+     */
+    username: string;
+    userId: string;
+    userDisplayName: string;
+
+    /**
+     * Text of the removed message (empty if the message was not seen on this connection)
+     */
+    messageText: string;
+
+    /**
+     * Display name of the moderator who deleted the message (empty for retractions)
+     */
+    moderator: string;
+}
+
+export type YouTubeBanType = "permanent" | "temporary";
+
+export interface YouTubeViewerBannedEvent {
+    username: string;
+    userId: string;
+    userDisplayName: string;
+    profilePicUrl: string;
+
+    /**
+     * Display name of the moderator who issued the ban
+     */
+    moderator: string;
+
+    banType: YouTubeBanType;
+
+    /**
+     * Length of the ban in seconds (0 for permanent bans)
+     */
+    banDurationSeconds: number;
+}
+
+export interface YouTubeViewerTimeoutEvent extends YouTubeViewerBannedEvent {
+    /**
+     * Length of the timeout in seconds (same as banDurationSeconds; matches Firebot's $timeoutDuration)
+     */
+    timeoutDuration: number;
+}
+
+function triggerModerationEvent(eventId: string, eventData: object): void {
+    const { eventManager } = firebot.modules;
+
+    const metadata = {
+        eventSource: {
+            id: IntegrationConstants.INTEGRATION_ID
+        },
+        platform: "youtube",
+        ...eventData
+    };
+
+    logger.debug(`Triggering ${eventId} event: ${JSON.stringify(eventData)}`);
+
+    eventManager.triggerEvent(IntegrationConstants.INTEGRATION_ID, eventId, metadata as unknown as Record<string, unknown>);
+}
+
+export function triggerMessageDeleted(eventData: YouTubeMessageDeletedEvent): void {
+    triggerModerationEvent("message-deleted", eventData);
+}
+
+export function triggerViewerBanned(eventData: YouTubeViewerBannedEvent): void {
+    triggerModerationEvent("viewer-banned", eventData);
+}
+
+export function triggerViewerTimeout(eventData: YouTubeViewerTimeoutEvent): void {
+    triggerModerationEvent("viewer-timeout", eventData);
+}
@@ -0,0 +1,88 @@
+/**
+ * Poll Event Handlers
+ *
+ * Triggers when a YouTube live chat poll is opened, its vote totals change,
+ * or it is closed.
+ */
+
+import { IntegrationConstants } from "../constants";
+import { firebot, logger } from "../main";
+
+export interface YouTubePollOption {
+    optionText: string;
+    tally: number;
+}
+
+export interface YouTubePollEvent {
+    /**
+     * ID of the poll message, used to end the poll
+     */
+    pollId: string;
+
+    questionText: string;
+
+    /**
+     * Poll options in the order YouTube displays them
+     */
+    options: YouTubePollOption[];
+
+    /**
+     * Sum of all option tallies
+     */
+    totalVotes: number;
+
+    /**
+     * Text of the option with the most votes (ties joined with ", "; empty if no votes)
+     */
+    winningOption: string;
+}
+
+/**
+ * Build poll event data from the raw poll options reported by YouTube
+ */
+export function buildPollEventData(pollId: string, questionText: string, rawOptions: { optionText?: string; tally?: string }[]): YouTubePollEvent {
+    const options: YouTubePollOption[] = rawOptions.map((option) => ({
+        optionText: option.optionText || "",
+        tally: Number(option.tally || 0) || 0
+    }));
+
+    const totalVotes = options.reduce((sum, option) => sum + option.tally, 0);
+    const highestTally = Math.max(0, ...options.map((option) => option.tally));
+    const winningOption =
+        highestTally > 0
+            ? options
+                  .filter((option) => option.tally === highestTally)
+                  .map((option) => option.optionText)
+                  .join(", ")
+            : "";
+
+    return { pollId, questionText, options, totalVotes, winningOption };
+}
+
+function triggerPollEvent(eventId: string, eventData: YouTubePollEvent): void {
+    const { eventManager } = firebot.modules;
+
+    const metadata = {
+        eventSource: {
+            id: IntegrationConstants.INTEGRATION_ID
+        },
+        platform: "youtube",
+        ...eventData
+    };
+
+    logger.debug(`Triggering ${eventId} event for poll ${eventData.pollId}: ${eventData.options.map((o) => `${o.optionText}=${o.tally}`).join(", ")}`);
+
+    eventManager.triggerEvent(IntegrationConstants.INTEGRATION_ID, eventId, metadata as unknown as Record<string, unknown>);
+}
+
+export function triggerPollStarted(eventData: YouTubePollEvent): void {
+    triggerPollEvent("poll-started", eventData);
+}
+
+export function triggerPollUpdated(eventData: YouTubePollEvent): void {
+    triggerPollEvent("poll-updated", eventData);
+}
+
+export function triggerPollEnded(eventData: YouTubePollEvent): void {
+    triggerPollEvent("poll-ended", eventData);
+}
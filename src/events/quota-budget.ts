@@ -0,0 +1,66 @@
+/**
+ * Quota Budget Blocked Call Event
+ *
+ * Triggers when an API call is refused because it would exceed the quota budget
+ * of its operation class or use quota reserved for chat polling.
+ */
+
+import { IntegrationConstants } from "../constants";
+import { firebot, logger } from "../main";
+import type { QuotaOperationClass } from "../types/quota-tracking";
+
+/**
+ * YouTube quota budget blocked call event metadata
+ */
+export interface YouTubeQuotaBudgetBlockedEvent {
+    /**
+     * The UUID of the application that would have made the call
+     */
+    applicationId: string;
+
+    /**
+     * The display name of the application
+     */
+    applicationName: string;
+
+    /**
+     * The API endpoint that was blocked (e.g. "liveChatMessages.insert")
+     */
+    endpoint: string;
+
+    /**
+     * The operation class the endpoint is budgeted under
+     */
+    operationClass: QuotaOperationClass;
+
+    /**
+     * The quota cost of the blocked call
+     */
+    cost: number;
+
+    /**
+     * Why the call was blocked
+     */
+    reason: string;
+
+    /**
+     * The current quota units consumed
+     */
+    quotaConsumed: number;
+
+    /**
+     * The total quota limit (daily quota)
+     */
+    quotaLimit: number;
+}
+
+/**
+ * Trigger quota budget blocked call event
+ */
+export function triggerQuotaBudgetBlocked(eventData: YouTubeQuotaBudgetBlockedEvent): void {
+    const { eventManager } = firebot.modules;
+
+    logger.debug(`Triggering quota-budget-blocked event for application ${eventData.applicationId}, endpoint ${eventData.endpoint}`);
+
+    eventManager.triggerEvent(IntegrationConstants.INTEGRATION_ID, "quota-budget-blocked", eventData as unknown as Record<string, unknown>);
+}
@@ -28,3 +28,25 @@ export function triggerStreamOffline(): void {
 
     eventManager.triggerEvent(IntegrationConstants.INTEGRATION_ID, "stream-offline", {} as unknown as Record<string, unknown>);
 }
+
+/**
+ * Trigger title changed event
+ * @param title The new broadcast title
+ * @param previousTitle The broadcast title before the change
+ */
+export function triggerTitleChanged(title: string, previousTitle: string): void {
+    const { eventManager } = firebot.modules;
+
+    const metadata = {
+        eventSource: {
+            id: IntegrationConstants.INTEGRATION_ID
+        },
+        platform: "youtube",
+        title,
+        previousTitle
+    };
+
+    logger.debug(`Triggering title-changed event: "${previousTitle}" -> "${title}"`);
+
+    eventManager.triggerEvent(IntegrationConstants.INTEGRATION_ID, "title-changed", metadata as unknown as Record<string, unknown>);
+}
@@ -0,0 +1,97 @@
+/**
+ * Super Chat and Super Sticker Event Handlers
+ *
+ * Triggers when a viewer purchases a Super Chat or Super Sticker in the live chat.
+ */
+
+import { IntegrationConstants } from "../constants";
+import { firebot, logger } from "../main";
+
+/**
+ * Metadata common to Super Chat and Super Sticker events
+ */
+interface YouTubePaidMessageEvent {
+    username: string;
+    userId: string;
+    userDisplayName: string;
+    profilePicUrl: string;
+    messageId: string;
+
+    /**
+     * Purchase amount in the currency's standard unit (e.g. 5 for $5.00)
+     */
+    amount: number;
+
+    /**
+     * Purchase amount in micros, as reported by YouTube (e.g. 5000000 for $5.00)
+     */
+    amountMicros: number;
+
+    /**
+     * ISO 4217 currency code (e.g. "USD")
+     */
+    currency: string;
+
+    /**
+     * Localized amount as displayed by YouTube (e.g. "$5.00")
+     */
+    amountDisplayString: string;
+
+    /**
+     * Tier of the purchase, which determines color and pin duration in chat
+     */
+    tier: number;
+}
+
+export interface YouTubeSuperChatEvent extends YouTubePaidMessageEvent {
+    userComment: string;
+}
+
+export interface YouTubeSuperStickerEvent extends YouTubePaidMessageEvent {
+    stickerId: string;
+    stickerAltText: string;
+    stickerAltTextLanguage: string;
+}
+
+/**
+ * Convert a YouTube micros amount (string or number) into standard units
+ */
+export function microsToAmount(amountMicros: string | number | undefined): number {
+    const micros = Number(amountMicros ?? 0);
+    if (!Number.isFinite(micros)) {
+        return 0;
+    }
+    return micros / 1_000_000;
+}
+
+export function triggerSuperChat(eventData: YouTubeSuperChatEvent): void {
+    const { eventManager } = firebot.modules;
+
+    const metadata = {
+        eventSource: {
+            id: IntegrationConstants.INTEGRATION_ID
+        },
+        platform: "youtube",
+        ...eventData
+    };
+
+    logger.debug(`Triggering super-chat event for user: ${eventData.userDisplayName} (${eventData.amountDisplayString})`);
+
+    eventManager.triggerEvent(IntegrationConstants.INTEGRATION_ID, "super-chat", metadata as unknown as Record<string, unknown>);
+}
+
+export function triggerSuperSticker(eventData: YouTubeSuperStickerEvent): void {
+    const { eventManager } = firebot.modules;
+
+    const metadata = {
+        eventSource: {
+            id: IntegrationConstants.INTEGRATION_ID
+        },
+        platform: "youtube",
+        ...eventData
+    };
+
+    logger.debug(`Triggering super-sticker event for user: ${eventData.userDisplayName} (${eventData.amountDisplayString})`);
+
+    eventManager.triggerEvent(IntegrationConstants.INTEGRATION_ID, "super-sticker", metadata as unknown as Record<string, unknown>);
+}
@@ -55,4 +55,11 @@ describe("apiCallFilter", () => {
             expect(result).toBe(false);
         });
     });
+
+    describe("presetValues", () => {
+        it("should stay in sync with the ApiCallType enum", () => {
+            const presetValues = (apiCallFilter.presetValues as () => { value: string }[])();
+            expect(presetValues.map((pv) => pv.value)).toEqual(Object.values(ApiCallType));
+        });
+    });
 });
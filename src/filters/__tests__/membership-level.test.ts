@@ -0,0 +1,38 @@
+import { ComparisonType, membershipLevelFilter } from "../membership-level";
+
+describe("membershipLevelFilter", () => {
+    const createEventData = (memberLevelName: unknown) => ({
+        eventMeta: {
+            memberLevelName
+        }
+    });
+
+    const runPredicate = (comparisonType: ComparisonType, value: unknown, memberLevelName: unknown) => membershipLevelFilter.predicate({ comparisonType, value } as any, createEventData(memberLevelName) as any);
+
+    it("should match IS case-insensitively", async () => {
+        expect(await runPredicate(ComparisonType.IS, "gold tier", "Gold Tier")).toBe(true);
+        expect(await runPredicate(ComparisonType.IS, "Gold Tier", "Silver Tier")).toBe(false);
+    });
+
+    it("should match IS_NOT when level differs", async () => {
+        expect(await runPredicate(ComparisonType.IS_NOT, "Gold Tier", "Silver Tier")).toBe(true);
+        expect(await runPredicate(ComparisonType.IS_NOT, "Gold Tier", "Gold Tier")).toBe(false);
+    });
+
+    it("should match CONTAINS on partial level names", async () => {
+        expect(await runPredicate(ComparisonType.CONTAINS, "gold", "Gold Tier")).toBe(true);
+        expect(await runPredicate(ComparisonType.CONTAINS, "gold", "Silver Tier")).toBe(false);
+    });
+
+    it("should not match IS when level name is missing", async () => {
+        expect(await runPredicate(ComparisonType.IS, "Gold Tier", undefined)).toBe(false);
+    });
+
+    it("should not match an unknown comparison type", async () => {
+        expect(await runPredicate("unknown" as ComparisonType, "Gold Tier", "Gold Tier")).toBe(false);
+    });
+
+    it("should apply to all membership events", () => {
+        expect(membershipLevelFilter.events.map((e) => e.eventId)).toEqual(["new-member", "member-milestone", "membership-gifting", "gift-membership-received"]);
+    });
+});
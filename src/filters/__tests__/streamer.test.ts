@@ -10,6 +10,14 @@ jest.mock("../../main", () => ({
     }
 }));
 
+jest.mock("../../integration-singleton", () => ({
+    integration: {
+        getBroadcasterIdentity: jest.fn(() => null)
+    }
+}));
+
+import { integration } from "../../integration-singleton";
+
 describe("streamerFilter", () => {
     describe("broadcaster triggering events with value=true", () => {
         it("should pass with IS comparison when user is broadcaster", async () => {
@@ -256,4 +264,47 @@ describe("streamerFilter", () => {
             expect(result).toBe(true);
         });
     });
+
+    describe("broadcaster channel identity", () => {
+        const filterSettings: FilterSettings = {
+            comparisonType: ComparisonType.IS as any,
+            value: "true"
+        };
+
+        afterEach(() => {
+            (integration.getBroadcasterIdentity as jest.Mock).mockReturnValue(null);
+        });
+
+        it("should identify the broadcaster by channel ID when the owner role is missing", async () => {
+            (integration.getBroadcasterIdentity as jest.Mock).mockReturnValue({ channelId: "UCbroadcaster", handle: "@streamer", displayName: "Streamer", avatarUrl: "" });
+
+            const eventData: EventData = {
+                eventSourceId: "mage-youtube-integration",
+                eventId: "chat-message",
+                eventMeta: {
+                    userId: "yUCbroadcaster",
+                    twitchUserRoles: []
+                }
+            };
+
+            const result = await streamerFilter.predicate(filterSettings, eventData);
+            expect(result).toBe(true);
+        });
+
+        it("should not identify other channels as the broadcaster", async () => {
+            (integration.getBroadcasterIdentity as jest.Mock).mockReturnValue({ channelId: "UCbroadcaster", handle: "@streamer", displayName: "Streamer", avatarUrl: "" });
+
+            const eventData: EventData = {
+                eventSourceId: "mage-youtube-integration",
+                eventId: "chat-message",
+                eventMeta: {
+                    userId: "yUCviewer",
+                    twitchUserRoles: []
+                }
+            };
+
+            const result = await streamerFilter.predicate(filterSettings, eventData);
+            expect(result).toBe(false);
+        });
+    });
 });
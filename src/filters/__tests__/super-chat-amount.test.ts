@@ -0,0 +1,52 @@
+import { ComparisonType, superChatAmountFilter } from "../super-chat-amount";
+
+describe("superChatAmountFilter", () => {
+    const createEventData = (amount: unknown) => ({
+        eventMeta: {
+            amount
+        }
+    });
+
+    const runPredicate = (comparisonType: ComparisonType, value: unknown, amount: unknown) => superChatAmountFilter.predicate({ comparisonType, value } as any, createEventData(amount) as any);
+
+    it("should match EQUALS when amount equals filter value", async () => {
+        expect(await runPredicate(ComparisonType.EQUALS, 5, 5)).toBe(true);
+        expect(await runPredicate(ComparisonType.EQUALS, 5, 4.99)).toBe(false);
+    });
+
+    it("should match GREATER_THAN only when amount is strictly greater", async () => {
+        expect(await runPredicate(ComparisonType.GREATER_THAN, 5, 10)).toBe(true);
+        expect(await runPredicate(ComparisonType.GREATER_THAN, 5, 5)).toBe(false);
+    });
+
+    it("should match GREATER_THAN_OR_EQUAL_TO on boundary", async () => {
+        expect(await runPredicate(ComparisonType.GREATER_THAN_OR_EQUAL_TO, 5, 5)).toBe(true);
+        expect(await runPredicate(ComparisonType.GREATER_THAN_OR_EQUAL_TO, 5, 4)).toBe(false);
+    });
+
+    it("should match LESS_THAN only when amount is strictly less", async () => {
+        expect(await runPredicate(ComparisonType.LESS_THAN, 5, 1.99)).toBe(true);
+        expect(await runPredicate(ComparisonType.LESS_THAN, 5, 5)).toBe(false);
+    });
+
+    it("should match LESS_THAN_OR_EQUAL_TO on boundary", async () => {
+        expect(await runPredicate(ComparisonType.LESS_THAN_OR_EQUAL_TO, 5, 5)).toBe(true);
+        expect(await runPredicate(ComparisonType.LESS_THAN_OR_EQUAL_TO, 5, 6)).toBe(false);
+    });
+
+    it("should accept the filter value as a string", async () => {
+        expect(await runPredicate(ComparisonType.GREATER_THAN_OR_EQUAL_TO, "2.50", 2.5)).toBe(true);
+    });
+
+    it("should not match when amount is missing", async () => {
+        expect(await runPredicate(ComparisonType.LESS_THAN, 5, undefined)).toBe(false);
+    });
+
+    it("should not match an unknown comparison type", async () => {
+        expect(await runPredicate("unknown" as ComparisonType, 5, 5)).toBe(false);
+    });
+
+    it("should apply to super-chat and super-sticker events", () => {
+        expect(superChatAmountFilter.events.map((e) => e.eventId)).toEqual(["super-chat", "super-sticker"]);
+    });
+});
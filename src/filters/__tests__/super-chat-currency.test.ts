@@ -0,0 +1,33 @@
+import { ComparisonType, superChatCurrencyFilter } from "../super-chat-currency";
+
+describe("superChatCurrencyFilter", () => {
+    const createEventData = (currency: unknown) => ({
+        eventMeta: {
+            currency
+        }
+    });
+
+    const runPredicate = (comparisonType: ComparisonType, value: unknown, currency: unknown) => superChatCurrencyFilter.predicate({ comparisonType, value } as any, createEventData(currency) as any);
+
+    it("should match IS when currency matches", async () => {
+        expect(await runPredicate(ComparisonType.IS, "USD", "USD")).toBe(true);
+        expect(await runPredicate(ComparisonType.IS, "USD", "EUR")).toBe(false);
+    });
+
+    it("should match IS_NOT when currency differs", async () => {
+        expect(await runPredicate(ComparisonType.IS_NOT, "USD", "JPY")).toBe(true);
+        expect(await runPredicate(ComparisonType.IS_NOT, "USD", "USD")).toBe(false);
+    });
+
+    it("should compare case-insensitively and ignore surrounding whitespace", async () => {
+        expect(await runPredicate(ComparisonType.IS, " usd ", "USD")).toBe(true);
+    });
+
+    it("should not match IS when currency is missing", async () => {
+        expect(await runPredicate(ComparisonType.IS, "USD", undefined)).toBe(false);
+    });
+
+    it("should display the selected value in upper case", () => {
+        expect(superChatCurrencyFilter.getSelectedValueDisplay?.({ comparisonType: ComparisonType.IS, value: "eur" } as any)).toBe("EUR");
+    });
+});
@@ -0,0 +1,64 @@
+/**
+ * Membership Level filter
+ *
+ * Allows filtering YouTube membership events by the name of the membership level
+ */
+
+import { EventFilter, FilterEvent } from "@crowbartools/firebot-custom-scripts-types/types/modules/event-filter-manager";
+import { IntegrationConstants } from "../constants";
+
+export enum ComparisonType {
+    IS = "is",
+    IS_NOT = "is not",
+    CONTAINS = "contains"
+}
+
+const applicableEvents: FilterEvent[] = [
+    {
+        eventSourceId: IntegrationConstants.INTEGRATION_ID,
+        eventId: "new-member"
+    },
+    {
+        eventSourceId: IntegrationConstants.INTEGRATION_ID,
+        eventId: "member-milestone"
+    },
+    {
+        eventSourceId: IntegrationConstants.INTEGRATION_ID,
+        eventId: "membership-gifting"
+    },
+    {
+        eventSourceId: IntegrationConstants.INTEGRATION_ID,
+        eventId: "gift-membership-received"
+    }
+];
+
+export const membershipLevelFilter: EventFilter = {
+    id: `${IntegrationConstants.INTEGRATION_ID}:membership-level`,
+    name: "Membership Level",
+    description: "Filter YouTube membership events by membership level name (case-insensitive)",
+    events: applicableEvents,
+    comparisonTypes: [ComparisonType.IS, ComparisonType.IS_NOT, ComparisonType.CONTAINS],
+    valueType: "text",
+    getSelectedValueDisplay: (filterSettings) => {
+        return String(filterSettings.value ?? "");
+    },
+    valueIsStillValid: () => true,
+    predicate: async (filterSettings, eventData): Promise<boolean> => {
+        const { comparisonType, value } = filterSettings;
+        const memberLevelName = String(eventData.eventMeta.memberLevelName ?? "").toLowerCase();
+        const expected = String(value ?? "")
+            .trim()
+            .toLowerCase();
+
+        switch (comparisonType as ComparisonType) {
+            case ComparisonType.IS:
+                return memberLevelName === expected;
+            case ComparisonType.IS_NOT:
+                return memberLevelName !== expected;
+            case ComparisonType.CONTAINS:
+                return memberLevelName.includes(expected);
+            default:
+                return false;
+        }
+    }
+};
@@ -1,6 +1,8 @@
 import { EventData, EventFilter, FilterEvent, FilterSettings, PresetValue } from "@crowbartools/firebot-custom-scripts-types/types/modules/event-filter-manager";
 import { IntegrationConstants } from "../constants";
+import { integration } from "../integration-singleton";
 import { logger } from "../main";
+import { youTubeifyUserId } from "../util/user";
 
 export enum ComparisonType {
     IS = "is",
@@ -47,7 +49,11 @@ export const streamerFilter: EventFilter = {
         const rawRoles = eventData.eventMeta.twitchUserRoles;
         const roles = !rawRoles || !Array.isArray(rawRoles) ? [] : rawRoles;
 
-        const isBroadcaster = roles.includes("broadcaster");
+        // Match the channel the integration is authorized for, in case the owner badge is missing
+        const broadcasterChannelId = integration.getBroadcasterIdentity()?.channelId;
+        const isBroadcasterChannel = !!broadcasterChannelId && eventData.eventMeta.userId === youTubeifyUserId(broadcasterChannelId);
+
+        const isBroadcaster = roles.includes("broadcaster") || isBroadcasterChannel;
         logger.debug(`streamerFilter: isBroadcaster=${isBroadcaster}, comparisonType=${comparisonType}, value=${value}`);
 
         const expectedValue = String(value) === "true";
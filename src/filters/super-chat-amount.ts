@@ -0,0 +1,65 @@
+/**
+ * Super Chat Amount filter
+ *
+ * Allows filtering Super Chat and Super Sticker events by purchase amount
+ * (in the currency's standard unit, e.g. 5 for $5.00)
+ */
+
+import { EventFilter, FilterEvent } from "@crowbartools/firebot-custom-scripts-types/types/modules/event-filter-manager";
+import { IntegrationConstants } from "../constants";
+
+export enum ComparisonType {
+    EQUALS = "equals",
+    GREATER_THAN = "greater than",
+    GREATER_THAN_OR_EQUAL_TO = "greater than or equal to",
+    LESS_THAN = "less than",
+    LESS_THAN_OR_EQUAL_TO = "less than or equal to"
+}
+
+const applicableEvents: FilterEvent[] = [
+    {
+        eventSourceId: IntegrationConstants.INTEGRATION_ID,
+        eventId: "super-chat"
+    },
+    {
+        eventSourceId: IntegrationConstants.INTEGRATION_ID,
+        eventId: "super-sticker"
+    }
+];
+
+export const superChatAmountFilter: EventFilter = {
+    id: `${IntegrationConstants.INTEGRATION_ID}:super-chat-amount`,
+    name: "Super Chat Amount",
+    description: "Filter Super Chats and Super Stickers by amount (in the purchase currency)",
+    events: applicableEvents,
+    comparisonTypes: [ComparisonType.EQUALS, ComparisonType.GREATER_THAN, ComparisonType.GREATER_THAN_OR_EQUAL_TO, ComparisonType.LESS_THAN, ComparisonType.LESS_THAN_OR_EQUAL_TO],
+    valueType: "number",
+    getSelectedValueDisplay: (filterSettings) => {
+        return `${filterSettings.value}`;
+    },
+    valueIsStillValid: () => true,
+    predicate: async (filterSettings, eventData): Promise<boolean> => {
+        const { comparisonType, value } = filterSettings;
+        const amount = Number(eventData.eventMeta.amount);
+        const threshold = Number(value);
+
+        if (Number.isNaN(amount) || Number.isNaN(threshold)) {
+            return false;
+        }
+
+        switch (comparisonType as ComparisonType) {
+            case ComparisonType.EQUALS:
+                return amount === threshold;
+            case ComparisonType.GREATER_THAN:
+                return amount > threshold;
+            case ComparisonType.GREATER_THAN_OR_EQUAL_TO:
+                return amount >= threshold;
+            case ComparisonType.LESS_THAN:
+                return amount < threshold;
+            case ComparisonType.LESS_THAN_OR_EQUAL_TO:
+                return amount <= threshold;
+            default:
+                return false;
+        }
+    }
+};
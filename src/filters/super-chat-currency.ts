@@ -0,0 +1,53 @@
+/**
+ * Super Chat Currency filter
+ *
+ * Allows filtering Super Chat and Super Sticker events by ISO 4217 currency code
+ */
+
+import { EventFilter, FilterEvent } from "@crowbartools/firebot-custom-scripts-types/types/modules/event-filter-manager";
+import { IntegrationConstants } from "../constants";
+
+export enum ComparisonType {
+    IS = "is",
+    IS_NOT = "is not"
+}
+
+const applicableEvents: FilterEvent[] = [
+    {
+        eventSourceId: IntegrationConstants.INTEGRATION_ID,
+        eventId: "super-chat"
+    },
+    {
+        eventSourceId: IntegrationConstants.INTEGRATION_ID,
+        eventId: "super-sticker"
+    }
+];
+
+export const superChatCurrencyFilter: EventFilter = {
+    id: `${IntegrationConstants.INTEGRATION_ID}:super-chat-currency`,
+    name: "Super Chat Currency",
+    description: "Filter Super Chats and Super Stickers by currency code (e.g. USD, EUR, JPY)",
+    events: applicableEvents,
+    comparisonTypes: [ComparisonType.IS, ComparisonType.IS_NOT],
+    valueType: "text",
+    getSelectedValueDisplay: (filterSettings) => {
+        return String(filterSettings.value ?? "").toUpperCase();
+    },
+    valueIsStillValid: () => true,
+    predicate: async (filterSettings, eventData): Promise<boolean> => {
+        const { comparisonType, value } = filterSettings;
+        const currency = String(eventData.eventMeta.currency ?? "").toUpperCase();
+        const expected = String(value ?? "")
+            .trim()
+            .toUpperCase();
+
+        switch (comparisonType as ComparisonType) {
+            case ComparisonType.IS:
+                return currency === expected;
+            case ComparisonType.IS_NOT:
+                return currency !== expected;
+            default:
+                return false;
+        }
+    }
+};
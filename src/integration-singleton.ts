@@ -3,54 +3,116 @@ import { checkPlatformLibPing } from "@thestaticmage/mage-platform-lib-client";
 import { EventEmitter } from "events";
 import fs from "fs";
 import { IntegrationConstants } from "./constants";
+import { addModeratorEffect } from "./effects/add-moderator";
+import { banEffect } from "./effects/ban";
 import { chatEffect } from "./effects/chat";
+import { deleteMessageEffect } from "./effects/delete-message";
+import { pollEffect } from "./effects/poll";
+import { removeModeratorEffect } from "./effects/remove-moderator";
 import { selectApplicationEffect } from "./effects/select-application";
+import { timeoutEffect } from "./effects/timeout";
+import { updateBroadcastEffect } from "./effects/update-broadcast";
 import { ApplicationActivationCause, YouTubeEventSource } from "./events";
-import { triggerStreamOffline, triggerStreamOnline } from "./events/stream";
+import { triggerStreamOffline, triggerStreamOnline, triggerTitleChanged } from "./events/stream";
 import { apiCallFilter } from "./filters/api-call";
 import { channelLiveFilter } from "./filters/channel-live";
 import { consecutiveErrorsFilter } from "./filters/consecutive-errors";
 import { errorTypeFilter } from "./filters/error-type";
+import { membershipLevelFilter } from "./filters/membership-level";
 import { streamerFilter } from "./filters/streamer";
+import { superChatAmountFilter } from "./filters/super-chat-amount";
+import { superChatCurrencyFilter } from "./filters/super-chat-currency";
 import { ApplicationManager } from "./internal/application-manager";
+import { ApplicationRotationManager } from "./internal/application-rotation-manager";
+import type { ImportConflictMode } from "./internal/application-transfer";
+import { parseApplicationExport } from "./internal/application-transfer";
 import { getApplicationStatusMessage } from "./internal/application-utils";
-import type { BroadcastPrivacyStatus } from "./internal/broadcast-manager";
+import { banStore } from "./internal/ban-store";
+import type { BroadcastInfo, BroadcastMetadataUpdate, BroadcastPrivacyStatus } from "./internal/broadcast-manager";
 import { BroadcastManager } from "./internal/broadcast-manager";
+import type { ChannelIdentity } from "./internal/channel-manager";
+import { ChannelManager } from "./internal/channel-manager";
+import type { UserBanRequest, UserModRequest } from "./internal/chat-feed-moderation";
+import { ChatFeedModeration } from "./internal/chat-feed-moderation";
+import type { RecentChatMessage } from "./internal/chat-manager";
 import { ChatManager } from "./internal/chat-manager";
 import { ChatMessageQueue } from "./internal/chat-message-queue";
+import { chatResumeStore } from "./internal/chat-resume-store";
 import { ChatStreamClient } from "./internal/chatstream-client";
+import { commandHandler } from "./internal/command";
+import { ConnectionSupervisor } from "./internal/connection-supervisor";
+import { credentialStore } from "./internal/credential-store";
+import { ErrorCategory } from "./internal/error-constants";
 import { ErrorTracker } from "./internal/error-tracker";
+import { ModeratorManager } from "./internal/moderator-manager";
 import { MultiAuthManager } from "./internal/multi-auth-manager";
 import { FAILOVER_THRESHOLD_DEFAULT, QuotaFailoverManager } from "./internal/quota-failover-manager";
-import { QuotaManager } from "./internal/quota-manager";
+import { QUOTA_CLASS_CAP_PERCENT_DEFAULT, QUOTA_HISTORY_RETENTION_DAYS_DEFAULT, QUOTA_POLLING_RESERVE_PERCENT_DEFAULT, QuotaManager } from "./internal/quota-manager";
 import { RestApiClient } from "./internal/rest-api-client";
 import { YouTubeUserManager } from "./internal/youtube-user-manager";
 import { firebot, logger } from "./main";
 import { youtubeOnlyWhenLiveRestriction } from "./restrictions/youtube-only-when-live";
 import { registerRoutes, unregisterRoutes } from "./server/server";
 import { ApplicationStorage, YouTubeOAuthApplication } from "./types";
+import { QUOTA_COSTS } from "./types/quota-tracking";
 import { registerUIExtensions } from "./ui-extensions";
-import { getDataFilePath } from "./util/datafile";
+import { DataFileOptions, deleteDataFile, getDataFilePath, readDataFile, removeDataFileBackups, writeDataFile } from "./util/datafile";
+import { chooseJsonOpenPath, chooseJsonSavePath } from "./util/file-dialog";
 import { youtubeApplicationActivationCauseVariable } from "./variables/youtube-application-activation-cause";
 import { youtubeApplicationIdVariable } from "./variables/youtube-application-id";
 import { youtubeApplicationNameVariable } from "./variables/youtube-application-name";
+import { youtubeBanDurationVariable } from "./variables/youtube-ban-duration";
+import { youtubeBanTypeVariable } from "./variables/youtube-ban-type";
 import { youtubeChannelIdVariable } from "./variables/youtube-channel-id";
+import { youtubeConnectionStateVariable } from "./variables/youtube-connection-state";
+import { youtubeDeletedMessageIdVariable } from "./variables/youtube-deleted-message-id";
+import { youtubeDeletedMessageTextVariable } from "./variables/youtube-deleted-message-text";
 import { youtubeErrorCategoryVariable } from "./variables/youtube-error-category";
 import { youtubeErrorConsecutiveFailuresVariable } from "./variables/youtube-error-consecutive-failures";
 import { youtubeErrorMessageVariable } from "./variables/youtube-error-message";
+import { youtubeGiftMembershipsCountVariable } from "./variables/youtube-gift-memberships-count";
+import { youtubeGifterUserIdVariable } from "./variables/youtube-gifter-user-id";
+import { youtubeGifterUsernameVariable } from "./variables/youtube-gifter-username";
 import { youtubeIntegrationConnectedVariable } from "./variables/youtube-integration-connected";
 import { youtubeLiveChatIdVariable } from "./variables/youtube-live-chat-id";
+import { youtubeMemberIsUpgradeVariable } from "./variables/youtube-member-is-upgrade";
+import { youtubeMemberLevelNameVariable } from "./variables/youtube-member-level-name";
+import { youtubeMemberMilestoneCommentVariable } from "./variables/youtube-member-milestone-comment";
+import { youtubeMemberMonthsVariable } from "./variables/youtube-member-months";
+import { youtubeModeratorsVariable } from "./variables/youtube-moderators";
+import { youtubePollIdVariable } from "./variables/youtube-poll-id";
+import { youtubePollOptionTextVariable } from "./variables/youtube-poll-option-text";
+import { youtubePollOptionVotesVariable } from "./variables/youtube-poll-option-votes";
+import { youtubePollQuestionVariable } from "./variables/youtube-poll-question";
+import { youtubePollTotalVotesVariable } from "./variables/youtube-poll-total-votes";
+import { youtubePollWinningOptionVariable } from "./variables/youtube-poll-winning-option";
+import { youtubePollingDelayVariable } from "./variables/youtube-polling-delay";
 import { youtubePreviousApplicationIdVariable } from "./variables/youtube-previous-application-id";
+import { youtubePreviousStreamTitleVariable } from "./variables/youtube-previous-stream-title";
 import { youtubePrivacyStatusVariable } from "./variables/youtube-privacy-status";
+import { youtubeQuotaBudgetEndpointVariable } from "./variables/youtube-quota-budget-endpoint";
+import { youtubeQuotaBudgetReasonVariable } from "./variables/youtube-quota-budget-reason";
 import { youtubeQuotaConsumedVariable } from "./variables/youtube-quota-consumed";
 import { youtubeQuotaLimitVariable } from "./variables/youtube-quota-limit";
 import { youtubeQuotaThresholdVariable } from "./variables/youtube-quota-threshold";
+import { youtubeReconnectDelayVariable } from "./variables/youtube-reconnect-delay";
+import { youtubeStreamDescriptionVariable } from "./variables/youtube-stream-description";
+import { youtubeStreamTitleVariable } from "./variables/youtube-stream-title";
+import { youtubeStreamerAvatarVariable } from "./variables/youtube-streamer-avatar";
+import { youtubeStreamerNameVariable } from "./variables/youtube-streamer-name";
+import { youtubeSuperChatAmountVariable } from "./variables/youtube-super-chat-amount";
+import { youtubeSuperChatAmountDisplayVariable } from "./variables/youtube-super-chat-amount-display";
+import { youtubeSuperChatCommentVariable } from "./variables/youtube-super-chat-comment";
+import { youtubeSuperChatCurrencyVariable } from "./variables/youtube-super-chat-currency";
+import { youtubeSuperChatTierVariable } from "./variables/youtube-super-chat-tier";
+import { youtubeSuperStickerAltTextVariable } from "./variables/youtube-super-sticker-alt-text";
 import { youtubeVideoIdVariable } from "./variables/youtube-video-id";
 
 type IntegrationParameters = {
     chat: {
         chatFeed: boolean;
         chatSend: boolean;
+        autoDeleteCommandTriggers: boolean;
     };
     triggerTwitchEvents: {
         chatMessage: boolean;
@@ -59,10 +121,19 @@ type IntegrationParameters = {
         logChatPushes: boolean;
         logApiResponses: boolean;
     };
+    quotaBudgets: {
+        enforceQuotaBudgets: boolean;
+        pollingReservePercent: number;
+        sendingCapPercent: number;
+        broadcastCapPercent: number;
+        moderationCapPercent: number;
+    };
     advanced: {
         suppressChatFeedNotifications: boolean;
         enableAutomaticFailover: boolean;
         automaticFailoverThreshold: number;
+        quotaHistoryRetentionDays: number;
+        adaptivePollingDelay: boolean;
     };
 };
 
@@ -76,6 +147,16 @@ interface IntegrationFileData {
     refreshToken: string;
 }
 
+/**
+ * Schema of integration-data.json. Version 1 introduced the versioned file format.
+ */
+const INTEGRATION_DATA_FILE_OPTIONS: DataFileOptions = {
+    schemaVersion: 1,
+    migrations: {
+        1: (data) => data
+    }
+};
+
 export class YouTubeIntegration extends EventEmitter {
     // connected needs to be set to true when the integration is successfully
     // connected. The Firebot integration manager checks this variable directly
@@ -86,21 +167,32 @@ export class YouTubeIntegration extends EventEmitter {
     private errorTracker: ErrorTracker = new ErrorTracker();
     private applicationManager: ApplicationManager = new ApplicationManager();
     private broadcastManager: BroadcastManager = new BroadcastManager(this, this.errorTracker);
+    private channelManager: ChannelManager = new ChannelManager(this, this.errorTracker);
     private chatManager: ChatManager | null = null;
     private multiAuthManager: MultiAuthManager = new MultiAuthManager(this.errorTracker, this.applicationManager);
     private quotaManager: QuotaManager = new QuotaManager(this);
-    private quotaFailoverManager: QuotaFailoverManager = new QuotaFailoverManager(this, this.quotaManager);
+    private applicationRotationManager: ApplicationRotationManager = new ApplicationRotationManager(this, this.quotaManager);
+    private quotaFailoverManager: QuotaFailoverManager = new QuotaFailoverManager(this, this.quotaManager, this.applicationRotationManager);
     private restApiClient: RestApiClient = new RestApiClient(this, this.errorTracker);
-    private chatMessageQueue: ChatMessageQueue = new ChatMessageQueue((message) => this.restApiClient.sendChatMessage(message));
+    private moderatorManager: ModeratorManager = new ModeratorManager(this.restApiClient);
+    private chatFeedModeration: ChatFeedModeration = new ChatFeedModeration(this);
+    private chatMessageQueue: ChatMessageQueue = new ChatMessageQueue(
+        (message, replyToMessageId) => this.restApiClient.sendChatMessage(message, replyToMessageId),
+        (message, notifyIfBlocked) => this.restApiClient.checkChatMessageBudget(message, notifyIfBlocked)
+    );
     private youtubeUserManager: YouTubeUserManager = new YouTubeUserManager();
+    private connectionSupervisor: ConnectionSupervisor = new ConnectionSupervisor(this, this.errorTracker, this.quotaManager);
 
     // Stream monitoring
     private offlineMonitoringInterval: NodeJS.Timeout | null = null;
     private offlineMonitoringInProgress = false;
+    private broadcastDetailsInterval: NodeJS.Timeout | null = null;
     private currentLiveChatId: string | null = null;
     private currentBroadcastId: string | null = null;
     private currentChannelId: string | null = null;
     private currentBroadcastPrivacyStatus: BroadcastPrivacyStatus | null = null;
+    private currentBroadcastTitle: string | null = null;
+    private currentBroadcastDescription: string | null = null;
     private currentActiveApplicationId: string | null = null;
     isStreamLive = false;
 
@@ -110,7 +202,8 @@ export class YouTubeIntegration extends EventEmitter {
     private settings: IntegrationParameters = {
         chat: {
             chatFeed: true,
-            chatSend: false
+            chatSend: false,
+            autoDeleteCommandTriggers: true
         },
         triggerTwitchEvents: {
             chatMessage: false
@@ -119,10 +212,19 @@ export class YouTubeIntegration extends EventEmitter {
             logChatPushes: false,
             logApiResponses: false
         },
+        quotaBudgets: {
+            enforceQuotaBudgets: false,
+            pollingReservePercent: QUOTA_POLLING_RESERVE_PERCENT_DEFAULT,
+            sendingCapPercent: QUOTA_CLASS_CAP_PERCENT_DEFAULT,
+            broadcastCapPercent: QUOTA_CLASS_CAP_PERCENT_DEFAULT,
+            moderationCapPercent: QUOTA_CLASS_CAP_PERCENT_DEFAULT
+        },
         advanced: {
             suppressChatFeedNotifications: false,
             enableAutomaticFailover: false,
-            automaticFailoverThreshold: FAILOVER_THRESHOLD_DEFAULT
+            automaticFailoverThreshold: FAILOVER_THRESHOLD_DEFAULT,
+            quotaHistoryRetentionDays: QUOTA_HISTORY_RETENTION_DAYS_DEFAULT,
+            adaptivePollingDelay: false
         }
     };
 
@@ -147,22 +249,60 @@ export class YouTubeIntegration extends EventEmitter {
         replaceVariableManager.registerReplaceVariable(youtubeApplicationIdVariable);
         replaceVariableManager.registerReplaceVariable(youtubeApplicationNameVariable);
         replaceVariableManager.registerReplaceVariable(youtubeChannelIdVariable);
+        replaceVariableManager.registerReplaceVariable(youtubeConnectionStateVariable);
         replaceVariableManager.registerReplaceVariable(youtubeErrorCategoryVariable);
         replaceVariableManager.registerReplaceVariable(youtubeErrorConsecutiveFailuresVariable);
         replaceVariableManager.registerReplaceVariable(youtubeErrorMessageVariable);
         replaceVariableManager.registerReplaceVariable(youtubeIntegrationConnectedVariable);
         replaceVariableManager.registerReplaceVariable(youtubeLiveChatIdVariable);
+        replaceVariableManager.registerReplaceVariable(youtubeModeratorsVariable);
         replaceVariableManager.registerReplaceVariable(youtubePreviousApplicationIdVariable);
         replaceVariableManager.registerReplaceVariable(youtubePrivacyStatusVariable);
+        replaceVariableManager.registerReplaceVariable(youtubeStreamTitleVariable);
+        replaceVariableManager.registerReplaceVariable(youtubeStreamDescriptionVariable);
+        replaceVariableManager.registerReplaceVariable(youtubePreviousStreamTitleVariable);
+        replaceVariableManager.registerReplaceVariable(youtubeStreamerNameVariable);
+        replaceVariableManager.registerReplaceVariable(youtubeStreamerAvatarVariable);
         replaceVariableManager.registerReplaceVariable(youtubeVideoIdVariable);
+        replaceVariableManager.registerReplaceVariable(youtubePollingDelayVariable);
+        replaceVariableManager.registerReplaceVariable(youtubeReconnectDelayVariable);
         replaceVariableManager.registerReplaceVariable(youtubeQuotaConsumedVariable);
+        replaceVariableManager.registerReplaceVariable(youtubeQuotaBudgetEndpointVariable);
+        replaceVariableManager.registerReplaceVariable(youtubeQuotaBudgetReasonVariable);
         replaceVariableManager.registerReplaceVariable(youtubeQuotaLimitVariable);
         replaceVariableManager.registerReplaceVariable(youtubeQuotaThresholdVariable);
+        replaceVariableManager.registerReplaceVariable(youtubeSuperChatAmountVariable);
+        replaceVariableManager.registerReplaceVariable(youtubeSuperChatAmountDisplayVariable);
+        replaceVariableManager.registerReplaceVariable(youtubeSuperChatCommentVariable);
+        replaceVariableManager.registerReplaceVariable(youtubeSuperChatCurrencyVariable);
+        replaceVariableManager.registerReplaceVariable(youtubeSuperChatTierVariable);
+        replaceVariableManager.registerReplaceVariable(youtubeSuperStickerAltTextVariable);
+        replaceVariableManager.registerReplaceVariable(youtubeMemberLevelNameVariable);
+        replaceVariableManager.registerReplaceVariable(youtubeMemberIsUpgradeVariable);
+        replaceVariableManager.registerReplaceVariable(youtubeMemberMonthsVariable);
+        replaceVariableManager.registerReplaceVariable(youtubeMemberMilestoneCommentVariable);
+        replaceVariableManager.registerReplaceVariable(youtubeGiftMembershipsCountVariable);
+        replaceVariableManager.registerReplaceVariable(youtubeGifterUserIdVariable);
+        replaceVariableManager.registerReplaceVariable(youtubeGifterUsernameVariable);
+        replaceVariableManager.registerReplaceVariable(youtubeBanTypeVariable);
+        replaceVariableManager.registerReplaceVariable(youtubeBanDurationVariable);
+        replaceVariableManager.registerReplaceVariable(youtubeDeletedMessageIdVariable);
+        replaceVariableManager.registerReplaceVariable(youtubeDeletedMessageTextVariable);
+        replaceVariableManager.registerReplaceVariable(youtubePollIdVariable);
+        replaceVariableManager.registerReplaceVariable(youtubePollQuestionVariable);
+        replaceVariableManager.registerReplaceVariable(youtubePollOptionTextVariable);
+        replaceVariableManager.registerReplaceVariable(youtubePollOptionVotesVariable);
+        replaceVariableManager.registerReplaceVariable(youtubePollTotalVotesVariable);
+        replaceVariableManager.registerReplaceVariable(youtubePollWinningOptionVariable);
         logger.debug("YouTube variables registered");
 
         // Additional events for variables
         replaceVariableManager.addEventToVariable("chatMessage", IntegrationConstants.INTEGRATION_ID, "chat-message");
         replaceVariableManager.addEventToVariable("chatMessage", IntegrationConstants.INTEGRATION_ID, "viewer-arrived");
+        replaceVariableManager.addEventToVariable("moderator", IntegrationConstants.INTEGRATION_ID, "message-deleted");
+        replaceVariableManager.addEventToVariable("moderator", IntegrationConstants.INTEGRATION_ID, "viewer-banned");
+        replaceVariableManager.addEventToVariable("moderator", IntegrationConstants.INTEGRATION_ID, "viewer-timeout");
+        replaceVariableManager.addEventToVariable("timeoutDuration", IntegrationConstants.INTEGRATION_ID, "viewer-timeout");
 
         // Register filters
         const { eventFilterManager } = firebot.modules;
@@ -170,7 +310,10 @@ export class YouTubeIntegration extends EventEmitter {
         eventFilterManager.registerFilter(channelLiveFilter);
         eventFilterManager.registerFilter(consecutiveErrorsFilter);
         eventFilterManager.registerFilter(errorTypeFilter);
+        eventFilterManager.registerFilter(membershipLevelFilter);
         eventFilterManager.registerFilter(streamerFilter);
+        eventFilterManager.registerFilter(superChatAmountFilter);
+        eventFilterManager.registerFilter(superChatCurrencyFilter);
         logger.debug("YouTube filters registered");
 
         // Register HTTP endpoints for multi-application OAuth
@@ -207,6 +350,21 @@ export class YouTubeIntegration extends EventEmitter {
         frontendCommunicator.onAsync("send-chat-message", async (payload: InboundSendChatMessage) => {
             return this.handleChatMessageTypedInChatFeed(payload);
         });
+
+        // Chat feed context menu actions; these ignore Twitch messages and users
+        frontendCommunicator.onAsync("delete-message", async (messageId: string) => {
+            return this.chatFeedModeration.deleteMessage(messageId);
+        });
+        frontendCommunicator.on("update-user-banned-status", (data: UserBanRequest) => {
+            this.chatFeedModeration.setBanned(data).catch((error) => {
+                logger.error(`Error updating YouTube ban status from chat feed: ${error}`);
+            });
+        });
+        frontendCommunicator.on("update-user-mod-status", (data: UserModRequest) => {
+            this.chatFeedModeration.setModerator(data).catch((error) => {
+                logger.error(`Error updating YouTube moderator status from chat feed: ${error}`);
+            });
+        });
         logger.debug("Frontend communicator listeners registered");
 
         // Register UI Extension communicator listeners
@@ -216,6 +374,13 @@ export class YouTubeIntegration extends EventEmitter {
         // Register effects
         const { effectManager } = firebot.modules;
         effectManager.registerEffect(chatEffect);
+        effectManager.registerEffect(deleteMessageEffect);
+        effectManager.registerEffect(timeoutEffect);
+        effectManager.registerEffect(banEffect);
+        effectManager.registerEffect(addModeratorEffect);
+        effectManager.registerEffect(removeModeratorEffect);
+        effectManager.registerEffect(pollEffect);
+        effectManager.registerEffect(updateBroadcastEffect);
         effectManager.registerEffect(selectApplicationEffect);
 
         // Add events to effects, filters, and variables
@@ -239,8 +404,26 @@ export class YouTubeIntegration extends EventEmitter {
         });
         logger.debug("QuotaManager initialized");
 
+        // Load command cooldowns
+        commandHandler.initialize();
+        logger.debug("Command cooldowns loaded");
+
+        // Load saved chat positions
+        chatResumeStore.initialize();
+        logger.debug("Chat resume positions loaded");
+
+        // Load bans issued by the integration so they can still be lifted
+        banStore.initialize();
+        logger.debug("Issued bans loaded");
+
+        // Initialize ApplicationRotationManager
+        this.applicationRotationManager.initialize().catch((error) => {
+            logger.error(`Failed to initialize ApplicationRotationManager: ${error.message}`);
+        });
+
         // Initialize ApplicationManager
         this.dataFilePath = getDataFilePath("integration-data.json");
+        this.migrateIntegrationTokenData();
         this.applicationManager.initPath();
 
         // Load applications asynchronously (don't block init)
@@ -257,8 +440,10 @@ export class YouTubeIntegration extends EventEmitter {
         const pingResult = await checkPlatformLibPing(this.getPlatformLibPingPort());
         if (!pingResult.success) {
             logger.error(`Platform library ping failed: ${pingResult.errorMessage || "Unknown error"}`);
-            await this.disconnect();
-            this.sendCriticalErrorNotification(`Platform library ping failed. ${pingResult.errorMessage || "Please verify that the platform library is loaded."}`);
+            const retrying = await this.disconnectAfterFailure(new Error(`Platform library ping failed: ${pingResult.errorMessage || "Unknown error"}`));
+            if (!retrying) {
+                this.sendCriticalErrorNotification(`Platform library ping failed. ${pingResult.errorMessage || "Please verify that the platform library is loaded."}`);
+            }
             return;
         }
 
@@ -336,6 +521,13 @@ export class YouTubeIntegration extends EventEmitter {
             }
             logger.info("YouTube OAuth connected successfully");
 
+            // Step 5b: Resolve the channel each ready application is authorized for (non-fatal)
+            for (const app of applications) {
+                if (app.ready && app.refreshToken) {
+                    await this.resolveBroadcasterIdentity(app.id);
+                }
+            }
+
             // Step 6: Find active live stream
             logger.info("Searching for active YouTube broadcast...");
             const broadcastInfo = await this.broadcastManager.findLiveBroadcast(accessToken, undefined, finalActiveApp.id);
@@ -354,9 +546,13 @@ export class YouTubeIntegration extends EventEmitter {
                 // Start offline monitoring (10-second broadcast checks)
                 this.startOfflineMonitoring();
 
+                // Start applying schedule windows and fail-back from the rotation policy
+                this.applicationRotationManager.start();
+
                 // Register HTTP operation handlers for platform-lib
                 registerRoutes(this);
 
+                this.connectionSupervisor.handleConnected();
                 logger.info("YouTube integration connected successfully (no broadcast found)");
                 return;
             }
@@ -367,7 +563,9 @@ export class YouTubeIntegration extends EventEmitter {
             this.currentBroadcastId = broadcastInfo.broadcastId;
             this.currentChannelId = broadcastInfo.channelId;
             this.currentBroadcastPrivacyStatus = broadcastInfo.privacyStatus ?? null;
+            this.applyBroadcastDetails(broadcastInfo);
             await this.startChatStreaming(broadcastInfo.liveChatId, finalActiveApp.id);
+            this.applicationRotationManager.recordStreamApplication(finalActiveApp.id);
 
             this.connected = true;
 
@@ -377,14 +575,23 @@ export class YouTubeIntegration extends EventEmitter {
 
             this.emit("connected", IntegrationConstants.INTEGRATION_ID);
 
+            // Start applying schedule windows and fail-back from the rotation policy
+            this.applicationRotationManager.start();
+
+            // Watch for title changes made outside Firebot (e.g. in YouTube Studio)
+            this.startBroadcastDetailsMonitoring();
+
             // Register HTTP operation handlers for platform-lib
             registerRoutes(this);
 
+            this.connectionSupervisor.handleConnected();
             logger.info("YouTube integration connected successfully");
         } catch (error: any) {
             logger.error(`Failed to connect YouTube integration: ${error.message}`);
-            this.sendCriticalErrorNotification(`Failed to connect: ${error.message}`);
-            await this.disconnect();
+            const retrying = await this.disconnectAfterFailure(error);
+            if (!retrying) {
+                this.sendCriticalErrorNotification(`Failed to connect: ${error.message}`);
+            }
         }
     }
 
@@ -405,6 +612,11 @@ export class YouTubeIntegration extends EventEmitter {
         // Start streaming (ChatManager will retrieve token internally)
         await this.chatManager.startChatStreaming(liveChatId);
         logger.debug(`Chat streaming started for application ${activeApplicationId}`);
+
+        // Refresh the cached moderator list in the background
+        this.moderatorManager.refresh().catch((error) => {
+            logger.warn(`Failed to refresh YouTube moderator list: ${error}`);
+        });
     }
 
     /**
@@ -413,6 +625,7 @@ export class YouTubeIntegration extends EventEmitter {
     async handleStreamOffline(): Promise<void> {
         logger.info("YouTube stream offline detected");
         triggerStreamOffline();
+        this.stopBroadcastDetailsMonitoring();
 
         // Stop chat streaming
         if (this.chatManager) {
@@ -421,10 +634,13 @@ export class YouTubeIntegration extends EventEmitter {
         }
 
         // Clear stream state
+        this.moderatorManager.clear();
         this.currentLiveChatId = null;
         this.currentBroadcastId = null;
         this.currentChannelId = null;
         this.currentBroadcastPrivacyStatus = null;
+        this.currentBroadcastTitle = null;
+        this.currentBroadcastDescription = null;
         this.isStreamLive = false;
 
         // Start offline monitoring (10-second broadcast checks)
@@ -440,20 +656,34 @@ export class YouTubeIntegration extends EventEmitter {
         // Stop offline monitoring
         this.stopOfflineMonitoring();
 
+        // Let the rotation policy choose the application for this stream
+        const rotationApplicationId = this.applicationRotationManager.selectApplicationForStreamStart();
+        if (rotationApplicationId && rotationApplicationId !== this.currentActiveApplicationId) {
+            try {
+                logger.info(`Rotation policy selected application ${rotationApplicationId} for this stream`);
+                await this.switchActiveApplication(rotationApplicationId, ApplicationActivationCause.ROTATION_POLICY);
+            } catch (error: any) {
+                logger.warn(`Failed to switch to the application selected by the rotation policy: ${error.message}`);
+            }
+        }
+
         // Update stream state
         this.currentLiveChatId = broadcastInfo.liveChatId;
         this.currentBroadcastId = broadcastInfo.broadcastId;
         this.currentChannelId = broadcastInfo.channelId;
         this.currentBroadcastPrivacyStatus = broadcastInfo.privacyStatus ?? null;
+        this.applyBroadcastDetails(broadcastInfo);
         this.isStreamLive = true;
 
         // Trigger stream online event
         triggerStreamOnline();
+        this.startBroadcastDetailsMonitoring();
 
         // Start chat streaming
         const liveChatId = broadcastInfo.liveChatId as string | null;
         if (liveChatId != null && this.currentActiveApplicationId != null) {
             await this.startChatStreaming(liveChatId, this.currentActiveApplicationId);
+            this.applicationRotationManager.recordStreamApplication(this.currentActiveApplicationId);
         }
     }
 
@@ -494,6 +724,67 @@ export class YouTubeIntegration extends EventEmitter {
         }
     }
 
+    /**
+     * Start periodic checks of the live broadcast's details
+     */
+    private startBroadcastDetailsMonitoring(): void {
+        this.stopBroadcastDetailsMonitoring();
+        this.broadcastDetailsInterval = setInterval(() => {
+            this.refreshBroadcastDetails().catch((error: any) => {
+                logger.warn(`Failed to refresh YouTube broadcast details: ${error.message}`);
+            });
+        }, IntegrationConstants.BROADCAST_DETAILS_CHECK_INTERVAL_MS);
+    }
+
+    /**
+     * Stop periodic checks of the live broadcast's details
+     */
+    private stopBroadcastDetailsMonitoring(): void {
+        if (this.broadcastDetailsInterval) {
+            clearInterval(this.broadcastDetailsInterval);
+            this.broadcastDetailsInterval = null;
+        }
+    }
+
+    /**
+     * Fetch the live broadcast and pick up changes made outside Firebot (e.g. in YouTube Studio)
+     */
+    private async refreshBroadcastDetails(): Promise<void> {
+        if (!this.connected || !this.currentActiveApplicationId || !this.currentBroadcastId) {
+            return;
+        }
+
+        // A background check: skip it quietly while the broadcast budget is used up
+        if (!this.quotaManager.checkBudget(this.currentActiveApplicationId, "liveBroadcasts.list", QUOTA_COSTS.LIVE_BROADCASTS_LIST, false)) {
+            return;
+        }
+
+        const accessToken = await this.multiAuthManager.getAccessToken(this.currentActiveApplicationId);
+        if (!accessToken) {
+            return;
+        }
+
+        const broadcastInfo = await this.broadcastManager.findLiveBroadcast(accessToken, undefined, this.currentActiveApplicationId);
+        if (broadcastInfo && broadcastInfo.broadcastId === this.currentBroadcastId) {
+            this.currentBroadcastPrivacyStatus = broadcastInfo.privacyStatus ?? this.currentBroadcastPrivacyStatus;
+            this.applyBroadcastDetails(broadcastInfo);
+        }
+    }
+
+    /**
+     * Store the title and description of the live broadcast, triggering the title changed
+     * event if the title differs from the one already known
+     */
+    private applyBroadcastDetails(broadcastInfo: BroadcastInfo): void {
+        const previousTitle = this.currentBroadcastTitle;
+        this.currentBroadcastTitle = broadcastInfo.title ?? null;
+        this.currentBroadcastDescription = broadcastInfo.description ?? null;
+
+        if (previousTitle !== null && this.currentBroadcastTitle !== null && this.currentBroadcastTitle !== previousTitle) {
+            triggerTitleChanged(this.currentBroadcastTitle, previousTitle);
+        }
+    }
+
     /**
      * Check for live broadcast (used during offline monitoring)
      */
@@ -507,15 +798,20 @@ export class YouTubeIntegration extends EventEmitter {
             const activeApp = this.applicationManager.getApplication(this.currentActiveApplicationId || "");
             if (!activeApp || !activeApp.ready) {
                 logger.error("Active application is no longer ready. Disconnecting.");
-                this.sendCriticalErrorNotification("Active YouTube application is no longer ready. Disconnecting.");
-                await this.disconnect();
+                const retrying = await this.disconnectAfterFailure(new Error("Active YouTube application is no longer ready"));
+                if (!retrying) {
+                    this.sendCriticalErrorNotification("Active YouTube application is no longer ready. Disconnecting.");
+                }
                 return;
             }
 
             const accessToken = await this.multiAuthManager.getAccessToken(this.currentActiveApplicationId);
             if (!accessToken) {
                 logger.error("Failed to get access token for active application during broadcast check.");
-                await this.disconnect();
+                const retrying = await this.disconnectAfterFailure(new Error("Failed to get access token for active application during broadcast check"));
+                if (!retrying) {
+                    this.sendCriticalErrorNotification("Failed to get an access token for the active YouTube application. Disconnecting.");
+                }
                 return;
             }
 
@@ -526,10 +822,11 @@ export class YouTubeIntegration extends EventEmitter {
             }
         } catch (error: any) {
             // Check if it's a quota error
-            if (this.quotaManager.isQuotaExceededError(error)) {
-                logger.error("YouTube API quota exceeded. Disconnecting integration.");
-                this.sendCriticalErrorNotification("YouTube API quota exceeded. Please wait until quota resets.");
-                await this.disconnect();
+            if (this.quotaManager.isQuotaExceededError(error) && this.quotaManager.isDailyQuotaExhaustedError(error)) {
+                logger.error("YouTube API quota exceeded during broadcast check.");
+                await this.handleQuotaExhausted(this.currentActiveApplicationId);
+            } else if (this.quotaManager.isQuotaExceededError(error)) {
+                logger.warn(`Broadcast check rate limited, will retry: ${error.message}`);
             } else {
                 logger.error(`Broadcast check failed: ${error.message}`);
             }
@@ -542,14 +839,38 @@ export class YouTubeIntegration extends EventEmitter {
     }
 
     async disconnect() {
+        this.connectionSupervisor.stop();
+        await this.closeConnection();
+    }
+
+    /**
+     * Disconnect after a failure, letting the connection supervisor decide whether to reconnect
+     * @param error The failure
+     * @param category The failure's category, if known better than from the error
+     * @returns true if a reconnect was scheduled
+     */
+    public async disconnectAfterFailure(error: any, category?: ErrorCategory): Promise<boolean> {
+        await this.closeConnection();
+        return this.connectionSupervisor.handleFailure(error, category);
+    }
+
+    getConnectionSupervisor(): ConnectionSupervisor {
+        return this.connectionSupervisor;
+    }
+
+    private async closeConnection(): Promise<void> {
         logger.info("YouTube integration disconnecting...");
         this.emit("disconnecting", IntegrationConstants.INTEGRATION_ID);
 
         // Unregister HTTP operation handlers
         unregisterRoutes();
 
-        // Stop offline monitoring
+        // Stop offline monitoring and broadcast details checks
         this.stopOfflineMonitoring();
+        this.stopBroadcastDetailsMonitoring();
+
+        // Stop rotation policy checks
+        this.applicationRotationManager.stop();
 
         // Stop chat streaming
         if (this.chatManager) {
@@ -558,17 +879,21 @@ export class YouTubeIntegration extends EventEmitter {
             logger.debug("Chat streaming stopped");
         }
 
-        // Flush quota data before disconnect
+        // Flush quota data and command cooldowns before disconnect
         this.quotaManager.flushQuotaData();
+        commandHandler.flushCooldowns();
 
         // Destroy multi-auth manager and stop all background refresh timers
         this.multiAuthManager.destroy();
         logger.debug("Background token refresh timers destroyed for all applications");
 
+        this.moderatorManager.clear();
         this.currentLiveChatId = null;
         this.currentBroadcastId = null;
         this.currentChannelId = null;
         this.currentBroadcastPrivacyStatus = null;
+        this.currentBroadcastTitle = null;
+        this.currentBroadcastDescription = null;
         this.currentActiveApplicationId = null;
         this.isStreamLive = false;
         this.connected = false;
@@ -603,9 +928,43 @@ export class YouTubeIntegration extends EventEmitter {
     /**
      * Attempt automatic quota failover to another application
      * @param currentApplicationId The application whose quota threshold was crossed
+     * @returns true if another application was activated
      */
-    public async attemptQuotaFailover(currentApplicationId: string): Promise<void> {
-        await this.quotaFailoverManager.attemptQuotaFailover(currentApplicationId);
+    public async attemptQuotaFailover(currentApplicationId: string): Promise<boolean> {
+        return this.quotaFailoverManager.attemptQuotaFailover(currentApplicationId);
+    }
+
+    /**
+     * Handle YouTube rejecting a call because an application's daily quota is used up
+     *
+     * The application is marked exhausted. If it is the active application, automatic failover
+     * is attempted right away (chat resumes from the same page on the new application); if no
+     * other application can take over, the integration disconnects until the quota resets.
+     *
+     * @param applicationId The application whose call was rejected
+     * @returns true if the integration can carry on
+     */
+    public async handleQuotaExhausted(applicationId: string): Promise<boolean> {
+        this.quotaManager.markQuotaExhausted(applicationId);
+
+        if (!this.connected || applicationId !== this.currentActiveApplicationId) {
+            return true;
+        }
+
+        const switched = await this.quotaFailoverManager.attemptQuotaFailover(applicationId);
+        if (switched || this.currentActiveApplicationId !== applicationId) {
+            return true;
+        }
+
+        // Failover may have disconnected the integration already
+        if (!this.connected) {
+            return false;
+        }
+
+        logger.error("YouTube API quota exceeded and no other application could take over. Disconnecting integration.");
+        this.sendCriticalErrorNotification("YouTube API quota exceeded. The integration will reconnect after the quota resets.");
+        await this.disconnectAfterFailure(new Error("YouTube API quota exceeded"), ErrorCategory.QUOTA_EXCEEDED);
+        return false;
     }
 
     private async handleChatMessageTypedInChatFeed(payload: InboundSendChatMessage): Promise<boolean> {
@@ -629,24 +988,30 @@ export class YouTubeIntegration extends EventEmitter {
             return false;
         }
 
-        if (payload.accountType === "Bot") {
-            logger.debug("handleChatMessageTypedInChatFeed: YouTube chat integration does not support sending as Bot. Sending as streamer instead.");
+        // Moderation commands (e.g. from the chat feed's Timeout action) are routed to the API rather than sent as chat
+        const commandResult = await this.chatFeedModeration.handleSlashCommand(payload.message);
+        if (commandResult !== null) {
+            return commandResult;
         }
 
-        if (payload.replyToMessageId) {
-            logger.debug("handleChatMessageTypedInChatFeed: Replying to specific messages is not supported for YouTube chat.");
+        if (payload.accountType === "Bot") {
+            logger.debug("handleChatMessageTypedInChatFeed: YouTube chat integration does not support sending as Bot. Sending as streamer instead.");
         }
 
         logger.debug(`handleChatMessageTypedInChatFeed: Sending message typed in chat feed: ${payload.message}`);
-        return this.restApiClient.sendChatMessage(payload.message);
+        return this.restApiClient.sendChatMessage(payload.message, payload.replyToMessageId);
     }
 
     getRestApiClient(): RestApiClient {
         return this.restApiClient;
     }
 
-    queueChatMessage(message: string): void {
-        this.chatMessageQueue.enqueue(message);
+    getModeratorManager(): ModeratorManager {
+        return this.moderatorManager;
+    }
+
+    queueChatMessage(message: string, replyToMessageId?: string): void {
+        this.chatMessageQueue.enqueue(message, replyToMessageId);
     }
 
     getApplicationManager(): ApplicationManager {
@@ -657,6 +1022,34 @@ export class YouTubeIntegration extends EventEmitter {
         return this.currentLiveChatId;
     }
 
+    getRecentChatMessage(messageId: string): RecentChatMessage | undefined {
+        return this.chatManager?.getRecentMessage(messageId);
+    }
+
+    recordSentReply(sentMessageId: string, replyToMessageId: string): void {
+        this.chatManager?.recordSentReply(sentMessageId, replyToMessageId);
+    }
+
+    findRecentChatUserId(username: string): string | undefined {
+        return this.chatManager?.findRecentUserId(username);
+    }
+
+    getUserManager(): YouTubeUserManager {
+        return this.youtubeUserManager;
+    }
+
+    /**
+     * Get the delay before the next chat poll
+     * @returns Delay in milliseconds, or null if chat is not streaming
+     */
+    getChatPollingDelay(): number | null {
+        return this.chatManager?.getPollingDelay() ?? null;
+    }
+
+    getActivePollId(): string | null {
+        return this.chatManager?.getActivePollId() ?? null;
+    }
+
     getCurrentBroadcastId(): string | null {
         return this.currentBroadcastId;
     }
@@ -665,10 +1058,69 @@ export class YouTubeIntegration extends EventEmitter {
         return this.currentChannelId;
     }
 
+    /**
+     * Get the channel the active application is authorized for (the broadcaster), if resolved
+     */
+    getBroadcasterIdentity(): ChannelIdentity | null {
+        if (!this.currentActiveApplicationId) {
+            return null;
+        }
+        return this.channelManager.getChannel(this.currentActiveApplicationId) ?? null;
+    }
+
+    /**
+     * Look up and cache the channel an application is authorized for.
+     * Failures are logged and otherwise ignored.
+     */
+    private async resolveBroadcasterIdentity(applicationId: string): Promise<void> {
+        try {
+            const accessToken = await this.multiAuthManager.getAccessToken(applicationId);
+            await this.channelManager.resolveChannel(accessToken, applicationId);
+        } catch (error: any) {
+            logger.warn(`Failed to resolve YouTube channel for application ${applicationId}: ${error.message}`);
+        }
+    }
+
     getCurrentBroadcastPrivacyStatus(): BroadcastPrivacyStatus | null {
         return this.currentBroadcastPrivacyStatus;
     }
 
+    getCurrentBroadcastTitle(): string | null {
+        return this.currentBroadcastTitle;
+    }
+
+    getCurrentBroadcastDescription(): string | null {
+        return this.currentBroadcastDescription;
+    }
+
+    /**
+     * Update the title, description, privacy status and/or category of the active broadcast
+     * @param update The fields to change; omitted fields are left unchanged
+     * @returns True if the broadcast was updated
+     */
+    async updateBroadcastMetadata(update: BroadcastMetadataUpdate): Promise<boolean> {
+        if (!this.currentBroadcastId) {
+            logger.warn("Cannot update YouTube broadcast: No active broadcast");
+            return false;
+        }
+
+        const result = await this.restApiClient.updateBroadcast(this.currentBroadcastId, update);
+        if (!result) {
+            return false;
+        }
+
+        const previousTitle = this.currentBroadcastTitle;
+        this.currentBroadcastTitle = result.title;
+        this.currentBroadcastDescription = result.description;
+        this.currentBroadcastPrivacyStatus = result.privacyStatus ?? this.currentBroadcastPrivacyStatus;
+
+        // Like applyBroadcastDetails, there is no change to report if the title was never loaded
+        if (previousTitle !== null && result.title !== previousTitle) {
+            triggerTitleChanged(result.title, previousTitle);
+        }
+        return true;
+    }
+
     getMultiAuthManager(): MultiAuthManager {
         return this.multiAuthManager;
     }
@@ -689,6 +1141,18 @@ export class YouTubeIntegration extends EventEmitter {
         return this.quotaManager;
     }
 
+    getApplicationRotationManager(): ApplicationRotationManager {
+        return this.applicationRotationManager;
+    }
+
+    /**
+     * Get the application that should send chat messages
+     * @returns The rotation policy's sending application, or null to use the active application
+     */
+    getSendingApplicationId(): string | null {
+        return this.applicationRotationManager.getSendingApplicationId();
+    }
+
     getApplicationsStorage(): ApplicationStorage {
         // Build ApplicationStorage from ApplicationManager as the single source of truth
         const applicationsMap = this.applicationManager.getApplications();
@@ -716,7 +1180,7 @@ export class YouTubeIntegration extends EventEmitter {
      * Switch to a different active application
      * If currently connected, seamlessly switches streaming to the new application
      */
-    async switchActiveApplication(newApplicationId: string): Promise<void> {
+    async switchActiveApplication(newApplicationId: string, cause: ApplicationActivationCause = ApplicationActivationCause.USER_CLICKED): Promise<void> {
         const newApp = this.applicationManager.getApplication(newApplicationId);
         if (!newApp) {
             throw new Error(`Application ${newApplicationId} not found`);
@@ -730,26 +1194,29 @@ export class YouTubeIntegration extends EventEmitter {
         this.currentActiveApplicationId = newApplicationId;
 
         // Update active application in ApplicationManager
-        await this.applicationManager.setActiveApplication(newApplicationId, ApplicationActivationCause.USER_CLICKED, this.connected);
+        await this.applicationManager.setActiveApplication(newApplicationId, cause, this.connected);
 
         logger.info(`Active application switched from ${previousApplicationId} to ${newApplicationId} (${newApp.name})`);
 
-        // If connected, restart streaming with new application
+        if (this.connected && !this.channelManager.getChannel(newApplicationId)) {
+            await this.resolveBroadcasterIdentity(newApplicationId);
+        }
+
+        // If connected, move streaming to the new application
         if (this.connected && this.currentLiveChatId) {
             try {
-                logger.info("Restarting chat streaming with new active application");
-
-                // Stop existing chat stream
                 if (this.chatManager) {
-                    await this.chatManager.stopChatStreaming();
-                    this.chatManager = null;
+                    // Continue the running stream from the same page so no messages are lost
+                    this.chatManager.resumeWithApplication(newApplicationId);
+                    logger.info("Chat streaming resumed with new active application");
+                } else {
+                    // Restart chat streaming with new application
+                    logger.info("Restarting chat streaming with new active application");
+                    await this.startChatStreaming(this.currentLiveChatId, newApplicationId);
+                    logger.info("Chat streaming restarted successfully with new active application");
                 }
-
-                // Restart chat streaming with new application
-                await this.startChatStreaming(this.currentLiveChatId, newApplicationId);
-                logger.info("Chat streaming restarted successfully with new active application");
             } catch (error: any) {
-                logger.error(`Failed to restart chat streaming with new application: ${error.message}`);
+                logger.error(`Failed to move chat streaming to new application: ${error.message}`);
                 // If seamless switch fails, disconnect to prevent inconsistent state
                 await this.disconnect();
                 this.sendCriticalErrorNotification(`Failed to switch applications: ${error.message}`);
@@ -820,6 +1287,8 @@ export class YouTubeIntegration extends EventEmitter {
                     customPollingDelaySeconds: app.quotaSettings.customPollingDelaySeconds
                 },
                 quotaUnitsUsed: quotaUnitsUsed,
+                quotaExhausted: !!quotaUsage?.exhaustedAt,
+                lastReconciliation: this.quotaManager.getQuotaReconciliations(id).pop() ?? null,
                 pollingIntervalDisplay: pollingIntervalDisplay
             };
         }
@@ -927,13 +1396,38 @@ export class YouTubeIntegration extends EventEmitter {
      */
     saveIntegrationTokenData(tokenData: { refreshToken: string }): void {
         const data: IntegrationFileData = {
-            refreshToken: tokenData.refreshToken
+            refreshToken: credentialStore.encrypt(tokenData.refreshToken)
         };
 
-        fs.writeFileSync(this.dataFilePath, JSON.stringify(data, null, 2));
+        writeDataFile(this.dataFilePath, data, INTEGRATION_DATA_FILE_OPTIONS);
         logger.debug("YouTube OAuth refresh token saved to file");
     }
 
+    /**
+     * Encrypt a plaintext refresh token left in the legacy integration data file and upgrade its schema
+     */
+    private migrateIntegrationTokenData(): void {
+        try {
+            const result = readDataFile<IntegrationFileData>(this.dataFilePath, INTEGRATION_DATA_FILE_OPTIONS);
+            if (!result) {
+                return;
+            }
+
+            const { data, needsSave } = result;
+            const hasPlaintextToken = !!data.refreshToken && !credentialStore.isEncrypted(data.refreshToken);
+            if (hasPlaintextToken || needsSave) {
+                this.saveIntegrationTokenData({ refreshToken: data.refreshToken || "" });
+                if (hasPlaintextToken) {
+                    // The backups still hold the plaintext token
+                    removeDataFileBackups(this.dataFilePath);
+                }
+                logger.info("Migrated legacy integration data file");
+            }
+        } catch (error: any) {
+            logger.warn(`Failed to migrate legacy integration data file: ${error.message}`);
+        }
+    }
+
     /**
      * Unlink integration (revoke OAuth)
      * Called by AuthManager when user unlinks account
@@ -946,11 +1440,9 @@ export class YouTubeIntegration extends EventEmitter {
             await this.disconnect();
         }
 
-        // Delete integration data file
-        if (fs.existsSync(this.dataFilePath)) {
-            fs.unlinkSync(this.dataFilePath);
-            logger.info("YouTube integration data file deleted");
-        }
+        // Delete integration data file, including backups and quarantined copies that may hold the token
+        deleteDataFile(this.dataFilePath);
+        logger.info("YouTube integration data file deleted");
 
         logger.info("YouTube integration unlinked successfully");
     }
@@ -985,7 +1477,109 @@ export class YouTubeIntegration extends EventEmitter {
             }
         });
 
-        // Get application details (including credentials for editing)
+        // Get application settings with credentials redacted (for sharing when asking for help)
+        frontendCommunicator.on("youTube:getRedactedApplications", () => {
+            try {
+                return { settings: JSON.stringify(this.applicationManager.getRedactedStorage(), null, 2) };
+            } catch (error: any) {
+                logger.error(`Error exporting redacted applications: ${error.message}`);
+                return { errorMessage: error.message };
+            }
+        });
+
+        // Export applications and quota settings to a file chosen by the user
+        frontendCommunicator.onAsync("youTube:exportApplications", async (data: { includeSecrets: boolean }) => {
+            try {
+                const filePath = await chooseJsonSavePath("Export YouTube Applications", "youtube-applications.json");
+                if (!filePath) {
+                    return { canceled: true };
+                }
+
+                const exported = this.applicationManager.exportApplications(!!data?.includeSecrets);
+                fs.writeFileSync(filePath, JSON.stringify(exported, null, 2), "utf-8");
+                logger.info(`Exported ${exported.applications.length} YouTube applications to "${filePath}" (secrets ${exported.includesSecrets ? "included" : "excluded"})`);
+                return { success: true, filePath, count: exported.applications.length };
+            } catch (error: any) {
+                logger.error(`Error exporting applications: ${error.message}`);
+                return { errorMessage: error.message };
+            }
+        });
+
+        // Import applications and quota settings from a file chosen by the user
+        frontendCommunicator.onAsync("youTube:importApplications", async (data: { conflictMode: ImportConflictMode }) => {
+            try {
+                const conflictMode: ImportConflictMode = data?.conflictMode === "replace" ? "replace" : "skip";
+                const filePath = await chooseJsonOpenPath("Import YouTube Applications");
+                if (!filePath) {
+                    return { canceled: true };
+                }
+
+                const { applications, errors } = parseApplicationExport(fs.readFileSync(filePath, "utf-8"));
+                for (const error of errors) {
+                    logger.warn(`Skipping invalid application in import file: ${error}`);
+                }
+
+                const result = await this.applicationManager.importApplications(applications, conflictMode);
+                result.errors.push(...errors);
+
+                const applicationsMap = this.applicationManager.getApplications();
+                const serializedMap = this.serializeApplicationsForUI(applicationsMap);
+                return { success: true, result, applications: serializedMap };
+            } catch (error: any) {
+                logger.error(`Error importing applications: ${error.message}`);
+                return { errorMessage: error.message };
+            }
+        });
+
+        // Get per-day, per-endpoint quota usage history for an application
+        frontendCommunicator.on("youTube:getQuotaHistory", (data: { applicationId: string; days?: number }) => {
+            try {
+                if (!this.applicationManager.getApplication(data.applicationId)) {
+                    return { errorMessage: `Application with ID "${data.applicationId}" not found` };
+                }
+                return {
+                    applicationId: data.applicationId,
+                    retentionDays: this.quotaManager.getHistoryRetentionDays(),
+                    ...this.quotaManager.getQuotaHistory(data.applicationId, data.days)
+                };
+            } catch (error: any) {
+                logger.error(`Error getting quota history: ${error.message}`);
+                return { errorMessage: error.message };
+            }
+        });
+
+        // Correct an application's quota usage for today, e.g. from the Google Cloud console
+        frontendCommunicator.on("youTube:setQuotaUsage", (data: { applicationId: string; quotaUnitsUsed: number }) => {
+            try {
+                if (!this.applicationManager.getApplication(data.applicationId)) {
+                    return { errorMessage: `Application with ID "${data.applicationId}" not found` };
+                }
+                this.quotaManager.setQuotaUsage(data.applicationId, data.quotaUnitsUsed);
+                return { success: true };
+            } catch (error: any) {
+                logger.error(`Error setting quota usage: ${error.message}`);
+                return { errorMessage: error.message };
+            }
+        });
+
+        frontendCommunicator.on("youTube:getRotationPolicy", () => {
+            try {
+                return this.applicationRotationManager.getPolicy();
+            } catch (error: any) {
+                logger.error(`Error getting rotation policy: ${error.message}`);
+                return { errorMessage: error.message };
+            }
+        });
+
+        frontendCommunicator.on("youTube:saveRotationPolicy", (data: { policy: unknown }) => {
+            try {
+                return { success: true, policy: this.applicationRotationManager.savePolicy(data.policy) };
+            } catch (error: any) {
+                logger.error(`Error saving rotation policy: ${error.message}`);
+                return { errorMessage: error.message };
+            }
+        });
+
         frontendCommunicator.on("youTube:getApplicationDetails", (data: { applicationId: string }) => {
             try {
                 const app = this.applicationManager.getApplication(data.applicationId);
@@ -1078,8 +1672,9 @@ export class YouTubeIntegration extends EventEmitter {
                 app.refreshToken = "";
                 await this.applicationManager.updateApplicationReadyStatus(data.applicationId, false, "Authorization required");
 
-                // Clear the auth manager for this application
+                // Clear the auth manager and cached channel for this application
                 this.multiAuthManager.clearApplicationAuth(data.applicationId);
+                this.channelManager.forgetChannel(data.applicationId);
 
                 const applicationsMap = this.applicationManager.getApplications();
                 const serializedMap = this.serializeApplicationsForUI(applicationsMap);
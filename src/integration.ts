@@ -1,6 +1,7 @@
 import { IntegrationDefinition } from "@crowbartools/firebot-custom-scripts-types";
 import { IntegrationConstants } from "./constants";
 import { FAILOVER_THRESHOLD_DEFAULT } from "./internal/quota-failover-manager";
+import { QUOTA_CLASS_CAP_PERCENT_DEFAULT, QUOTA_HISTORY_RETENTION_DAYS_DEFAULT, QUOTA_POLLING_RESERVE_PERCENT_DEFAULT } from "./internal/quota-manager";
 
 export { integration } from "./integration-singleton";
 
@@ -29,6 +30,13 @@ export const definition: IntegrationDefinition = {
                     type: "boolean",
                     default: false,
                     sortRank: 2
+                },
+                autoDeleteCommandTriggers: {
+                    title: "Auto-Delete Command Triggers",
+                    tip: "Delete the YouTube chat message that triggered a command when the command has 'Auto Delete Trigger' checked. Each deletion costs 50 quota units; uncheck this box to never delete trigger messages on YouTube.",
+                    type: "boolean",
+                    default: true,
+                    sortRank: 3
                 }
             }
         },
@@ -44,6 +52,47 @@ export const definition: IntegrationDefinition = {
                 }
             }
         },
+        quotaBudgets: {
+            title: "Quota Budgets",
+            sortRank: 3,
+            settings: {
+                enforceQuotaBudgets: {
+                    title: "Enforce Quota Budgets",
+                    tip: "Refuse API calls (chat messages, polls, moderation and broadcast updates) that would exceed the caps below or use quota reserved for chat polling. Blocked calls trigger the 'Quota Budget Blocked Call' event; queued chat messages are held for up to 5 minutes before being dropped.",
+                    type: "boolean",
+                    default: false,
+                    sortRank: 1
+                },
+                pollingReservePercent: {
+                    title: "Chat Polling Reservation (%)",
+                    tip: "The percentage of each application's daily quota reserved for chat polling (0-100). Other calls may only use the rest, and the reservation shrinks as polling uses it.",
+                    type: "number",
+                    default: QUOTA_POLLING_RESERVE_PERCENT_DEFAULT,
+                    sortRank: 2
+                },
+                sendingCapPercent: {
+                    title: "Chat Sending Cap (%)",
+                    tip: "The maximum percentage of daily quota that chat messages and polls may use (0-100). 100 means no cap beyond the polling reservation.",
+                    type: "number",
+                    default: QUOTA_CLASS_CAP_PERCENT_DEFAULT,
+                    sortRank: 3
+                },
+                moderationCapPercent: {
+                    title: "Moderation Cap (%)",
+                    tip: "The maximum percentage of daily quota that deleting messages, bans and moderator changes may use (0-100). 100 means no cap beyond the polling reservation.",
+                    type: "number",
+                    default: QUOTA_CLASS_CAP_PERCENT_DEFAULT,
+                    sortRank: 4
+                },
+                broadcastCapPercent: {
+                    title: "Broadcast Cap (%)",
+                    tip: "The maximum percentage of daily quota that broadcast checks and updates may use (0-100). Stream detection counts toward this cap but is never blocked. 100 means no cap beyond the polling reservation.",
+                    type: "number",
+                    default: QUOTA_CLASS_CAP_PERCENT_DEFAULT,
+                    sortRank: 5
+                }
+            }
+        },
         logging: {
             title: "Logging Settings",
             sortRank: 98,
@@ -88,6 +137,20 @@ export const definition: IntegrationDefinition = {
                     type: "number",
                     default: FAILOVER_THRESHOLD_DEFAULT,
                     sortRank: 3
+                },
+                quotaHistoryRetentionDays: {
+                    title: "Quota History Retention (days)",
+                    tip: "The number of days of per-endpoint quota usage history to keep for the YouTube page chart.",
+                    type: "number",
+                    default: QUOTA_HISTORY_RETENTION_DAYS_DEFAULT,
+                    sortRank: 4
+                },
+                adaptivePollingDelay: {
+                    title: "Adaptive Polling Delay",
+                    tip: "Recalculate the chat polling delay after every poll from the quota actually remaining, the time until the quota resets and how busy chat is. Applications with an overridden polling delay always use their custom delay.",
+                    type: "boolean",
+                    default: false,
+                    sortRank: 5
                 }
             }
         }
@@ -23,9 +23,25 @@ jest.mock("../../main", () => ({
 }));
 
 jest.mock("../../util/datafile", () => ({
+    ...jest.requireActual("../../util/datafile"),
     getDataFilePath: jest.fn((filename: string) => `/mock/path/${filename}`)
 }));
 
+jest.mock("../credential-store", () => ({
+    credentialStore: {
+        isEncrypted: jest.fn((value: string) => !!value && value.startsWith("enc:")),
+        clearMissingKey: jest.fn(),
+        encrypt: jest.fn((value: string) => (value && !value.startsWith("enc:") ? `enc:${value}` : value)),
+        decrypt: jest.fn((value: string) => {
+            if (value === "enc:undecryptable") {
+                throw new Error("Unsupported state or unable to authenticate data");
+            }
+            return value.startsWith("enc:") ? value.substring(4) : value;
+        })
+    },
+    redactCredential: jest.fn((value: string) => (value ? "[REDACTED]" : ""))
+}));
+
 jest.mock("../application-utils", () => ({
     isApplicationReady: jest.fn((app) => app.ready),
     updateApplicationReadyStatus: jest.fn(),
@@ -55,6 +71,8 @@ describe("ApplicationManager", () => {
         existsSync: jest.MockedFunction<any>;
         readFileSync: jest.MockedFunction<any>;
         writeFileSync: jest.MockedFunction<any>;
+        readdirSync: jest.MockedFunction<any>;
+        rmSync: jest.MockedFunction<any>;
     };
 
     beforeEach(() => {
@@ -73,6 +91,7 @@ describe("ApplicationManager", () => {
 
         // Default mock fs behavior
         mockFs.existsSync.mockReturnValue(false);
+        mockFs.readdirSync.mockReturnValue([]);
     });
 
     afterEach(async () => {
@@ -125,6 +144,131 @@ describe("ApplicationManager", () => {
         });
     });
 
+    describe("credential encryption", () => {
+        const storedApplication = (clientSecret: string, refreshToken: string) => ({
+            applications: {
+                app1: {
+                    id: "app1",
+                    name: "Test App 1",
+                    clientId: "client1",
+                    clientSecret,
+                    refreshToken,
+                    quotaSettings: mockQuotaSettings,
+                    ready: true
+                }
+            },
+            activeApplicationId: "app1"
+        });
+
+        const lastSavedStorage = () => JSON.parse(mockFs.writeFileSync.mock.calls[mockFs.writeFileSync.mock.calls.length - 1][1]).data;
+
+        it("should encrypt the client secret and refresh token when saving", async () => {
+            await applicationManager.initialize();
+
+            await applicationManager.addApplication("New App", "client1", "secret1");
+
+            const saved = Object.values(lastSavedStorage().applications)[0] as any;
+            expect(saved.clientId).toBe("client1");
+            expect(saved.clientSecret).toBe("enc:secret1");
+            expect(saved.refreshToken).toBe("");
+        });
+
+        it("should decrypt credentials when loading without re-saving", async () => {
+            mockFs.existsSync.mockReturnValue(true);
+            mockFs.readFileSync.mockReturnValue(JSON.stringify(storedApplication("enc:secret1", "enc:refresh1")));
+
+            await applicationManager.initialize();
+
+            const app = applicationManager.getApplication("app1");
+            expect(app?.clientSecret).toBe("secret1");
+            expect(app?.refreshToken).toBe("refresh1");
+            expect(logger.info).not.toHaveBeenCalledWith(expect.stringContaining("Encrypting plaintext"));
+        });
+
+        it("should migrate plaintext credentials to encrypted storage on load", async () => {
+            mockFs.existsSync.mockReturnValue(true);
+            mockFs.readFileSync.mockReturnValue(JSON.stringify(storedApplication("secret1", "refresh1")));
+
+            await applicationManager.initialize();
+
+            const app = applicationManager.getApplication("app1");
+            expect(app?.clientSecret).toBe("secret1");
+            expect(app?.refreshToken).toBe("refresh1");
+            expect(logger.info).toHaveBeenCalledWith("Encrypting plaintext YouTube application credentials in storage");
+            expect(lastSavedStorage().applications.app1).toEqual(expect.objectContaining({ clientSecret: "enc:secret1", refreshToken: "enc:refresh1" }));
+        });
+
+        it("should delete backups holding plaintext credentials after migrating them", async () => {
+            mockFs.existsSync.mockReturnValue(true);
+            mockFs.readFileSync.mockReturnValue(JSON.stringify(storedApplication("secret1", "refresh1")));
+            mockFs.readdirSync.mockReturnValue(["applications.json", "applications.json.bak.1", "applications.json.corrupt-1700000000000", "quota-tracking.json.bak.1"]);
+
+            await applicationManager.initialize();
+
+            expect(mockFs.rmSync).toHaveBeenCalledWith("/mock/path/applications.json.bak.1", { force: true });
+            expect(mockFs.rmSync).toHaveBeenCalledWith("/mock/path/applications.json.corrupt-1700000000000", { force: true });
+            expect(mockFs.rmSync).not.toHaveBeenCalledWith("/mock/path/quota-tracking.json.bak.1", expect.anything());
+        });
+
+        it("should keep loaded applications when migration cannot be saved", async () => {
+            mockFs.existsSync.mockReturnValue(true);
+            mockFs.readFileSync.mockReturnValue(JSON.stringify(storedApplication("secret1", "refresh1")));
+            mockFs.writeFileSync.mockImplementationOnce(() => {
+                throw new Error("Write error");
+            });
+
+            await applicationManager.initialize();
+
+            expect(applicationManager.getApplication("app1")?.clientSecret).toBe("secret1");
+        });
+
+        it("should keep credentials that cannot be decrypted and mark the application not ready", async () => {
+            mockFs.existsSync.mockReturnValue(true);
+            mockFs.readFileSync.mockReturnValue(JSON.stringify(storedApplication("enc:secret1", "enc:undecryptable")));
+
+            await applicationManager.initialize();
+
+            const app = applicationManager.getApplication("app1");
+            expect(app?.clientSecret).toBe("secret1");
+            expect(app?.refreshToken).toBe("enc:undecryptable");
+            expect(applicationManager.hasUndecryptableCredentials(app as any)).toBe(true);
+            const { updateApplicationReadyStatus } = require("../application-utils");
+            expect(updateApplicationReadyStatus).toHaveBeenCalledWith(app, false);
+            expect(logger.error).toHaveBeenCalledWith(expect.stringContaining('Failed to decrypt refreshToken for application "Test App 1"'));
+        });
+
+        it("should not re-save the data file over credentials that cannot be decrypted", async () => {
+            mockFs.existsSync.mockReturnValue(true);
+            mockFs.readFileSync.mockReturnValue(JSON.stringify(storedApplication("plaintext-secret", "enc:undecryptable")));
+
+            await applicationManager.initialize();
+
+            expect(mockFs.writeFileSync).not.toHaveBeenCalled();
+        });
+
+        it("should write undecryptable credentials back unchanged on later saves", async () => {
+            mockFs.existsSync.mockReturnValue(true);
+            mockFs.readFileSync.mockReturnValue(JSON.stringify(storedApplication("enc:secret1", "enc:undecryptable")));
+            await applicationManager.initialize();
+
+            await applicationManager.updateApplication("app1", { name: "Renamed App" });
+
+            expect(lastSavedStorage().applications.app1).toEqual(expect.objectContaining({ refreshToken: "enc:undecryptable" }));
+        });
+
+        it("should redact credentials for sharing without changing stored applications", async () => {
+            mockFs.existsSync.mockReturnValue(true);
+            mockFs.readFileSync.mockReturnValue(JSON.stringify(storedApplication("enc:secret1", "")));
+            await applicationManager.initialize();
+
+            const redacted = applicationManager.getRedactedStorage();
+
+            expect(redacted.activeApplicationId).toBe("app1");
+            expect(redacted.applications.app1).toEqual(expect.objectContaining({ clientId: "client1", clientSecret: "[REDACTED]", refreshToken: "" }));
+            expect(applicationManager.getApplication("app1")?.clientSecret).toBe("secret1");
+        });
+    });
+
     describe("getApplications", () => {
         beforeEach(async () => {
             await applicationManager.initialize();
@@ -260,6 +404,103 @@ describe("ApplicationManager", () => {
         });
     });
 
+    describe("exportApplications", () => {
+        beforeEach(async () => {
+            await applicationManager.initialize();
+            await applicationManager.addApplication("Test App", "client1", "secret1", mockQuotaSettings);
+            const app = Object.values(applicationManager.getApplications())[0];
+            app.refreshToken = "refresh1";
+        });
+
+        it("should export applications without secrets or refresh tokens", () => {
+            const exported = applicationManager.exportApplications(false);
+
+            expect(exported.format).toBe("mage-youtube-integration-applications");
+            expect(exported.includesSecrets).toBe(false);
+            expect(exported.applications).toEqual([{ name: "Test App", clientId: "client1", quotaSettings: mockQuotaSettings }]);
+        });
+
+        it("should include client secrets but never refresh tokens when requested", () => {
+            const exported = applicationManager.exportApplications(true);
+
+            expect(exported.includesSecrets).toBe(true);
+            expect(exported.applications[0]).toEqual({ name: "Test App", clientId: "client1", clientSecret: "secret1", quotaSettings: mockQuotaSettings });
+            expect(JSON.stringify(exported)).not.toContain("refresh1");
+        });
+    });
+
+    describe("importApplications", () => {
+        const importedQuotaSettings: QuotaSettings = {
+            dailyQuota: 50000,
+            maxStreamHours: 4,
+            overridePollingDelay: true,
+            customPollingDelaySeconds: 10
+        };
+
+        beforeEach(async () => {
+            await applicationManager.initialize();
+            await applicationManager.addApplication("Existing App", "client1", "secret1", mockQuotaSettings);
+            const app = Object.values(applicationManager.getApplications())[0];
+            app.refreshToken = "refresh1";
+        });
+
+        it("should add new applications unauthorized", async () => {
+            const result = await applicationManager.importApplications([{ name: "New App", clientId: "client2", clientSecret: "secret2", quotaSettings: importedQuotaSettings }], "skip");
+
+            expect(result).toEqual({ added: ["New App"], updated: [], skipped: [], missingSecrets: [], errors: [] });
+            const app = Object.values(applicationManager.getApplications()).find((a) => a.clientId === "client2");
+            expect(app).toEqual(expect.objectContaining({ name: "New App", clientSecret: "secret2", refreshToken: "", ready: false, quotaSettings: importedQuotaSettings }));
+        });
+
+        it("should rename new applications whose name is already taken", async () => {
+            const result = await applicationManager.importApplications([{ name: "existing app", clientId: "client2", clientSecret: "secret2", quotaSettings: importedQuotaSettings }], "skip");
+
+            expect(result.added).toEqual(["existing app (2)"]);
+        });
+
+        it("should report new applications imported without a client secret", async () => {
+            const result = await applicationManager.importApplications([{ name: "New App", clientId: "client2", quotaSettings: importedQuotaSettings }], "skip");
+
+            expect(result.added).toEqual(["New App"]);
+            expect(result.missingSecrets).toEqual(["New App"]);
+        });
+
+        it("should skip applications with an existing client ID in skip mode", async () => {
+            const writesBeforeImport = mockFs.writeFileSync.mock.calls.length;
+
+            const result = await applicationManager.importApplications([{ name: "Other Name", clientId: "client1", clientSecret: "secret2", quotaSettings: importedQuotaSettings }], "skip");
+
+            expect(result.skipped).toEqual(["Existing App"]);
+            const app = Object.values(applicationManager.getApplications())[0];
+            expect(app.clientSecret).toBe("secret1");
+            expect(app.quotaSettings).toEqual(mockQuotaSettings);
+            expect(mockFs.writeFileSync).toHaveBeenCalledTimes(writesBeforeImport);
+        });
+
+        it("should replace settings of applications with an existing client ID in replace mode", async () => {
+            const result = await applicationManager.importApplications([{ name: "Other Name", clientId: "client1", clientSecret: "secret2", quotaSettings: importedQuotaSettings }], "replace");
+
+            expect(result.updated).toEqual(["Existing App"]);
+            const apps = Object.values(applicationManager.getApplications());
+            expect(apps).toHaveLength(1);
+            expect(apps[0]).toEqual(expect.objectContaining({ name: "Existing App", clientSecret: "secret2", refreshToken: "refresh1", quotaSettings: importedQuotaSettings }));
+        });
+
+        it("should not replace a client secret with an encrypted one", async () => {
+            const result = await applicationManager.importApplications([{ name: "Existing App", clientId: "client1", clientSecret: "enc:v1:undecryptable", quotaSettings: importedQuotaSettings }], "replace");
+
+            expect(result.updated).toEqual([]);
+            expect(result.errors).toEqual(['"Existing App": clientSecret is encrypted and cannot be imported']);
+            expect(Object.values(applicationManager.getApplications())[0].clientSecret).toBe("secret1");
+        });
+
+        it("should keep the existing client secret when replacing without one", async () => {
+            await applicationManager.importApplications([{ name: "Existing App", clientId: "client1", quotaSettings: importedQuotaSettings }], "replace");
+
+            expect(Object.values(applicationManager.getApplications())[0].clientSecret).toBe("secret1");
+        });
+    });
+
     describe("updateApplication", () => {
         beforeEach(async () => {
             await applicationManager.initialize();
@@ -509,7 +750,8 @@ describe("ApplicationManager", () => {
         });
 
         it("should handle file system errors gracefully", async () => {
-            mockFs.existsSync.mockImplementation((): never => {
+            // Fail while loading; saving afterwards works
+            mockFs.existsSync.mockImplementationOnce((): never => {
                 throw new Error("File system error");
             });
 
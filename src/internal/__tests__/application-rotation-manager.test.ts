@@ -0,0 +1,342 @@
+/* eslint-disable @typescript-eslint/unbound-method */
+import { DateTime } from "luxon";
+import { ApplicationActivationCause } from "../../events";
+import { readDataFile, writeDataFile } from "../../util/datafile";
+import { ApplicationRotationManager, DEFAULT_ROTATION_POLICY, isWithinScheduleWindow, validateRotationPolicy } from "../application-rotation-manager";
+
+jest.mock("../../main", () => ({
+    logger: {
+        error: jest.fn(),
+        debug: jest.fn(),
+        info: jest.fn(),
+        warn: jest.fn()
+    }
+}));
+
+jest.mock("../../util/datafile", () => ({
+    getDataFilePath: jest.fn(() => "/tmp/application-rotation.json"),
+    readDataFile: jest.fn(() => null),
+    writeDataFile: jest.fn()
+}));
+
+const makeApp = (id: string, name: string, overrides: Record<string, unknown> = {}) => ({
+    id,
+    name,
+    clientId: `client-${id}`,
+    clientSecret: "secret",
+    refreshToken: "refresh",
+    ready: true,
+    quotaSettings: { dailyQuota: 10000, maxStreamHours: 8, overridePollingDelay: false, customPollingDelaySeconds: -1 },
+    ...overrides
+});
+
+describe("validateRotationPolicy", () => {
+    const ids = ["a", "b"];
+
+    it("accepts the default policy and a full policy", () => {
+        expect(validateRotationPolicy(DEFAULT_ROTATION_POLICY, ids)).toEqual([]);
+        expect(
+            validateRotationPolicy(
+                {
+                    mode: "priority",
+                    priorityOrder: ["b", "a"],
+                    schedule: [{ applicationId: "a", startTime: "22:00", endTime: "02:00" }],
+                    sendingApplicationIds: ["b"],
+                    failBackAfterReset: true
+                },
+                ids
+            )
+        ).toEqual([]);
+    });
+
+    it("reports each invalid field", () => {
+        const errors = validateRotationPolicy(
+            {
+                mode: "random",
+                priorityOrder: ["a", "a"],
+                schedule: [
+                    { applicationId: "c", startTime: "08:00", endTime: "09:00" },
+                    { applicationId: "a", startTime: "8:00", endTime: "09:00" },
+                    { applicationId: "a", startTime: "09:00", endTime: "09:00" }
+                ],
+                sendingApplicationIds: ["c"],
+                failBackAfterReset: "yes"
+            },
+            ids
+        );
+
+        expect(errors).toEqual([
+            "mode must be one of: lowest-usage, priority, round-robin",
+            "priorityOrder must not list an application twice",
+            "schedule entry 1: application is not configured",
+            "schedule entry 2: times must be HH:MM (24-hour)",
+            "schedule entry 3: start and end times must differ",
+            "sendingApplicationIds must list configured applications",
+            "failBackAfterReset must be true or false"
+        ]);
+    });
+
+    it("rejects unknown applications in the priority order", () => {
+        expect(validateRotationPolicy({ ...DEFAULT_ROTATION_POLICY, priorityOrder: ["c"] }, ids)).toEqual(["priorityOrder must list configured applications"]);
+    });
+
+    it("rejects duplicates in the sending pool", () => {
+        expect(validateRotationPolicy({ ...DEFAULT_ROTATION_POLICY, sendingApplicationIds: ["a", "a"] }, ids)).toEqual(["sendingApplicationIds must not list an application twice"]);
+    });
+});
+
+describe("isWithinScheduleWindow", () => {
+    it("matches windows within a day, excluding the end time", () => {
+        const entry = { applicationId: "a", startTime: "08:00", endTime: "12:30" };
+        expect(isWithinScheduleWindow(entry, 8 * 60)).toBe(true);
+        expect(isWithinScheduleWindow(entry, 12 * 60 + 29)).toBe(true);
+        expect(isWithinScheduleWindow(entry, 12 * 60 + 30)).toBe(false);
+        expect(isWithinScheduleWindow(entry, 7 * 60)).toBe(false);
+    });
+
+    it("matches windows that wrap past midnight", () => {
+        const entry = { applicationId: "a", startTime: "22:00", endTime: "02:00" };
+        expect(isWithinScheduleWindow(entry, 23 * 60)).toBe(true);
+        expect(isWithinScheduleWindow(entry, 60)).toBe(true);
+        expect(isWithinScheduleWindow(entry, 12 * 60)).toBe(false);
+    });
+});
+
+describe("ApplicationRotationManager", () => {
+    let applications: Record<string, any>;
+    let settings: any;
+    let usage: Record<string, number>;
+    let exhausted: Set<string>;
+    let quotaDay: string;
+    let activeApplicationId: string | null;
+    let connected: boolean;
+    let integration: any;
+    let quotaManager: any;
+    let manager: ApplicationRotationManager;
+
+    const policy = (overrides: Record<string, unknown>) => manager.savePolicy({ ...DEFAULT_ROTATION_POLICY, ...overrides });
+    const candidates = (...ids: string[]) => ids.map((id) => ({ app: applications[id] }));
+    const atLocalTime = (hour: number, minute = 0) => jest.spyOn(DateTime, "now").mockReturnValue(DateTime.local(2026, 3, 10, hour, minute) as DateTime<true>);
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        applications = {
+            a: makeApp("a", "Alpha"),
+            b: makeApp("b", "Bravo"),
+            c: makeApp("c", "Charlie")
+        };
+        settings = { advanced: { automaticFailoverThreshold: 95 } };
+        usage = {};
+        exhausted = new Set();
+        quotaDay = "2026-03-10";
+        activeApplicationId = "a";
+        connected = true;
+
+        integration = {
+            getSettings: () => settings,
+            getApplicationManager: () => ({
+                getApplications: () => applications,
+                getApplication: (id: string) => applications[id]
+            }),
+            isConnected: () => connected,
+            getCurrentActiveApplicationId: () => activeApplicationId,
+            switchActiveApplication: jest.fn(async (id: string) => {
+                activeApplicationId = id;
+            })
+        };
+        quotaManager = {
+            getQuotaDay: () => quotaDay,
+            getQuotaUsage: (id: string) => (usage[id] === undefined ? undefined : { quotaUnitsUsed: usage[id] }),
+            isQuotaExhausted: (id: string) => exhausted.has(id)
+        };
+
+        manager = new ApplicationRotationManager(integration, quotaManager);
+    });
+
+    afterEach(() => {
+        manager.stop();
+        jest.restoreAllMocks();
+    });
+
+    describe("persistence", () => {
+        it("uses the default policy when there is no file", async () => {
+            await manager.initialize();
+
+            expect(manager.getPolicy()).toEqual(DEFAULT_ROTATION_POLICY);
+        });
+
+        it("loads a saved policy", async () => {
+            (readDataFile as jest.Mock).mockReturnValueOnce({
+                data: { policy: { ...DEFAULT_ROTATION_POLICY, mode: "priority", priorityOrder: ["b"] }, lastStreamApplicationId: "a" },
+                needsSave: false
+            });
+
+            await manager.initialize();
+
+            expect(manager.getPolicy()).toEqual({ ...DEFAULT_ROTATION_POLICY, mode: "priority", priorityOrder: ["b"] });
+        });
+
+        it("saves a valid policy and rejects an invalid one", () => {
+            policy({ mode: "round-robin" });
+
+            expect(writeDataFile).toHaveBeenCalledWith("/tmp/application-rotation.json", { policy: { ...DEFAULT_ROTATION_POLICY, mode: "round-robin" }, lastStreamApplicationId: null }, expect.any(Object));
+            expect(() => policy({ priorityOrder: ["z"] })).toThrow("Invalid rotation policy: priorityOrder must list configured applications");
+            expect(manager.getPolicy().mode).toBe("round-robin");
+        });
+
+        it("migrates a single sending application to a sending pool", () => {
+            const migrate = (ApplicationRotationManager as any).DATA_FILE_OPTIONS.migrations[2];
+
+            expect(migrate({ policy: { mode: "priority", sendingApplicationId: "b" }, lastStreamApplicationId: null })).toEqual({
+                policy: { mode: "priority", sendingApplicationIds: ["b"] },
+                lastStreamApplicationId: null
+            });
+            expect(migrate({ policy: { mode: "priority", sendingApplicationId: null } }).policy.sendingApplicationIds).toEqual([]);
+        });
+    });
+
+    describe("orderFailoverCandidates", () => {
+        it("keeps the lowest-usage order by default", () => {
+            const list = candidates("c", "b");
+
+            expect(manager.orderFailoverCandidates(list, "a")).toEqual(list);
+        });
+
+        it("tries sending pool applications last", () => {
+            policy({ sendingApplicationIds: ["c"] });
+            expect(manager.orderFailoverCandidates(candidates("c", "b"), "a").map((candidate) => candidate.app.id)).toEqual(["b", "c"]);
+
+            policy({ mode: "priority", priorityOrder: ["c", "b"], sendingApplicationIds: ["c"] });
+            expect(manager.orderFailoverCandidates(candidates("c", "b"), "a").map((candidate) => candidate.app.id)).toEqual(["b", "c"]);
+        });
+
+        it("orders by priority, leaving unlisted applications in their original order", () => {
+            policy({ mode: "priority", priorityOrder: ["c"] });
+
+            const ordered = manager.orderFailoverCandidates(candidates("b", "a", "c"), "x");
+
+            expect(ordered.map((candidate) => candidate.app.id)).toEqual(["c", "b", "a"]);
+        });
+
+        it("continues after the current application in round-robin mode", () => {
+            policy({ mode: "round-robin" });
+
+            const ordered = manager.orderFailoverCandidates(candidates("a", "c"), "b");
+
+            expect(ordered.map((candidate) => candidate.app.id)).toEqual(["c", "a"]);
+        });
+    });
+
+    describe("selectApplicationForStreamStart", () => {
+        it("keeps the current application with the default policy", () => {
+            expect(manager.selectApplicationForStreamStart()).toBeNull();
+        });
+
+        it("selects the first eligible application in priority order", () => {
+            policy({ mode: "priority", priorityOrder: ["b", "c"] });
+            expect(manager.selectApplicationForStreamStart()).toBe("b");
+
+            exhausted.add("b");
+            expect(manager.selectApplicationForStreamStart()).toBeNull();
+        });
+
+        it("rotates through eligible applications for each stream", () => {
+            policy({ mode: "round-robin" });
+            manager.recordStreamApplication("a");
+            usage.b = 9600;
+
+            expect(manager.selectApplicationForStreamStart()).toBe("c");
+
+            manager.recordStreamApplication("c");
+            expect(manager.selectApplicationForStreamStart()).toBe("a");
+        });
+
+        it("leaves sending pool applications out of the rotation", () => {
+            policy({ mode: "round-robin", sendingApplicationIds: ["b"] });
+            manager.recordStreamApplication("a");
+
+            expect(manager.selectApplicationForStreamStart()).toBe("c");
+        });
+
+        it("prefers the scheduled application", () => {
+            atLocalTime(21);
+            policy({ schedule: [{ applicationId: "c", startTime: "20:00", endTime: "23:00" }] });
+
+            expect(manager.selectApplicationForStreamStart()).toBe("c");
+        });
+    });
+
+    describe("getSendingApplicationId", () => {
+        it("uses the active application when the sending pool is empty", () => {
+            expect(manager.getSendingApplicationId()).toBeNull();
+        });
+
+        it("fails over through the sending pool and then to the active application", () => {
+            policy({ sendingApplicationIds: ["b", "c"] });
+            expect(manager.getSendingApplicationId()).toBe("b");
+            expect(manager.isInSendingPool("b")).toBe(true);
+
+            usage.b = 9500;
+            expect(manager.getSendingApplicationId()).toBe("c");
+
+            exhausted.add("c");
+            expect(manager.getSendingApplicationId()).toBeNull();
+        });
+    });
+
+    describe("checkRotation", () => {
+        it("switches when a schedule window starts and back when it ends", async () => {
+            policy({ mode: "priority", priorityOrder: ["a"], schedule: [{ applicationId: "b", startTime: "20:00", endTime: "23:00" }] });
+            atLocalTime(12);
+            manager.start();
+            await manager.checkRotation();
+            expect(integration.switchActiveApplication).not.toHaveBeenCalled();
+
+            atLocalTime(20, 1);
+            await manager.checkRotation();
+            expect(integration.switchActiveApplication).toHaveBeenLastCalledWith("b", ApplicationActivationCause.ROTATION_POLICY);
+
+            atLocalTime(23, 1);
+            await manager.checkRotation();
+            expect(integration.switchActiveApplication).toHaveBeenLastCalledWith("a", ApplicationActivationCause.ROTATION_POLICY);
+        });
+
+        it("fails back to the preferred application after the quota reset", async () => {
+            policy({ mode: "priority", priorityOrder: ["a", "b"], failBackAfterReset: true });
+            activeApplicationId = "b";
+            manager.start();
+            await manager.checkRotation();
+            expect(integration.switchActiveApplication).not.toHaveBeenCalled();
+
+            quotaDay = "2026-03-11";
+            await manager.checkRotation();
+
+            expect(integration.switchActiveApplication).toHaveBeenCalledWith("a", ApplicationActivationCause.ROTATION_POLICY);
+        });
+
+        it("does not fail back when disabled or when the preferred application is not eligible", async () => {
+            policy({ mode: "priority", priorityOrder: ["a", "b"] });
+            activeApplicationId = "b";
+            manager.start();
+            quotaDay = "2026-03-11";
+            await manager.checkRotation();
+
+            policy({ mode: "priority", priorityOrder: ["a", "b"], failBackAfterReset: true });
+            exhausted.add("a");
+            quotaDay = "2026-03-12";
+            await manager.checkRotation();
+
+            expect(integration.switchActiveApplication).not.toHaveBeenCalled();
+        });
+
+        it("does nothing while disconnected", async () => {
+            policy({ schedule: [{ applicationId: "b", startTime: "00:00", endTime: "23:59" }] });
+            atLocalTime(12);
+            connected = false;
+
+            await manager.checkRotation();
+
+            expect(integration.switchActiveApplication).not.toHaveBeenCalled();
+        });
+    });
+});
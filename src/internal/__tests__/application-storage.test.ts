@@ -0,0 +1,124 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { ApplicationManager } from "../application-manager";
+
+const testDirs = {
+    dataDir: "",
+    keyDir: ""
+};
+
+jest.mock("../../main", () => ({
+    firebot: {
+        get scriptDataDir() {
+            return testDirs.dataDir;
+        }
+    },
+    logger: {
+        debug: jest.fn(),
+        info: jest.fn(),
+        warn: jest.fn(),
+        error: jest.fn()
+    }
+}));
+
+jest.mock("../credential-store", () => {
+    const actual = jest.requireActual("../credential-store");
+    let store: any = null;
+    const getStore = () => {
+        if (!store) {
+            store = new actual.CredentialStore(require("path").join(testDirs.keyDir, "credentials.key"), () => null);
+        }
+        return store;
+    };
+    return {
+        ...actual,
+        credentialStore: {
+            isEncrypted: (value: string) => getStore().isEncrypted(value),
+            encrypt: (value: string) => getStore().encrypt(value),
+            decrypt: (value: string) => getStore().decrypt(value),
+            clearMissingKey: () => getStore().clearMissingKey()
+        }
+    };
+});
+
+describe("application storage on disk", () => {
+    const plaintextApplications = {
+        applications: {
+            app1: {
+                id: "app1",
+                name: "Test App 1",
+                clientId: "client1",
+                clientSecret: "plaintext-client-secret",
+                refreshToken: "plaintext-refresh-token",
+                quotaSettings: {
+                    dailyQuota: 10000,
+                    maxStreamHours: 8,
+                    overridePollingDelay: false,
+                    customPollingDelaySeconds: -1
+                }
+            }
+        },
+        activeApplicationId: "app1"
+    };
+
+    beforeEach(() => {
+        testDirs.dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "application-storage-data-"));
+        testDirs.keyDir = fs.mkdtempSync(path.join(os.tmpdir(), "application-storage-key-"));
+    });
+
+    afterEach(() => {
+        fs.rmSync(testDirs.dataDir, { recursive: true, force: true });
+        fs.rmSync(testDirs.keyDir, { recursive: true, force: true });
+    });
+
+    const filesHoldingPlaintext = () =>
+        fs.readdirSync(testDirs.dataDir).filter((entry) => {
+            const contents = fs.readFileSync(path.join(testDirs.dataDir, entry), "utf-8");
+            return contents.includes("plaintext-client-secret") || contents.includes("plaintext-refresh-token");
+        });
+
+    it("leaves no plaintext credentials in the data directory after migrating applications.json", async () => {
+        const filePath = path.join(testDirs.dataDir, "applications.json");
+        fs.writeFileSync(filePath, JSON.stringify(plaintextApplications));
+        // Backups left by earlier saves
+        fs.writeFileSync(`${filePath}.bak.1`, JSON.stringify(plaintextApplications));
+        fs.writeFileSync(`${filePath}.corrupt-1700000000000`, "{ not json plaintext-refresh-token");
+
+        const applicationManager = new ApplicationManager();
+        await applicationManager.initialize();
+
+        expect(applicationManager.getApplication("app1")?.refreshToken).toBe("plaintext-refresh-token");
+        expect(fs.readdirSync(testDirs.dataDir)).toContain("applications.json");
+        expect(filesHoldingPlaintext()).toEqual([]);
+    });
+
+    it("neither overwrites nor loses a structurally invalid file", async () => {
+        const filePath = path.join(testDirs.dataDir, "applications.json");
+        const invalidContents = JSON.stringify({ schemaVersion: 1, savedAt: 0, data: { apps: ["not the expected shape"] } });
+        fs.writeFileSync(filePath, invalidContents);
+
+        const applicationManager = new ApplicationManager();
+        await applicationManager.initialize();
+        await applicationManager.markAllApplicationsNotReady();
+
+        expect(applicationManager.getApplications()).toEqual({});
+        const entries = fs.readdirSync(testDirs.dataDir);
+        expect(entries).not.toContain("applications.json");
+        const quarantined = entries.filter((entry) => entry.startsWith("applications.json.corrupt-"));
+        expect(quarantined).toHaveLength(1);
+        expect(fs.readFileSync(path.join(testDirs.dataDir, quarantined[0]), "utf-8")).toBe(invalidContents);
+    });
+
+    it("saves again once an application is added after a failed load", async () => {
+        fs.writeFileSync(path.join(testDirs.dataDir, "applications.json"), JSON.stringify({ schemaVersion: 1, savedAt: 0, data: {} }));
+        const applicationManager = new ApplicationManager();
+        await applicationManager.initialize();
+
+        await applicationManager.addApplication("New App", "client2", "secret2");
+
+        const saved = JSON.parse(fs.readFileSync(path.join(testDirs.dataDir, "applications.json"), "utf-8"));
+        expect(Object.values(saved.data.applications)).toEqual([expect.objectContaining({ name: "New App" })]);
+        expect(fs.readdirSync(testDirs.dataDir).filter((entry) => entry.startsWith("applications.json.corrupt-"))).toHaveLength(1);
+    });
+});
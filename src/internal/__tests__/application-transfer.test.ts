@@ -0,0 +1,144 @@
+import type { QuotaSettings, YouTubeOAuthApplication } from "../../types";
+import { APPLICATION_EXPORT_FORMAT, buildApplicationExport, parseApplicationExport, validateQuotaSettings } from "../application-transfer";
+
+jest.mock("../../main", () => ({
+    logger: {
+        debug: jest.fn(),
+        info: jest.fn(),
+        warn: jest.fn(),
+        error: jest.fn()
+    }
+}));
+
+const quotaSettings: QuotaSettings = {
+    dailyQuota: 10000,
+    maxStreamHours: 8,
+    overridePollingDelay: false,
+    customPollingDelaySeconds: -1
+};
+
+const makeFile = (applications: unknown[], overrides: Record<string, unknown> = {}) =>
+    JSON.stringify({
+        format: APPLICATION_EXPORT_FORMAT,
+        version: 1,
+        exportedAt: "2026-01-01T00:00:00.000Z",
+        includesSecrets: true,
+        applications,
+        ...overrides
+    });
+
+describe("buildApplicationExport", () => {
+    const app: YouTubeOAuthApplication = {
+        id: "app1",
+        name: "Test App",
+        clientId: "client1",
+        clientSecret: "secret1",
+        refreshToken: "refresh1",
+        email: "streamer@example.com",
+        quotaSettings,
+        ready: true
+    };
+
+    it("exports only portable fields", () => {
+        const exported = buildApplicationExport([app], false);
+
+        expect(exported).toEqual({
+            format: APPLICATION_EXPORT_FORMAT,
+            version: 1,
+            exportedAt: expect.any(String),
+            includesSecrets: false,
+            applications: [{ name: "Test App", clientId: "client1", quotaSettings }]
+        });
+    });
+
+    it("includes client secrets when requested", () => {
+        const exported = buildApplicationExport([app], true);
+
+        expect(exported.applications[0].clientSecret).toBe("secret1");
+        expect(JSON.stringify(exported)).not.toContain("refresh1");
+    });
+
+    it("leaves out client secrets that could not be decrypted", () => {
+        const exported = buildApplicationExport([{ ...app, clientSecret: "enc:v1:aXY=:dGFn:c2VjcmV0" }], true);
+
+        expect(exported.applications[0]).not.toHaveProperty("clientSecret");
+    });
+});
+
+describe("validateQuotaSettings", () => {
+    it("accepts valid settings", () => {
+        expect(validateQuotaSettings(quotaSettings)).toEqual([]);
+        expect(validateQuotaSettings({ ...quotaSettings, overridePollingDelay: true, customPollingDelaySeconds: 2.5 })).toEqual([]);
+    });
+
+    it("rejects missing settings", () => {
+        expect(validateQuotaSettings(undefined)).toEqual(["quota settings are missing"]);
+    });
+
+    it("reports each invalid field", () => {
+        const errors = validateQuotaSettings({
+            dailyQuota: 100.5,
+            maxStreamHours: 0,
+            overridePollingDelay: "yes",
+            customPollingDelaySeconds: -5
+        });
+
+        expect(errors).toEqual([
+            "dailyQuota must be a positive integer",
+            "maxStreamHours must be greater than 0",
+            "overridePollingDelay must be true or false",
+            "customPollingDelaySeconds must be a number of seconds (or -1 for the default)"
+        ]);
+    });
+
+    it("rejects numbers stored as strings", () => {
+        expect(validateQuotaSettings({ ...quotaSettings, dailyQuota: "10000" })).toEqual(["dailyQuota must be a positive integer"]);
+    });
+});
+
+describe("parseApplicationExport", () => {
+    it("parses valid entries and trims strings", () => {
+        const result = parseApplicationExport(makeFile([{ name: " Test App ", clientId: " client1 ", clientSecret: " secret1 ", quotaSettings }]));
+
+        expect(result).toEqual({
+            applications: [{ name: "Test App", clientId: "client1", clientSecret: "secret1", quotaSettings }],
+            errors: []
+        });
+    });
+
+    it("omits empty client secrets", () => {
+        const result = parseApplicationExport(makeFile([{ name: "Test App", clientId: "client1", clientSecret: "", quotaSettings }]));
+
+        expect(result.applications[0]).not.toHaveProperty("clientSecret");
+    });
+
+    it("rejects encrypted client secrets", () => {
+        const result = parseApplicationExport(makeFile([{ name: "Test App", clientId: "client1", clientSecret: "enc:v1:aXY=:dGFn:c2VjcmV0", quotaSettings }]));
+
+        expect(result.applications).toEqual([]);
+        expect(result.errors).toEqual(['"Test App": clientSecret is encrypted and cannot be imported']);
+    });
+
+    it("reports invalid entries and keeps the valid ones", () => {
+        const result = parseApplicationExport(makeFile([{ name: "Good App", clientId: "client1", quotaSettings }, { name: "Bad App", clientId: "", quotaSettings: { ...quotaSettings, dailyQuota: -1 } }, "not an object"]));
+
+        expect(result.applications.map((app) => app.name)).toEqual(["Good App"]);
+        expect(result.errors).toEqual(['"Bad App": clientId is required; dailyQuota must be a positive integer', "Entry 3: not an application"]);
+    });
+
+    it("rejects files that are not JSON", () => {
+        expect(() => parseApplicationExport("not json")).toThrow("File is not valid JSON");
+    });
+
+    it("rejects files in another format", () => {
+        expect(() => parseApplicationExport(JSON.stringify({ applications: {}, activeApplicationId: null }))).toThrow("File is not a YouTube application export");
+    });
+
+    it("rejects files from a newer export version", () => {
+        expect(() => parseApplicationExport(makeFile([], { version: 2 }))).toThrow("Unsupported export version: 2");
+    });
+
+    it("rejects files without an application list", () => {
+        expect(() => parseApplicationExport(makeFile([], { applications: {} }))).toThrow("Export file does not contain a list of applications");
+    });
+});
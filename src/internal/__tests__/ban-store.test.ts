@@ -0,0 +1,109 @@
+/* eslint-disable @typescript-eslint/unbound-method */
+import { readDataFile, writeDataFile } from "../../util/datafile";
+import { BanStore } from "../ban-store";
+
+jest.mock("../../main", () => ({
+    logger: {
+        error: jest.fn(),
+        debug: jest.fn(),
+        info: jest.fn(),
+        warn: jest.fn()
+    }
+}));
+
+jest.mock("../../util/datafile", () => ({
+    getDataFilePath: jest.fn(() => "/tmp/bans.json"),
+    readDataFile: jest.fn(() => null),
+    writeDataFile: jest.fn()
+}));
+
+describe("BanStore", () => {
+    let store: BanStore;
+    let now: number;
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        now = 1_700_000_000_000;
+        jest.spyOn(Date, "now").mockImplementation(() => now);
+        store = new BanStore();
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it("should have no ban ID for a user that was never banned", () => {
+        expect(store.getBanId("UCviewer")).toBeNull();
+    });
+
+    it("should save permanent and temporary bans", () => {
+        store.addBan("UCviewer", "ban-1");
+        store.addBan("UCother", "ban-2", 300);
+
+        expect(store.getBanId("UCviewer")).toBe("ban-1");
+        expect(store.getBanId("UCother")).toBe("ban-2");
+        expect(writeDataFile).toHaveBeenLastCalledWith(
+            "/tmp/bans.json",
+            {
+                bans: {
+                    UCviewer: { banId: "ban-1" },
+                    UCother: { banId: "ban-2", expiresAt: now + 300_000 }
+                }
+            },
+            expect.objectContaining({ schemaVersion: 1 })
+        );
+    });
+
+    it("should forget a temporary ban once it has ended", () => {
+        store.addBan("UCviewer", "ban-1", 60);
+
+        now += 60_000;
+
+        expect(store.getBanId("UCviewer")).toBeNull();
+    });
+
+    it("should remove a lifted ban and save", () => {
+        store.addBan("UCviewer", "ban-1");
+        (writeDataFile as jest.Mock).mockClear();
+
+        store.removeBan("UCviewer");
+
+        expect(store.getBanId("UCviewer")).toBeNull();
+        expect(writeDataFile).toHaveBeenCalledWith("/tmp/bans.json", { bans: {} }, expect.anything());
+    });
+
+    it("should not save when removing a ban that is not known", () => {
+        store.removeBan("UCunknown");
+
+        expect(writeDataFile).not.toHaveBeenCalled();
+    });
+
+    it("should load saved bans, dropping temporary bans that have ended", () => {
+        (readDataFile as jest.Mock).mockReturnValueOnce({
+            data: {
+                bans: {
+                    UCviewer: { banId: "ban-1" },
+                    UCactive: { banId: "ban-2", expiresAt: now + 1000 },
+                    UCended: { banId: "ban-3", expiresAt: now - 1000 }
+                }
+            },
+            needsSave: false
+        });
+
+        store.initialize();
+
+        expect(store.getBanId("UCviewer")).toBe("ban-1");
+        expect(store.getBanId("UCactive")).toBe("ban-2");
+        expect(store.getBanId("UCended")).toBeNull();
+    });
+
+    it("should start empty when the file cannot be loaded", () => {
+        (readDataFile as jest.Mock).mockImplementationOnce(() => {
+            throw new Error("corrupted");
+        });
+
+        store.initialize();
+
+        expect(store.getBanId("UCviewer")).toBeNull();
+    });
+});
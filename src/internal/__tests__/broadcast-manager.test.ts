@@ -45,7 +45,7 @@ describe("BroadcastManager.findLiveBroadcast", () => {
         broadcastManager["youtube"].liveBroadcasts.list = mockListFn;
     });
 
-    it("returns BroadcastInfo with all four fields on successful single stream", async () => {
+    it("returns BroadcastInfo with all fields on successful single stream", async () => {
         const mockResponse = {
             data: {
                 items: [
@@ -75,7 +75,8 @@ describe("BroadcastManager.findLiveBroadcast", () => {
             liveChatId: "KjQqz1AmIbw.1234567890123456",
             broadcastId: "KjQqz1AmIbw",
             channelId: "UCrDkAvwXgOFDjlW9wqyYeIQ",
-            privacyStatus: "public"
+            privacyStatus: "public",
+            title: "Test Stream"
         });
     });
 
@@ -221,7 +222,8 @@ describe("BroadcastManager.findLiveBroadcast", () => {
             liveChatId: "chat2",
             broadcastId: "broadcast2",
             channelId: "UCrDkAvwXgOFDjlW9wqyYeIQ",
-            privacyStatus: "unlisted"
+            privacyStatus: "unlisted",
+            title: "My Stream"
         });
     });
 
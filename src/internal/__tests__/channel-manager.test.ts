@@ -0,0 +1,128 @@
+import { ChannelManager } from "../channel-manager";
+import { ErrorTracker } from "../error-tracker";
+
+jest.mock("../../main", () => ({
+    firebot: {
+        modules: {
+            eventManager: {
+                triggerEvent: jest.fn()
+            }
+        }
+    },
+    logger: {
+        debug: jest.fn(),
+        info: jest.fn(),
+        warn: jest.fn(),
+        error: jest.fn()
+    }
+}));
+
+jest.mock("../error-tracker");
+
+const mockQuotaManager = {
+    recordApiCall: jest.fn()
+};
+
+const mockIntegration = {
+    getQuotaManager: jest.fn(() => mockQuotaManager)
+};
+
+const channelResponse = {
+    data: {
+        items: [
+            {
+                id: "UCrDkAvwXgOFDjlW9wqyYeIQ",
+                snippet: {
+                    title: "The Streamer",
+                    customUrl: "@thestreamer",
+                    thumbnails: {
+                        default: { url: "https://yt3.ggpht.com/default.jpg" },
+                        high: { url: "https://yt3.ggpht.com/high.jpg" }
+                    }
+                }
+            }
+        ]
+    }
+};
+
+describe("ChannelManager.resolveChannel", () => {
+    let channelManager: ChannelManager;
+    let errorTracker: ErrorTracker;
+    let mockListFn: jest.Mock;
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        errorTracker = new ErrorTracker();
+        channelManager = new ChannelManager(mockIntegration as any, errorTracker);
+        mockListFn = jest.fn();
+        channelManager["youtube"].channels.list = mockListFn;
+    });
+
+    it("returns and caches the authenticated channel", async () => {
+        mockListFn.mockResolvedValue(channelResponse);
+
+        const result = await channelManager.resolveChannel("test-token", "app-id");
+
+        expect(result).toEqual({
+            channelId: "UCrDkAvwXgOFDjlW9wqyYeIQ",
+            handle: "@thestreamer",
+            displayName: "The Streamer",
+            avatarUrl: "https://yt3.ggpht.com/high.jpg"
+        });
+        expect(channelManager.getChannel("app-id")).toEqual(result);
+        expect(channelManager.getChannel("other-app-id")).toBeUndefined();
+        expect(mockListFn).toHaveBeenCalledWith(
+            expect.objectContaining({
+                // eslint-disable-next-line camelcase
+                access_token: "test-token",
+                mine: true
+            })
+        );
+        expect(mockQuotaManager.recordApiCall).toHaveBeenCalledWith("app-id", "channels.list", 1);
+        expect(errorTracker.recordSuccess).toHaveBeenCalled();
+    });
+
+    it("defaults missing snippet fields to empty strings", async () => {
+        mockListFn.mockResolvedValue({ data: { items: [{ id: "UCnosnippet" }] } });
+
+        const result = await channelManager.resolveChannel("test-token", "app-id");
+
+        expect(result).toEqual({
+            channelId: "UCnosnippet",
+            handle: "",
+            displayName: "",
+            avatarUrl: ""
+        });
+    });
+
+    it("returns null when the account has no channel", async () => {
+        mockListFn.mockResolvedValue({ data: { items: [] } });
+
+        const result = await channelManager.resolveChannel("test-token", "app-id");
+
+        expect(result).toBeNull();
+        expect(channelManager.getChannel("app-id")).toBeUndefined();
+    });
+
+    it("keeps the cached channel and triggers api-error when the lookup fails", async () => {
+        const { firebot } = require("../../main");
+        mockListFn.mockResolvedValueOnce(channelResponse);
+        await channelManager.resolveChannel("test-token", "app-id");
+
+        mockListFn.mockRejectedValueOnce(new Error("Network error"));
+        const result = await channelManager.resolveChannel("test-token", "app-id");
+
+        expect(result?.channelId).toBe("UCrDkAvwXgOFDjlW9wqyYeIQ");
+        expect(errorTracker.recordError).toHaveBeenCalled();
+        expect(firebot.modules.eventManager.triggerEvent).toHaveBeenCalledWith("mage-youtube-integration", "api-error", undefined);
+    });
+
+    it("forgets the cached channel for an application", async () => {
+        mockListFn.mockResolvedValue(channelResponse);
+        await channelManager.resolveChannel("test-token", "app-id");
+
+        channelManager.forgetChannel("app-id");
+
+        expect(channelManager.getChannel("app-id")).toBeUndefined();
+    });
+});
@@ -0,0 +1,171 @@
+/* eslint-disable @typescript-eslint/unbound-method */
+import { logger } from "../../main";
+import { ChatFeedModeration, isYouTubeUsername } from "../chat-feed-moderation";
+
+jest.mock("../../main", () => ({
+    logger: {
+        error: jest.fn(),
+        debug: jest.fn(),
+        info: jest.fn(),
+        warn: jest.fn()
+    }
+}));
+
+describe("ChatFeedModeration", () => {
+    let chatFeedModeration: ChatFeedModeration;
+    let mockIntegration: any;
+    let mockRestApiClient: any;
+    let mockModeratorManager: any;
+    let mockUserManager: any;
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+
+        mockRestApiClient = {
+            deleteChatMessage: jest.fn().mockResolvedValue(true),
+            banUser: jest.fn().mockResolvedValue(true),
+            unbanUser: jest.fn().mockResolvedValue(true)
+        };
+        mockModeratorManager = {
+            addModerator: jest.fn().mockResolvedValue(true),
+            removeModerator: jest.fn().mockResolvedValue(true)
+        };
+        mockUserManager = {
+            getViewerByUsername: jest.fn().mockResolvedValue(undefined)
+        };
+        mockIntegration = {
+            getRestApiClient: () => mockRestApiClient,
+            getModeratorManager: () => mockModeratorManager,
+            getUserManager: () => mockUserManager,
+            getRecentChatMessage: jest.fn(),
+            findRecentChatUserId: jest.fn((username: string) => (username === "Viewer@youtube" ? "yUCviewer" : undefined))
+        };
+
+        chatFeedModeration = new ChatFeedModeration(mockIntegration);
+    });
+
+    describe("isYouTubeUsername", () => {
+        it("should detect the @youtube suffix", () => {
+            expect(isYouTubeUsername("Viewer@youtube")).toBe(true);
+            expect(isYouTubeUsername("twitchviewer")).toBe(false);
+            expect(isYouTubeUsername(undefined)).toBe(false);
+        });
+    });
+
+    describe("deleteMessage", () => {
+        it("should delete a message seen on YouTube", async () => {
+            mockIntegration.getRecentChatMessage.mockReturnValue({ username: "Viewer@youtube" });
+
+            const result = await chatFeedModeration.deleteMessage("yt-msg");
+
+            expect(result).toBe(true);
+            expect(mockRestApiClient.deleteChatMessage).toHaveBeenCalledWith("yt-msg");
+        });
+
+        it("should ignore messages that did not come from YouTube", async () => {
+            mockIntegration.getRecentChatMessage.mockReturnValue(undefined);
+
+            const result = await chatFeedModeration.deleteMessage("twitch-msg");
+
+            expect(result).toBe(false);
+            expect(mockRestApiClient.deleteChatMessage).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("setBanned", () => {
+        it("should ban a YouTube user resolved from recent chat", async () => {
+            const result = await chatFeedModeration.setBanned({ username: "Viewer@youtube", shouldBeBanned: true });
+
+            expect(result).toBe(true);
+            expect(mockRestApiClient.banUser).toHaveBeenCalledWith("UCviewer");
+        });
+
+        it("should unban a YouTube user resolved from the viewer database", async () => {
+            mockUserManager.getViewerByUsername.mockResolvedValue({ userId: "yUCother", username: "Other@youtube" });
+
+            const result = await chatFeedModeration.setBanned({ username: "Other@youtube", shouldBeBanned: false });
+
+            expect(result).toBe(true);
+            expect(mockUserManager.getViewerByUsername).toHaveBeenCalledWith("Other@youtube");
+            expect(mockRestApiClient.unbanUser).toHaveBeenCalledWith("UCother");
+        });
+
+        it("should ignore Twitch users", async () => {
+            const result = await chatFeedModeration.setBanned({ username: "twitchviewer", shouldBeBanned: true });
+
+            expect(result).toBe(false);
+            expect(mockRestApiClient.banUser).not.toHaveBeenCalled();
+        });
+
+        it("should warn when the channel ID cannot be resolved", async () => {
+            const result = await chatFeedModeration.setBanned({ username: "Unknown@youtube", shouldBeBanned: true });
+
+            expect(result).toBe(false);
+            expect(mockRestApiClient.banUser).not.toHaveBeenCalled();
+            expect(logger.warn).toHaveBeenCalledWith("Chat feed: Could not find YouTube channel ID for Unknown@youtube");
+        });
+    });
+
+    describe("setModerator", () => {
+        it("should add and remove YouTube moderators", async () => {
+            await chatFeedModeration.setModerator({ username: "Viewer@youtube", shouldBeMod: true });
+            await chatFeedModeration.setModerator({ username: "Viewer@youtube", shouldBeMod: false });
+
+            expect(mockModeratorManager.addModerator).toHaveBeenCalledWith("UCviewer");
+            expect(mockModeratorManager.removeModerator).toHaveBeenCalledWith("UCviewer");
+        });
+
+        it("should ignore Twitch users", async () => {
+            const result = await chatFeedModeration.setModerator({ username: "twitchviewer", shouldBeMod: true });
+
+            expect(result).toBe(false);
+            expect(mockModeratorManager.addModerator).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("handleSlashCommand", () => {
+        it("should return null for regular chat messages and unknown commands", async () => {
+            expect(await chatFeedModeration.handleSlashCommand("hello /timeout")).toBeNull();
+            expect(await chatFeedModeration.handleSlashCommand("/me waves")).toBeNull();
+        });
+
+        it("should time out a YouTube user for the given duration", async () => {
+            const result = await chatFeedModeration.handleSlashCommand("/timeout @Viewer@youtube 60");
+
+            expect(result).toBe(true);
+            expect(mockRestApiClient.banUser).toHaveBeenCalledWith("UCviewer", 60);
+        });
+
+        it("should use the default timeout duration when none is given", async () => {
+            await chatFeedModeration.handleSlashCommand("/timeout Viewer@youtube");
+
+            expect(mockRestApiClient.banUser).toHaveBeenCalledWith("UCviewer", 300);
+        });
+
+        it("should reject an invalid timeout duration", async () => {
+            const result = await chatFeedModeration.handleSlashCommand("/timeout @Viewer@youtube soon");
+
+            expect(result).toBe(false);
+            expect(mockRestApiClient.banUser).not.toHaveBeenCalled();
+        });
+
+        it("should route ban, unban, mod and unmod", async () => {
+            await chatFeedModeration.handleSlashCommand("/ban @Viewer@youtube");
+            await chatFeedModeration.handleSlashCommand("/UNBAN @Viewer@youtube");
+            await chatFeedModeration.handleSlashCommand("/mod @Viewer@youtube");
+            await chatFeedModeration.handleSlashCommand("/unmod @Viewer@youtube");
+
+            expect(mockRestApiClient.banUser).toHaveBeenCalledWith("UCviewer");
+            expect(mockRestApiClient.unbanUser).toHaveBeenCalledWith("UCviewer");
+            expect(mockModeratorManager.addModerator).toHaveBeenCalledWith("UCviewer");
+            expect(mockModeratorManager.removeModerator).toHaveBeenCalledWith("UCviewer");
+        });
+
+        it("should consume commands aimed at Twitch users without acting on them", async () => {
+            const result = await chatFeedModeration.handleSlashCommand("/ban @twitchviewer");
+
+            expect(result).toBe(false);
+            expect(mockRestApiClient.banUser).not.toHaveBeenCalled();
+        });
+    });
+});
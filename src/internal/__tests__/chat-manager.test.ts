@@ -1,9 +1,11 @@
 /* eslint-disable @typescript-eslint/unbound-method */
 import { YouTubeMessageTypes } from "../../constants";
-import { LiveChatMessage } from "../../generated/proto/stream_list";
+import { LiveChatMessage, LiveChatMessageSnippet_TypeWrapper_Type, LiveChatPollDetails_PollStatusWrapper_PollStatus, LiveChatUserBannedMessageDetails_BanTypeWrapper_BanType } from "../../generated/proto/stream_list";
 import { firebot } from "../../main";
 import { SAMPLE_YOUTUBE_TEXT_MESSAGE } from "../../types/sample-payloads";
 import { ChatManager } from "../chat-manager";
+import { chatResumeStore } from "../chat-resume-store";
+import { commandHandler } from "../command";
 import { QuotaManager } from "../quota-manager";
 
 // Mock the firebot modules
@@ -27,11 +29,51 @@ jest.mock("../command", () => ({
     }
 }));
 
+// Mock chat resume store (no saved positions unless a test sets one)
+jest.mock("../chat-resume-store", () => ({
+    chatResumeStore: {
+        getPosition: jest.fn(() => null),
+        savePosition: jest.fn(),
+        clearPosition: jest.fn(),
+        flush: jest.fn()
+    }
+}));
+
 // Mock viewer-arrived event trigger
 jest.mock("../../events/viewer-arrived", () => ({
     triggerViewerArrived: jest.fn()
 }));
 
+// Mock super chat event triggers
+jest.mock("../../events/super-chat", () => ({
+    ...jest.requireActual("../../events/super-chat"),
+    triggerSuperChat: jest.fn(),
+    triggerSuperSticker: jest.fn()
+}));
+
+// Mock membership event triggers
+jest.mock("../../events/membership", () => ({
+    triggerNewMember: jest.fn(),
+    triggerMemberMilestone: jest.fn(),
+    triggerMembershipGifting: jest.fn(),
+    triggerGiftMembershipReceived: jest.fn()
+}));
+
+// Mock moderation event triggers
+jest.mock("../../events/moderation", () => ({
+    triggerMessageDeleted: jest.fn(),
+    triggerViewerBanned: jest.fn(),
+    triggerViewerTimeout: jest.fn()
+}));
+
+// Mock poll event triggers
+jest.mock("../../events/poll", () => ({
+    ...jest.requireActual("../../events/poll"),
+    triggerPollStarted: jest.fn(),
+    triggerPollUpdated: jest.fn(),
+    triggerPollEnded: jest.fn()
+}));
+
 // Mock logger
 const mockLogger = {
     info: jest.fn(),
@@ -43,7 +85,10 @@ const mockLogger = {
 // Mock quota manager
 const mockQuotaManager = {
     calculateDelay: jest.fn(() => 10000), // Return 10 seconds as default delay
+    calculateAdaptiveDelay: jest.fn(() => 4000),
     isQuotaExceededError: jest.fn(() => false),
+    isDailyQuotaExhaustedError: jest.fn(() => false),
+    markQuotaExhausted: jest.fn(),
     formatDelay: jest.fn(() => "10s")
 } as unknown as QuotaManager;
 
@@ -55,9 +100,12 @@ const mockMultiAuthManager = {
 // Mock integration
 const mockIntegration = {
     isChatFeedEnabled: jest.fn(() => true),
+    getBroadcasterIdentity: jest.fn(() => null),
     sendCriticalErrorNotification: jest.fn(),
     disconnect: jest.fn(() => Promise.resolve()),
     handleStreamOffline: jest.fn(),
+    handleQuotaExhausted: jest.fn(() => Promise.resolve(true)),
+    getSettings: jest.fn(() => ({ advanced: { adaptivePollingDelay: false } })),
     getApplicationsStorage: jest.fn(() => ({
         applications: {
             "test-app-id": {
@@ -158,13 +206,13 @@ describe("ChatManager handleMessage", () => {
         expect(mockUserManager.setViewerRoles).toHaveBeenCalledWith("UCrDkAvwXgOFDjlW9wqyYeIQ", []);
     });
 
-    it("should not process non-text messages", async () => {
+    it("should not process unsupported message types", async () => {
         // Arrange
         const nonTextMessage = {
             ...SAMPLE_YOUTUBE_TEXT_MESSAGE,
             snippet: {
                 ...SAMPLE_YOUTUBE_TEXT_MESSAGE.snippet,
-                type: YouTubeMessageTypes.SUPER_CHAT_EVENT
+                type: LiveChatMessageSnippet_TypeWrapper_Type.TOMBSTONE
             }
         } as unknown as LiveChatMessage;
 
@@ -438,7 +486,7 @@ describe("ChatManager handleMessage", () => {
         } as unknown as LiveChatMessage;
 
         // Set connection timestamp to now
-        (chatManager as any).connectionTimestamp = now;
+        (chatManager as any).skipMessagesBefore = now;
 
         // Act
         await (chatManager as any).handleMessage(messageBeforeConnection);
@@ -464,7 +512,7 @@ describe("ChatManager handleMessage", () => {
         } as unknown as LiveChatMessage;
 
         // Set connection timestamp to now
-        (chatManager as any).connectionTimestamp = now;
+        (chatManager as any).skipMessagesBefore = now;
 
         // Act
         await (chatManager as any).handleMessage(messageAfterConnection);
@@ -488,7 +536,7 @@ describe("ChatManager handleMessage", () => {
         } as unknown as LiveChatMessage;
 
         // Ensure connection timestamp is null (not set)
-        (chatManager as any).connectionTimestamp = null;
+        (chatManager as any).skipMessagesBefore = null;
 
         // Act
         await (chatManager as any).handleMessage(sampleMessage);
@@ -512,7 +560,7 @@ describe("ChatManager handleMessage", () => {
         } as unknown as LiveChatMessage;
 
         // Set connection timestamp
-        (chatManager as any).connectionTimestamp = new Date();
+        (chatManager as any).skipMessagesBefore = new Date();
 
         // Act
         await (chatManager as any).handleMessage(messageWithoutTimestamp);
@@ -523,219 +571,1295 @@ describe("ChatManager handleMessage", () => {
     });
 });
 
-describe("ChatManager viewer arrival tracking", () => {
+describe("ChatManager paid messages", () => {
     let chatManager: ChatManager;
 
+    const authorDetails = {
+        channelId: "UCsuperchatter",
+        displayName: "Generous Viewer",
+        profileImageUrl: "https://example.com/avatar.jpg",
+        isVerified: false,
+        isChatOwner: false,
+        isChatSponsor: false,
+        isChatModerator: false
+    };
+
     beforeEach(() => {
         jest.clearAllMocks();
 
         chatManager = new ChatManager(mockLogger, mockQuotaManager, mockMultiAuthManager, mockClientFactory, mockIntegration, mockUserManager);
     });
 
-    it("should track viewer arrival on first chat", () => {
-        expect(chatManager.checkViewerArrived("user1")).toBe(true);
-        expect(chatManager.checkViewerArrived("user1")).toBe(false);
-    });
+    it("should trigger super-chat event with amount, currency, tier and comment", async () => {
+        // Arrange
+        const { triggerSuperChat } = require("../../events/super-chat");
+        const message = {
+            id: "superchat-1",
+            snippet: {
+                type: YouTubeMessageTypes.SUPER_CHAT_EVENT,
+                publishedAt: "2024-01-15T10:30:00Z",
+                displayMessage: "$5.00 from Generous Viewer: Keep it up!",
+                superChatDetails: {
+                    amountMicros: "5000000",
+                    currency: "USD",
+                    amountDisplayString: "$5.00",
+                    userComment: "Keep it up!",
+                    tier: 2
+                }
+            },
+            authorDetails
+        } as unknown as LiveChatMessage;
 
-    it("should trigger viewer-arrived event for first-time chatters", async () => {
-        const { triggerViewerArrived } = require("../../events/viewer-arrived");
-        jest.clearAllMocks();
-        mockIntegration.isChatFeedEnabled.mockReturnValue(true);
+        // Act
+        await chatManager.handleMessage(message);
 
-        const sampleMessage = {
-            ...SAMPLE_YOUTUBE_TEXT_MESSAGE,
+        // Assert
+        expect(triggerSuperChat).toHaveBeenCalledWith({
+            username: "Generous Viewer@youtube",
+            userId: "yUCsuperchatter",
+            userDisplayName: "Generous Viewer",
+            profilePicUrl: "https://example.com/avatar.jpg",
+            messageId: "superchat-1",
+            amount: 5,
+            amountMicros: 5000000,
+            currency: "USD",
+            amountDisplayString: "$5.00",
+            tier: 2,
+            userComment: "Keep it up!"
+        });
+        expect(firebot.modules.eventManager.triggerEvent).not.toHaveBeenCalled();
+    });
+
+    it("should trigger super-sticker event with sticker metadata", async () => {
+        // Arrange
+        const { triggerSuperSticker } = require("../../events/super-chat");
+        const message = {
+            id: "supersticker-1",
             snippet: {
-                ...SAMPLE_YOUTUBE_TEXT_MESSAGE.snippet,
-                type: YouTubeMessageTypes.TEXT_MESSAGE_EVENT
-            }
+                type: YouTubeMessageTypes.SUPER_STICKER_EVENT,
+                publishedAt: "2024-01-15T10:30:00Z",
+                superStickerDetails: {
+                    amountMicros: "1990000",
+                    currency: "EUR",
+                    amountDisplayString: "€1.99",
+                    tier: 1,
+                    superStickerMetadata: {
+                        stickerId: "sticker-123",
+                        altText: "Dancing cat",
+                        altTextLanguage: "en"
+                    }
+                }
+            },
+            authorDetails
         } as unknown as LiveChatMessage;
 
-        await (chatManager as any).handleMessage(sampleMessage);
+        // Act
+        await chatManager.handleMessage(message);
 
-        expect(triggerViewerArrived).toHaveBeenCalledWith("John Viewer@youtube", "yUCrDkAvwXgOFDjlW9wqyYeIQ", "John Viewer", "Great stream!", expect.any(Object), expect.any(Array));
+        // Assert
+        expect(triggerSuperSticker).toHaveBeenCalledWith(
+            expect.objectContaining({
+                username: "Generous Viewer@youtube",
+                amount: 1.99,
+                amountMicros: 1990000,
+                currency: "EUR",
+                amountDisplayString: "€1.99",
+                tier: 1,
+                stickerId: "sticker-123",
+                stickerAltText: "Dancing cat",
+                stickerAltTextLanguage: "en"
+            })
+        );
     });
 
-    it("should not trigger viewer-arrived event for returning chatters", async () => {
-        const { triggerViewerArrived } = require("../../events/viewer-arrived");
-        jest.clearAllMocks();
-        mockIntegration.isChatFeedEnabled.mockReturnValue(true);
+    it("should not trigger super-chat event when details are missing", async () => {
+        // Arrange
+        const { triggerSuperChat } = require("../../events/super-chat");
+        const message = {
+            id: "superchat-2",
+            snippet: {
+                type: YouTubeMessageTypes.SUPER_CHAT_EVENT,
+                publishedAt: "2024-01-15T10:30:00Z"
+            },
+            authorDetails
+        } as unknown as LiveChatMessage;
 
-        const sampleMessage = {
-            ...SAMPLE_YOUTUBE_TEXT_MESSAGE,
+        // Act
+        await chatManager.handleMessage(message);
+
+        // Assert
+        expect(triggerSuperChat).not.toHaveBeenCalled();
+        expect(mockLogger.warn).toHaveBeenCalledWith("Super Chat message superchat-2 has no superChatDetails");
+    });
+
+    it("should filter out super chats posted before the connection timestamp", async () => {
+        // Arrange
+        const { triggerSuperChat } = require("../../events/super-chat");
+        (chatManager as any).skipMessagesBefore = new Date("2024-01-15T11:00:00Z");
+        const message = {
+            id: "superchat-3",
             snippet: {
-                ...SAMPLE_YOUTUBE_TEXT_MESSAGE.snippet,
-                type: YouTubeMessageTypes.TEXT_MESSAGE_EVENT
-            }
+                type: YouTubeMessageTypes.SUPER_CHAT_EVENT,
+                publishedAt: "2024-01-15T10:30:00Z",
+                superChatDetails: {
+                    amountMicros: "5000000",
+                    currency: "USD",
+                    amountDisplayString: "$5.00",
+                    tier: 2
+                }
+            },
+            authorDetails
         } as unknown as LiveChatMessage;
 
-        await (chatManager as any).handleMessage(sampleMessage);
-        jest.clearAllMocks();
-        await (chatManager as any).handleMessage(sampleMessage);
+        // Act
+        await chatManager.handleMessage(message);
 
-        expect(triggerViewerArrived).not.toHaveBeenCalled();
+        // Assert
+        expect(triggerSuperChat).not.toHaveBeenCalled();
     });
 });
 
-describe("ChatManager token refresh during polling", () => {
+describe("ChatManager membership messages", () => {
     let chatManager: ChatManager;
-    let mockClient: any;
-    let tokenCallCount: number;
+
+    const makeMessage = (id: string, type: number, details: Record<string, unknown>, channelId = "UCmember", displayName = "Member") =>
+        ({
+            id,
+            snippet: {
+                type,
+                publishedAt: "2024-01-15T10:30:00Z",
+                ...details
+            },
+            authorDetails: {
+                channelId,
+                displayName,
+                profileImageUrl: "https://example.com/avatar.jpg"
+            }
+        }) as unknown as LiveChatMessage;
 
     beforeEach(() => {
-        jest.useFakeTimers();
         jest.clearAllMocks();
-        tokenCallCount = 0;
-
-        const mockMultiAuthManagerWithCounter = {
-            getAccessToken: jest.fn(() => {
-                tokenCallCount++;
-                return Promise.resolve(`mock-access-token-${tokenCallCount}`);
-            })
-        } as any;
 
-        mockClient = {
-            chatStreamMessages: jest.fn(async function* () {
-                yield {
-                    items: [],
-                    nextPageToken: undefined,
-                    offlineAt: undefined
-                };
-            })
-        };
+        chatManager = new ChatManager(mockLogger, mockQuotaManager, mockMultiAuthManager, mockClientFactory, mockIntegration, mockUserManager);
+    });
 
-        const mockClientFactoryWithClient = jest.fn(() => mockClient);
+    it("should trigger new-member event with level and upgrade flag", async () => {
+        // Arrange
+        const { triggerNewMember } = require("../../events/membership");
+        const message = makeMessage("sponsor-1", YouTubeMessageTypes.NEW_SPONSOR_EVENT, { newSponsorDetails: { memberLevelName: "Gold", isUpgrade: true } });
 
-        chatManager = new ChatManager(mockLogger, mockQuotaManager, mockMultiAuthManagerWithCounter, mockClientFactoryWithClient, mockIntegration, mockUserManager);
-    });
+        // Act
+        await chatManager.handleMessage(message);
 
-    afterEach(async () => {
-        if (chatManager?.isChatStreaming()) {
-            await chatManager.stopChatStreaming();
-        }
-        jest.clearAllTimers();
-        jest.useRealTimers();
+        // Assert
+        expect(triggerNewMember).toHaveBeenCalledWith({
+            username: "Member@youtube",
+            userId: "yUCmember",
+            userDisplayName: "Member",
+            profilePicUrl: "https://example.com/avatar.jpg",
+            messageId: "sponsor-1",
+            memberLevelName: "Gold",
+            isUpgrade: true
+        });
     });
 
-    it("should retrieve fresh token before each poll", async () => {
-        await chatManager.startChatStreaming("test-live-chat-id");
-
-        jest.advanceTimersByTime(100);
-        await Promise.resolve();
+    it("should trigger new-member event when details are missing", async () => {
+        // Arrange
+        const { triggerNewMember } = require("../../events/membership");
+        const message = makeMessage("sponsor-2", YouTubeMessageTypes.NEW_SPONSOR_EVENT, {});
 
-        const pollOnceMethod = (chatManager as any).pollOnce.bind(chatManager);
-        await pollOnceMethod();
-        await pollOnceMethod();
+        // Act
+        await chatManager.handleMessage(message);
 
-        expect(tokenCallCount).toBeGreaterThanOrEqual(2);
+        // Assert
+        expect(triggerNewMember).toHaveBeenCalledWith(expect.objectContaining({ memberLevelName: "", isUpgrade: false }));
     });
 
-    it("should handle token refresh failures gracefully", async () => {
-        const mockMultiAuthManagerWithError = {
-            getAccessToken: jest.fn(() => Promise.resolve(""))
-        } as any;
-
-        const mockIntegrationWithDisconnect = {
-            ...mockIntegration,
-            sendCriticalErrorNotification: jest.fn(),
-            disconnect: jest.fn(() => Promise.resolve())
-        };
+    it("should trigger member-milestone event with months and comment", async () => {
+        // Arrange
+        const { triggerMemberMilestone } = require("../../events/membership");
+        const message = makeMessage("milestone-1", YouTubeMessageTypes.MEMBER_MILESTONE_EVENT, {
+            memberMilestoneChatDetails: { memberLevelName: "Gold", memberMonth: 12, userComment: "One year!" }
+        });
 
-        const mockClientFactoryWithClient = jest.fn(() => mockClient);
+        // Act
+        await chatManager.handleMessage(message);
 
-        const chatManagerWithFailingToken = new ChatManager(mockLogger, mockQuotaManager, mockMultiAuthManagerWithError, mockClientFactoryWithClient, mockIntegrationWithDisconnect, mockUserManager);
+        // Assert
+        expect(triggerMemberMilestone).toHaveBeenCalledWith(expect.objectContaining({ memberLevelName: "Gold", memberMonth: 12, userComment: "One year!" }));
+    });
 
-        await chatManagerWithFailingToken.startChatStreaming("test-live-chat-id");
+    it("should trigger membership-gifting event with gift count", async () => {
+        // Arrange
+        const { triggerMembershipGifting } = require("../../events/membership");
+        const message = makeMessage("gifting-1", YouTubeMessageTypes.MEMBERSHIP_GIFTING_EVENT, {
+            membershipGiftingDetails: { giftMembershipsCount: 5, giftMembershipsLevelName: "Gold" }
+        });
 
-        const pollOnceMethod = (chatManagerWithFailingToken as any).pollOnce.bind(chatManagerWithFailingToken);
-        await pollOnceMethod();
+        // Act
+        await chatManager.handleMessage(message);
 
-        expect(chatManagerWithFailingToken.isChatStreaming()).toBe(false);
-        expect(mockIntegrationWithDisconnect.sendCriticalErrorNotification).toHaveBeenCalled();
-        expect(mockIntegrationWithDisconnect.disconnect).toHaveBeenCalled();
-        await chatManagerWithFailingToken.stopChatStreaming();
+        // Assert
+        expect(triggerMembershipGifting).toHaveBeenCalledWith(expect.objectContaining({ username: "Member@youtube", memberLevelName: "Gold", giftCount: 5 }));
     });
 
-    it("should pass correct applicationId to getAccessToken", async () => {
-        const mockMultiAuthManagerSpy = {
-            getAccessToken: jest.fn(() => Promise.resolve("mock-access-token"))
-        } as any;
+    it("should include gifter name on gift received when the gifting message was seen", async () => {
+        // Arrange
+        const { triggerGiftMembershipReceived } = require("../../events/membership");
+        const gifting = makeMessage("gifting-1", YouTubeMessageTypes.MEMBERSHIP_GIFTING_EVENT, { membershipGiftingDetails: { giftMembershipsCount: 1, giftMembershipsLevelName: "Gold" } }, "UCgifter", "Gifter");
+        const received = makeMessage(
+            "received-1",
+            YouTubeMessageTypes.GIFT_MEMBERSHIP_RECEIVED_EVENT,
+            { giftMembershipReceivedDetails: { memberLevelName: "Gold", gifterChannelId: "UCgifter", associatedMembershipGiftingMessageId: "gifting-1" } },
+            "UCrecipient",
+            "Recipient"
+        );
 
-        const mockClientFactoryWithClient = jest.fn(() => mockClient);
+        // Act
+        await chatManager.handleMessage(gifting);
+        await chatManager.handleMessage(received);
 
-        const chatManagerWithSpy = new ChatManager(mockLogger, mockQuotaManager, mockMultiAuthManagerSpy, mockClientFactoryWithClient, mockIntegration, mockUserManager);
+        // Assert
+        expect(triggerGiftMembershipReceived).toHaveBeenCalledWith({
+            username: "Recipient@youtube",
+            userId: "yUCrecipient",
+            userDisplayName: "Recipient",
+            profilePicUrl: "https://example.com/avatar.jpg",
+            messageId: "received-1",
+            memberLevelName: "Gold",
+            gifterUserId: "yUCgifter",
+            gifterUsername: "Gifter@youtube",
+            gifterDisplayName: "Gifter",
+            associatedGiftingMessageId: "gifting-1"
+        });
+    });
 
-        await chatManagerWithSpy.startChatStreaming("test-live-chat-id");
+    it("should leave gifter name empty when the gifting message was not seen", async () => {
+        // Arrange
+        const { triggerGiftMembershipReceived } = require("../../events/membership");
+        const received = makeMessage("received-2", YouTubeMessageTypes.GIFT_MEMBERSHIP_RECEIVED_EVENT, {
+            giftMembershipReceivedDetails: { memberLevelName: "Gold", gifterChannelId: "UCgifter", associatedMembershipGiftingMessageId: "unknown-gifting" }
+        });
 
-        const pollOnceMethod = (chatManagerWithSpy as any).pollOnce.bind(chatManagerWithSpy);
-        await pollOnceMethod();
+        // Act
+        await chatManager.handleMessage(received);
 
-        expect(mockMultiAuthManagerSpy.getAccessToken).toHaveBeenCalledWith("test-app-id");
-        await chatManagerWithSpy.stopChatStreaming();
+        // Assert
+        expect(triggerGiftMembershipReceived).toHaveBeenCalledWith(expect.objectContaining({ gifterUserId: "yUCgifter", gifterUsername: "", gifterDisplayName: "" }));
     });
 });
 
-describe("ChatManager offline detection", () => {
+describe("ChatManager moderation messages", () => {
     let chatManager: ChatManager;
-    let mockClient: any;
+
+    const moderatorDetails = {
+        channelId: "UCmoderator",
+        displayName: "Moderator",
+        isChatModerator: true
+    };
+
+    const textMessage = {
+        ...SAMPLE_YOUTUBE_TEXT_MESSAGE,
+        snippet: {
+            ...SAMPLE_YOUTUBE_TEXT_MESSAGE.snippet,
+            type: YouTubeMessageTypes.TEXT_MESSAGE_EVENT
+        }
+    } as unknown as LiveChatMessage;
 
     beforeEach(() => {
-        jest.useFakeTimers();
         jest.clearAllMocks();
+        mockIntegration.isChatFeedEnabled.mockReturnValue(true);
 
-        mockClient = {
-            chatStreamMessages: jest.fn(async function* () {
-                yield {
-                    items: [],
-                    nextPageToken: undefined,
-                    offlineAt: undefined
-                };
-            })
-        };
+        chatManager = new ChatManager(mockLogger, mockQuotaManager, mockMultiAuthManager, mockClientFactory, mockIntegration, mockUserManager);
+    });
 
-        const mockClientFactoryWithClient = jest.fn(() => mockClient);
+    it("should remove a deleted message from the chat feed and trigger message-deleted with the original message", async () => {
+        // Arrange
+        const { triggerMessageDeleted } = require("../../events/moderation");
+        await chatManager.handleMessage(textMessage);
+        jest.clearAllMocks();
+        const deletion = {
+            id: "deletion-1",
+            snippet: {
+                type: YouTubeMessageTypes.MESSAGE_DELETED_EVENT,
+                publishedAt: "2024-01-15T10:31:00Z",
+                messageDeletedDetails: { deletedMessageId: textMessage.id }
+            },
+            authorDetails: moderatorDetails
+        } as unknown as LiveChatMessage;
 
-        chatManager = new ChatManager(mockLogger, mockQuotaManager, mockMultiAuthManager, mockClientFactoryWithClient, mockIntegration, mockUserManager);
-    });
+        // Act
+        await chatManager.handleMessage(deletion);
 
-    afterEach(async () => {
-        if (chatManager?.isChatStreaming()) {
-            await chatManager.stopChatStreaming();
-        }
-        jest.clearAllTimers();
-        jest.useRealTimers();
+        // Assert
+        expect(firebot.modules.frontendCommunicator.send).toHaveBeenCalledWith("twitch:chat:message:deleted", textMessage.id);
+        expect(triggerMessageDeleted).toHaveBeenCalledWith({
+            deletedMessageId: textMessage.id,
+            retracted: false,
+            username: "John Viewer@youtube",
+            userId: "yUCrDkAvwXgOFDjlW9wqyYeIQ",
+            userDisplayName: "John Viewer",
+            messageText: "Great stream!",
+            moderator: "Moderator"
+        });
     });
 
-    it("should call integration.handleStreamOffline() when offlineAt is detected", async () => {
+    it("should look up recent messages by ID and recent chatters by username", async () => {
         // Arrange
-        mockClient.chatStreamMessages = jest.fn(async function* () {
-            yield {
-                items: [],
-                nextPageToken: undefined,
-                offlineAt: "2024-01-01T00:00:00Z"
-            };
+        await chatManager.handleMessage(textMessage);
+
+        // Act & Assert
+        expect(chatManager.getRecentMessage(textMessage.id as string)).toEqual({
+            username: "John Viewer@youtube",
+            userId: "yUCrDkAvwXgOFDjlW9wqyYeIQ",
+            userDisplayName: "John Viewer",
+            messageText: "Great stream!"
         });
+        expect(chatManager.getRecentMessage("unseen-message")).toBeUndefined();
+        expect(chatManager.findRecentUserId("John Viewer@youtube")).toBe("yUCrDkAvwXgOFDjlW9wqyYeIQ");
+        expect(chatManager.findRecentUserId("Someone Else@youtube")).toBeUndefined();
+    });
 
-        await chatManager.startChatStreaming("test-live-chat-id");
+    it("should show a message sent as a reply as a reply in the chat feed", async () => {
+        // Arrange
+        await chatManager.handleMessage(textMessage);
+        chatManager.recordSentReply("reply-1", textMessage.id as string);
+        jest.clearAllMocks();
+        const reply = {
+            ...textMessage,
+            id: "reply-1",
+            snippet: {
+                ...textMessage.snippet,
+                displayMessage: "@John Viewer Thanks!"
+            },
+            authorDetails: { channelId: "UCstreamer", displayName: "Streamer", isChatOwner: true }
+        } as unknown as LiveChatMessage;
 
         // Act
-        const pollOnceMethod = (chatManager as any).pollOnce.bind(chatManager);
-        await pollOnceMethod();
+        await chatManager.handleMessage(reply);
 
         // Assert
-        expect(mockIntegration.handleStreamOffline).toHaveBeenCalled();
-        expect(chatManager.isChatStreaming()).toBe(false);
+        expect(firebot.modules.frontendCommunicator.send).toHaveBeenCalledWith(
+            "twitch:chat:message",
+            expect.objectContaining({
+                id: "reply-1",
+                isReply: true,
+                replyParentMessageId: textMessage.id,
+                replyParentMessageText: "Great stream!",
+                replyParentMessageSenderUserId: "yUCrDkAvwXgOFDjlW9wqyYeIQ",
+                replyParentMessageSenderDisplayName: "John Viewer"
+            })
+        );
     });
 
-    it("should not call integration.handleStreamOffline() when offlineAt is not present", async () => {
+    it("should not mark regular messages as replies", async () => {
+        // Act
+        await chatManager.handleMessage(textMessage);
+
+        // Assert
+        const chatFeedMessage = (firebot.modules.frontendCommunicator.send as jest.Mock).mock.calls.find((call) => call[0] === "twitch:chat:message")?.[1];
+        expect(chatFeedMessage.isReply).toBeUndefined();
+        expect(chatFeedMessage.replyParentMessageId).toBeUndefined();
+    });
+
+    it("should trigger message-deleted as retracted without a moderator", async () => {
         // Arrange
-        await chatManager.startChatStreaming("test-live-chat-id");
+        const { triggerMessageDeleted } = require("../../events/moderation");
+        const retraction = {
+            id: "retraction-1",
+            snippet: {
+                type: YouTubeMessageTypes.MESSAGE_RETRACTED_EVENT,
+                publishedAt: "2024-01-15T10:31:00Z",
+                messageRetractedDetails: { retractedMessageId: "unseen-message" }
+            },
+            authorDetails: { channelId: "UCauthor", displayName: "Author" }
+        } as unknown as LiveChatMessage;
 
         // Act
-        const pollOnceMethod = (chatManager as any).pollOnce.bind(chatManager);
-        await pollOnceMethod();
+        await chatManager.handleMessage(retraction);
 
         // Assert
-        expect(mockIntegration.handleStreamOffline).not.toHaveBeenCalled();
-        expect(chatManager.isChatStreaming()).toBe(true);
+        expect(firebot.modules.frontendCommunicator.send).toHaveBeenCalledWith("twitch:chat:message:deleted", "unseen-message");
+        expect(triggerMessageDeleted).toHaveBeenCalledWith({
+            deletedMessageId: "unseen-message",
+            retracted: true,
+            username: "",
+            userId: "",
+            userDisplayName: "",
+            messageText: "",
+            moderator: ""
+        });
+    });
+
+    it("should not touch the chat feed for deletions when chat feed is disabled", async () => {
+        // Arrange
+        const { triggerMessageDeleted } = require("../../events/moderation");
+        mockIntegration.isChatFeedEnabled.mockReturnValue(false);
+        const deletion = {
+            id: "deletion-2",
+            snippet: {
+                type: YouTubeMessageTypes.MESSAGE_DELETED_EVENT,
+                messageDeletedDetails: { deletedMessageId: "some-message" }
+            },
+            authorDetails: moderatorDetails
+        } as unknown as LiveChatMessage;
+
+        // Act
+        await chatManager.handleMessage(deletion);
+
+        // Assert
+        expect(firebot.modules.frontendCommunicator.send).not.toHaveBeenCalled();
+        expect(triggerMessageDeleted).toHaveBeenCalled();
+    });
+
+    it("should trigger viewer-banned for permanent bans and clear the user's messages", async () => {
+        // Arrange
+        const { triggerViewerBanned, triggerViewerTimeout } = require("../../events/moderation");
+        const ban = {
+            id: "ban-1",
+            snippet: {
+                type: YouTubeMessageTypes.USER_BANNED_EVENT,
+                userBannedDetails: {
+                    bannedUserDetails: { channelId: "UCbanned", displayName: "Troll", profileImageUrl: "https://example.com/troll.jpg" },
+                    banType: LiveChatUserBannedMessageDetails_BanTypeWrapper_BanType.PERMANENT
+                }
+            },
+            authorDetails: moderatorDetails
+        } as unknown as LiveChatMessage;
+
+        // Act
+        await chatManager.handleMessage(ban);
+
+        // Assert
+        expect(firebot.modules.frontendCommunicator.send).toHaveBeenCalledWith("twitch:chat:user:delete-messages", "Troll@youtube");
+        expect(triggerViewerBanned).toHaveBeenCalledWith({
+            username: "Troll@youtube",
+            userId: "yUCbanned",
+            userDisplayName: "Troll",
+            profilePicUrl: "https://example.com/troll.jpg",
+            moderator: "Moderator",
+            banType: "permanent",
+            banDurationSeconds: 0
+        });
+        expect(triggerViewerTimeout).not.toHaveBeenCalled();
+    });
+
+    it("should trigger viewer-timeout for temporary bans with duration", async () => {
+        // Arrange
+        const { triggerViewerBanned, triggerViewerTimeout } = require("../../events/moderation");
+        const timeout = {
+            id: "ban-2",
+            snippet: {
+                type: YouTubeMessageTypes.USER_BANNED_EVENT,
+                userBannedDetails: {
+                    bannedUserDetails: { channelId: "UCbanned", displayName: "Troll" },
+                    banType: LiveChatUserBannedMessageDetails_BanTypeWrapper_BanType.TEMPORARY,
+                    banDurationSeconds: "300"
+                }
+            },
+            authorDetails: moderatorDetails
+        } as unknown as LiveChatMessage;
+
+        // Act
+        await chatManager.handleMessage(timeout);
+
+        // Assert
+        expect(triggerViewerTimeout).toHaveBeenCalledWith(expect.objectContaining({ username: "Troll@youtube", banType: "temporary", banDurationSeconds: 300, timeoutDuration: 300 }));
+        expect(triggerViewerBanned).not.toHaveBeenCalled();
+    });
+
+    it("should ignore ban messages without banned user details", async () => {
+        // Arrange
+        const { triggerViewerBanned, triggerViewerTimeout } = require("../../events/moderation");
+        const ban = {
+            id: "ban-3",
+            snippet: { type: YouTubeMessageTypes.USER_BANNED_EVENT, userBannedDetails: {} },
+            authorDetails: moderatorDetails
+        } as unknown as LiveChatMessage;
+
+        // Act
+        await chatManager.handleMessage(ban);
+
+        // Assert
+        expect(triggerViewerBanned).not.toHaveBeenCalled();
+        expect(triggerViewerTimeout).not.toHaveBeenCalled();
+        expect(mockLogger.warn).toHaveBeenCalledWith("User banned message ban-3 has no bannedUserDetails");
+    });
+});
+
+describe("ChatManager broadcaster", () => {
+    let chatManager: ChatManager;
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+
+        chatManager = new ChatManager(mockLogger, mockQuotaManager, mockMultiAuthManager, mockClientFactory, mockIntegration, mockUserManager);
+    });
+
+    afterEach(() => {
+        mockIntegration.getBroadcasterIdentity.mockReturnValue(null);
+    });
+
+    it("should build the broadcaster from the resolved channel identity", () => {
+        // Arrange
+        mockIntegration.getBroadcasterIdentity.mockReturnValue({
+            channelId: "UCbroadcaster",
+            handle: "@streamer",
+            displayName: "The Streamer",
+            avatarUrl: "https://yt3.ggpht.com/avatar.jpg"
+        });
+
+        // Act
+        const broadcaster = (chatManager as any).getBroadcaster();
+
+        // Assert
+        expect(broadcaster).toEqual({
+            userId: "UCbroadcaster",
+            username: "streamer",
+            displayName: "The Streamer",
+            isVerified: false,
+            profilePicture: "https://yt3.ggpht.com/avatar.jpg"
+        });
+    });
+
+    it("should use the display name as username when the channel has no handle", () => {
+        // Arrange
+        mockIntegration.getBroadcasterIdentity.mockReturnValue({
+            channelId: "UCbroadcaster",
+            handle: "",
+            displayName: "The Streamer",
+            avatarUrl: ""
+        });
+
+        // Act
+        const broadcaster = (chatManager as any).getBroadcaster();
+
+        // Assert
+        expect(broadcaster.username).toBe("The Streamer");
+    });
+
+    it("should fall back to a placeholder when the channel has not been resolved", () => {
+        // Act
+        const broadcaster = (chatManager as any).getBroadcaster();
+
+        // Assert
+        expect(broadcaster).toEqual({
+            userId: "unknown",
+            username: "Broadcaster",
+            displayName: "Broadcaster",
+            isVerified: false,
+            profilePicture: ""
+        });
+    });
+});
+
+describe("ChatManager polls", () => {
+    let chatManager: ChatManager;
+
+    const makePoll = (id: string, tallies: string[], status = LiveChatPollDetails_PollStatusWrapper_PollStatus.ACTIVE) =>
+        ({
+            id,
+            snippet: {
+                type: YouTubeMessageTypes.POLL_EVENT,
+                pollDetails: {
+                    metadata: {
+                        questionText: "Best game?",
+                        options: tallies.map((tally, index) => ({ optionText: `Option ${index + 1}`, tally }))
+                    },
+                    status
+                }
+            },
+            authorDetails: { channelId: "UCowner", displayName: "Owner" }
+        }) as unknown as LiveChatMessage;
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+
+        chatManager = new ChatManager(mockLogger, mockQuotaManager, mockMultiAuthManager, mockClientFactory, mockIntegration, mockUserManager);
+    });
+
+    it("should trigger poll-started the first time a poll is seen", async () => {
+        // Arrange
+        const { triggerPollStarted } = require("../../events/poll");
+
+        // Act
+        await chatManager.handleMessage(makePoll("poll-1", ["0", "0"]));
+
+        // Assert
+        expect(triggerPollStarted).toHaveBeenCalledWith(expect.objectContaining({ pollId: "poll-1", questionText: "Best game?", totalVotes: 0 }));
+        expect(chatManager.getActivePollId()).toBe("poll-1");
+    });
+
+    it("should trigger poll-updated only when tallies change", () => {
+        // Arrange
+        const { triggerPollUpdated } = require("../../events/poll");
+        (chatManager as any).handlePoll(makePoll("poll-1", ["0", "0"]));
+
+        // Act
+        (chatManager as any).handlePoll(makePoll("poll-1", ["0", "0"]));
+        (chatManager as any).handlePoll(makePoll("poll-1", ["2", "1"]));
+
+        // Assert
+        expect(triggerPollUpdated).toHaveBeenCalledTimes(1);
+        expect(triggerPollUpdated).toHaveBeenCalledWith(expect.objectContaining({ totalVotes: 3, winningOption: "Option 1" }));
+    });
+
+    it("should trigger poll-ended once when the poll closes", () => {
+        // Arrange
+        const { triggerPollEnded } = require("../../events/poll");
+        (chatManager as any).handlePoll(makePoll("poll-1", ["2", "1"]));
+
+        // Act
+        (chatManager as any).handlePoll(makePoll("poll-1", ["2", "5"], LiveChatPollDetails_PollStatusWrapper_PollStatus.CLOSED));
+        (chatManager as any).handlePoll(makePoll("poll-1", ["2", "5"], LiveChatPollDetails_PollStatusWrapper_PollStatus.CLOSED));
+        (chatManager as any).handlePoll(makePoll("poll-1", ["2", "5"]));
+
+        // Assert
+        expect(triggerPollEnded).toHaveBeenCalledTimes(1);
+        expect(triggerPollEnded).toHaveBeenCalledWith(expect.objectContaining({ pollId: "poll-1", winningOption: "Option 2" }));
+        expect(chatManager.getActivePollId()).toBeNull();
+    });
+
+    it("should end the previous poll when a new one appears", () => {
+        // Arrange
+        const { triggerPollStarted, triggerPollEnded } = require("../../events/poll");
+        (chatManager as any).handlePoll(makePoll("poll-1", ["1", "0"]));
+
+        // Act
+        (chatManager as any).handlePoll(makePoll("poll-2", ["0", "0"]));
+
+        // Assert
+        expect(triggerPollEnded).toHaveBeenCalledWith(expect.objectContaining({ pollId: "poll-1" }));
+        expect(triggerPollStarted).toHaveBeenLastCalledWith(expect.objectContaining({ pollId: "poll-2" }));
+        expect(chatManager.getActivePollId()).toBe("poll-2");
+    });
+
+    it("should process the active poll item from chat responses", async () => {
+        // Arrange
+        const { triggerPollStarted } = require("../../events/poll");
+        const mockClient = {
+            chatStreamMessages: jest.fn(async function* () {
+                yield { items: [], activePollItem: makePoll("poll-1", ["0", "0"]) };
+            })
+        };
+        (chatManager as any).client = mockClient;
+        (chatManager as any).liveChatId = "test-chat";
+        (chatManager as any).isStreaming = true;
+        (chatManager as any).activeApplicationId = "test-app-id";
+
+        // Act
+        await (chatManager as any).pollOnce();
+        await chatManager.stopChatStreaming();
+
+        // Assert
+        expect(triggerPollStarted).toHaveBeenCalledWith(expect.objectContaining({ pollId: "poll-1" }));
+    });
+});
+
+describe("ChatManager viewer arrival tracking", () => {
+    let chatManager: ChatManager;
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+
+        chatManager = new ChatManager(mockLogger, mockQuotaManager, mockMultiAuthManager, mockClientFactory, mockIntegration, mockUserManager);
+    });
+
+    it("should track viewer arrival on first chat", () => {
+        expect(chatManager.checkViewerArrived("user1")).toBe(true);
+        expect(chatManager.checkViewerArrived("user1")).toBe(false);
+    });
+
+    it("should trigger viewer-arrived event for first-time chatters", async () => {
+        const { triggerViewerArrived } = require("../../events/viewer-arrived");
+        jest.clearAllMocks();
+        mockIntegration.isChatFeedEnabled.mockReturnValue(true);
+
+        const sampleMessage = {
+            ...SAMPLE_YOUTUBE_TEXT_MESSAGE,
+            snippet: {
+                ...SAMPLE_YOUTUBE_TEXT_MESSAGE.snippet,
+                type: YouTubeMessageTypes.TEXT_MESSAGE_EVENT
+            }
+        } as unknown as LiveChatMessage;
+
+        await (chatManager as any).handleMessage(sampleMessage);
+
+        expect(triggerViewerArrived).toHaveBeenCalledWith("John Viewer@youtube", "yUCrDkAvwXgOFDjlW9wqyYeIQ", "John Viewer", "Great stream!", expect.any(Object), expect.any(Array));
+    });
+
+    it("should not trigger viewer-arrived event for returning chatters", async () => {
+        const { triggerViewerArrived } = require("../../events/viewer-arrived");
+        jest.clearAllMocks();
+        mockIntegration.isChatFeedEnabled.mockReturnValue(true);
+
+        const sampleMessage = {
+            ...SAMPLE_YOUTUBE_TEXT_MESSAGE,
+            snippet: {
+                ...SAMPLE_YOUTUBE_TEXT_MESSAGE.snippet,
+                type: YouTubeMessageTypes.TEXT_MESSAGE_EVENT
+            }
+        } as unknown as LiveChatMessage;
+
+        await (chatManager as any).handleMessage(sampleMessage);
+        jest.clearAllMocks();
+        await (chatManager as any).handleMessage(sampleMessage);
+
+        expect(triggerViewerArrived).not.toHaveBeenCalled();
+    });
+});
+
+describe("ChatManager token refresh during polling", () => {
+    let chatManager: ChatManager;
+    let mockClient: any;
+    let tokenCallCount: number;
+
+    beforeEach(() => {
+        jest.useFakeTimers();
+        jest.clearAllMocks();
+        tokenCallCount = 0;
+
+        const mockMultiAuthManagerWithCounter = {
+            getAccessToken: jest.fn(() => {
+                tokenCallCount++;
+                return Promise.resolve(`mock-access-token-${tokenCallCount}`);
+            })
+        } as any;
+
+        mockClient = {
+            chatStreamMessages: jest.fn(async function* () {
+                yield {
+                    items: [],
+                    nextPageToken: undefined,
+                    offlineAt: undefined
+                };
+            })
+        };
+
+        const mockClientFactoryWithClient = jest.fn(() => mockClient);
+
+        chatManager = new ChatManager(mockLogger, mockQuotaManager, mockMultiAuthManagerWithCounter, mockClientFactoryWithClient, mockIntegration, mockUserManager);
+    });
+
+    afterEach(async () => {
+        if (chatManager?.isChatStreaming()) {
+            await chatManager.stopChatStreaming();
+        }
+        jest.clearAllTimers();
+        jest.useRealTimers();
+    });
+
+    it("should retrieve fresh token before each poll", async () => {
+        await chatManager.startChatStreaming("test-live-chat-id");
+
+        jest.advanceTimersByTime(100);
+        await Promise.resolve();
+
+        const pollOnceMethod = (chatManager as any).pollOnce.bind(chatManager);
+        await pollOnceMethod();
+        await pollOnceMethod();
+
+        expect(tokenCallCount).toBeGreaterThanOrEqual(2);
+    });
+
+    it("should handle token refresh failures gracefully", async () => {
+        const mockMultiAuthManagerWithError = {
+            getAccessToken: jest.fn(() => Promise.resolve(""))
+        } as any;
+
+        const mockIntegrationWithDisconnect = {
+            ...mockIntegration,
+            sendCriticalErrorNotification: jest.fn(),
+            disconnectAfterFailure: jest.fn(() => Promise.resolve(false))
+        };
+
+        const mockClientFactoryWithClient = jest.fn(() => mockClient);
+
+        const chatManagerWithFailingToken = new ChatManager(mockLogger, mockQuotaManager, mockMultiAuthManagerWithError, mockClientFactoryWithClient, mockIntegrationWithDisconnect, mockUserManager);
+
+        await chatManagerWithFailingToken.startChatStreaming("test-live-chat-id");
+
+        const pollOnceMethod = (chatManagerWithFailingToken as any).pollOnce.bind(chatManagerWithFailingToken);
+        await pollOnceMethod();
+
+        expect(chatManagerWithFailingToken.isChatStreaming()).toBe(false);
+        expect(mockIntegrationWithDisconnect.sendCriticalErrorNotification).toHaveBeenCalled();
+        expect(mockIntegrationWithDisconnect.disconnectAfterFailure).toHaveBeenCalledWith(expect.any(Error));
+        await chatManagerWithFailingToken.stopChatStreaming();
+    });
+
+    it("should not send a critical notification when the integration will reconnect after a token failure", async () => {
+        const mockMultiAuthManagerWithError = {
+            getAccessToken: jest.fn(() => Promise.resolve(""))
+        } as any;
+
+        const mockIntegrationReconnecting = {
+            ...mockIntegration,
+            sendCriticalErrorNotification: jest.fn(),
+            disconnectAfterFailure: jest.fn(() => Promise.resolve(true))
+        };
+
+        const chatManagerWithFailingToken = new ChatManager(
+            mockLogger,
+            mockQuotaManager,
+            mockMultiAuthManagerWithError,
+            jest.fn(() => mockClient),
+            mockIntegrationReconnecting,
+            mockUserManager
+        );
+
+        await chatManagerWithFailingToken.startChatStreaming("test-live-chat-id");
+
+        const pollOnceMethod = (chatManagerWithFailingToken as any).pollOnce.bind(chatManagerWithFailingToken);
+        await pollOnceMethod();
+
+        expect(mockIntegrationReconnecting.disconnectAfterFailure).toHaveBeenCalled();
+        expect(mockIntegrationReconnecting.sendCriticalErrorNotification).not.toHaveBeenCalled();
+        await chatManagerWithFailingToken.stopChatStreaming();
+    });
+
+    it("should pass correct applicationId to getAccessToken", async () => {
+        const mockMultiAuthManagerSpy = {
+            getAccessToken: jest.fn(() => Promise.resolve("mock-access-token"))
+        } as any;
+
+        const mockClientFactoryWithClient = jest.fn(() => mockClient);
+
+        const chatManagerWithSpy = new ChatManager(mockLogger, mockQuotaManager, mockMultiAuthManagerSpy, mockClientFactoryWithClient, mockIntegration, mockUserManager);
+
+        await chatManagerWithSpy.startChatStreaming("test-live-chat-id");
+
+        const pollOnceMethod = (chatManagerWithSpy as any).pollOnce.bind(chatManagerWithSpy);
+        await pollOnceMethod();
+
+        expect(mockMultiAuthManagerSpy.getAccessToken).toHaveBeenCalledWith("test-app-id");
+        await chatManagerWithSpy.stopChatStreaming();
+    });
+});
+
+describe("ChatManager offline detection", () => {
+    let chatManager: ChatManager;
+    let mockClient: any;
+
+    beforeEach(() => {
+        jest.useFakeTimers();
+        jest.clearAllMocks();
+
+        mockClient = {
+            chatStreamMessages: jest.fn(async function* () {
+                yield {
+                    items: [],
+                    nextPageToken: undefined,
+                    offlineAt: undefined
+                };
+            })
+        };
+
+        const mockClientFactoryWithClient = jest.fn(() => mockClient);
+
+        chatManager = new ChatManager(mockLogger, mockQuotaManager, mockMultiAuthManager, mockClientFactoryWithClient, mockIntegration, mockUserManager);
+    });
+
+    afterEach(async () => {
+        if (chatManager?.isChatStreaming()) {
+            await chatManager.stopChatStreaming();
+        }
+        jest.clearAllTimers();
+        jest.useRealTimers();
+    });
+
+    it("should call integration.handleStreamOffline() when offlineAt is detected", async () => {
+        // Arrange
+        mockClient.chatStreamMessages = jest.fn(async function* () {
+            yield {
+                items: [],
+                nextPageToken: undefined,
+                offlineAt: "2024-01-01T00:00:00Z"
+            };
+        });
+
+        await chatManager.startChatStreaming("test-live-chat-id");
+
+        // Act
+        const pollOnceMethod = (chatManager as any).pollOnce.bind(chatManager);
+        await pollOnceMethod();
+
+        // Assert
+        expect(mockIntegration.handleStreamOffline).toHaveBeenCalled();
+        expect(chatManager.isChatStreaming()).toBe(false);
+    });
+
+    it("should not call integration.handleStreamOffline() when offlineAt is not present", async () => {
+        // Arrange
+        await chatManager.startChatStreaming("test-live-chat-id");
+
+        // Act
+        const pollOnceMethod = (chatManager as any).pollOnce.bind(chatManager);
+        await pollOnceMethod();
+
+        // Assert
+        expect(mockIntegration.handleStreamOffline).not.toHaveBeenCalled();
+        expect(chatManager.isChatStreaming()).toBe(true);
+    });
+});
+
+describe("ChatManager adaptive polling delay", () => {
+    let chatManager: ChatManager;
+    let mockClient: any;
+
+    beforeEach(() => {
+        jest.useFakeTimers();
+        jest.clearAllMocks();
+
+        mockClient = {
+            chatStreamMessages: jest.fn(async function* () {
+                yield {
+                    items: [],
+                    nextPageToken: undefined,
+                    offlineAt: undefined
+                };
+            })
+        };
+
+        chatManager = new ChatManager(
+            mockLogger,
+            mockQuotaManager,
+            mockMultiAuthManager,
+            jest.fn(() => mockClient),
+            mockIntegration,
+            mockUserManager
+        );
+    });
+
+    afterEach(async () => {
+        if (chatManager?.isChatStreaming()) {
+            await chatManager.stopChatStreaming();
+        }
+        jest.clearAllTimers();
+        jest.useRealTimers();
+        mockIntegration.getSettings.mockReturnValue({ advanced: { adaptivePollingDelay: false } });
+    });
+
+    const textMessage = (id: string) =>
+        ({
+            ...SAMPLE_YOUTUBE_TEXT_MESSAGE,
+            id,
+            snippet: {
+                ...SAMPLE_YOUTUBE_TEXT_MESSAGE.snippet,
+                type: YouTubeMessageTypes.TEXT_MESSAGE_EVENT,
+                publishedAt: new Date(Date.now() + 1000).toISOString()
+            }
+        }) as unknown as LiveChatMessage;
+
+    it("should report no delay when chat is not streaming", () => {
+        expect(chatManager.getPollingDelay()).toBeNull();
+    });
+
+    it("should keep the calculated delay when adaptive polling is disabled", async () => {
+        await chatManager.startChatStreaming("test-live-chat-id");
+
+        await (chatManager as any).pollOnce();
+
+        expect(chatManager.getPollingDelay()).toBe(10000);
+        expect(mockQuotaManager.calculateAdaptiveDelay).not.toHaveBeenCalled();
+    });
+
+    it("should recalculate the delay after each poll when adaptive polling is enabled", async () => {
+        mockIntegration.getSettings.mockReturnValue({ advanced: { adaptivePollingDelay: true } });
+        await chatManager.startChatStreaming("test-live-chat-id");
+        const startedAt = Date.now();
+
+        // Three messages in the first minute of the stream
+        jest.setSystemTime(startedAt + 60000);
+        for (let i = 0; i < 3; i++) {
+            await chatManager.handleMessage(textMessage(`activity-message-${i}`));
+        }
+        await (chatManager as any).pollOnce();
+
+        expect(chatManager.getPollingDelay()).toBe(4000);
+        expect(mockQuotaManager.calculateAdaptiveDelay).toHaveBeenCalledWith("test-app-id", expect.objectContaining({ dailyQuota: 10000 }), expect.objectContaining({ streamStartedAt: startedAt, messagesPerMinute: expect.closeTo(3, 5) }));
+    });
+});
+
+describe("ChatManager command trigger deletion", () => {
+    const deleteChatMessage = jest.fn(() => Promise.resolve(true));
+    let chatManager: ChatManager;
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        (commandHandler.handleChatMessage as jest.Mock).mockImplementationOnce(async (message: any, chatActions: any) => {
+            chatActions.deleteMessage(message.id);
+            return true;
+        });
+    });
+
+    const receiveCommand = async (settings: any) => {
+        const integration = { ...mockIntegration, getSettings: jest.fn(() => settings), getRestApiClient: jest.fn(() => ({ deleteChatMessage })) };
+        chatManager = new ChatManager(mockLogger, mockQuotaManager, mockMultiAuthManager, mockClientFactory, integration, mockUserManager);
+        await chatManager.handleMessage({
+            ...SAMPLE_YOUTUBE_TEXT_MESSAGE,
+            id: "trigger-message",
+            snippet: { ...SAMPLE_YOUTUBE_TEXT_MESSAGE.snippet, type: YouTubeMessageTypes.TEXT_MESSAGE_EVENT }
+        } as unknown as LiveChatMessage);
+    };
+
+    it("should delete the trigger message through the REST API client", async () => {
+        await receiveCommand({ chat: { autoDeleteCommandTriggers: true }, advanced: {} });
+
+        expect(deleteChatMessage).toHaveBeenCalledWith("trigger-message");
+    });
+
+    it("should not delete the trigger message when auto-delete is turned off", async () => {
+        await receiveCommand({ chat: { autoDeleteCommandTriggers: false }, advanced: {} });
+
+        expect(deleteChatMessage).not.toHaveBeenCalled();
+    });
+});
+
+describe("ChatManager quota failover", () => {
+    let chatManager: ChatManager;
+    let mockClient: any;
+    let pageTokens: (string | undefined)[];
+    let failNextPoll: Error | null;
+    const quotaManager = {
+        ...mockQuotaManager,
+        isQuotaExceededError: jest.fn((error: any) => error?.code === 403),
+        isDailyQuotaExhaustedError: jest.fn((error: any) => error?.errors?.[0]?.reason === "quotaExceeded")
+    } as unknown as QuotaManager;
+    const quotaError = () => Object.assign(new Error("Quota exceeded"), { code: 403, errors: [{ reason: "quotaExceeded" }] });
+    const integration = {
+        ...mockIntegration,
+        getApplicationsStorage: jest.fn(() => ({
+            applications: {
+                "test-app-id": { id: "test-app-id", quotaSettings: { dailyQuota: 10000 } },
+                "backup-app-id": { id: "backup-app-id", quotaSettings: { dailyQuota: 20000 } }
+            },
+            activeApplicationId: "test-app-id"
+        }))
+    };
+
+    beforeEach(() => {
+        jest.useFakeTimers();
+        jest.clearAllMocks();
+        pageTokens = [];
+        failNextPoll = null;
+
+        mockClient = {
+            chatStreamMessages: jest.fn(async function* (_applicationId: string, _liveChatId: string, _accessToken: string, _dailyQuota: number, options: { pageToken?: string }) {
+                pageTokens.push(options.pageToken);
+                if (failNextPoll) {
+                    const error = failNextPoll;
+                    failNextPoll = null;
+                    throw error;
+                }
+                yield { items: [], nextPageToken: `page-${pageTokens.length + 1}`, offlineAt: undefined };
+            })
+        };
+
+        chatManager = new ChatManager(
+            mockLogger,
+            quotaManager,
+            mockMultiAuthManager,
+            jest.fn(() => mockClient),
+            integration,
+            mockUserManager
+        );
+    });
+
+    afterEach(async () => {
+        await chatManager.stopChatStreaming();
+        jest.clearAllTimers();
+        jest.useRealTimers();
+    });
+
+    it("should pause and hand the application to quota failover when the daily quota is exhausted", async () => {
+        await chatManager.startChatStreaming("test-live-chat-id");
+        failNextPoll = quotaError();
+
+        await jest.advanceTimersByTimeAsync(0);
+
+        expect(chatManager.isChatStreaming()).toBe(false);
+        expect(integration.handleQuotaExhausted).toHaveBeenCalledWith("test-app-id");
+    });
+
+    it("should keep polling after a rate limit error", async () => {
+        await chatManager.startChatStreaming("test-live-chat-id");
+        failNextPoll = Object.assign(new Error("Rate limited"), { code: 403, errors: [{ reason: "rateLimitExceeded" }] });
+
+        await jest.advanceTimersByTimeAsync(0);
+        await jest.advanceTimersByTimeAsync(10000);
+
+        expect(chatManager.isChatStreaming()).toBe(true);
+        expect(integration.handleQuotaExhausted).not.toHaveBeenCalled();
+        expect(mockClient.chatStreamMessages).toHaveBeenCalledTimes(2);
+    });
+
+    it("should resume from the same page token with the new application", async () => {
+        await chatManager.startChatStreaming("test-live-chat-id");
+        await jest.advanceTimersByTimeAsync(0);
+        failNextPoll = quotaError();
+        await jest.advanceTimersByTimeAsync(10000);
+        expect(chatManager.isChatStreaming()).toBe(false);
+
+        chatManager.resumeWithApplication("backup-app-id");
+        await jest.advanceTimersByTimeAsync(0);
+
+        expect(chatManager.isChatStreaming()).toBe(true);
+        expect(pageTokens).toEqual([undefined, "page-2", "page-2"]);
+        expect(mockClient.chatStreamMessages).toHaveBeenLastCalledWith("backup-app-id", "test-live-chat-id", "mock-access-token", 20000, { pageToken: "page-2" });
+    });
+
+    it("should refuse to resume a stream that was never started", () => {
+        expect(() => chatManager.resumeWithApplication("backup-app-id")).toThrow("Chat stream has not been started");
+    });
+});
+
+describe("ChatManager chat resume", () => {
+    let chatManager: ChatManager;
+    let mockClient: any;
+    let pageTokens: (string | undefined)[];
+    let nextResponse: { items: any[]; offlineAt?: string };
+
+    const textMessage = (id: string, publishedAt: string) =>
+        ({
+            ...SAMPLE_YOUTUBE_TEXT_MESSAGE,
+            id,
+            snippet: {
+                ...SAMPLE_YOUTUBE_TEXT_MESSAGE.snippet,
+                type: YouTubeMessageTypes.TEXT_MESSAGE_EVENT,
+                publishedAt
+            }
+        }) as unknown as LiveChatMessage;
+
+    beforeEach(() => {
+        jest.useFakeTimers();
+        jest.clearAllMocks();
+        pageTokens = [];
+        nextResponse = { items: [] };
+
+        mockClient = {
+            chatStreamMessages: jest.fn(async function* (_applicationId: string, _liveChatId: string, _accessToken: string, _dailyQuota: number, options: { pageToken?: string }) {
+                pageTokens.push(options.pageToken);
+                yield { ...nextResponse, nextPageToken: `page-${pageTokens.length + 1}` };
+            })
+        };
+
+        chatManager = new ChatManager(
+            mockLogger,
+            mockQuotaManager,
+            mockMultiAuthManager,
+            jest.fn(() => mockClient),
+            mockIntegration,
+            mockUserManager
+        );
+    });
+
+    afterEach(async () => {
+        await chatManager.stopChatStreaming();
+        jest.clearAllTimers();
+        jest.useRealTimers();
+    });
+
+    it("should save the page token and processed message IDs after each poll", async () => {
+        await chatManager.startChatStreaming("test-live-chat-id");
+        nextResponse = { items: [textMessage("msg-1", new Date(Date.now() + 1000).toISOString())] };
+
+        await (chatManager as any).pollOnce();
+
+        expect(pageTokens).toEqual([undefined]);
+        expect(chatResumeStore.savePosition).toHaveBeenCalledWith("test-live-chat-id", "page-2", ["msg-1"]);
+    });
+
+    it("should resume from the saved page token and handle messages sent while stopped", async () => {
+        (chatResumeStore.getPosition as jest.Mock).mockReturnValueOnce({ pageToken: "saved-page", messageIds: [], updatedAt: Date.now() - 60000 });
+        await chatManager.startChatStreaming("test-live-chat-id");
+        nextResponse = { items: [textMessage("msg-during-gap", new Date(Date.now() - 30000).toISOString())] };
+
+        await (chatManager as any).pollOnce();
+
+        expect(pageTokens).toEqual(["saved-page"]);
+        expect(commandHandler.handleChatMessage).toHaveBeenCalledTimes(1);
+    });
+
+    it("should skip messages that were processed before the restart", async () => {
+        (chatResumeStore.getPosition as jest.Mock).mockReturnValueOnce({ pageToken: "saved-page", messageIds: ["msg-1"], updatedAt: Date.now() });
+        await chatManager.startChatStreaming("test-live-chat-id");
+        nextResponse = { items: [textMessage("msg-1", new Date().toISOString()), textMessage("msg-2", new Date().toISOString())] };
+
+        await (chatManager as any).pollOnce();
+
+        expect(commandHandler.handleChatMessage).toHaveBeenCalledTimes(1);
+        expect(commandHandler.handleChatMessage).toHaveBeenCalledWith(expect.objectContaining({ id: "msg-2" }), expect.anything());
+        expect(chatResumeStore.savePosition).toHaveBeenCalledWith("test-live-chat-id", "page-2", ["msg-1", "msg-2"]);
+    });
+
+    it("should not handle the same message twice in one stream", async () => {
+        await chatManager.startChatStreaming("test-live-chat-id");
+        const message = textMessage("msg-1", new Date(Date.now() + 1000).toISOString());
+
+        await chatManager.handleMessage(message);
+        await chatManager.handleMessage(message);
+
+        expect(commandHandler.handleChatMessage).toHaveBeenCalledTimes(1);
+        expect(mockLogger.debug).toHaveBeenCalledWith("Filtered message that was already processed: msg-1");
+    });
+
+    it("should only remember the most recent message IDs", async () => {
+        await chatManager.startChatStreaming("test-live-chat-id");
+        const publishedAt = new Date(Date.now() + 1000).toISOString();
+        for (let i = 0; i <= 500; i++) {
+            await chatManager.handleMessage(textMessage(`msg-${i}`, publishedAt));
+        }
+
+        const processedMessageIds: Set<string> = (chatManager as any).processedMessageIds;
+        expect(processedMessageIds.size).toBe(500);
+        expect(processedMessageIds.has("msg-0")).toBe(false);
+        expect(processedMessageIds.has("msg-500")).toBe(true);
+    });
+
+    it("should save the processed message IDs of all recent pages", async () => {
+        await chatManager.startChatStreaming("test-live-chat-id");
+        const publishedAt = new Date(Date.now() + 1000).toISOString();
+        nextResponse = { items: [textMessage("msg-1", publishedAt), textMessage("msg-2", publishedAt)] };
+        await (chatManager as any).pollOnce();
+
+        nextResponse = { items: [textMessage("msg-3", publishedAt)] };
+        await (chatManager as any).pollOnce();
+        nextResponse = { items: [] };
+        await (chatManager as any).pollOnce();
+
+        expect(chatResumeStore.savePosition).toHaveBeenLastCalledWith("test-live-chat-id", "page-4", ["msg-1", "msg-2", "msg-3"]);
+    });
+
+    it("should not handle messages again when resuming from a stale page token", async () => {
+        // The position was saved a while before the restart: YouTube returns several pages of
+        // messages that were already handled, followed by a new one
+        (chatResumeStore.getPosition as jest.Mock).mockReturnValueOnce({ pageToken: "stale-page", messageIds: ["msg-1", "msg-2", "msg-3"], updatedAt: Date.now() - 30000 });
+        await chatManager.startChatStreaming("test-live-chat-id");
+        const publishedAt = new Date(Date.now() - 20000).toISOString();
+        nextResponse = { items: ["msg-1", "msg-2", "msg-3", "msg-4"].map((id) => textMessage(id, publishedAt)) };
+
+        await (chatManager as any).pollOnce();
+
+        expect(pageTokens).toEqual(["stale-page"]);
+        expect(commandHandler.handleChatMessage).toHaveBeenCalledTimes(1);
+        expect(commandHandler.handleChatMessage).toHaveBeenCalledWith(expect.objectContaining({ id: "msg-4" }), expect.anything());
+    });
+
+    it("should write the latest position when chat streaming stops", async () => {
+        await chatManager.startChatStreaming("test-live-chat-id");
+
+        await chatManager.stopChatStreaming();
+
+        expect(chatResumeStore.flush).toHaveBeenCalled();
+    });
+
+    it("should forget the saved position when the stream ends", async () => {
+        await chatManager.startChatStreaming("test-live-chat-id");
+        nextResponse = { items: [], offlineAt: "2024-01-15T12:00:00Z" };
+
+        await (chatManager as any).pollOnce();
+
+        expect(chatResumeStore.clearPosition).toHaveBeenCalledWith("test-live-chat-id");
     });
 });
@@ -0,0 +1,92 @@
+import { logger } from "../../main";
+import { ChatMessageQueue } from "../chat-message-queue";
+
+jest.mock("../../main", () => ({
+    logger: {
+        error: jest.fn(),
+        debug: jest.fn(),
+        info: jest.fn(),
+        warn: jest.fn()
+    }
+}));
+
+describe("ChatMessageQueue", () => {
+    let sendChatMessage: jest.Mock;
+    let checkBudget: jest.Mock;
+
+    beforeEach(() => {
+        jest.useFakeTimers();
+        jest.clearAllMocks();
+        sendChatMessage = jest.fn().mockResolvedValue(true);
+        checkBudget = jest.fn().mockReturnValue(true);
+    });
+
+    afterEach(() => {
+        jest.clearAllTimers();
+        jest.useRealTimers();
+    });
+
+    it("should send queued messages in order", async () => {
+        const queue = new ChatMessageQueue(sendChatMessage);
+
+        queue.enqueue("first");
+        queue.enqueue("second", "reply123");
+        await jest.runAllTimersAsync();
+
+        expect(sendChatMessage.mock.calls).toEqual([
+            ["first", undefined],
+            ["second", "reply123"]
+        ]);
+    });
+
+    it("should keep sending after a failed message", async () => {
+        sendChatMessage.mockRejectedValueOnce(new Error("API Error"));
+        const queue = new ChatMessageQueue(sendChatMessage);
+
+        queue.enqueue("first");
+        queue.enqueue("second");
+        await jest.runAllTimersAsync();
+
+        expect(sendChatMessage).toHaveBeenCalledTimes(2);
+        expect(logger.error).toHaveBeenCalledWith("Error sending YouTube chat message from queue: Error: API Error");
+    });
+
+    it("should defer messages over budget and send them once budget is available", async () => {
+        checkBudget.mockReturnValueOnce(false).mockReturnValueOnce(false).mockReturnValue(true);
+        const queue = new ChatMessageQueue(sendChatMessage, checkBudget);
+
+        queue.enqueue("first");
+        queue.enqueue("second");
+        await jest.advanceTimersByTimeAsync(0);
+
+        expect(sendChatMessage).not.toHaveBeenCalled();
+
+        await jest.advanceTimersByTimeAsync(30000);
+        expect(sendChatMessage).not.toHaveBeenCalled();
+
+        await jest.advanceTimersByTimeAsync(30000);
+        expect(sendChatMessage).toHaveBeenCalledWith("first", undefined);
+
+        await jest.runAllTimersAsync();
+        expect(sendChatMessage.mock.calls.map((call) => call[0])).toEqual(["first", "second"]);
+
+        // Only the first check of a deferred message notifies
+        expect(checkBudget.mock.calls.slice(0, 3)).toEqual([
+            ["first", true],
+            ["first", false],
+            ["first", false]
+        ]);
+    });
+
+    it("should drop a message that stays over budget for too long", async () => {
+        checkBudget.mockImplementation((message: string) => message !== "first");
+        const queue = new ChatMessageQueue(sendChatMessage, checkBudget);
+
+        queue.enqueue("first");
+        queue.enqueue("second");
+        await jest.runAllTimersAsync();
+
+        expect(sendChatMessage.mock.calls.map((call) => call[0])).toEqual(["second"]);
+        expect(logger.warn).toHaveBeenCalledWith("Dropping queued YouTube chat message: Quota budget still exceeded after 300s");
+    });
+});
@@ -0,0 +1,134 @@
+/* eslint-disable @typescript-eslint/unbound-method */
+import { readDataFile, writeDataFile } from "../../util/datafile";
+import { CHAT_RESUME_RETENTION_MS, CHAT_RESUME_SAVE_INTERVAL_MS, ChatResumeStore } from "../chat-resume-store";
+
+jest.mock("../../main", () => ({
+    logger: {
+        error: jest.fn(),
+        debug: jest.fn(),
+        info: jest.fn(),
+        warn: jest.fn()
+    }
+}));
+
+jest.mock("../../util/datafile", () => ({
+    getDataFilePath: jest.fn(() => "/tmp/chat-resume.json"),
+    readDataFile: jest.fn(() => null),
+    writeDataFile: jest.fn()
+}));
+
+describe("ChatResumeStore", () => {
+    let store: ChatResumeStore;
+    let now: number;
+
+    beforeEach(() => {
+        jest.useFakeTimers();
+        jest.clearAllMocks();
+        now = 1_700_000_000_000;
+        jest.spyOn(Date, "now").mockImplementation(() => now);
+        store = new ChatResumeStore();
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+        jest.clearAllTimers();
+        jest.useRealTimers();
+    });
+
+    it("should have no position for a live chat that was never read", () => {
+        expect(store.getPosition("chat-1")).toBeNull();
+    });
+
+    it("should save and return the position of each live chat", () => {
+        store.savePosition("chat-1", "page-1", ["msg-1"]);
+        store.savePosition("chat-2", "page-7", ["msg-8", "msg-9"]);
+        store.flush();
+
+        expect(store.getPosition("chat-1")).toEqual({ pageToken: "page-1", messageIds: ["msg-1"], updatedAt: now });
+        expect(writeDataFile).toHaveBeenLastCalledWith(
+            "/tmp/chat-resume.json",
+            {
+                chats: {
+                    "chat-1": { pageToken: "page-1", messageIds: ["msg-1"], updatedAt: now },
+                    "chat-2": { pageToken: "page-7", messageIds: ["msg-8", "msg-9"], updatedAt: now }
+                }
+            },
+            expect.objectContaining({ schemaVersion: 1, backupCount: 0 })
+        );
+    });
+
+    it("should write the file at most once per save interval", () => {
+        store.savePosition("chat-1", "page-1", []);
+        store.savePosition("chat-1", "page-2", []);
+        store.savePosition("chat-1", "page-3", []);
+
+        expect(writeDataFile).toHaveBeenCalledTimes(1);
+
+        now += CHAT_RESUME_SAVE_INTERVAL_MS;
+        jest.advanceTimersByTime(CHAT_RESUME_SAVE_INTERVAL_MS);
+
+        expect(writeDataFile).toHaveBeenCalledTimes(2);
+        expect(writeDataFile).toHaveBeenLastCalledWith("/tmp/chat-resume.json", { chats: { "chat-1": expect.objectContaining({ pageToken: "page-3" }) } }, expect.anything());
+    });
+
+    it("should write a pending position when flushed", () => {
+        store.savePosition("chat-1", "page-1", []);
+        store.savePosition("chat-1", "page-2", []);
+
+        store.flush();
+        store.flush();
+
+        expect(writeDataFile).toHaveBeenCalledTimes(2);
+        expect(writeDataFile).toHaveBeenLastCalledWith("/tmp/chat-resume.json", { chats: { "chat-1": expect.objectContaining({ pageToken: "page-2" }) } }, expect.anything());
+        jest.advanceTimersByTime(CHAT_RESUME_SAVE_INTERVAL_MS);
+        expect(writeDataFile).toHaveBeenCalledTimes(2);
+    });
+
+    it("should not resume from a position that is too old", () => {
+        store.savePosition("chat-1", "page-1", []);
+        now += CHAT_RESUME_RETENTION_MS;
+
+        expect(store.getPosition("chat-1")).toBeNull();
+    });
+
+    it("should forget a cleared position", () => {
+        store.savePosition("chat-1", "page-1", []);
+        store.clearPosition("chat-1");
+
+        expect(store.getPosition("chat-1")).toBeNull();
+        expect(writeDataFile).toHaveBeenLastCalledWith("/tmp/chat-resume.json", { chats: {} }, expect.anything());
+    });
+
+    it("should not save when clearing a live chat without a position", () => {
+        store.clearPosition("chat-1");
+
+        expect(writeDataFile).not.toHaveBeenCalled();
+    });
+
+    it("should restore recent positions when initialized", () => {
+        (readDataFile as jest.Mock).mockReturnValueOnce({
+            data: {
+                chats: {
+                    "chat-1": { pageToken: "page-1", messageIds: ["msg-1"], updatedAt: now - 60_000 },
+                    "chat-old": { pageToken: "page-9", messageIds: [], updatedAt: now - CHAT_RESUME_RETENTION_MS - 1 }
+                }
+            },
+            needsSave: false
+        });
+
+        store.initialize();
+
+        expect(store.getPosition("chat-1")?.pageToken).toBe("page-1");
+        expect(store.getPosition("chat-old")).toBeNull();
+    });
+
+    it("should start with no positions when the saved file cannot be read", () => {
+        (readDataFile as jest.Mock).mockImplementationOnce(() => {
+            throw new Error("corrupted");
+        });
+
+        store.initialize();
+
+        expect(store.getPosition("chat-1")).toBeNull();
+    });
+});
@@ -0,0 +1,146 @@
+/* eslint-disable @typescript-eslint/unbound-method */
+import { readDataFile, writeDataFile } from "../../util/datafile";
+import { COMMAND_COOLDOWNS_SAVE_INTERVAL_MS, CommandCooldownManager } from "../command-cooldown-manager";
+
+jest.mock("../../main", () => ({
+    logger: {
+        error: jest.fn(),
+        debug: jest.fn(),
+        info: jest.fn(),
+        warn: jest.fn()
+    }
+}));
+
+jest.mock("../../util/datafile", () => ({
+    getDataFilePath: jest.fn(() => "/tmp/command-cooldowns.json"),
+    readDataFile: jest.fn(() => null),
+    writeDataFile: jest.fn()
+}));
+
+describe("CommandCooldownManager", () => {
+    let manager: CommandCooldownManager;
+    let now: number;
+
+    beforeEach(() => {
+        jest.useFakeTimers();
+        jest.clearAllMocks();
+        now = 1_700_000_000_000;
+        jest.spyOn(Date, "now").mockImplementation(() => now);
+        manager = new CommandCooldownManager();
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+        jest.clearAllTimers();
+        jest.useRealTimers();
+    });
+
+    it("should not put commands without cooldown settings on cooldown", () => {
+        manager.cooldownCommand({ id: "cmd" }, undefined, "user1");
+
+        expect(manager.getRemainingCooldown({ id: "cmd" }, undefined, "user1")).toBe(0);
+        expect(writeDataFile).not.toHaveBeenCalled();
+    });
+
+    it("should apply the global cooldown to every user", () => {
+        const command = { id: "cmd", cooldown: { global: 30, user: 0 } };
+
+        manager.cooldownCommand(command, undefined, "user1");
+        now += 10_500;
+
+        expect(manager.getRemainingCooldown(command, undefined, "user1")).toBe(20);
+        expect(manager.getRemainingCooldown(command, undefined, "user2")).toBe(20);
+
+        now += 20_000;
+        expect(manager.getRemainingCooldown(command, undefined, "user2")).toBe(0);
+    });
+
+    it("should apply the per-user cooldown only to the user who triggered the command", () => {
+        const command = { id: "cmd", cooldown: { global: 5, user: 60 } };
+
+        manager.cooldownCommand(command, undefined, "user1");
+        now += 10_000;
+
+        expect(manager.getRemainingCooldown(command, undefined, "user1")).toBe(50);
+        expect(manager.getRemainingCooldown(command, undefined, "user2")).toBe(0);
+    });
+
+    it("should give a subcommand with its own settings its own cooldown", () => {
+        const command = { id: "cmd", cooldown: { global: 30 } };
+        const subcommand = { id: "sub", cooldown: { user: 60 } };
+
+        manager.cooldownCommand(command, subcommand, "user1");
+
+        expect(manager.getRemainingCooldown(command, subcommand, "user1")).toBe(60);
+        expect(manager.getRemainingCooldown(command, subcommand, "user2")).toBe(0);
+        expect(manager.getRemainingCooldown(command, undefined, "user1")).toBe(0);
+    });
+
+    it("should share the base command cooldown with subcommands that have no settings of their own", () => {
+        const command = { id: "cmd", cooldown: { global: 30 } };
+        const subcommand = { id: "sub", cooldown: { global: 0, user: 0 } };
+
+        manager.cooldownCommand(command, subcommand, "user1");
+
+        expect(manager.getRemainingCooldown(command, undefined, "user2")).toBe(30);
+        expect(manager.getRemainingCooldown(command, { id: "other" }, "user2")).toBe(30);
+    });
+
+    it("should save active cooldowns and drop expired ones", () => {
+        manager.cooldownCommand({ id: "short", cooldown: { global: 5 } }, undefined, "user1");
+        now += 10_000;
+        manager.cooldownCommand({ id: "long", cooldown: { user: 60 } }, undefined, "user1");
+        manager.flush();
+
+        expect(writeDataFile).toHaveBeenLastCalledWith("/tmp/command-cooldowns.json", { global: {}, user: { "long:user1": now + 60_000 } }, expect.objectContaining({ schemaVersion: 1, backupCount: 0 }));
+    });
+
+    it("should write the file at most once per save interval", () => {
+        manager.cooldownCommand({ id: "cmd", cooldown: { user: 60 } }, undefined, "user1");
+        manager.cooldownCommand({ id: "cmd", cooldown: { user: 60 } }, undefined, "user2");
+        manager.cooldownCommand({ id: "cmd", cooldown: { user: 60 } }, undefined, "user3");
+
+        expect(writeDataFile).toHaveBeenCalledTimes(1);
+
+        now += COMMAND_COOLDOWNS_SAVE_INTERVAL_MS;
+        jest.advanceTimersByTime(COMMAND_COOLDOWNS_SAVE_INTERVAL_MS);
+
+        expect(writeDataFile).toHaveBeenCalledTimes(2);
+        expect(writeDataFile).toHaveBeenLastCalledWith("/tmp/command-cooldowns.json", { global: {}, user: expect.objectContaining({ "cmd:user3": expect.any(Number) }) }, expect.anything());
+    });
+
+    it("should write pending cooldowns when flushed and not again afterwards", () => {
+        manager.cooldownCommand({ id: "cmd", cooldown: { global: 60 } }, undefined, "user1");
+        manager.cooldownCommand({ id: "other", cooldown: { global: 60 } }, undefined, "user1");
+
+        manager.flush();
+        manager.flush();
+        jest.advanceTimersByTime(COMMAND_COOLDOWNS_SAVE_INTERVAL_MS);
+
+        expect(writeDataFile).toHaveBeenCalledTimes(2);
+        expect(writeDataFile).toHaveBeenLastCalledWith("/tmp/command-cooldowns.json", { global: { cmd: now + 60_000, other: now + 60_000 }, user: {} }, expect.anything());
+    });
+
+    it("should restore unexpired cooldowns when initialized", () => {
+        (readDataFile as jest.Mock).mockReturnValueOnce({
+            data: { global: { cmd: now + 15_000, old: now - 1 }, user: { "cmd:user1": now + 45_000 } },
+            needsSave: false
+        });
+
+        manager.initialize();
+
+        expect(manager.getRemainingCooldown({ id: "cmd" }, undefined, "user1")).toBe(45);
+        expect(manager.getRemainingCooldown({ id: "cmd" }, undefined, "user2")).toBe(15);
+        expect(manager.getRemainingCooldown({ id: "old" }, undefined, "user2")).toBe(0);
+    });
+
+    it("should start with no cooldowns when the saved file cannot be read", () => {
+        (readDataFile as jest.Mock).mockImplementationOnce(() => {
+            throw new Error("corrupted");
+        });
+
+        manager.initialize();
+
+        expect(manager.getRemainingCooldown({ id: "cmd" }, undefined, "user1")).toBe(0);
+    });
+});
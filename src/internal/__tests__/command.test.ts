@@ -1,7 +1,7 @@
 /* eslint-disable @typescript-eslint/unbound-method */
 
 import { firebot } from "../../main";
-import { CommandHandler, CommandRunner } from "../command";
+import { COMMAND_FEEDBACK_INTERVAL_MS, CommandHandler, CommandRunner } from "../command";
 
 // Mock firebot modules
 jest.mock("../../main", () => ({
@@ -38,6 +38,12 @@ jest.mock("../../main", () => ({
     }
 }));
 
+jest.mock("../../util/datafile", () => ({
+    getDataFilePath: jest.fn(() => "/tmp/command-cooldowns.json"),
+    readDataFile: jest.fn(() => null),
+    writeDataFile: jest.fn()
+}));
+
 const createMockChatMessage = (overrides?: any) => ({
     id: "msg1",
     username: "testuser",
@@ -54,6 +60,11 @@ const createMockChatMessage = (overrides?: any) => ({
     ...overrides
 });
 
+const createChatActions = () => ({
+    sendReply: jest.fn(),
+    deleteMessage: jest.fn()
+});
+
 const createMockCommand = (overrides?: any) => ({
     id: "test-cmd",
     type: "custom",
@@ -90,6 +101,10 @@ describe("CommandHandler", () => {
         mockFrontendCommunicatorSend = firebot.modules.frontendCommunicator.send as unknown as jest.Mock;
     });
 
+    afterEach(() => {
+        commandHandler.flushCooldowns();
+    });
+
     describe("Basic Command Triggering", () => {
         it("should detect and handle a basic command trigger", async () => {
             const mockCommand = createMockCommand();
@@ -303,6 +318,170 @@ describe("CommandHandler", () => {
             expect(result).toBe(false);
         });
     });
+
+    describe("Cooldowns", () => {
+        it("should refuse a command on global cooldown for every user", async () => {
+            mockGetAllActiveCommands.mockReturnValue([createMockCommand({ cooldown: { global: 30, user: 0 } })]);
+            mockProcessEffects.mockResolvedValue({});
+
+            expect(await commandHandler.handleChatMessage(createMockChatMessage({ id: "msg1" }))).toBe(true);
+            expect(await commandHandler.handleChatMessage(createMockChatMessage({ id: "msg2", userId: "user456", username: "otheruser" }))).toBe(false);
+            expect(mockProcessEffects).toHaveBeenCalledTimes(1);
+        });
+
+        it("should refuse a command on per-user cooldown only for that user", async () => {
+            mockGetAllActiveCommands.mockReturnValue([createMockCommand({ cooldown: { global: 0, user: 60 } })]);
+            mockProcessEffects.mockResolvedValue({});
+
+            expect(await commandHandler.handleChatMessage(createMockChatMessage({ id: "msg1" }))).toBe(true);
+            expect(await commandHandler.handleChatMessage(createMockChatMessage({ id: "msg2" }))).toBe(false);
+            expect(await commandHandler.handleChatMessage(createMockChatMessage({ id: "msg3", userId: "user456", username: "otheruser" }))).toBe(true);
+        });
+
+        it("should not start the cooldown when restrictions fail", async () => {
+            mockGetAllActiveCommands.mockReturnValue([createMockCommand({ cooldown: { global: 30 }, restrictionData: { restrictions: [{ type: "roles", roles: ["moderator"] }] } })]);
+            mockRunRestrictionPredicates.mockRejectedValueOnce("User is not a moderator").mockResolvedValue(undefined);
+            mockProcessEffects.mockResolvedValue({});
+
+            expect(await commandHandler.handleChatMessage(createMockChatMessage({ id: "msg1" }))).toBe(false);
+            expect(await commandHandler.handleChatMessage(createMockChatMessage({ id: "msg2" }))).toBe(true);
+        });
+
+        it("should use the subcommand cooldown when the subcommand has one", async () => {
+            const mockCommand = createMockCommand({
+                cooldown: { global: 30 },
+                subCommands: [{ id: "sub1", arg: "sub", effects: { list: [] }, active: true, cooldown: { user: 60 } }]
+            });
+            mockGetAllActiveCommands.mockReturnValue([mockCommand]);
+            mockProcessEffects.mockResolvedValue({});
+
+            expect(await commandHandler.handleChatMessage(createMockChatMessage({ id: "msg1", rawText: "!test sub" }))).toBe(true);
+            expect(await commandHandler.handleChatMessage(createMockChatMessage({ id: "msg2", rawText: "!test sub" }))).toBe(false);
+            expect(await commandHandler.handleChatMessage(createMockChatMessage({ id: "msg3", rawText: "!test" }))).toBe(true);
+        });
+
+        it("should reply with the cooldown message when the command asks for it", async () => {
+            mockGetAllActiveCommands.mockReturnValue([createMockCommand({ cooldown: { global: 90 }, sendCooldownMessage: true, useCustomCooldownMessage: true, cooldownMessage: "Slow down {user}, wait {timeLeft}" })]);
+            mockProcessEffects.mockResolvedValue({});
+            const chatActions = createChatActions();
+
+            await commandHandler.handleChatMessage(createMockChatMessage({ id: "msg1" }), chatActions);
+            await commandHandler.handleChatMessage(createMockChatMessage({ id: "msg2" }), chatActions);
+
+            expect(chatActions.sendReply).toHaveBeenCalledTimes(1);
+            expect(chatActions.sendReply).toHaveBeenCalledWith("Slow down TestUser, wait 1m 30s", "msg2");
+        });
+
+        it("should not reply when the command does not send a cooldown message", async () => {
+            mockGetAllActiveCommands.mockReturnValue([createMockCommand({ cooldown: { global: 30 } })]);
+            mockProcessEffects.mockResolvedValue({});
+            const chatActions = createChatActions();
+
+            await commandHandler.handleChatMessage(createMockChatMessage({ id: "msg1" }), chatActions);
+            await commandHandler.handleChatMessage(createMockChatMessage({ id: "msg2" }), chatActions);
+
+            expect(chatActions.sendReply).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("Auto Delete Trigger", () => {
+        it("should delete the trigger message when the command has auto delete trigger set", async () => {
+            mockGetAllActiveCommands.mockReturnValue([createMockCommand({ autoDeleteTrigger: true })]);
+            mockProcessEffects.mockResolvedValue({});
+            const chatActions = createChatActions();
+
+            const result = await commandHandler.handleChatMessage(createMockChatMessage(), chatActions);
+
+            expect(result).toBe(true);
+            expect(chatActions.deleteMessage).toHaveBeenCalledWith("msg1");
+        });
+
+        it("should delete the trigger message when the subcommand has auto delete trigger set", async () => {
+            mockGetAllActiveCommands.mockReturnValue([createMockCommand({ subCommands: [{ id: "sub1", arg: "sub", effects: { list: [] }, active: true, autoDeleteTrigger: true }] })]);
+            mockProcessEffects.mockResolvedValue({});
+            const chatActions = createChatActions();
+
+            await commandHandler.handleChatMessage(createMockChatMessage({ rawText: "!test sub" }), chatActions);
+
+            expect(chatActions.deleteMessage).toHaveBeenCalledWith("msg1");
+        });
+
+        it("should not delete the trigger message otherwise", async () => {
+            mockGetAllActiveCommands.mockReturnValue([createMockCommand()]);
+            mockProcessEffects.mockResolvedValue({});
+            const chatActions = createChatActions();
+
+            await commandHandler.handleChatMessage(createMockChatMessage(), chatActions);
+
+            expect(chatActions.deleteMessage).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("Feedback Messages", () => {
+        let chatActions: ReturnType<typeof createChatActions>;
+
+        beforeEach(() => {
+            chatActions = createChatActions();
+        });
+
+        it("should reply when the subcommand is unknown", async () => {
+            mockGetAllActiveCommands.mockReturnValue([createMockCommand({ subCommands: [{ id: "sub1", arg: "sub", effects: { list: [] }, active: true }] })]);
+
+            const result = await commandHandler.handleChatMessage(createMockChatMessage({ rawText: "!test other" }), chatActions);
+
+            expect(result).toBe(false);
+            expect(chatActions.sendReply).toHaveBeenCalledWith("Invalid Command: unknown arg used.", "msg1");
+        });
+
+        it("should reply with the usage when arguments are missing", async () => {
+            mockGetAllActiveCommands.mockReturnValue([createMockCommand({ minArgs: 1, usage: "[username]" })]);
+
+            await commandHandler.handleChatMessage(createMockChatMessage(), chatActions);
+
+            expect(chatActions.sendReply).toHaveBeenCalledWith("Invalid command. Usage: !test [username]", "msg1");
+        });
+
+        it("should reply with the restriction failure reason", async () => {
+            mockGetAllActiveCommands.mockReturnValue([createMockCommand({ restrictionData: { restrictions: [{ type: "roles" }] } })]);
+            mockRunRestrictionPredicates.mockRejectedValue(["You must be a moderator"]);
+
+            await commandHandler.handleChatMessage(createMockChatMessage(), chatActions);
+
+            expect(chatActions.sendReply).toHaveBeenCalledWith("Sorry, you cannot use this command because: You must be a moderator", "msg1");
+        });
+
+        it("should use the custom restriction failure message", async () => {
+            mockGetAllActiveCommands.mockReturnValue([createMockCommand({ restrictionData: { restrictions: [{ type: "roles" }], useCustomFailMessage: true, failMessage: "Nope ({reason})" } })]);
+            mockRunRestrictionPredicates.mockRejectedValue("not a member");
+
+            await commandHandler.handleChatMessage(createMockChatMessage(), chatActions);
+
+            expect(chatActions.sendReply).toHaveBeenCalledWith("Nope (not a member)", "msg1");
+        });
+
+        it("should not reply when the restriction failure message is turned off", async () => {
+            mockGetAllActiveCommands.mockReturnValue([createMockCommand({ restrictionData: { restrictions: [{ type: "roles" }], sendFailMessage: false } })]);
+            mockRunRestrictionPredicates.mockRejectedValue("not a member");
+
+            await commandHandler.handleChatMessage(createMockChatMessage(), chatActions);
+
+            expect(chatActions.sendReply).not.toHaveBeenCalled();
+        });
+
+        it("should rate limit feedback per user", async () => {
+            const now = jest.spyOn(Date, "now").mockReturnValue(1_700_000_000_000);
+            mockGetAllActiveCommands.mockReturnValue([createMockCommand({ minArgs: 1 })]);
+
+            await commandHandler.handleChatMessage(createMockChatMessage({ id: "msg1" }), chatActions);
+            await commandHandler.handleChatMessage(createMockChatMessage({ id: "msg2" }), chatActions);
+            await commandHandler.handleChatMessage(createMockChatMessage({ id: "msg3", userId: "user456", username: "otheruser" }), chatActions);
+            now.mockReturnValue(1_700_000_000_000 + COMMAND_FEEDBACK_INTERVAL_MS);
+            await commandHandler.handleChatMessage(createMockChatMessage({ id: "msg4" }), chatActions);
+            now.mockRestore();
+
+            expect(chatActions.sendReply.mock.calls.map(([, replyToMessageId]) => replyToMessageId)).toEqual(["msg1", "msg3", "msg4"]);
+        });
+    });
 });
 
 describe("CommandRunner", () => {
@@ -0,0 +1,167 @@
+import { ConnectionState } from "../../events";
+import { triggerConnectionStateChanged } from "../../events/connection";
+import { ConnectionSupervisor, calculateBackoffDelay, RECONNECT_BASE_DELAY_MS, RECONNECT_MAX_DELAY_MS } from "../connection-supervisor";
+import { ApiCallType, ErrorCategory } from "../error-constants";
+import { ErrorTracker } from "../error-tracker";
+
+jest.mock("../../main", () => ({
+    logger: {
+        error: jest.fn(),
+        debug: jest.fn(),
+        info: jest.fn(),
+        warn: jest.fn()
+    }
+}));
+
+jest.mock("../../events/connection", () => ({
+    triggerConnectionStateChanged: jest.fn()
+}));
+
+describe("calculateBackoffDelay", () => {
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it("should double the delay with each attempt", () => {
+        jest.spyOn(Math, "random").mockReturnValue(1);
+
+        expect(calculateBackoffDelay(1)).toBe(RECONNECT_BASE_DELAY_MS);
+        expect(calculateBackoffDelay(2)).toBe(RECONNECT_BASE_DELAY_MS * 2);
+        expect(calculateBackoffDelay(3)).toBe(RECONNECT_BASE_DELAY_MS * 4);
+    });
+
+    it("should cap the delay", () => {
+        jest.spyOn(Math, "random").mockReturnValue(1);
+
+        expect(calculateBackoffDelay(20)).toBe(RECONNECT_MAX_DELAY_MS);
+    });
+
+    it("should take off up to half of the delay at random", () => {
+        jest.spyOn(Math, "random").mockReturnValue(0);
+
+        expect(calculateBackoffDelay(2)).toBe(RECONNECT_BASE_DELAY_MS);
+    });
+});
+
+describe("ConnectionSupervisor", () => {
+    let supervisor: ConnectionSupervisor;
+    let errorTracker: ErrorTracker;
+    let mockIntegration: any;
+    let mockQuotaManager: any;
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        jest.useFakeTimers();
+        jest.spyOn(Math, "random").mockReturnValue(1);
+
+        errorTracker = new ErrorTracker();
+        mockIntegration = {
+            connect: jest.fn(() => Promise.resolve())
+        };
+        mockQuotaManager = {
+            calculateNextMidnightPT: jest.fn(() => Date.now() + 60 * 60 * 1000),
+            isDailyQuotaExhaustedError: jest.fn(() => true)
+        };
+        supervisor = new ConnectionSupervisor(mockIntegration, errorTracker, mockQuotaManager);
+    });
+
+    afterEach(() => {
+        supervisor.stop();
+        jest.useRealTimers();
+        jest.restoreAllMocks();
+    });
+
+    it("should start disconnected", () => {
+        expect(supervisor.getState()).toBe(ConnectionState.DISCONNECTED);
+        expect(supervisor.getRetryDelay()).toBeNull();
+    });
+
+    it("should reconnect with increasing delays after network errors", () => {
+        expect(supervisor.handleFailure(new Error("connect ECONNREFUSED"))).toBe(true);
+        expect(supervisor.getState()).toBe(ConnectionState.RECONNECTING);
+        expect(supervisor.getRetryDelay()).toBe(RECONNECT_BASE_DELAY_MS);
+
+        jest.advanceTimersByTime(RECONNECT_BASE_DELAY_MS);
+        expect(mockIntegration.connect).toHaveBeenCalledTimes(1);
+
+        supervisor.handleFailure(new Error("connect ECONNREFUSED"));
+        expect(supervisor.getRetryDelay()).toBe(RECONNECT_BASE_DELAY_MS * 2);
+
+        jest.advanceTimersByTime(RECONNECT_BASE_DELAY_MS * 2 - 1);
+        expect(mockIntegration.connect).toHaveBeenCalledTimes(1);
+        jest.advanceTimersByTime(1);
+        expect(mockIntegration.connect).toHaveBeenCalledTimes(2);
+    });
+
+    it("should report each reconnect attempt", () => {
+        supervisor.handleFailure(new Error("connect ECONNREFUSED"));
+        supervisor.handleFailure(new Error("read ECONNRESET"));
+
+        expect(triggerConnectionStateChanged).toHaveBeenCalledTimes(2);
+        expect(triggerConnectionStateChanged).toHaveBeenLastCalledWith({
+            state: ConnectionState.RECONNECTING,
+            previousState: ConnectionState.RECONNECTING,
+            errorCategory: ErrorCategory.NETWORK_ERROR,
+            errorMessage: "read ECONNRESET",
+            attempt: 2,
+            retryInSeconds: 10
+        });
+    });
+
+    it("should reset the backoff once connected", () => {
+        supervisor.handleFailure(new Error("connect ECONNREFUSED"));
+        supervisor.handleFailure(new Error("connect ECONNREFUSED"));
+        supervisor.handleConnected();
+
+        expect(supervisor.getState()).toBe(ConnectionState.CONNECTED);
+        expect(supervisor.getRetryDelay()).toBeNull();
+
+        supervisor.handleFailure(new Error("connect ECONNREFUSED"));
+        expect(supervisor.getRetryDelay()).toBe(RECONNECT_BASE_DELAY_MS);
+    });
+
+    it("should treat a missing access token as a network error when the last token refresh failed for network reasons", () => {
+        errorTracker.recordError(ApiCallType.REFRESH_TOKEN, new Error("getaddrinfo ENOTFOUND oauth2.googleapis.com"));
+
+        expect(supervisor.handleFailure(new Error("Failed to get access token for chat polling"))).toBe(true);
+        expect(supervisor.getState()).toBe(ConnectionState.RECONNECTING);
+    });
+
+    it("should give up on authentication failures", () => {
+        expect(supervisor.handleFailure(new Error("Failed to get access token for chat polling"))).toBe(false);
+        expect(supervisor.getState()).toBe(ConnectionState.FAILED);
+        expect(supervisor.getRetryDelay()).toBeNull();
+
+        jest.advanceTimersByTime(RECONNECT_MAX_DELAY_MS);
+        expect(mockIntegration.connect).not.toHaveBeenCalled();
+    });
+
+    it("should wait for the quota reset when the daily quota is exhausted", () => {
+        expect(supervisor.handleFailure(new Error("YouTube API quota exceeded"), ErrorCategory.QUOTA_EXCEEDED)).toBe(true);
+        expect(supervisor.getState()).toBe(ConnectionState.WAITING_FOR_QUOTA_RESET);
+
+        // One hour until midnight PT, plus the grace period and its full jitter
+        expect(supervisor.getRetryDelay()).toBe(62 * 60 * 1000);
+
+        jest.advanceTimersByTime(62 * 60 * 1000);
+        expect(mockIntegration.connect).toHaveBeenCalledTimes(1);
+    });
+
+    it("should back off instead of waiting for the quota reset when rate limited", () => {
+        mockQuotaManager.isDailyQuotaExhaustedError.mockReturnValue(false);
+
+        supervisor.handleFailure(new Error("Rate limit exceeded"));
+
+        expect(supervisor.getState()).toBe(ConnectionState.RECONNECTING);
+        expect(supervisor.getRetryDelay()).toBe(RECONNECT_BASE_DELAY_MS);
+    });
+
+    it("should cancel a scheduled reconnect when stopped", () => {
+        supervisor.handleFailure(new Error("connect ECONNREFUSED"));
+        supervisor.stop();
+
+        expect(supervisor.getState()).toBe(ConnectionState.DISCONNECTED);
+        jest.advanceTimersByTime(RECONNECT_MAX_DELAY_MS);
+        expect(mockIntegration.connect).not.toHaveBeenCalled();
+    });
+});
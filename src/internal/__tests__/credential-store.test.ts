@@ -0,0 +1,145 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { logger } from "../../main";
+import { CredentialStore, REDACTED_VALUE, redactCredential } from "../credential-store";
+
+jest.mock("../../main", () => ({
+    logger: {
+        debug: jest.fn(),
+        info: jest.fn(),
+        warn: jest.fn(),
+        error: jest.fn()
+    }
+}));
+
+// Reversible stand-in for Electron's safeStorage
+const makeSafeStorage = () => ({
+    isEncryptionAvailable: jest.fn(() => true),
+    encryptString: jest.fn((plainText: string) => Buffer.from(`wrapped:${plainText}`)),
+    decryptString: jest.fn((encrypted: Buffer) => encrypted.toString().replace(/^wrapped:/, ""))
+});
+
+describe("CredentialStore", () => {
+    let tempDir: string;
+    let keyFilePath: string;
+
+    beforeEach(() => {
+        tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "credential-store-"));
+        keyFilePath = path.join(tempDir, "nested", "credentials.key");
+    });
+
+    afterEach(() => {
+        fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    it("encrypts and decrypts values without storing the plaintext", () => {
+        const store = new CredentialStore(keyFilePath, () => null);
+
+        const encrypted = store.encrypt("my-refresh-token");
+
+        expect(encrypted).not.toContain("my-refresh-token");
+        expect(store.isEncrypted(encrypted)).toBe(true);
+        expect(store.decrypt(encrypted)).toBe("my-refresh-token");
+    });
+
+    it("uses a random IV for every encryption", () => {
+        const store = new CredentialStore(keyFilePath, () => null);
+
+        expect(store.encrypt("secret")).not.toBe(store.encrypt("secret"));
+    });
+
+    it("passes plaintext and empty values through for migration", () => {
+        const store = new CredentialStore(keyFilePath, () => null);
+
+        expect(store.isEncrypted("plaintext-secret")).toBe(false);
+        expect(store.decrypt("plaintext-secret")).toBe("plaintext-secret");
+        expect(store.encrypt("")).toBe("");
+        expect(fs.existsSync(keyFilePath)).toBe(false);
+    });
+
+    it("does not double-encrypt values", () => {
+        const store = new CredentialStore(keyFilePath, () => null);
+        const encrypted = store.encrypt("secret");
+
+        expect(store.encrypt(encrypted)).toBe(encrypted);
+    });
+
+    it("creates a user-only key file and reuses it across instances", () => {
+        const encrypted = new CredentialStore(keyFilePath, () => null).encrypt("secret");
+
+        const keyFile = JSON.parse(fs.readFileSync(keyFilePath, "utf8"));
+        expect(keyFile.protection).toBe("file");
+        if (process.platform !== "win32") {
+            expect(fs.statSync(keyFilePath).mode & 0o777).toBe(0o600);
+        }
+        expect(new CredentialStore(keyFilePath, () => null).decrypt(encrypted)).toBe("secret");
+    });
+
+    it("protects the key with the OS keychain when available", () => {
+        const safeStorage = makeSafeStorage();
+        const encrypted = new CredentialStore(keyFilePath, () => safeStorage).encrypt("secret");
+
+        const keyFile = JSON.parse(fs.readFileSync(keyFilePath, "utf8"));
+        expect(keyFile.protection).toBe("os-keychain");
+        expect(safeStorage.encryptString).toHaveBeenCalledTimes(1);
+        expect(new CredentialStore(keyFilePath, () => safeStorage).decrypt(encrypted)).toBe("secret");
+        expect(safeStorage.decryptString).toHaveBeenCalledTimes(1);
+    });
+
+    it("fails to decrypt when the keychain-protected key cannot be unwrapped", () => {
+        const encrypted = new CredentialStore(keyFilePath, makeSafeStorage).encrypt("secret");
+
+        expect(() => new CredentialStore(keyFilePath, () => null).decrypt(encrypted)).toThrow("OS keychain");
+    });
+
+    it("fails to decrypt values encrypted with a different key", () => {
+        const encrypted = new CredentialStore(keyFilePath, () => null).encrypt("secret");
+
+        const otherStore = new CredentialStore(path.join(tempDir, "other.key"), () => null);
+        expect(() => otherStore.decrypt(encrypted)).toThrow();
+    });
+
+    it("refuses to create a new key when decrypting without a key file", () => {
+        const encrypted = new CredentialStore(keyFilePath, () => null).encrypt("secret");
+        fs.rmSync(keyFilePath);
+        const store = new CredentialStore(keyFilePath, () => null);
+
+        expect(() => store.decrypt(encrypted)).toThrow("Credential encryption key is missing");
+        expect(() => store.encrypt("other-secret")).toThrow("Credential encryption key is missing");
+        expect(fs.existsSync(keyFilePath)).toBe(false);
+        expect(logger.error).toHaveBeenCalledWith(expect.stringContaining("is missing, but encrypted credentials exist"));
+    });
+
+    it("creates a new key again once the missing key is no longer needed", () => {
+        const encrypted = new CredentialStore(keyFilePath, () => null).encrypt("secret");
+        fs.rmSync(keyFilePath);
+        const store = new CredentialStore(keyFilePath, () => null);
+        expect(() => store.decrypt(encrypted)).toThrow();
+
+        store.clearMissingKey();
+
+        expect(store.decrypt(store.encrypt("other-secret"))).toBe("other-secret");
+        expect(fs.existsSync(keyFilePath)).toBe(true);
+    });
+
+    it("writes the key file atomically without leaving a temp file", () => {
+        new CredentialStore(keyFilePath, () => null).encrypt("secret");
+
+        expect(fs.readdirSync(path.dirname(keyFilePath))).toEqual(["credentials.key"]);
+    });
+
+    it("rejects malformed encrypted values", () => {
+        const store = new CredentialStore(keyFilePath, () => null);
+
+        expect(() => store.decrypt("enc:v1:garbage")).toThrow("Malformed encrypted credential");
+    });
+});
+
+describe("redactCredential", () => {
+    it("redacts values that are set and leaves empty values empty", () => {
+        expect(redactCredential("secret")).toBe(REDACTED_VALUE);
+        expect(redactCredential("")).toBe("");
+        expect(redactCredential(undefined)).toBe("");
+    });
+});
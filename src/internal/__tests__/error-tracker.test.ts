@@ -128,6 +128,41 @@ describe("ErrorTracker", () => {
             const metadata = errorTracker.recordError(ApiCallType.SEND_CHAT_MESSAGE, error);
             expect(metadata.errorCategory).toBe(ErrorCategory.UNAUTHENTICATED);
         });
+
+        it("should categorize connection resets and DNS failures as NETWORK_ERROR", () => {
+            expect(errorTracker.categorize(new Error("read ECONNRESET"))).toBe(ErrorCategory.NETWORK_ERROR);
+            expect(errorTracker.categorize(new Error("getaddrinfo EAI_AGAIN youtube.googleapis.com"))).toBe(ErrorCategory.NETWORK_ERROR);
+            expect(errorTracker.categorize(new Error("fetch failed"))).toBe(ErrorCategory.NETWORK_ERROR);
+        });
+
+        it("should categorize server errors as NETWORK_ERROR", () => {
+            expect(errorTracker.categorize({ status: 503, message: "Service Unavailable" })).toBe(ErrorCategory.NETWORK_ERROR);
+            expect(errorTracker.categorize({ code: 4, message: "Deadline exceeded" })).toBe(ErrorCategory.NETWORK_ERROR);
+        });
+    });
+
+    describe("categorize", () => {
+        it("should not count the error as a failure", () => {
+            expect(errorTracker.categorize(new Error("Request timeout"))).toBe(ErrorCategory.NETWORK_ERROR);
+            expect(errorTracker.getConsecutiveFailures(ApiCallType.REFRESH_TOKEN)).toBe(0);
+            expect(errorTracker.getLastErrorCategory(ApiCallType.REFRESH_TOKEN)).toBeNull();
+        });
+    });
+
+    describe("getLastErrorCategory", () => {
+        it("should return the category of the most recent error", () => {
+            errorTracker.recordError(ApiCallType.REFRESH_TOKEN, new Error("Unauthenticated"));
+            errorTracker.recordError(ApiCallType.REFRESH_TOKEN, new Error("connect ECONNREFUSED"));
+
+            expect(errorTracker.getLastErrorCategory(ApiCallType.REFRESH_TOKEN)).toBe(ErrorCategory.NETWORK_ERROR);
+        });
+
+        it("should be cleared by a success", () => {
+            errorTracker.recordError(ApiCallType.REFRESH_TOKEN, new Error("connect ECONNREFUSED"));
+            errorTracker.recordSuccess(ApiCallType.REFRESH_TOKEN);
+
+            expect(errorTracker.getLastErrorCategory(ApiCallType.REFRESH_TOKEN)).toBeNull();
+        });
     });
 
     describe("per-API-call-type tracking", () => {
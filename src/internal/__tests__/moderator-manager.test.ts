@@ -0,0 +1,126 @@
+/* eslint-disable @typescript-eslint/unbound-method */
+import { logger } from "../../main";
+import { ModeratorManager, YouTubeModerator } from "../moderator-manager";
+import { RestApiClient } from "../rest-api-client";
+
+jest.mock("../../main", () => ({
+    logger: {
+        error: jest.fn(),
+        debug: jest.fn(),
+        info: jest.fn(),
+        warn: jest.fn()
+    }
+}));
+
+describe("ModeratorManager", () => {
+    let restApiClient: jest.Mocked<RestApiClient>;
+    let moderatorManager: ModeratorManager;
+
+    const alice: YouTubeModerator = { moderatorId: "mod-alice", channelId: "UCalice", displayName: "Alice", profilePicUrl: "" };
+    const bob: YouTubeModerator = { moderatorId: "mod-bob", channelId: "UCbob", displayName: "Bob", profilePicUrl: "" };
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        restApiClient = {
+            listModerators: jest.fn(),
+            addModerator: jest.fn(),
+            removeModerator: jest.fn()
+        } as any;
+        moderatorManager = new ModeratorManager(restApiClient);
+    });
+
+    describe("refresh", () => {
+        it("should cache the moderators returned by the API", async () => {
+            restApiClient.listModerators.mockResolvedValue([alice, bob]);
+
+            await moderatorManager.refresh();
+
+            expect(moderatorManager.getModerators()).toEqual([alice, bob]);
+            expect(moderatorManager.isModerator("UCbob")).toBe(true);
+        });
+
+        it("should keep the cached list when the API call fails", async () => {
+            restApiClient.listModerators.mockResolvedValueOnce([alice]).mockResolvedValueOnce(null);
+            await moderatorManager.refresh();
+
+            await moderatorManager.refresh();
+
+            expect(moderatorManager.getModerators()).toEqual([alice]);
+            expect(logger.warn).toHaveBeenCalledWith("Failed to refresh YouTube moderator list; keeping cached list");
+        });
+    });
+
+    it("should empty the cache on clear", async () => {
+        restApiClient.listModerators.mockResolvedValue([alice]);
+        await moderatorManager.refresh();
+
+        moderatorManager.clear();
+
+        expect(moderatorManager.getModerators()).toEqual([]);
+    });
+
+    describe("addModerator", () => {
+        it("should add the new moderator to the cache", async () => {
+            restApiClient.addModerator.mockResolvedValue(alice);
+
+            const result = await moderatorManager.addModerator("UCalice");
+
+            expect(result).toBe(true);
+            expect(restApiClient.addModerator).toHaveBeenCalledWith("UCalice");
+            expect(moderatorManager.getModerators()).toEqual([alice]);
+        });
+
+        it("should not call the API for an existing moderator", async () => {
+            restApiClient.listModerators.mockResolvedValue([alice]);
+            await moderatorManager.refresh();
+
+            const result = await moderatorManager.addModerator("UCalice");
+
+            expect(result).toBe(true);
+            expect(restApiClient.addModerator).not.toHaveBeenCalled();
+        });
+
+        it("should return false when the API call fails", async () => {
+            restApiClient.addModerator.mockResolvedValue(null);
+
+            const result = await moderatorManager.addModerator("UCalice");
+
+            expect(result).toBe(false);
+            expect(moderatorManager.getModerators()).toEqual([]);
+        });
+    });
+
+    describe("removeModerator", () => {
+        beforeEach(async () => {
+            restApiClient.listModerators.mockResolvedValue([alice, bob]);
+            await moderatorManager.refresh();
+        });
+
+        it("should remove the moderator by moderator resource ID", async () => {
+            restApiClient.removeModerator.mockResolvedValue(true);
+
+            const result = await moderatorManager.removeModerator("UCalice");
+
+            expect(result).toBe(true);
+            expect(restApiClient.removeModerator).toHaveBeenCalledWith("mod-alice");
+            expect(moderatorManager.getModerators()).toEqual([bob]);
+        });
+
+        it("should keep the moderator cached when the API call fails", async () => {
+            restApiClient.removeModerator.mockResolvedValue(false);
+
+            const result = await moderatorManager.removeModerator("UCalice");
+
+            expect(result).toBe(false);
+            expect(moderatorManager.getModerators()).toEqual([alice, bob]);
+        });
+
+        it("should return false for a user who is not a moderator", async () => {
+            const result = await moderatorManager.removeModerator("UCcarol");
+
+            expect(result).toBe(false);
+            expect(restApiClient.removeModerator).not.toHaveBeenCalled();
+            expect(logger.warn).toHaveBeenCalledWith("Cannot remove YouTube moderator UCcarol: User is not in the moderator list");
+        });
+    });
+});
@@ -60,7 +60,8 @@ describe("MultiAuthManager", () => {
             getApplication: jest.fn((id: string) => {
                 return mockApplications.find((app) => app.id === id) || null;
             }),
-            updateApplication: jest.fn().mockResolvedValue(undefined)
+            updateApplication: jest.fn().mockResolvedValue(undefined),
+            hasUndecryptableCredentials: jest.fn((app: any) => app.refreshToken.startsWith("enc:"))
         };
 
         multiAuthManager = new MultiAuthManager(errorTracker, mockApplicationManager);
@@ -642,6 +643,18 @@ describe("MultiAuthManager", () => {
             );
         });
 
+        it("should not refresh or clear credentials that could not be decrypted", async () => {
+            const { OAuth2Client } = require("google-auth-library");
+            const mockClient = OAuth2Client();
+            mockClient.refreshAccessToken.mockClear();
+            mockApplicationManager.getApplication.mockReturnValueOnce({ ...mockApplications[0], refreshToken: "enc:undecryptable" });
+
+            await multiAuthManager.refreshApplicationToken("app1");
+
+            expect(mockClient.refreshAccessToken).not.toHaveBeenCalled();
+            expect(mockApplicationManager.updateApplication).not.toHaveBeenCalledWith("app1", expect.objectContaining({ refreshToken: "" }));
+        });
+
         it("should log when refresh token is rotated", async () => {
             const { OAuth2Client } = require("google-auth-library");
             const mockClient = OAuth2Client();
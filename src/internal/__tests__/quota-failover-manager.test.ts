@@ -1,4 +1,5 @@
 /* eslint-disable @typescript-eslint/unbound-method */
+import { ApplicationActivationCause } from "../../events";
 import { triggerQuotaFailover } from "../../events/failover";
 import { logger } from "../../main";
 import type { YouTubeOAuthApplication } from "../../types";
@@ -111,6 +112,7 @@ describe("QuotaFailoverManager", () => {
             await failoverManager["attemptQuotaFailover"](currentAppId);
 
             // Assert
+            expect(mockIntegration.switchActiveApplication).toHaveBeenCalledWith(targetAppId, ApplicationActivationCause.AUTOMATIC_QUOTA_FAILOVER);
             expect(triggerQuotaFailover).toHaveBeenCalledWith({
                 previousApplicationId: currentAppId,
                 applicationId: targetAppId,
@@ -511,5 +513,104 @@ describe("QuotaFailoverManager", () => {
 
             expect(triggerQuotaFailover).toHaveBeenCalledWith(expect.objectContaining({ threshold: 1 }));
         });
+
+        it("should try applications in the order given by the rotation policy", async () => {
+            const currentAppId = "current-app";
+            const makeApp = (id: string, name: string): YouTubeOAuthApplication => ({
+                id,
+                name,
+                email: `${id}@example.com`,
+                clientId: `client-${id}`,
+                clientSecret: "client-secret",
+                refreshToken: "refresh-token",
+                quotaSettings: { dailyQuota: 10000, maxStreamHours: 24, overridePollingDelay: false, customPollingDelaySeconds: 30 },
+                ready: true
+            });
+
+            mockIntegration.getSettings.mockReturnValue({ advanced: { enableAutomaticFailover: true } });
+            mockIntegration.getApplicationManager.mockReturnValue({
+                getApplications: jest.fn(() => ({
+                    [currentAppId]: { id: currentAppId, name: "Current App" },
+                    alpha: makeApp("alpha", "Alpha"),
+                    bravo: makeApp("bravo", "Bravo")
+                })),
+                setActiveApplication: jest.fn().mockResolvedValue(undefined)
+            });
+            mockQuotaManager.getQuotaUsage.mockReturnValue(null);
+            const getAccessToken = jest.fn().mockResolvedValue("token");
+            mockIntegration.getMultiAuthManager.mockReturnValue({ getAccessToken });
+            mockIntegration.getBroadcastManager.mockReturnValue({ findLiveBroadcast: jest.fn().mockResolvedValue({}) });
+            mockIntegration.isConnected.mockReturnValue(false);
+
+            const rotationManager = { isInSendingPool: jest.fn(() => false), orderFailoverCandidates: jest.fn((candidates: any[]) => [...candidates].reverse()) };
+            failoverManager = new QuotaFailoverManager(mockIntegration, mockQuotaManager, rotationManager as any);
+
+            await failoverManager.attemptQuotaFailover(currentAppId);
+
+            expect(rotationManager.orderFailoverCandidates).toHaveBeenCalledWith(
+                [expect.objectContaining({ app: expect.objectContaining({ id: "alpha" }) }), expect.objectContaining({ app: expect.objectContaining({ id: "bravo" }) })],
+                currentAppId
+            );
+            expect(getAccessToken).toHaveBeenCalledTimes(1);
+            expect(getAccessToken).toHaveBeenCalledWith("bravo");
+            expect(triggerQuotaFailover).toHaveBeenCalledWith(expect.objectContaining({ applicationId: "bravo" }));
+        });
+
+        it("should not replace the polling application when a sending pool application crosses the threshold", async () => {
+            mockIntegration.getSettings.mockReturnValue({ advanced: { enableAutomaticFailover: true } });
+            mockIntegration.getCurrentActiveApplicationId.mockReturnValue("polling-app");
+            const rotationManager = { isInSendingPool: jest.fn((id: string) => id === "sending-app"), orderFailoverCandidates: jest.fn() };
+            failoverManager = new QuotaFailoverManager(mockIntegration, mockQuotaManager, rotationManager as any);
+
+            await expect(failoverManager.attemptQuotaFailover("sending-app")).resolves.toBe(false);
+
+            expect(mockIntegration.getApplicationManager).not.toHaveBeenCalled();
+            expect(triggerQuotaFailover).not.toHaveBeenCalled();
+        });
+
+        it("should report whether another application was activated", async () => {
+            mockIntegration.getSettings.mockReturnValue({ advanced: { enableAutomaticFailover: false } });
+            await expect(failoverManager.attemptQuotaFailover("current-app")).resolves.toBe(false);
+
+            mockIntegration.getSettings.mockReturnValue({ advanced: { enableAutomaticFailover: true } });
+            mockIntegration.getApplicationManager.mockReturnValue({
+                getApplications: jest.fn(() => ({
+                    "current-app": { id: "current-app", name: "Current App" },
+                    "target-app": { id: "target-app", name: "Target App", ready: true, quotaSettings: { dailyQuota: 10000 } }
+                })),
+                setActiveApplication: jest.fn().mockResolvedValue(undefined)
+            });
+            mockQuotaManager.getQuotaUsage.mockReturnValue(null);
+            mockIntegration.getMultiAuthManager.mockReturnValue({ getAccessToken: jest.fn().mockResolvedValue("token") });
+            const findLiveBroadcast = jest.fn().mockRejectedValue(new Error("Forbidden"));
+            mockIntegration.getBroadcastManager.mockReturnValue({ findLiveBroadcast });
+            mockIntegration.isConnected.mockReturnValue(false);
+
+            await expect(failoverManager.attemptQuotaFailover("current-app")).resolves.toBe(false);
+
+            findLiveBroadcast.mockResolvedValue({});
+            await expect(failoverManager.attemptQuotaFailover("current-app")).resolves.toBe(true);
+        });
+
+        it("should share the outcome of a failover already in progress", async () => {
+            mockIntegration.getSettings.mockReturnValue({ advanced: { enableAutomaticFailover: true } });
+            const setActiveApplication = jest.fn().mockResolvedValue(undefined);
+            mockIntegration.getApplicationManager.mockReturnValue({
+                getApplications: jest.fn(() => ({
+                    "current-app": { id: "current-app", name: "Current App" },
+                    "target-app": { id: "target-app", name: "Target App", ready: true, quotaSettings: { dailyQuota: 10000 } }
+                })),
+                setActiveApplication
+            });
+            mockQuotaManager.getQuotaUsage.mockReturnValue(null);
+            mockIntegration.getMultiAuthManager.mockReturnValue({ getAccessToken: jest.fn().mockResolvedValue("token") });
+            mockIntegration.getBroadcastManager.mockReturnValue({ findLiveBroadcast: jest.fn().mockResolvedValue({}) });
+            mockIntegration.isConnected.mockReturnValue(false);
+
+            const results = await Promise.all([failoverManager.attemptQuotaFailover("current-app"), failoverManager.attemptQuotaFailover("current-app")]);
+
+            expect(results).toEqual([true, true]);
+            expect(setActiveApplication).toHaveBeenCalledTimes(1);
+        });
     });
 });
@@ -1,7 +1,7 @@
 /* eslint-disable @typescript-eslint/unbound-method */
 import { DateTime } from "luxon";
 import { firebot, logger } from "../../main";
-import { QuotaManager } from "../quota-manager";
+import { QUOTA_HISTORY_RETENTION_DAYS_DEFAULT, QuotaManager } from "../quota-manager";
 
 jest.mock("fs");
 
@@ -24,6 +24,7 @@ jest.mock("../../main", () => ({
 
 // Mock getDataFilePath
 jest.mock("../../util/datafile", () => ({
+    ...jest.requireActual("../../util/datafile"),
     getDataFilePath: jest.fn(() => "/tmp/quota-tracking.json")
 }));
 
@@ -830,6 +831,474 @@ describe("QuotaManager", () => {
         });
     });
 
+    describe("calculateAdaptiveDelay", () => {
+        const quotaSettings = {
+            dailyQuota: 10000,
+            maxStreamHours: 8,
+            overridePollingDelay: false,
+            customPollingDelaySeconds: -1
+        };
+
+        const setNow = (iso: string) => {
+            const mockNow = DateTime.fromISO(iso, { zone: "America/Los_Angeles" });
+            jest.spyOn(DateTime, "now").mockReturnValue(mockNow as any);
+            jest.spyOn(Date, "now").mockReturnValue(mockNow.toMillis());
+        };
+
+        beforeEach(() => {
+            jest.useFakeTimers();
+            setNow("2024-06-15T14:00:00");
+            quotaManager = new QuotaManager();
+        });
+
+        afterEach(() => {
+            jest.clearAllTimers();
+            jest.useRealTimers();
+        });
+
+        const context = (messagesPerMinute: number) => ({ streamStartedAt: Date.now(), messagesPerMinute });
+
+        it("should spread the remaining polling budget over the rest of the stream", () => {
+            // 8000 units (after the 20% buffer) = 1600 calls over the 8 hour stream
+            expect(quotaManager.calculateAdaptiveDelay("app1", quotaSettings, context(5))).toBe(8005);
+        });
+
+        it("should slow down when chat is quiet", () => {
+            expect(quotaManager.calculateAdaptiveDelay("app1", quotaSettings, context(0))).toBe(16010);
+        });
+
+        it("should speed up when chat is busy and quota is plentiful", () => {
+            expect(quotaManager.calculateAdaptiveDelay("app1", quotaSettings, context(30))).toBe(4003);
+        });
+
+        it("should not speed up for busy chat when less than half the quota remains", () => {
+            quotaManager.recordApiCall("app1", "streamList", 6000);
+
+            // 2000 units left for polling = 400 calls
+            expect(quotaManager.calculateAdaptiveDelay("app1", quotaSettings, context(30))).toBe(62155);
+        });
+
+        it("should use the maximum delay when the polling budget is exhausted", () => {
+            quotaManager.recordApiCall("app1", "streamList", 7996);
+
+            expect(quotaManager.calculateAdaptiveDelay("app1", quotaSettings, context(5))).toBe(120000);
+        });
+
+        it("should plan only until the quota resets", () => {
+            setNow("2024-06-15T23:00:00");
+
+            // One hour until reset with 1600 affordable calls: poll as often as allowed
+            expect(quotaManager.calculateAdaptiveDelay("app1", quotaSettings, context(5))).toBe(1000);
+        });
+
+        it("should account for time already streamed", () => {
+            quotaManager.recordApiCall("app1", "streamList", 4000);
+            const streamStartedAt = Date.now() - 4 * 3600 * 1000;
+
+            // 4000 units left for polling = 800 calls over the remaining 4 hours
+            expect(quotaManager.calculateAdaptiveDelay("app1", quotaSettings, { streamStartedAt, messagesPerMinute: 5 })).toBe(8010);
+        });
+
+        it("should use the custom delay when the delay is overridden", () => {
+            const overridden = { ...quotaSettings, overridePollingDelay: true, customPollingDelaySeconds: 15 };
+
+            expect(quotaManager.calculateAdaptiveDelay("app1", overridden, context(30))).toBe(15000);
+        });
+
+        it("should return null for invalid settings", () => {
+            expect(quotaManager.calculateAdaptiveDelay("app1", { ...quotaSettings, dailyQuota: 0 }, context(5))).toBeNull();
+        });
+    });
+
+    describe("usage history", () => {
+        let settings: any;
+
+        const setNow = (iso: string) => {
+            const mockNow = DateTime.fromISO(iso, { zone: "America/Los_Angeles" });
+            jest.spyOn(DateTime, "now").mockReturnValue(mockNow as any);
+            jest.spyOn(Date, "now").mockReturnValue(mockNow.toMillis());
+        };
+
+        beforeEach(() => {
+            jest.useFakeTimers();
+            setNow("2024-06-15T14:00:00");
+            settings = {};
+            quotaManager = new QuotaManager({ ...mockIntegration, getSettings: () => settings } as any);
+        });
+
+        afterEach(() => {
+            jest.clearAllTimers();
+            jest.useRealTimers();
+        });
+
+        it("should record calls and units per endpoint for the current day", () => {
+            quotaManager.recordApiCall("app1", "streamList", 5);
+            quotaManager.recordApiCall("app1", "streamList", 5);
+            quotaManager.recordApiCall("app1", "liveChatMessages.insert", 20);
+            quotaManager.recordApiCall("app2", "streamList", 5);
+
+            const report = quotaManager.getQuotaHistory("app1", 1);
+
+            expect(report.days).toEqual([
+                {
+                    date: "2024-06-15",
+                    totalUnits: 30,
+                    endpoints: {
+                        streamList: { calls: 2, units: 10 },
+                        "liveChatMessages.insert": { calls: 1, units: 20 }
+                    }
+                }
+            ]);
+            expect(report.endpoints).toEqual([
+                { endpoint: "liveChatMessages.insert", calls: 1, units: 20 },
+                { endpoint: "streamList", calls: 2, units: 10 }
+            ]);
+        });
+
+        it("should include days without usage, oldest first", () => {
+            setNow("2024-06-13T10:00:00");
+            quotaManager.recordApiCall("app1", "videos.list", 1);
+            setNow("2024-06-15T10:00:00");
+            quotaManager.recordApiCall("app1", "videos.list", 1);
+
+            const report = quotaManager.getQuotaHistory("app1", 4);
+
+            expect(report.days.map((day) => [day.date, day.totalUnits])).toEqual([
+                ["2024-06-12", 0],
+                ["2024-06-13", 1],
+                ["2024-06-14", 0],
+                ["2024-06-15", 1]
+            ]);
+            expect(report.endpoints).toEqual([{ endpoint: "videos.list", calls: 2, units: 2 }]);
+        });
+
+        it("should split days at midnight Pacific Time", () => {
+            setNow("2024-06-15T23:30:00");
+            quotaManager.recordApiCall("app1", "streamList", 5);
+            setNow("2024-06-16T00:30:00");
+            quotaManager.recordApiCall("app1", "streamList", 5);
+
+            const report = quotaManager.getQuotaHistory("app1", 2);
+
+            expect(report.days.map((day) => [day.date, day.totalUnits])).toEqual([
+                ["2024-06-15", 5],
+                ["2024-06-16", 5]
+            ]);
+        });
+
+        it("should drop history older than the configured retention period", () => {
+            settings.advanced = { quotaHistoryRetentionDays: 3 };
+            setNow("2024-06-10T10:00:00");
+            quotaManager.recordApiCall("app1", "streamList", 5);
+            quotaManager.recordApiCall("app2", "streamList", 5);
+            setNow("2024-06-12T10:00:00");
+            quotaManager.recordApiCall("app1", "videos.list", 1);
+            setNow("2024-06-13T10:00:00");
+            quotaManager.recordApiCall("app1", "videos.list", 1);
+
+            quotaManager.flushQuotaData();
+
+            const mockFs = require("fs");
+            const saved = JSON.parse(mockFs.writeFileSync.mock.calls[mockFs.writeFileSync.mock.calls.length - 1][1]).data;
+            expect(Object.keys(saved.history)).toEqual(["app1"]);
+            expect(Object.keys(saved.history.app1)).toEqual(["2024-06-12", "2024-06-13"]);
+        });
+
+        it("should limit reports to the retention period", () => {
+            settings.advanced = { quotaHistoryRetentionDays: 5 };
+
+            expect(quotaManager.getQuotaHistory("app1", 30).days).toHaveLength(5);
+            expect(quotaManager.getQuotaHistory("app1").days).toHaveLength(5);
+        });
+
+        it("should fall back to the default retention for invalid settings", () => {
+            settings.advanced = { quotaHistoryRetentionDays: -2 };
+
+            expect(quotaManager.getHistoryRetentionDays()).toBe(QUOTA_HISTORY_RETENTION_DAYS_DEFAULT);
+        });
+
+        it("should migrate quota data saved before history was added", async () => {
+            const mockFs = require("fs");
+            mockFs.existsSync.mockReturnValue(true);
+            mockFs.readFileSync.mockReturnValue(
+                JSON.stringify({
+                    schemaVersion: 1,
+                    savedAt: 0,
+                    data: {
+                        app1: { quotaUnitsUsed: 123, quotaResetTime: Date.now() + 60000, lastUpdated: Date.now() }
+                    }
+                })
+            );
+
+            await quotaManager.initialize();
+            jest.runAllTimers();
+
+            expect(quotaManager.getQuotaUsage("app1")?.quotaUnitsUsed).toBe(123);
+            expect(quotaManager.getQuotaHistory("app1", 1).endpoints).toEqual([]);
+            const saved = JSON.parse(mockFs.writeFileSync.mock.calls[mockFs.writeFileSync.mock.calls.length - 1][1]);
+            expect(saved.schemaVersion).toBe(3);
+            expect(saved.data).toEqual({ usage: { app1: expect.objectContaining({ quotaUnitsUsed: 123 }) }, history: {}, reconciliations: {} });
+        });
+    });
+
+    describe("reconciliation", () => {
+        const application = {
+            id: "app1",
+            name: "Test App",
+            quotaSettings: { dailyQuota: 1000, maxStreamHours: 8, overridePollingDelay: false, customPollingDelaySeconds: -1 }
+        };
+
+        const setNow = (iso: string) => {
+            const mockNow = DateTime.fromISO(iso, { zone: "America/Los_Angeles" });
+            jest.spyOn(DateTime, "now").mockReturnValue(mockNow as any);
+            jest.spyOn(Date, "now").mockReturnValue(mockNow.toMillis());
+        };
+
+        beforeEach(() => {
+            jest.useFakeTimers();
+            setNow("2024-06-15T14:00:00");
+            quotaManager = new QuotaManager({
+                getApplicationManager: () => ({ getApplication: (id: string) => (id === "app1" ? application : undefined) }),
+                attemptQuotaFailover: mockAttemptQuotaFailover,
+                getSettings: () => ({})
+            } as any);
+        });
+
+        afterEach(() => {
+            jest.clearAllTimers();
+            jest.useRealTimers();
+        });
+
+        describe("isDailyQuotaExhaustedError", () => {
+            it("should recognize quotaExceeded errors", () => {
+                expect(quotaManager.isDailyQuotaExhaustedError({ code: 403, errors: [{ reason: "quotaExceeded" }] })).toBe(true);
+                expect(quotaManager.isDailyQuotaExhaustedError({ response: { data: { error: { errors: [{ reason: "quotaExceeded" }] } } } })).toBe(true);
+                expect(quotaManager.isDailyQuotaExhaustedError(new Error("8 RESOURCE_EXHAUSTED: Quota exceeded"))).toBe(true);
+            });
+
+            it("should not treat rate limits or other errors as exhaustion", () => {
+                expect(quotaManager.isDailyQuotaExhaustedError({ code: 403, errors: [{ reason: "rateLimitExceeded" }] })).toBe(false);
+                expect(quotaManager.isDailyQuotaExhaustedError(new Error("Quota rate limit exceeded"))).toBe(false);
+                expect(quotaManager.isDailyQuotaExhaustedError(new Error("Network error"))).toBe(false);
+                expect(quotaManager.isDailyQuotaExhaustedError(null)).toBe(false);
+            });
+        });
+
+        describe("markQuotaExhausted", () => {
+            it("should raise usage to the daily quota and record the drift", () => {
+                quotaManager.recordApiCall("app1", "streamList", 300);
+                jest.clearAllMocks();
+
+                quotaManager.markQuotaExhausted("app1");
+
+                expect(quotaManager.getQuotaUsage("app1")?.quotaUnitsUsed).toBe(1000);
+                expect(quotaManager.isQuotaExhausted("app1")).toBe(true);
+                expect(quotaManager.getQuotaReconciliations("app1")).toEqual([{ timestamp: Date.now(), source: "quotaExceeded", estimatedUnits: 300, observedUnits: 1000, drift: 700 }]);
+                expect(firebot.modules.eventManager.triggerEvent).toHaveBeenCalledWith("mage-youtube-integration", "quota-threshold-crossed", expect.objectContaining({ threshold: 100 }));
+            });
+
+            it("should only record the first report until the quota resets", () => {
+                quotaManager.markQuotaExhausted("app1");
+                quotaManager.markQuotaExhausted("app1");
+
+                expect(quotaManager.getQuotaReconciliations("app1")).toHaveLength(1);
+            });
+
+            it("should report no quota remaining even if the daily quota is raised", () => {
+                quotaManager.markQuotaExhausted("app1");
+
+                expect(quotaManager.getQuotaRemaining("app1", 5000)).toBe(0);
+                expect(quotaManager.isQuotaAvailable("app1", 1, 5000)).toBe(false);
+            });
+
+            it("should clear the exhaustion at the next quota reset", () => {
+                quotaManager.markQuotaExhausted("app1");
+
+                setNow("2024-06-16T00:01:00");
+
+                expect(quotaManager.isQuotaExhausted("app1")).toBe(false);
+                expect(quotaManager.getQuotaRemaining("app1", 1000)).toBe(1000);
+            });
+        });
+
+        describe("setQuotaUsage", () => {
+            it("should replace the estimate and record the drift", () => {
+                quotaManager.recordApiCall("app1", "streamList", 100);
+
+                quotaManager.setQuotaUsage("app1", 450);
+
+                expect(quotaManager.getQuotaUsage("app1")?.quotaUnitsUsed).toBe(450);
+                expect(quotaManager.getQuotaReconciliations("app1")).toEqual([{ timestamp: Date.now(), source: "manual", estimatedUnits: 100, observedUnits: 450, drift: 350 }]);
+            });
+
+            it("should allow lowering the usage", () => {
+                quotaManager.recordApiCall("app1", "streamList", 100);
+
+                quotaManager.setQuotaUsage("app1", 40);
+
+                expect(quotaManager.getQuotaRemaining("app1", 1000)).toBe(960);
+                expect(quotaManager.getQuotaReconciliations("app1")[0].drift).toBe(-60);
+            });
+
+            it("should clear an exhaustion mark when usage is set below the daily quota", () => {
+                quotaManager.markQuotaExhausted("app1");
+
+                quotaManager.setQuotaUsage("app1", 900);
+
+                expect(quotaManager.isQuotaExhausted("app1")).toBe(false);
+                expect(quotaManager.getQuotaRemaining("app1", 1000)).toBe(100);
+            });
+
+            it("should reject invalid values", () => {
+                expect(() => quotaManager.setQuotaUsage("app1", -1)).toThrow("Quota usage must be a whole number of units, 0 or more");
+                expect(() => quotaManager.setQuotaUsage("app1", 1.5)).toThrow("Quota usage must be a whole number of units, 0 or more");
+                expect(() => quotaManager.setQuotaUsage("app1", "100" as any)).toThrow("Quota usage must be a whole number of units, 0 or more");
+            });
+        });
+
+        it("should keep only the most recent reconciliations", () => {
+            for (let i = 1; i <= 25; i++) {
+                quotaManager.setQuotaUsage("app1", i);
+            }
+
+            const reconciliations = quotaManager.getQuotaReconciliations("app1");
+            expect(reconciliations).toHaveLength(20);
+            expect(reconciliations[19].observedUnits).toBe(25);
+        });
+
+        it("should persist exhaustion and reconciliations", () => {
+            quotaManager.markQuotaExhausted("app1");
+            quotaManager.flushQuotaData();
+
+            const mockFs = require("fs");
+            const saved = JSON.parse(mockFs.writeFileSync.mock.calls[mockFs.writeFileSync.mock.calls.length - 1][1]).data;
+            expect(saved.usage.app1.exhaustedAt).toBe(Date.now());
+            expect(saved.reconciliations.app1).toHaveLength(1);
+        });
+    });
+
+    describe("quota budgets", () => {
+        let settings: any;
+
+        const application = {
+            id: "app1",
+            name: "Test App",
+            quotaSettings: { dailyQuota: 1000, maxStreamHours: 8, overridePollingDelay: false, customPollingDelaySeconds: -1 }
+        };
+
+        const record = (endpoint: string, cost: number, times: number) => {
+            for (let i = 0; i < times; i++) {
+                quotaManager.recordApiCall("app1", endpoint, cost);
+            }
+        };
+
+        beforeEach(() => {
+            jest.useFakeTimers();
+            settings = { quotaBudgets: { enforceQuotaBudgets: true } };
+            quotaManager = new QuotaManager({
+                getApplicationManager: () => ({ getApplication: () => application }),
+                attemptQuotaFailover: mockAttemptQuotaFailover,
+                getSettings: () => settings
+            } as any);
+        });
+
+        afterEach(() => {
+            jest.clearAllTimers();
+            jest.useRealTimers();
+        });
+
+        it("should classify endpoints by operation", () => {
+            expect(quotaManager.getOperationClass("streamList")).toBe("polling");
+            expect(quotaManager.getOperationClass("liveChatMessages.insert")).toBe("sending");
+            expect(quotaManager.getOperationClass("liveChatBans.insert")).toBe("moderation");
+            expect(quotaManager.getOperationClass("videos.update")).toBe("broadcast");
+            expect(quotaManager.getOperationClass("unknown.endpoint")).toBe("broadcast");
+        });
+
+        it("should total today's usage per operation class", () => {
+            record("streamList", 5, 3);
+            record("liveChatMessages.insert", 20, 2);
+            record("liveChatMessages.transition", 50, 1);
+
+            expect(quotaManager.getOperationClassUsage("app1", "polling")).toBe(15);
+            expect(quotaManager.getOperationClassUsage("app1", "sending")).toBe(90);
+            expect(quotaManager.getOperationClassUsage("app1", "moderation")).toBe(0);
+        });
+
+        it("should allow every call when budgets are not enforced", () => {
+            settings.quotaBudgets.enforceQuotaBudgets = false;
+            record("liveChatMessages.insert", 20, 50);
+
+            expect(quotaManager.checkBudget("app1", "liveChatMessages.insert", 20)).toBe(true);
+        });
+
+        it("should never refuse polling", () => {
+            record("liveChatMessages.insert", 20, 40);
+
+            expect(quotaManager.checkBudget("app1", "streamList", 5)).toBe(true);
+        });
+
+        it("should refuse calls that would use quota reserved for polling and trigger an event", () => {
+            record("liveChatMessages.insert", 20, 9);
+            expect(quotaManager.checkBudget("app1", "liveChatMessages.insert", 20)).toBe(true);
+
+            record("liveChatMessages.insert", 20, 1);
+            jest.clearAllMocks();
+
+            expect(quotaManager.checkBudget("app1", "liveChatMessages.insert", 20)).toBe(false);
+            expect(firebot.modules.eventManager.triggerEvent).toHaveBeenCalledWith("mage-youtube-integration", "quota-budget-blocked", {
+                applicationId: "app1",
+                applicationName: "Test App",
+                endpoint: "liveChatMessages.insert",
+                operationClass: "sending",
+                cost: 20,
+                reason: "800 units are reserved for chat polling and only 800 remain",
+                quotaConsumed: 200,
+                quotaLimit: 1000
+            });
+        });
+
+        it("should not count polling usage against other calls", () => {
+            record("streamList", 5, 20);
+            record("liveChatMessages.insert", 20, 9);
+
+            expect(quotaManager.checkBudget("app1", "liveChatMessages.insert", 20)).toBe(true);
+            expect(quotaManager.checkBudget("app1", "liveChatMessages.insert", 40)).toBe(false);
+        });
+
+        it("should refuse calls that would exceed the cap of their class", () => {
+            settings.quotaBudgets.sendingCapPercent = 5;
+            record("liveChatMessages.insert", 20, 2);
+            jest.clearAllMocks();
+
+            expect(quotaManager.checkBudget("app1", "liveChatMessages.insert", 20)).toBe(false);
+            expect(quotaManager.checkBudget("app1", "liveChatBans.insert", 50)).toBe(true);
+            expect(firebot.modules.eventManager.triggerEvent).toHaveBeenCalledWith(
+                "mage-youtube-integration",
+                "quota-budget-blocked",
+                expect.objectContaining({ reason: "the sending budget of 50 units (5% of daily quota) would be exceeded (40 used)" })
+            );
+        });
+
+        it("should not trigger the event when asked not to notify", () => {
+            record("liveChatMessages.insert", 20, 10);
+            jest.clearAllMocks();
+
+            expect(quotaManager.checkBudget("app1", "liveChatMessages.insert", 20, false)).toBe(false);
+            expect(firebot.modules.eventManager.triggerEvent).not.toHaveBeenCalled();
+            expect(logger.warn).toHaveBeenCalled();
+        });
+
+        it("should fall back to defaults for out-of-range percentages", () => {
+            settings.quotaBudgets.pollingReservePercent = 150;
+            settings.quotaBudgets.sendingCapPercent = -1;
+            record("liveChatMessages.insert", 20, 9);
+
+            expect(quotaManager.checkBudget("app1", "liveChatMessages.insert", 20)).toBe(true);
+            expect(quotaManager.checkBudget("app1", "liveChatMessages.insert", 40)).toBe(false);
+        });
+    });
+
     describe("getSettings", () => {
         it("should return settings from integration", () => {
             const expectedSettings = { some: "settings" };
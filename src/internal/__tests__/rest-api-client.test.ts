@@ -1,6 +1,9 @@
 /* eslint-disable @typescript-eslint/unbound-method */
 
 import { logger } from "../../main";
+import { readDataFile, writeDataFile } from "../../util/datafile";
+import { banStore } from "../ban-store";
+import { ApiCallType } from "../error-constants";
 import { ErrorTracker } from "../error-tracker";
 import { RestApiClient } from "../rest-api-client";
 
@@ -15,14 +18,35 @@ jest.mock("google-auth-library", () => ({
 
 // Mock YouTube API
 const mockLiveChatMessages = {
-    insert: jest.fn()
+    insert: jest.fn(),
+    transition: jest.fn(),
+    delete: jest.fn()
+};
+
+const mockLiveChatBans = {
+    insert: jest.fn(),
+    delete: jest.fn()
+};
+
+const mockVideos = {
+    list: jest.fn(),
+    update: jest.fn()
+};
+
+const mockLiveChatModerators = {
+    list: jest.fn(),
+    insert: jest.fn(),
+    delete: jest.fn()
 };
 
 jest.mock("@googleapis/youtube", () => ({
     // eslint-disable-next-line camelcase
     youtube_v3: {
         Youtube: jest.fn().mockImplementation(() => ({
-            liveChatMessages: mockLiveChatMessages
+            liveChatMessages: mockLiveChatMessages,
+            liveChatBans: mockLiveChatBans,
+            liveChatModerators: mockLiveChatModerators,
+            videos: mockVideos
         }))
     }
 }));
@@ -44,6 +68,12 @@ jest.mock("../../main", () => ({
     }
 }));
 
+jest.mock("../../util/datafile", () => ({
+    getDataFilePath: jest.fn(() => "/tmp/bans.json"),
+    readDataFile: jest.fn(() => null),
+    writeDataFile: jest.fn()
+}));
+
 describe("RestApiClient", () => {
     let restApiClient: RestApiClient;
     let mockIntegration: any;
@@ -55,12 +85,26 @@ describe("RestApiClient", () => {
             getApplicationsStorage: jest.fn(),
             getCurrentLiveChatId: jest.fn(),
             getMultiAuthManager: jest.fn(),
-            getQuotaManager: jest.fn()
+            getQuotaManager: jest.fn(),
+            getRecentChatMessage: jest.fn(),
+            getSendingApplicationId: jest.fn(() => null),
+            handleQuotaExhausted: jest.fn().mockResolvedValue(true),
+            recordSentReply: jest.fn()
         };
 
         restApiClient = new RestApiClient(mockIntegration, errorTracker);
         jest.clearAllMocks();
+        banStore.initialize();
         mockLiveChatMessages.insert.mockReset();
+        mockLiveChatMessages.transition.mockReset();
+        mockLiveChatMessages.delete.mockReset();
+        mockLiveChatBans.insert.mockReset();
+        mockLiveChatBans.delete.mockReset();
+        mockLiveChatModerators.list.mockReset();
+        mockLiveChatModerators.insert.mockReset();
+        mockLiveChatModerators.delete.mockReset();
+        mockVideos.list.mockReset();
+        mockVideos.update.mockReset();
 
         // Setup default mocks
         mockIntegration.getApplicationsStorage.mockReturnValue({
@@ -93,11 +137,22 @@ describe("RestApiClient", () => {
 
         const mockQuotaManager = {
             isQuotaAvailable: jest.fn().mockReturnValue(true),
+            checkBudget: jest.fn().mockReturnValue(true),
+            isDailyQuotaExhaustedError: jest.fn((error: any) => error?.errors?.[0]?.reason === "quotaExceeded"),
             recordApiCall: jest.fn()
         };
         mockIntegration.getQuotaManager.mockReturnValue(mockQuotaManager);
     });
 
+    const addSendingApplication = () => {
+        const storage = mockIntegration.getApplicationsStorage();
+        mockIntegration.getApplicationsStorage.mockReturnValue({
+            ...storage,
+            applications: { ...storage.applications, app2: { ...storage.applications.app1, id: "app2", name: "Sending App" } }
+        });
+        mockIntegration.getSendingApplicationId.mockReturnValue("app2");
+    };
+
     describe("sendChatMessage", () => {
         it("should send message successfully", async () => {
             mockLiveChatMessages.insert.mockResolvedValue({
@@ -217,6 +272,56 @@ describe("RestApiClient", () => {
             expect(logger.error).toHaveBeenCalledWith(expect.stringContaining("Failed to send chunk 1/1. Status: 500"));
         });
 
+        it("should mention the author when replying to a recent message", async () => {
+            mockLiveChatMessages.insert.mockResolvedValue({
+                status: 200,
+                data: { id: "msg123" }
+            });
+            mockIntegration.getRecentChatMessage.mockReturnValue({
+                username: "Viewer@youtube",
+                userId: "yUC123",
+                userDisplayName: "Viewer",
+                messageText: "Hi there"
+            });
+
+            const result = await restApiClient.sendChatMessage("Welcome!", "parent-msg");
+
+            expect(result).toBe(true);
+            expect(mockIntegration.getRecentChatMessage).toHaveBeenCalledWith("parent-msg");
+            expect(mockLiveChatMessages.insert).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    requestBody: expect.objectContaining({
+                        snippet: expect.objectContaining({
+                            textMessageDetails: { messageText: "@Viewer Welcome!" }
+                        })
+                    })
+                })
+            );
+            expect(mockIntegration.recordSentReply).toHaveBeenCalledWith("msg123", "parent-msg");
+        });
+
+        it("should send without a mention when the replied-to message is unknown", async () => {
+            mockLiveChatMessages.insert.mockResolvedValue({
+                status: 200,
+                data: { id: "msg123" }
+            });
+            mockIntegration.getRecentChatMessage.mockReturnValue(undefined);
+
+            const result = await restApiClient.sendChatMessage("Welcome!", "unknown-msg");
+
+            expect(result).toBe(true);
+            expect(mockLiveChatMessages.insert).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    requestBody: expect.objectContaining({
+                        snippet: expect.objectContaining({
+                            textMessageDetails: { messageText: "Welcome!" }
+                        })
+                    })
+                })
+            );
+            expect(mockIntegration.recordSentReply).not.toHaveBeenCalled();
+        });
+
         it("should handle empty message text", async () => {
             mockLiveChatMessages.insert.mockResolvedValue({
                 status: 200,
@@ -253,6 +358,41 @@ describe("RestApiClient", () => {
             );
         });
 
+        it("should hand the active application to quota failover when YouTube reports quotaExceeded", async () => {
+            mockLiveChatMessages.insert.mockRejectedValue(Object.assign(new Error("Quota exceeded"), { code: 403, errors: [{ reason: "quotaExceeded" }] }));
+
+            const result = await restApiClient.sendChatMessage("Hello, YouTube!");
+
+            expect(result).toBe(false);
+            expect(mockIntegration.handleQuotaExhausted).toHaveBeenCalledWith("app1");
+        });
+
+        it("should not mark the application exhausted for other errors", async () => {
+            mockLiveChatMessages.insert.mockRejectedValue(Object.assign(new Error("Rate limited"), { code: 403, errors: [{ reason: "rateLimitExceeded" }] }));
+
+            await restApiClient.sendChatMessage("Hello, YouTube!");
+
+            expect(mockIntegration.handleQuotaExhausted).not.toHaveBeenCalled();
+        });
+
+        it("should check the quota budget for all chunks before sending", async () => {
+            mockLiveChatMessages.insert.mockResolvedValue({ status: 200, data: { id: "msg123" } });
+
+            await restApiClient.sendChatMessage("a".repeat(250));
+
+            expect(mockIntegration.getQuotaManager().checkBudget).toHaveBeenCalledWith("app1", "liveChatMessages.insert", 40);
+        });
+
+        it("should not send any chunk when the quota budget is exceeded", async () => {
+            mockIntegration.getQuotaManager().checkBudget.mockReturnValue(false);
+
+            const result = await restApiClient.sendChatMessage("Hello, YouTube!");
+
+            expect(result).toBe(false);
+            expect(mockLiveChatMessages.insert).not.toHaveBeenCalled();
+            expect(logger.error).toHaveBeenCalledWith("Cannot send YouTube chat message: Quota budget exceeded");
+        });
+
         it("should get access token from multi-auth manager", async () => {
             const mockMultiAuthManager = {
                 getAccessToken: jest.fn().mockResolvedValue("new-access-token")
@@ -268,5 +408,504 @@ describe("RestApiClient", () => {
 
             expect(mockMultiAuthManager.getAccessToken).toHaveBeenCalledWith("app1");
         });
+
+        it("should send with the sending pool application when one is available", async () => {
+            addSendingApplication();
+            mockLiveChatMessages.insert.mockResolvedValue({ status: 200, data: { id: "msg123" } });
+
+            const result = await restApiClient.sendChatMessage("Test message");
+
+            expect(result).toBe(true);
+            expect(mockIntegration.getMultiAuthManager().getAccessToken).toHaveBeenCalledWith("app2");
+            expect(mockIntegration.getQuotaManager().checkBudget).toHaveBeenCalledWith("app2", "liveChatMessages.insert", 20);
+            expect(mockIntegration.getQuotaManager().recordApiCall).toHaveBeenCalledWith("app2", "liveChatMessages.insert", 20);
+        });
+    });
+
+    describe("createPoll", () => {
+        it("should insert a poll event and return its ID", async () => {
+            mockLiveChatMessages.insert.mockResolvedValue({
+                status: 200,
+                data: { id: "poll123" }
+            });
+
+            const result = await restApiClient.createPoll("Favorite color?", ["Red", "Blue"]);
+
+            expect(result).toBe("poll123");
+            expect(mockLiveChatMessages.insert).toHaveBeenCalledWith({
+                part: ["snippet"],
+                requestBody: {
+                    snippet: {
+                        liveChatId: "test-chat-id",
+                        type: "pollEvent",
+                        pollDetails: {
+                            metadata: {
+                                questionText: "Favorite color?",
+                                options: [{ optionText: "Red" }, { optionText: "Blue" }]
+                            }
+                        }
+                    }
+                }
+            });
+            expect(mockIntegration.getQuotaManager().recordApiCall).toHaveBeenCalledWith("app1", "liveChatMessages.insert", 20);
+        });
+
+        it("should return null when no live chat ID is available", async () => {
+            mockIntegration.getCurrentLiveChatId.mockReturnValue(null);
+
+            const result = await restApiClient.createPoll("Favorite color?", ["Red", "Blue"]);
+
+            expect(result).toBeNull();
+            expect(logger.error).toHaveBeenCalledWith("Cannot create YouTube poll: No active live chat");
+            expect(mockLiveChatMessages.insert).not.toHaveBeenCalled();
+        });
+
+        it("should track errors and emit api-error on failure", async () => {
+            const { firebot } = require("../../main");
+            mockLiveChatMessages.insert.mockRejectedValue(new Error("API Error"));
+
+            const result = await restApiClient.createPoll("Favorite color?", ["Red", "Blue"]);
+
+            expect(result).toBeNull();
+            expect(errorTracker.getConsecutiveFailures(ApiCallType.MANAGE_POLL)).toBe(1);
+            expect(firebot.modules.eventManager.triggerEvent).toHaveBeenCalledWith("mage-youtube-integration", "api-error", expect.objectContaining({ apiCall: ApiCallType.MANAGE_POLL }));
+        });
+    });
+
+    describe("endPoll", () => {
+        it("should transition the poll to closed", async () => {
+            mockLiveChatMessages.transition.mockResolvedValue({
+                status: 200,
+                data: { id: "poll123" }
+            });
+
+            const result = await restApiClient.endPoll("poll123");
+
+            expect(result).toBe(true);
+            expect(mockLiveChatMessages.transition).toHaveBeenCalledWith({ id: "poll123", status: "closed" });
+            expect(mockIntegration.getQuotaManager().recordApiCall).toHaveBeenCalledWith("app1", "liveChatMessages.transition", 50);
+        });
+
+        it("should return false when no active application is selected", async () => {
+            mockIntegration.getApplicationsStorage.mockReturnValue({
+                activeApplicationId: null,
+                applications: {}
+            });
+
+            const result = await restApiClient.endPoll("poll123");
+
+            expect(result).toBe(false);
+            expect(logger.error).toHaveBeenCalledWith("Cannot end YouTube poll: No active application selected");
+        });
+
+        it("should return false on non-200 status response", async () => {
+            mockLiveChatMessages.transition.mockResolvedValue({
+                status: 403,
+                data: {}
+            });
+
+            const result = await restApiClient.endPoll("poll123");
+
+            expect(result).toBe(false);
+            expect(errorTracker.getConsecutiveFailures(ApiCallType.MANAGE_POLL)).toBe(1);
+        });
+    });
+
+    describe("deleteChatMessage", () => {
+        it("should delete the message and record quota", async () => {
+            mockLiveChatMessages.delete.mockResolvedValue({ status: 204, data: "" });
+
+            const result = await restApiClient.deleteChatMessage("msg123");
+
+            expect(result).toBe(true);
+            expect(mockLiveChatMessages.delete).toHaveBeenCalledWith({ id: "msg123" });
+            expect(mockIntegration.getQuotaManager().recordApiCall).toHaveBeenCalledWith("app1", "liveChatMessages.delete", 50);
+        });
+
+        it("should return false when there is no active live chat", async () => {
+            mockIntegration.getCurrentLiveChatId.mockReturnValue(null);
+
+            const result = await restApiClient.deleteChatMessage("msg123");
+
+            expect(result).toBe(false);
+            expect(mockLiveChatMessages.delete).not.toHaveBeenCalled();
+            expect(logger.error).toHaveBeenCalledWith("Cannot delete YouTube chat message: No active live chat");
+        });
+
+        it("should track errors under DeleteChatMessage", async () => {
+            mockLiveChatMessages.delete.mockRejectedValue(new Error("Forbidden"));
+
+            const result = await restApiClient.deleteChatMessage("msg123");
+
+            expect(result).toBe(false);
+            expect(errorTracker.getConsecutiveFailures(ApiCallType.DELETE_CHAT_MESSAGE)).toBe(1);
+        });
+    });
+
+    describe("banUser", () => {
+        it("should issue a permanent ban", async () => {
+            mockLiveChatBans.insert.mockResolvedValue({ status: 200, data: { id: "ban123" } });
+
+            const result = await restApiClient.banUser("UCviewer");
+
+            expect(result).toBe(true);
+            expect(writeDataFile).toHaveBeenCalledWith("/tmp/bans.json", { bans: { UCviewer: { banId: "ban123" } } }, expect.anything());
+            expect(mockLiveChatBans.insert).toHaveBeenCalledWith({
+                part: ["snippet"],
+                requestBody: {
+                    snippet: {
+                        liveChatId: "test-chat-id",
+                        type: "permanent",
+                        banDurationSeconds: undefined,
+                        bannedUserDetails: { channelId: "UCviewer" }
+                    }
+                }
+            });
+            expect(mockIntegration.getQuotaManager().recordApiCall).toHaveBeenCalledWith("app1", "liveChatBans.insert", 50);
+        });
+
+        it("should issue a temporary ban when a duration is given", async () => {
+            mockLiveChatBans.insert.mockResolvedValue({ status: 200, data: { id: "ban123" } });
+
+            const result = await restApiClient.banUser("UCviewer", 300);
+
+            expect(result).toBe(true);
+            expect(mockLiveChatBans.insert.mock.calls[0][0].requestBody.snippet).toEqual(
+                expect.objectContaining({
+                    type: "temporary",
+                    banDurationSeconds: "300"
+                })
+            );
+        });
+
+        it("should track errors under BanUser", async () => {
+            mockLiveChatBans.insert.mockResolvedValue({ status: 403, data: {} });
+
+            const result = await restApiClient.banUser("UCviewer");
+
+            expect(result).toBe(false);
+            expect(errorTracker.getConsecutiveFailures(ApiCallType.BAN_USER)).toBe(1);
+        });
+    });
+
+    describe("unbanUser", () => {
+        it("should delete a ban previously issued by this client", async () => {
+            mockLiveChatBans.insert.mockResolvedValue({ status: 200, data: { id: "ban123" } });
+            mockLiveChatBans.delete.mockResolvedValue({ status: 204, data: "" });
+            await restApiClient.banUser("UCviewer");
+
+            const result = await restApiClient.unbanUser("UCviewer");
+
+            expect(result).toBe(true);
+            expect(mockLiveChatBans.delete).toHaveBeenCalledWith({ id: "ban123" });
+            expect(mockIntegration.getQuotaManager().recordApiCall).toHaveBeenCalledWith("app1", "liveChatBans.delete", 50);
+        });
+
+        it("should delete a ban saved before Firebot restarted", async () => {
+            (readDataFile as jest.Mock).mockReturnValueOnce({ data: { bans: { UCviewer: { banId: "ban123" } } }, needsSave: false });
+            banStore.initialize();
+            mockLiveChatBans.delete.mockResolvedValue({ status: 204, data: "" });
+
+            const result = await restApiClient.unbanUser("UCviewer");
+
+            expect(result).toBe(true);
+            expect(mockLiveChatBans.delete).toHaveBeenCalledWith({ id: "ban123" });
+            expect(writeDataFile).toHaveBeenLastCalledWith("/tmp/bans.json", { bans: {} }, expect.anything());
+        });
+
+        it("should forget the ban after it is lifted", async () => {
+            mockLiveChatBans.insert.mockResolvedValue({ status: 200, data: { id: "ban123" } });
+            mockLiveChatBans.delete.mockResolvedValue({ status: 204, data: "" });
+            await restApiClient.banUser("UCviewer");
+            await restApiClient.unbanUser("UCviewer");
+
+            const result = await restApiClient.unbanUser("UCviewer");
+
+            expect(result).toBe(false);
+            expect(mockLiveChatBans.delete).toHaveBeenCalledTimes(1);
+        });
+
+        it("should return false when no ban is known for the user", async () => {
+            const result = await restApiClient.unbanUser("UCunknown");
+
+            expect(result).toBe(false);
+            expect(mockLiveChatBans.delete).not.toHaveBeenCalled();
+            expect(logger.warn).toHaveBeenCalledWith("Cannot unban YouTube user UCunknown: No ban issued by this integration was found for this user");
+        });
+
+        it("should track errors under UnbanUser", async () => {
+            mockLiveChatBans.insert.mockResolvedValue({ status: 200, data: { id: "ban123" } });
+            mockLiveChatBans.delete.mockRejectedValue(new Error("Not found"));
+            await restApiClient.banUser("UCviewer");
+
+            const result = await restApiClient.unbanUser("UCviewer");
+
+            expect(result).toBe(false);
+            expect(errorTracker.getConsecutiveFailures(ApiCallType.UNBAN_USER)).toBe(1);
+        });
+    });
+
+    describe("listModerators", () => {
+        const moderatorItem = (id: string, channelId: string, displayName: string) => ({
+            id,
+            snippet: {
+                moderatorDetails: { channelId, displayName, profileImageUrl: `https://example.com/${channelId}.jpg` }
+            }
+        });
+
+        it("should return moderators from all pages and record quota per page", async () => {
+            mockLiveChatModerators.list
+                .mockResolvedValueOnce({ status: 200, data: { items: [moderatorItem("mod1", "UCalice", "Alice")], nextPageToken: "page2" } })
+                .mockResolvedValueOnce({ status: 200, data: { items: [moderatorItem("mod2", "UCbob", "Bob")] } });
+
+            const result = await restApiClient.listModerators();
+
+            expect(result).toEqual([
+                { moderatorId: "mod1", channelId: "UCalice", displayName: "Alice", profilePicUrl: "https://example.com/UCalice.jpg" },
+                { moderatorId: "mod2", channelId: "UCbob", displayName: "Bob", profilePicUrl: "https://example.com/UCbob.jpg" }
+            ]);
+            expect(mockLiveChatModerators.list).toHaveBeenLastCalledWith(expect.objectContaining({ liveChatId: "test-chat-id", pageToken: "page2" }));
+            expect(mockIntegration.getQuotaManager().recordApiCall).toHaveBeenCalledTimes(2);
+            expect(mockIntegration.getQuotaManager().recordApiCall).toHaveBeenCalledWith("app1", "liveChatModerators.list", 50);
+        });
+
+        it("should return null and track the error on failure", async () => {
+            mockLiveChatModerators.list.mockRejectedValue(new Error("Forbidden"));
+
+            const result = await restApiClient.listModerators();
+
+            expect(result).toBeNull();
+            expect(errorTracker.getConsecutiveFailures(ApiCallType.MANAGE_MODERATORS)).toBe(1);
+        });
+    });
+
+    describe("quota budgets", () => {
+        beforeEach(() => {
+            mockIntegration.getQuotaManager().checkBudget.mockReturnValue(false);
+        });
+
+        it("should not create a poll when the quota budget is exceeded", async () => {
+            const result = await restApiClient.createPoll("Favorite color?", ["Red", "Blue"]);
+
+            expect(result).toBeNull();
+            expect(mockLiveChatMessages.insert).not.toHaveBeenCalled();
+            expect(mockIntegration.getQuotaManager().checkBudget).toHaveBeenCalledWith("app1", "liveChatMessages.insert", 20);
+        });
+
+        it("should not ban a user when the quota budget is exceeded", async () => {
+            const result = await restApiClient.banUser("UCuser");
+
+            expect(result).toBe(false);
+            expect(mockLiveChatBans.insert).not.toHaveBeenCalled();
+            expect(mockIntegration.getQuotaManager().checkBudget).toHaveBeenCalledWith("app1", "liveChatBans.insert", 50);
+        });
+
+        it("should check the cost of both reading and updating a broadcast", async () => {
+            const result = await restApiClient.updateBroadcast("broadcast123", { title: "New Title" });
+
+            expect(result).toBeNull();
+            expect(mockVideos.list).not.toHaveBeenCalled();
+            expect(mockIntegration.getQuotaManager().checkBudget).toHaveBeenCalledWith("app1", "videos.update", 51);
+        });
+
+        it("should stop listing moderators when the budget runs out between pages", async () => {
+            mockIntegration.getQuotaManager().checkBudget.mockReturnValueOnce(true).mockReturnValue(false);
+            mockLiveChatModerators.list.mockResolvedValueOnce({ status: 200, data: { items: [], nextPageToken: "page2" } });
+
+            const result = await restApiClient.listModerators();
+
+            expect(result).toBeNull();
+            expect(mockLiveChatModerators.list).toHaveBeenCalledTimes(1);
+        });
+
+        it("should check a chat message budget without sending", () => {
+            const result = restApiClient.checkChatMessageBudget("Hello, YouTube!", false);
+
+            expect(result).toBe(false);
+            expect(mockIntegration.getQuotaManager().checkBudget).toHaveBeenCalledWith("app1", "liveChatMessages.insert", 20, false);
+            expect(mockLiveChatMessages.insert).not.toHaveBeenCalled();
+        });
+
+        it("should allow a chat message budget check when no application is active", () => {
+            mockIntegration.getApplicationsStorage.mockReturnValue({ activeApplicationId: null, applications: {} });
+
+            expect(restApiClient.checkChatMessageBudget("Hello, YouTube!")).toBe(true);
+        });
+    });
+
+    describe("addModerator", () => {
+        it("should insert a moderator and return it", async () => {
+            mockLiveChatModerators.insert.mockResolvedValue({
+                status: 200,
+                data: { id: "mod1", snippet: { moderatorDetails: { channelId: "UCalice", displayName: "Alice" } } }
+            });
+
+            const result = await restApiClient.addModerator("UCalice");
+
+            expect(result).toEqual({ moderatorId: "mod1", channelId: "UCalice", displayName: "Alice", profilePicUrl: "" });
+            expect(mockLiveChatModerators.insert).toHaveBeenCalledWith({
+                part: ["snippet"],
+                requestBody: {
+                    snippet: {
+                        liveChatId: "test-chat-id",
+                        moderatorDetails: { channelId: "UCalice" }
+                    }
+                }
+            });
+            expect(mockIntegration.getQuotaManager().recordApiCall).toHaveBeenCalledWith("app1", "liveChatModerators.insert", 50);
+        });
+
+        it("should return null when no active application is selected", async () => {
+            mockIntegration.getApplicationsStorage.mockReturnValue({
+                activeApplicationId: null,
+                applications: {}
+            });
+
+            const result = await restApiClient.addModerator("UCalice");
+
+            expect(result).toBeNull();
+            expect(logger.error).toHaveBeenCalledWith("Cannot add YouTube moderator: No active application selected");
+        });
+    });
+
+    describe("removeModerator", () => {
+        it("should delete the moderator by moderator ID", async () => {
+            mockLiveChatModerators.delete.mockResolvedValue({ status: 204, data: "" });
+
+            const result = await restApiClient.removeModerator("mod1");
+
+            expect(result).toBe(true);
+            expect(mockLiveChatModerators.delete).toHaveBeenCalledWith({ id: "mod1" });
+            expect(mockIntegration.getQuotaManager().recordApiCall).toHaveBeenCalledWith("app1", "liveChatModerators.delete", 50);
+        });
+
+        it("should return false and track the error on a failed status", async () => {
+            mockLiveChatModerators.delete.mockResolvedValue({ status: 404, data: {} });
+
+            const result = await restApiClient.removeModerator("mod1");
+
+            expect(result).toBe(false);
+            expect(errorTracker.getConsecutiveFailures(ApiCallType.MANAGE_MODERATORS)).toBe(1);
+        });
+    });
+
+    describe("updateBroadcast", () => {
+        const currentVideo = {
+            id: "broadcast123",
+            snippet: {
+                title: "Old Title",
+                description: "Old description",
+                categoryId: "22",
+                tags: ["live"],
+                defaultLanguage: "en"
+            },
+            status: {
+                privacyStatus: "public",
+                embeddable: true
+            }
+        };
+
+        beforeEach(() => {
+            mockVideos.list.mockResolvedValue({ status: 200, data: { items: [currentVideo] } });
+        });
+
+        it("should keep unchanged snippet fields and skip the status part when privacy is not changed", async () => {
+            mockVideos.update.mockImplementation(async ({ requestBody }) => ({ status: 200, data: requestBody }));
+
+            const result = await restApiClient.updateBroadcast("broadcast123", { title: "New Title" });
+
+            expect(result).toEqual({ title: "New Title", description: "Old description", privacyStatus: "public", categoryId: "22" });
+            expect(mockVideos.update).toHaveBeenCalledWith({
+                part: ["snippet"],
+                requestBody: {
+                    id: "broadcast123",
+                    snippet: {
+                        title: "New Title",
+                        description: "Old description",
+                        categoryId: "22",
+                        tags: ["live"],
+                        defaultLanguage: "en",
+                        defaultAudioLanguage: undefined
+                    },
+                    status: undefined
+                }
+            });
+            expect(mockIntegration.getQuotaManager().recordApiCall).toHaveBeenCalledWith("app1", "videos.list", 1);
+            expect(mockIntegration.getQuotaManager().recordApiCall).toHaveBeenCalledWith("app1", "videos.update", 50);
+        });
+
+        it("should preserve other status fields when changing privacy", async () => {
+            mockVideos.update.mockImplementation(async ({ requestBody }) => ({ status: 200, data: requestBody }));
+
+            const result = await restApiClient.updateBroadcast("broadcast123", { privacyStatus: "unlisted", categoryId: "20" });
+
+            expect(result?.privacyStatus).toBe("unlisted");
+            expect(result?.categoryId).toBe("20");
+            const request = mockVideos.update.mock.calls[0][0];
+            expect(request.part).toEqual(["snippet", "status"]);
+            expect(request.requestBody.status).toEqual({ privacyStatus: "unlisted", embeddable: true });
+        });
+
+        it("should return null and track the error when the broadcast video is not found", async () => {
+            mockVideos.list.mockResolvedValue({ status: 200, data: { items: [] } });
+
+            const result = await restApiClient.updateBroadcast("broadcast123", { title: "New Title" });
+
+            expect(result).toBeNull();
+            expect(mockVideos.update).not.toHaveBeenCalled();
+            expect(errorTracker.getConsecutiveFailures(ApiCallType.UPDATE_BROADCAST)).toBe(1);
+        });
+
+        it("should mark the active application exhausted when the update is rejected for quota", async () => {
+            mockVideos.update.mockRejectedValue(Object.assign(new Error("Quota exceeded"), { code: 403, errors: [{ reason: "quotaExceeded" }] }));
+
+            const result = await restApiClient.updateBroadcast("broadcast123", { title: "New Title" });
+
+            expect(result).toBeNull();
+            expect(mockIntegration.handleQuotaExhausted).toHaveBeenCalledWith("app1");
+        });
+
+        it("should return null and track the error when the update fails", async () => {
+            mockVideos.update.mockRejectedValue(new Error("Forbidden"));
+
+            const result = await restApiClient.updateBroadcast("broadcast123", { title: "New Title" });
+
+            expect(result).toBeNull();
+            expect(errorTracker.getConsecutiveFailures(ApiCallType.UPDATE_BROADCAST)).toBe(1);
+        });
+    });
+
+    describe("sending pool", () => {
+        it("should moderate with the sending pool application", async () => {
+            addSendingApplication();
+            mockLiveChatMessages.delete.mockResolvedValue({ status: 204, data: "" });
+
+            const result = await restApiClient.deleteChatMessage("msg123");
+
+            expect(result).toBe(true);
+            expect(mockIntegration.getMultiAuthManager().getAccessToken).toHaveBeenCalledWith("app2");
+            expect(mockIntegration.getQuotaManager().recordApiCall).toHaveBeenCalledWith("app2", "liveChatMessages.delete", 50);
+        });
+
+        it("should mark the sending pool application exhausted when YouTube reports quotaExceeded", async () => {
+            addSendingApplication();
+            mockLiveChatBans.insert.mockRejectedValue(Object.assign(new Error("Quota exceeded"), { code: 403, errors: [{ reason: "quotaExceeded" }] }));
+
+            await restApiClient.banUser("channel123");
+
+            expect(mockIntegration.handleQuotaExhausted).toHaveBeenCalledWith("app2");
+        });
+
+        it("should keep broadcast updates on the active application", async () => {
+            addSendingApplication();
+            mockVideos.list.mockResolvedValue({ status: 200, data: { items: [{ id: "broadcast123", snippet: { title: "Old" }, status: { privacyStatus: "public" } }] } });
+            mockVideos.update.mockImplementation(async ({ requestBody }) => ({ status: 200, data: requestBody }));
+
+            await restApiClient.updateBroadcast("broadcast123", { title: "New Title" });
+
+            expect(mockIntegration.getMultiAuthManager().getAccessToken).toHaveBeenCalledWith("app1");
+            expect(mockIntegration.getMultiAuthManager().getAccessToken).not.toHaveBeenCalledWith("app2");
+            expect(mockIntegration.getQuotaManager().recordApiCall).toHaveBeenCalledWith("app1", "videos.update", 50);
+        });
     });
 });
@@ -1,11 +1,13 @@
 import { randomUUID } from "crypto";
-import * as fs from "fs";
 import { IntegrationConstants } from "../constants";
 import type { ApplicationActivationCause } from "../events";
 import { firebot, logger } from "../main";
 import type { ApplicationStorage, QuotaSettings, YouTubeOAuthApplication } from "../types";
-import { getDataFilePath } from "../util/datafile";
+import { DataFileOptions, getDataFilePath, readDataFile, removeDataFileBackups, writeDataFile } from "../util/datafile";
+import type { ApplicationExportFile, ApplicationImportResult, ExportedApplication, ImportConflictMode } from "./application-transfer";
+import { buildApplicationExport } from "./application-transfer";
 import { createApplication, isApplicationReady, updateApplicationReadyStatus, validateApplication } from "./application-utils";
+import { credentialStore, redactCredential } from "./credential-store";
 
 /**
  * ApplicationManager handles YouTube OAuth application storage and management
@@ -15,14 +17,35 @@ import { createApplication, isApplicationReady, updateApplicationReadyStatus, va
  * - Ready status management and validation
  * - Application validation (duplicate names, credentials)
  * - Active application management
- * - Persistent storage management
+ * - Persistent storage management (credentials are encrypted at rest)
  */
 export class ApplicationManager {
+    /**
+     * Schema of applications.json. Version 1 introduced the versioned file format.
+     */
+    private static readonly DATA_FILE_OPTIONS: DataFileOptions = {
+        schemaVersion: 1,
+        migrations: {
+            1: (data) => data
+        },
+        validate: (data) => {
+            if (!data?.applications || typeof data.applications !== "object") {
+                throw new Error("Invalid applications data format");
+            }
+        }
+    };
+
     private storage: ApplicationStorage = {
         applications: {},
         activeApplicationId: null
     };
     private dataFilePath = "";
+
+    /**
+     * Set when the data file could not be loaded, so that the empty storage used instead is
+     * never saved automatically. Adding or importing an application clears it.
+     */
+    private savesBlocked = false;
     initialized = false;
 
     /**
@@ -148,6 +171,7 @@ export class ApplicationManager {
 
         // Add to storage
         this.storage.applications[newApp.id] = newApp;
+        this.savesBlocked = false;
         await this.saveApplications();
 
         logger.info(`Added new YouTube application: ${newApp.name} (${newApp.id})`);
@@ -373,6 +397,9 @@ export class ApplicationManager {
             if (!app.refreshToken) {
                 updateApplicationReadyStatus(app, false);
                 logger.debug(`Application "${app.name}" is not ready: no refresh token`);
+            } else if (this.hasUndecryptableCredentials(app)) {
+                updateApplicationReadyStatus(app, false);
+                logger.debug(`Application "${app.name}" is not ready: credentials could not be decrypted`);
             } else {
                 updateApplicationReadyStatus(app, true);
                 logger.debug(`Application "${app.name}" is ready: authorized with refresh token`);
@@ -386,7 +413,13 @@ export class ApplicationManager {
             app.tokenExpiresAt = undefined;
         }
 
-        await this.saveApplications();
+        // Startup never rewrites a file that could not be loaded or that holds undecryptable
+        // credentials (see loadApplications)
+        if (!this.savesBlocked && !this.hasAnyUndecryptableCredentials()) {
+            await this.saveApplications().catch(() => {
+                // Already logged by saveApplications (e.g. a file from a newer version is not overwritten)
+            });
+        }
     }
 
     /**
@@ -402,7 +435,8 @@ export class ApplicationManager {
      */
     private async loadApplications(): Promise<void> {
         try {
-            if (!fs.existsSync(this.dataFilePath)) {
+            const result = readDataFile<ApplicationStorage>(this.dataFilePath, ApplicationManager.DATA_FILE_OPTIONS);
+            if (!result) {
                 logger.debug("No applications data file found, starting with empty storage");
                 this.storage = {
                     applications: {},
@@ -411,41 +445,200 @@ export class ApplicationManager {
                 return;
             }
 
-            try {
-                const data = fs.readFileSync(this.dataFilePath, "utf8");
-                const parsed = JSON.parse(data) as ApplicationStorage;
+            const parsed = result.data;
+            const { hasPlaintextCredentials, hasUndecryptableCredentials } = this.decryptCredentials(parsed.applications);
 
-                // Validate loaded data
-                if (!parsed.applications || typeof parsed.applications !== "object") {
-                    throw new Error("Invalid applications data format");
-                }
+            this.storage = {
+                applications: parsed.applications || {},
+                activeApplicationId: parsed.activeApplicationId || null
+            };
 
-                this.storage = {
-                    applications: parsed.applications || {},
-                    activeApplicationId: parsed.activeApplicationId || null
-                };
+            logger.debug(`Loaded ${Object.keys(this.storage.applications).length} applications from storage`);
 
-                logger.debug(`Loaded ${Object.keys(this.storage.applications).length} applications from storage`);
-            } catch (error: any) {
-                logger.error(`Failed to load applications data: ${error.message}`);
-                this.storage = {
-                    applications: {},
-                    activeApplicationId: null
-                };
+            if (hasPlaintextCredentials) {
+                logger.info("Encrypting plaintext YouTube application credentials in storage");
+            }
+            if (hasUndecryptableCredentials) {
+                // Leave the file untouched until the affected applications are fixed, so that
+                // restoring the key can still recover the stored credentials
+                logger.warn("Not updating applications data file while some credentials cannot be decrypted");
+            } else if (hasPlaintextCredentials || result.needsSave) {
+                try {
+                    await this.saveApplications();
+                    if (hasPlaintextCredentials) {
+                        // The backups still hold the plaintext credentials
+                        removeDataFileBackups(this.dataFilePath);
+                    }
+                } catch {
+                    // Already logged by saveApplications; the file will be updated on the next save
+                }
             }
         } catch (error: any) {
-            logger.error(`Failed to load applications data: ${error.message}`);
+            logger.error(`Failed to load applications data: ${error.message}. Unusable files were kept as "applications.json.corrupt-<timestamp>"; applications will not be saved until one is added or imported.`);
             this.storage = {
                 applications: {},
                 activeApplicationId: null
             };
+            this.savesBlocked = true;
+        }
+    }
+
+    /**
+     * Whether an application still holds credentials that could not be decrypted when loaded.
+     * Such credentials are kept encrypted so that restoring the key can recover them.
+     */
+    hasUndecryptableCredentials(app: YouTubeOAuthApplication): boolean {
+        return credentialStore.isEncrypted(app.clientSecret) || credentialStore.isEncrypted(app.refreshToken);
+    }
+
+    private hasAnyUndecryptableCredentials(): boolean {
+        return Object.values(this.storage.applications).some((app) => this.hasUndecryptableCredentials(app));
+    }
+
+    /**
+     * Decrypt the stored credentials of loaded applications in place.
+     * Credentials that cannot be decrypted (e.g. a file restored on another computer, or a
+     * missing key) keep their stored ciphertext, and the application is not ready until the
+     * client secret is re-entered and the application re-authorized.
+     */
+    private decryptCredentials(applications: Record<string, YouTubeOAuthApplication>): { hasPlaintextCredentials: boolean; hasUndecryptableCredentials: boolean } {
+        let hasPlaintextCredentials = false;
+        let hasUndecryptableCredentials = false;
+
+        for (const app of Object.values(applications)) {
+            for (const field of ["clientSecret", "refreshToken"] as const) {
+                const stored = app[field] || "";
+                if (stored && !credentialStore.isEncrypted(stored)) {
+                    hasPlaintextCredentials = true;
+                }
+
+                try {
+                    app[field] = credentialStore.decrypt(stored);
+                } catch (error: any) {
+                    logger.error(`Failed to decrypt ${field} for application "${app.name}": ${error.message}. Please re-enter the client secret and re-authorize this application.`);
+                    app[field] = stored;
+                    hasUndecryptableCredentials = true;
+                }
+            }
+        }
+
+        return { hasPlaintextCredentials, hasUndecryptableCredentials };
+    }
+
+    /**
+     * Get a copy of the application storage with credentials redacted, safe to share for support
+     */
+    getRedactedStorage(): ApplicationStorage {
+        const applications: Record<string, YouTubeOAuthApplication> = {};
+        for (const [id, app] of Object.entries(this.storage.applications)) {
+            applications[id] = {
+                ...app,
+                quotaSettings: { ...app.quotaSettings },
+                clientSecret: redactCredential(app.clientSecret),
+                refreshToken: redactCredential(app.refreshToken)
+            };
+        }
+
+        return {
+            applications,
+            activeApplicationId: this.storage.activeApplicationId
+        };
+    }
+
+    /**
+     * Build a portable export of all applications and their quota settings.
+     * Refresh tokens are never exported.
+     * @param includeSecrets Whether to include client secrets (in plain text)
+     * @returns Export file contents
+     */
+    exportApplications(includeSecrets: boolean): ApplicationExportFile {
+        return buildApplicationExport(Object.values(this.storage.applications), includeSecrets);
+    }
+
+    /**
+     * Import applications from a parsed export file
+     *
+     * Applications are matched to existing ones by client ID. New applications are added
+     * unauthorized (renamed if the name is already taken); existing ones are skipped or
+     * have their quota settings and client secret replaced, keeping their authorization.
+     * @param applications Validated entries from the export file
+     * @param conflictMode What to do with entries whose client ID already exists
+     * @returns Summary of what was imported
+     */
+    async importApplications(applications: ExportedApplication[], conflictMode: ImportConflictMode): Promise<ApplicationImportResult> {
+        const result: ApplicationImportResult = {
+            added: [],
+            updated: [],
+            skipped: [],
+            missingSecrets: [],
+            errors: []
+        };
+
+        for (const entry of applications) {
+            // An encrypted secret (exported from an application whose credentials could not be
+            // decrypted) would be stored as-is and could never authorize
+            if (credentialStore.isEncrypted(entry.clientSecret)) {
+                result.errors.push(`"${entry.name}": clientSecret is encrypted and cannot be imported`);
+                continue;
+            }
+
+            const existingApp = Object.values(this.storage.applications).find((app) => app.clientId === entry.clientId);
+
+            if (existingApp) {
+                if (conflictMode === "skip") {
+                    result.skipped.push(existingApp.name);
+                    continue;
+                }
+
+                existingApp.quotaSettings = { ...entry.quotaSettings };
+                if (entry.clientSecret) {
+                    existingApp.clientSecret = entry.clientSecret;
+                }
+                result.updated.push(existingApp.name);
+                continue;
+            }
+
+            const newApp = createApplication(randomUUID(), this.getUniqueApplicationName(entry.name));
+            newApp.clientId = entry.clientId;
+            newApp.clientSecret = entry.clientSecret || "";
+            newApp.quotaSettings = { ...entry.quotaSettings };
+
+            this.storage.applications[newApp.id] = newApp;
+            result.added.push(newApp.name);
+            if (!newApp.clientSecret) {
+                result.missingSecrets.push(newApp.name);
+            }
+        }
+
+        if (result.added.length > 0 || result.updated.length > 0) {
+            this.savesBlocked = false;
+            await this.saveApplications();
         }
+
+        logger.info(`Imported YouTube applications: ${result.added.length} added, ${result.updated.length} updated, ${result.skipped.length} skipped`);
+        return result;
+    }
+
+    /**
+     * Get a name that no existing application uses, appending a counter if needed
+     */
+    private getUniqueApplicationName(name: string): string {
+        const names = new Set(Object.values(this.storage.applications).map((app) => app.name.toLowerCase()));
+        let candidate = name;
+        for (let i = 2; names.has(candidate.toLowerCase()); i++) {
+            candidate = `${name} (${i})`;
+        }
+        return candidate;
     }
 
     /**
      * Save applications to file
      */
     private async saveApplications(): Promise<void> {
+        if (this.savesBlocked) {
+            throw new Error("Applications data could not be loaded; not saving over it");
+        }
+
         try {
             // Create a clean copy for storage (exclude transient state)
             const storageToSave: ApplicationStorage = {
@@ -453,18 +646,26 @@ export class ApplicationManager {
                 activeApplicationId: this.storage.activeApplicationId
             };
 
-            // Copy applications without transient state (ready status is computed, not persisted)
+            // Once no undecryptable credentials are left, a new key may replace a missing one
+            if (!this.hasAnyUndecryptableCredentials()) {
+                credentialStore.clearMissingKey();
+            }
+
+            // Copy applications without transient state (ready status is computed, not persisted).
+            // Undecryptable credentials are still encrypted and are written back unchanged.
             for (const [id, app] of Object.entries(this.storage.applications)) {
                 // eslint-disable-next-line @typescript-eslint/no-unused-vars
                 const { ready, ...appWithoutReady } = app;
                 storageToSave.applications[id] = {
                     ...appWithoutReady,
+                    clientSecret: credentialStore.encrypt(app.clientSecret),
+                    refreshToken: credentialStore.encrypt(app.refreshToken),
                     ready: false // Placeholder for compatibility - will be recomputed on load
                 } as YouTubeOAuthApplication;
             }
 
             logger.debug(`Saving ${Object.keys(storageToSave.applications).length} applications to storage "${this.dataFilePath}"`);
-            fs.writeFileSync(this.dataFilePath, JSON.stringify(storageToSave, null, 2));
+            writeDataFile(this.dataFilePath, storageToSave, ApplicationManager.DATA_FILE_OPTIONS);
             logger.debug("Applications data saved successfully");
         } catch (error: any) {
             logger.error(`Failed to save applications data: ${error.message}`);
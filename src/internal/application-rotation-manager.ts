@@ -0,0 +1,434 @@
+import { DateTime } from "luxon";
+import { ApplicationActivationCause } from "../events";
+import type { YouTubeIntegration } from "../integration-singleton";
+import { logger } from "../main";
+import type { YouTubeOAuthApplication } from "../types";
+import { ApplicationRotationStorage, RotationMode, RotationPolicy, RotationScheduleEntry } from "../types/application-rotation";
+import { DataFileOptions, getDataFilePath, readDataFile, writeDataFile } from "../util/datafile";
+import { FAILOVER_THRESHOLD_DEFAULT } from "./quota-failover-manager";
+import { QuotaManager } from "./quota-manager";
+
+export const ROTATION_MODES: RotationMode[] = ["lowest-usage", "priority", "round-robin"];
+
+export const DEFAULT_ROTATION_POLICY: RotationPolicy = {
+    mode: "lowest-usage",
+    priorityOrder: [],
+    schedule: [],
+    sendingApplicationIds: [],
+    failBackAfterReset: false
+};
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+/**
+ * Validate a rotation policy from an untrusted source
+ *
+ * @param value The value to validate
+ * @param applicationIds IDs of the configured applications
+ * @returns A list of problems (empty if the policy is valid)
+ */
+export function validateRotationPolicy(value: unknown, applicationIds: string[]): string[] {
+    if (!value || typeof value !== "object") {
+        return ["rotation policy is missing"];
+    }
+
+    const policy = value as Record<string, unknown>;
+    const known = new Set(applicationIds);
+    const errors: string[] = [];
+
+    if (!ROTATION_MODES.includes(policy.mode as RotationMode)) {
+        errors.push(`mode must be one of: ${ROTATION_MODES.join(", ")}`);
+    }
+
+    if (!Array.isArray(policy.priorityOrder) || policy.priorityOrder.some((id) => typeof id !== "string" || !known.has(id))) {
+        errors.push("priorityOrder must list configured applications");
+    } else if (new Set(policy.priorityOrder).size !== policy.priorityOrder.length) {
+        errors.push("priorityOrder must not list an application twice");
+    }
+
+    if (!Array.isArray(policy.schedule)) {
+        errors.push("schedule must be a list");
+    } else {
+        policy.schedule.forEach((entry: any, index: number) => {
+            if (!entry || typeof entry !== "object" || !known.has(entry.applicationId)) {
+                errors.push(`schedule entry ${index + 1}: application is not configured`);
+            } else if (!TIME_PATTERN.test(entry.startTime) || !TIME_PATTERN.test(entry.endTime)) {
+                errors.push(`schedule entry ${index + 1}: times must be HH:MM (24-hour)`);
+            } else if (entry.startTime === entry.endTime) {
+                errors.push(`schedule entry ${index + 1}: start and end times must differ`);
+            }
+        });
+    }
+
+    if (!Array.isArray(policy.sendingApplicationIds) || policy.sendingApplicationIds.some((id) => typeof id !== "string" || !known.has(id))) {
+        errors.push("sendingApplicationIds must list configured applications");
+    } else if (new Set(policy.sendingApplicationIds).size !== policy.sendingApplicationIds.length) {
+        errors.push("sendingApplicationIds must not list an application twice");
+    }
+
+    if (typeof policy.failBackAfterReset !== "boolean") {
+        errors.push("failBackAfterReset must be true or false");
+    }
+
+    return errors;
+}
+
+function toMinutes(time: string): number {
+    const [hours, minutes] = time.split(":").map(Number);
+    return hours * 60 + minutes;
+}
+
+/**
+ * Check whether a local time falls inside a schedule window (windows may wrap past midnight)
+ *
+ * @param entry The schedule window
+ * @param minutesOfDay Minutes since local midnight
+ */
+export function isWithinScheduleWindow(entry: RotationScheduleEntry, minutesOfDay: number): boolean {
+    const start = toMinutes(entry.startTime);
+    const end = toMinutes(entry.endTime);
+    return start < end ? minutesOfDay >= start && minutesOfDay < end : minutesOfDay >= start || minutesOfDay < end;
+}
+
+/**
+ * ApplicationRotationManager applies the user's rotation policy to choose between YouTube applications
+ *
+ * Responsibilities:
+ * - Persist the rotation policy and the application used for the previous stream
+ * - Order failover candidates by priority or round-robin
+ * - Choose the application to use when a stream starts
+ * - Switch applications when a schedule window starts or ends, and fail back after the quota reset
+ * - Choose the application from the sending pool used to send chat messages and moderate
+ */
+export class ApplicationRotationManager {
+    /**
+     * Schema of application-rotation.json. Version 1 is the initial format.
+     * Version 2 replaced the single sending application with a sending pool.
+     */
+    private static readonly DATA_FILE_OPTIONS: DataFileOptions = {
+        schemaVersion: 2,
+        migrations: {
+            1: (data) => data,
+            2: (data) => {
+                const { sendingApplicationId, ...policy } = data.policy ?? {};
+                return { ...data, policy: { ...policy, sendingApplicationIds: sendingApplicationId ? [sendingApplicationId] : [] } };
+            }
+        }
+    };
+
+    /**
+     * How often schedule windows and the quota reset are checked while connected (ms)
+     */
+    private static readonly CHECK_INTERVAL_MS = 60000;
+
+    private integration: YouTubeIntegration;
+    private quotaManager: QuotaManager;
+    private policy: RotationPolicy = { ...DEFAULT_ROTATION_POLICY };
+    private lastStreamApplicationId: string | null = null;
+    private checkInterval: NodeJS.Timeout | null = null;
+    private checkInProgress = false;
+    private lastScheduledApplicationId: string | null = null;
+    private lastQuotaDay: string | null = null;
+    private lastSendingApplicationId: string | null = null;
+
+    constructor(integration: YouTubeIntegration, quotaManager: QuotaManager) {
+        this.integration = integration;
+        this.quotaManager = quotaManager;
+    }
+
+    /**
+     * Load the rotation policy from disk
+     * Must be called after firebot global is initialized
+     */
+    async initialize(): Promise<void> {
+        try {
+            const result = readDataFile<ApplicationRotationStorage>(getDataFilePath("application-rotation.json"), ApplicationRotationManager.DATA_FILE_OPTIONS);
+            if (!result) {
+                logger.debug("Application rotation file does not exist, using the default policy");
+                return;
+            }
+
+            this.policy = { ...DEFAULT_ROTATION_POLICY, ...result.data.policy };
+            this.lastStreamApplicationId = result.data.lastStreamApplicationId ?? null;
+            logger.info(`Loaded application rotation policy (mode: ${this.policy.mode})`);
+
+            if (result.needsSave) {
+                this.save();
+            }
+        } catch (error) {
+            logger.error(`Failed to load application rotation policy: ${error instanceof Error ? error.message : String(error)}`);
+            this.policy = { ...DEFAULT_ROTATION_POLICY };
+            this.lastStreamApplicationId = null;
+        }
+    }
+
+    getPolicy(): RotationPolicy {
+        return {
+            ...this.policy,
+            priorityOrder: [...this.policy.priorityOrder],
+            schedule: this.policy.schedule.map((entry) => ({ ...entry })),
+            sendingApplicationIds: [...this.policy.sendingApplicationIds]
+        };
+    }
+
+    /**
+     * Validate and save a new rotation policy
+     * @throws Error listing the problems if the policy is invalid
+     */
+    savePolicy(value: unknown): RotationPolicy {
+        const errors = validateRotationPolicy(value, Object.keys(this.integration.getApplicationManager().getApplications()));
+        if (errors.length > 0) {
+            throw new Error(`Invalid rotation policy: ${errors.join("; ")}`);
+        }
+
+        const policy = value as RotationPolicy;
+        this.policy = {
+            mode: policy.mode,
+            priorityOrder: [...policy.priorityOrder],
+            schedule: policy.schedule.map((entry) => ({ applicationId: entry.applicationId, startTime: entry.startTime, endTime: entry.endTime })),
+            sendingApplicationIds: [...policy.sendingApplicationIds],
+            failBackAfterReset: policy.failBackAfterReset
+        };
+        this.save();
+        logger.info(`Application rotation policy saved (mode: ${this.policy.mode})`);
+        return this.getPolicy();
+    }
+
+    /**
+     * Order failover candidates according to the rotation mode
+     *
+     * Candidates arrive sorted by lowest usage; that order is kept for "lowest-usage" and
+     * used as the tie-breaker for applications missing from the priority order. Applications
+     * in the sending pool come last so polling only takes over their quota as a last resort.
+     *
+     * @param candidates Eligible applications, sorted by lowest usage
+     * @param currentApplicationId The application being failed over from
+     */
+    orderFailoverCandidates<T extends { app: YouTubeOAuthApplication }>(candidates: T[], currentApplicationId: string): T[] {
+        const pool = this.policy.sendingApplicationIds;
+        const lastResort = (candidate: T): number => (pool.includes(candidate.app.id) ? 1 : 0);
+        if (this.policy.mode === "lowest-usage") {
+            return candidates
+                .map((candidate, position) => ({ candidate, position }))
+                .sort((a, b) => lastResort(a.candidate) - lastResort(b.candidate) || a.position - b.position)
+                .map(({ candidate }) => candidate);
+        }
+
+        const order = this.policy.mode === "round-robin" ? this.getRotationOrder() : this.policy.priorityOrder;
+        const currentIndex = order.indexOf(currentApplicationId);
+        const rank = (id: string): number => {
+            const index = order.indexOf(id);
+            if (index < 0) {
+                return Number.MAX_SAFE_INTEGER;
+            }
+            // Round-robin continues with the application after the current one
+            return this.policy.mode === "round-robin" && currentIndex >= 0 ? (index - currentIndex + order.length) % order.length : index;
+        };
+
+        return candidates
+            .map((candidate, position) => ({ candidate, position }))
+            .sort((a, b) => lastResort(a.candidate) - lastResort(b.candidate) || rank(a.candidate.app.id) - rank(b.candidate.app.id) || a.position - b.position)
+            .map(({ candidate }) => candidate);
+    }
+
+    /**
+     * Get the application preferred right now: the one scheduled for the current time,
+     * otherwise the first application in the priority order (priority mode only)
+     */
+    getPreferredApplicationId(now: DateTime = DateTime.now()): string | null {
+        const scheduled = this.getScheduledApplicationId(now);
+        if (scheduled) {
+            return scheduled;
+        }
+
+        if (this.policy.mode === "priority") {
+            const applications = this.integration.getApplicationManager().getApplications();
+            return this.policy.priorityOrder.find((id) => applications[id] && !this.isInSendingPool(id)) ?? null;
+        }
+
+        return null;
+    }
+
+    /**
+     * Get the application whose schedule window contains the given time
+     */
+    getScheduledApplicationId(now: DateTime = DateTime.now()): string | null {
+        const applications = this.integration.getApplicationManager().getApplications();
+        const minutesOfDay = now.hour * 60 + now.minute;
+        const entry = this.policy.schedule.find((item) => applications[item.applicationId] && isWithinScheduleWindow(item, minutesOfDay));
+        return entry?.applicationId ?? null;
+    }
+
+    /**
+     * Choose the application to use for a stream that is starting
+     *
+     * @returns The application to switch to, or null to keep the current one
+     */
+    selectApplicationForStreamStart(): string | null {
+        if (this.policy.mode === "round-robin") {
+            const order = this.getRotationOrder();
+            const lastIndex = this.lastStreamApplicationId ? order.indexOf(this.lastStreamApplicationId) : -1;
+            for (let i = 1; i <= order.length; i++) {
+                const candidate = order[(lastIndex + i) % order.length];
+                if (this.isEligible(candidate)) {
+                    return candidate;
+                }
+            }
+            return null;
+        }
+
+        const preferred = this.getPreferredApplicationId();
+        return preferred && this.isEligible(preferred) ? preferred : null;
+    }
+
+    /**
+     * Remember the application used for a stream (the starting point for round-robin)
+     */
+    recordStreamApplication(applicationId: string): void {
+        if (this.lastStreamApplicationId === applicationId) {
+            return;
+        }
+
+        this.lastStreamApplicationId = applicationId;
+        this.save();
+    }
+
+    /**
+     * Get the application that should send chat messages and moderate
+     *
+     * The first usable application in the sending pool is chosen, so the pool fails over on its
+     * own as applications reach the failover threshold or are reported exhausted.
+     *
+     * @returns An application from the sending pool, or null to use the active application
+     */
+    getSendingApplicationId(): string | null {
+        const sendingApplicationId = this.policy.sendingApplicationIds.find((id) => this.isEligible(id)) ?? null;
+        if (sendingApplicationId !== this.lastSendingApplicationId && this.policy.sendingApplicationIds.length > 0) {
+            logger.info(sendingApplicationId ? `Sending chat messages with application ${sendingApplicationId} from the sending pool` : "No application in the sending pool can be used; sending chat messages with the active application");
+        }
+        this.lastSendingApplicationId = sendingApplicationId;
+        return sendingApplicationId;
+    }
+
+    /**
+     * Check whether an application belongs to the sending pool
+     */
+    isInSendingPool(applicationId: string): boolean {
+        return this.policy.sendingApplicationIds.includes(applicationId);
+    }
+
+    /**
+     * Start checking schedule windows and the quota reset (called when the integration connects)
+     */
+    start(): void {
+        this.stop();
+        this.lastQuotaDay = this.quotaManager.getQuotaDay();
+        this.lastScheduledApplicationId = null;
+
+        this.checkInterval = setInterval(() => {
+            void this.checkRotation();
+        }, ApplicationRotationManager.CHECK_INTERVAL_MS);
+        void this.checkRotation();
+    }
+
+    /**
+     * Stop the periodic checks (called when the integration disconnects)
+     */
+    stop(): void {
+        if (this.checkInterval) {
+            clearInterval(this.checkInterval);
+            this.checkInterval = null;
+        }
+    }
+
+    /**
+     * Switch applications when a schedule window starts or ends, or when the quota
+     * resets and fail-back is enabled
+     */
+    async checkRotation(): Promise<void> {
+        if (this.checkInProgress || !this.integration.isConnected()) {
+            return;
+        }
+
+        this.checkInProgress = true;
+        try {
+            const quotaDay = this.quotaManager.getQuotaDay();
+            const quotaReset = this.lastQuotaDay !== null && quotaDay !== this.lastQuotaDay;
+            this.lastQuotaDay = quotaDay;
+
+            const scheduled = this.getScheduledApplicationId();
+            const scheduleChanged = scheduled !== this.lastScheduledApplicationId;
+            this.lastScheduledApplicationId = scheduled;
+
+            let targetApplicationId: string | null = null;
+            let reason = "";
+            if (scheduleChanged) {
+                targetApplicationId = this.getPreferredApplicationId();
+                reason = scheduled ? "schedule window started" : "schedule window ended";
+            } else if (quotaReset && this.policy.failBackAfterReset) {
+                targetApplicationId = this.getPreferredApplicationId();
+                reason = "quota reset";
+            }
+
+            if (!targetApplicationId || targetApplicationId === this.integration.getCurrentActiveApplicationId()) {
+                return;
+            }
+
+            if (!this.isEligible(targetApplicationId)) {
+                logger.info(`Rotation policy prefers application ${targetApplicationId} (${reason}), but it cannot be used right now`);
+                return;
+            }
+
+            logger.info(`Rotation policy switching to application ${targetApplicationId} (${reason})`);
+            await this.integration.switchActiveApplication(targetApplicationId, ApplicationActivationCause.ROTATION_POLICY);
+        } catch (error: any) {
+            logger.warn(`Rotation policy check failed: ${error.message}`);
+        } finally {
+            this.checkInProgress = false;
+        }
+    }
+
+    /**
+     * Check whether an application can take over: it is authorized, has quota configured,
+     * has not been reported exhausted, and is below the failover threshold
+     */
+    isEligible(applicationId: string): boolean {
+        const app = this.integration.getApplicationManager().getApplication(applicationId);
+        const dailyQuota = app?.quotaSettings?.dailyQuota ?? 0;
+        if (!app?.ready || dailyQuota <= 0 || this.quotaManager.isQuotaExhausted(applicationId)) {
+            return false;
+        }
+
+        const rawThreshold = this.integration.getSettings().advanced?.automaticFailoverThreshold ?? FAILOVER_THRESHOLD_DEFAULT;
+        const threshold = Math.max(1, Math.min(100, rawThreshold));
+        const used = this.quotaManager.getQuotaUsage(applicationId)?.quotaUnitsUsed ?? 0;
+        return Math.floor((used * 100) / dailyQuota) < threshold;
+    }
+
+    /**
+     * Configured applications in rotation order: the priority order first, then the rest by
+     * case-insensitive name and ID. Applications in the sending pool are left out.
+     */
+    private getRotationOrder(): string[] {
+        const applications = this.integration.getApplicationManager().getApplications();
+        const prioritized = this.policy.priorityOrder.filter((id) => applications[id] && !this.isInSendingPool(id));
+        const rest = Object.values(applications)
+            .filter((app) => !prioritized.includes(app.id) && !this.isInSendingPool(app.id))
+            .sort((a, b) => a.name.toLowerCase().localeCompare(b.name.toLowerCase()) || a.id.localeCompare(b.id))
+            .map((app) => app.id);
+        return [...prioritized, ...rest];
+    }
+
+    private save(): void {
+        try {
+            const storage: ApplicationRotationStorage = {
+                policy: this.policy,
+                lastStreamApplicationId: this.lastStreamApplicationId
+            };
+            writeDataFile(getDataFilePath("application-rotation.json"), storage, ApplicationRotationManager.DATA_FILE_OPTIONS);
+            logger.debug("Application rotation data saved");
+        } catch (error) {
+            logger.error(`Failed to save application rotation data: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+}
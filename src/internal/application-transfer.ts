@@ -0,0 +1,184 @@
+import type { QuotaSettings, YouTubeOAuthApplication } from "../types";
+import { credentialStore } from "./credential-store";
+
+/**
+ * Portable export/import format for YouTube OAuth applications
+ *
+ * Exports contain the application name, client ID, quota settings and (optionally) the
+ * client secret. Refresh tokens are never exported: they are tied to this install and
+ * the user re-authorizes after importing.
+ */
+
+export const APPLICATION_EXPORT_FORMAT = "mage-youtube-integration-applications";
+export const APPLICATION_EXPORT_VERSION = 1;
+
+/**
+ * What to do when an imported application has the same client ID as an existing one
+ * - skip: keep the existing application unchanged
+ * - replace: overwrite the existing application's quota settings (and client secret, if included)
+ */
+export type ImportConflictMode = "skip" | "replace";
+
+export interface ExportedApplication {
+    name: string;
+    clientId: string;
+    clientSecret?: string;
+    quotaSettings: QuotaSettings;
+}
+
+export interface ApplicationExportFile {
+    format: typeof APPLICATION_EXPORT_FORMAT;
+    version: number;
+    exportedAt: string;
+    includesSecrets: boolean;
+    applications: ExportedApplication[];
+}
+
+export interface ApplicationImportResult {
+    added: string[];
+    updated: string[];
+    skipped: string[];
+    /**
+     * Applications that were imported without a client secret and need one before they can be authorized
+     */
+    missingSecrets: string[];
+    errors: string[];
+}
+
+/**
+ * Build an export file from the configured applications
+ *
+ * @param applications Applications to export
+ * @param includeSecrets Whether to include client secrets (in plain text). Secrets that could
+ * not be decrypted are left out, since they are useless on any other install.
+ */
+export function buildApplicationExport(applications: YouTubeOAuthApplication[], includeSecrets: boolean): ApplicationExportFile {
+    return {
+        format: APPLICATION_EXPORT_FORMAT,
+        version: APPLICATION_EXPORT_VERSION,
+        exportedAt: new Date().toISOString(),
+        includesSecrets: includeSecrets,
+        applications: applications.map((app) => {
+            const exported: ExportedApplication = {
+                name: app.name,
+                clientId: app.clientId,
+                quotaSettings: { ...app.quotaSettings }
+            };
+            if (includeSecrets && app.clientSecret && !credentialStore.isEncrypted(app.clientSecret)) {
+                exported.clientSecret = app.clientSecret;
+            }
+            return exported;
+        })
+    };
+}
+
+/**
+ * Validate quota settings from an untrusted source
+ *
+ * @param value The value to validate
+ * @returns A list of problems (empty if the settings are valid)
+ */
+export function validateQuotaSettings(value: unknown): string[] {
+    if (!value || typeof value !== "object") {
+        return ["quota settings are missing"];
+    }
+
+    const settings = value as Record<string, unknown>;
+    const errors: string[] = [];
+
+    if (typeof settings.dailyQuota !== "number" || !Number.isInteger(settings.dailyQuota) || settings.dailyQuota <= 0) {
+        errors.push("dailyQuota must be a positive integer");
+    }
+
+    if (typeof settings.maxStreamHours !== "number" || !Number.isFinite(settings.maxStreamHours) || settings.maxStreamHours <= 0) {
+        errors.push("maxStreamHours must be greater than 0");
+    }
+
+    if (typeof settings.overridePollingDelay !== "boolean") {
+        errors.push("overridePollingDelay must be true or false");
+    }
+
+    if (typeof settings.customPollingDelaySeconds !== "number" || !Number.isFinite(settings.customPollingDelaySeconds) || settings.customPollingDelaySeconds < -1) {
+        errors.push("customPollingDelaySeconds must be a number of seconds (or -1 for the default)");
+    }
+
+    return errors;
+}
+
+/**
+ * Parse and validate the contents of an export file
+ *
+ * Entries with invalid fields are reported in `errors` and left out of `applications`
+ * so the rest of the file can still be imported.
+ *
+ * @param contents Raw file contents
+ * @throws Error if the contents are not an application export file
+ */
+export function parseApplicationExport(contents: string): { applications: ExportedApplication[]; errors: string[] } {
+    let parsed: any;
+    try {
+        parsed = JSON.parse(contents);
+    } catch {
+        throw new Error("File is not valid JSON");
+    }
+
+    if (!parsed || typeof parsed !== "object" || parsed.format !== APPLICATION_EXPORT_FORMAT) {
+        throw new Error("File is not a YouTube application export");
+    }
+
+    if (typeof parsed.version !== "number" || parsed.version > APPLICATION_EXPORT_VERSION) {
+        throw new Error(`Unsupported export version: ${parsed.version}`);
+    }
+
+    if (!Array.isArray(parsed.applications)) {
+        throw new Error("Export file does not contain a list of applications");
+    }
+
+    const applications: ExportedApplication[] = [];
+    const errors: string[] = [];
+
+    parsed.applications.forEach((entry: any, index: number) => {
+        const label = typeof entry?.name === "string" && entry.name.trim() ? `"${entry.name.trim()}"` : `Entry ${index + 1}`;
+
+        if (!entry || typeof entry !== "object") {
+            errors.push(`${label}: not an application`);
+            return;
+        }
+
+        const problems: string[] = [];
+        if (typeof entry.name !== "string" || !entry.name.trim()) {
+            problems.push("name is required");
+        }
+        if (typeof entry.clientId !== "string" || !entry.clientId.trim()) {
+            problems.push("clientId is required");
+        }
+        if (entry.clientSecret !== undefined && typeof entry.clientSecret !== "string") {
+            problems.push("clientSecret must be a string");
+        } else if (credentialStore.isEncrypted(entry.clientSecret?.trim())) {
+            problems.push("clientSecret is encrypted and cannot be imported");
+        }
+        problems.push(...validateQuotaSettings(entry.quotaSettings));
+
+        if (problems.length > 0) {
+            errors.push(`${label}: ${problems.join("; ")}`);
+            return;
+        }
+
+        const application: ExportedApplication = {
+            name: entry.name.trim(),
+            clientId: entry.clientId.trim(),
+            quotaSettings: {
+                dailyQuota: entry.quotaSettings.dailyQuota,
+                maxStreamHours: entry.quotaSettings.maxStreamHours,
+                overridePollingDelay: entry.quotaSettings.overridePollingDelay,
+                customPollingDelaySeconds: entry.quotaSettings.customPollingDelaySeconds
+            }
+        };
+        if (entry.clientSecret?.trim()) {
+            application.clientSecret = entry.clientSecret.trim();
+        }
+        applications.push(application);
+    });
+
+    return { applications, errors };
+}
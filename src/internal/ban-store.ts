@@ -0,0 +1,120 @@
+import { logger } from "../main";
+import { DataFileOptions, getDataFilePath, readDataFile, writeDataFile } from "../util/datafile";
+
+/**
+ * A ban or timeout issued through the integration
+ */
+export interface IssuedBan {
+    /**
+     * YouTube's ID of the ban, needed to lift it
+     */
+    banId: string;
+
+    /**
+     * When a temporary ban ends (epoch ms); absent for permanent bans
+     */
+    expiresAt?: number;
+}
+
+/**
+ * Persistent storage format for bans.json: issued bans by banned channel ID
+ */
+interface BanStorage {
+    bans: Record<string, IssuedBan>;
+}
+
+const BANS_FILE = "bans.json";
+
+/**
+ * Remembers the bans and timeouts issued through the integration
+ *
+ * YouTube identifies bans by ban ID rather than by user and offers no way to look a ban up,
+ * so the ban ID is the only way to lift one. Saving them lets bans be lifted after
+ * reconnecting the integration or restarting Firebot.
+ */
+export class BanStore {
+    private static readonly DATA_FILE_OPTIONS: DataFileOptions = {
+        schemaVersion: 1,
+        migrations: {
+            1: (data) => data
+        }
+    };
+
+    private bans = new Map<string, IssuedBan>();
+
+    /**
+     * Load saved bans from disk, dropping timeouts that have ended
+     * Must be called after firebot global is initialized
+     */
+    initialize(): void {
+        this.bans.clear();
+        try {
+            const result = readDataFile<BanStorage>(getDataFilePath(BANS_FILE), BanStore.DATA_FILE_OPTIONS);
+            if (!result) {
+                logger.debug("Ban file does not exist, starting with no saved bans");
+                return;
+            }
+
+            const now = Date.now();
+            this.bans = new Map(Object.entries(result.data.bans ?? {}).filter(([, ban]) => ban.expiresAt === undefined || ban.expiresAt > now));
+            logger.debug(`Loaded ${this.bans.size} ban(s) issued by the integration`);
+        } catch (error) {
+            logger.error(`Failed to load bans: ${error instanceof Error ? error.message : String(error)}`);
+            this.bans.clear();
+        }
+    }
+
+    /**
+     * Get the ID of the ban issued to a user
+     * @param channelId The YouTube channel ID of the banned user
+     * @returns The ban ID, or null if no ban issued through the integration is in effect
+     */
+    getBanId(channelId: string): string | null {
+        const ban = this.bans.get(channelId);
+        if (!ban || (ban.expiresAt !== undefined && ban.expiresAt <= Date.now())) {
+            return null;
+        }
+        return ban.banId;
+    }
+
+    /**
+     * Remember a ban that was just issued, replacing any earlier ban of the same user
+     * @param channelId The YouTube channel ID of the banned user
+     * @param banId YouTube's ID of the ban
+     * @param durationSeconds Length of a temporary ban in seconds; omit for a permanent ban
+     */
+    addBan(channelId: string, banId: string, durationSeconds?: number): void {
+        this.bans.set(channelId, durationSeconds === undefined ? { banId } : { banId, expiresAt: Date.now() + durationSeconds * 1000 });
+        this.save();
+    }
+
+    /**
+     * Forget the ban of a user, e.g. because it was lifted
+     * @param channelId The YouTube channel ID of the banned user
+     */
+    removeBan(channelId: string): void {
+        if (this.bans.delete(channelId)) {
+            this.save();
+        }
+    }
+
+    private save(): void {
+        const now = Date.now();
+        for (const [channelId, ban] of this.bans) {
+            if (ban.expiresAt !== undefined && ban.expiresAt <= now) {
+                this.bans.delete(channelId);
+            }
+        }
+
+        try {
+            const storage: BanStorage = {
+                bans: Object.fromEntries(this.bans)
+            };
+            writeDataFile(getDataFilePath(BANS_FILE), storage, BanStore.DATA_FILE_OPTIONS);
+        } catch (error) {
+            logger.error(`Failed to save bans: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+}
+
+export const banStore = new BanStore();
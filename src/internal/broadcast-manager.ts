@@ -13,15 +13,32 @@ export interface BroadcastInfo {
     broadcastId: string;
     channelId: string;
     privacyStatus?: BroadcastPrivacyStatus;
+    title?: string;
+    description?: string;
 }
 
+/**
+ * Editable metadata of a broadcast (stored on the broadcast's video)
+ */
+export interface BroadcastMetadata {
+    title: string;
+    description: string;
+    privacyStatus?: BroadcastPrivacyStatus;
+    categoryId: string;
+}
+
+/**
+ * Changes to apply to a broadcast's metadata; omitted fields are left unchanged
+ */
+export type BroadcastMetadataUpdate = Partial<BroadcastMetadata>;
+
 /**
  * BroadcastManager detects active YouTube live streams
  *
  * Responsibilities:
  * - Query YouTube API for active broadcasts
  * - Filter by channel ID when multiple streams exist
- * - Return broadcast info (liveChatId, broadcastId, channelId, privacyStatus) for the active stream
+ * - Return broadcast info (liveChatId, broadcastId, channelId, privacyStatus, title, description) for the active stream
  * - Handle edge cases (0 streams, multiple streams)
  * - Track quota consumption for API calls
  */
@@ -42,7 +59,7 @@ export class BroadcastManager {
      * @param accessToken - YouTube API access token
      * @param channelId - Optional channel ID to filter by (if multiple streams)
      * @param applicationId - YouTube application ID for quota tracking (required)
-     * @returns BroadcastInfo with liveChatId, broadcastId, channelId, and privacyStatus, or null if no stream is active
+     * @returns BroadcastInfo with liveChatId, broadcastId, channelId, privacyStatus, title, and description, or null if no stream is active
      * @throws Error if multiple streams and no channel ID provided
      */
     async findLiveBroadcast(accessToken: string, channelId: string | undefined, applicationId: string): Promise<BroadcastInfo | null> {
@@ -93,7 +110,7 @@ export class BroadcastManager {
 
                 logger.info(`Found active broadcast: "${broadcast.snippet?.title}" (${broadcast.id})`);
                 logger.debug(`Live chat ID: ${liveChatId}`);
-                return { liveChatId, broadcastId, channelId: channelIdValue, privacyStatus };
+                return { liveChatId, broadcastId, channelId: channelIdValue, privacyStatus, title: broadcast.snippet?.title ?? undefined, description: broadcast.snippet?.description ?? undefined };
             }
 
             // Case 3: Multiple streams - need channel ID to filter
@@ -137,7 +154,7 @@ export class BroadcastManager {
 
             logger.info(`Found active broadcast for channel: "${broadcast.snippet?.title}" (${broadcast.id})`);
             logger.debug(`Live chat ID: ${liveChatId}`);
-            return { liveChatId, broadcastId, channelId: channelIdResult, privacyStatus };
+            return { liveChatId, broadcastId, channelId: channelIdResult, privacyStatus, title: broadcast.snippet?.title ?? undefined, description: broadcast.snippet?.description ?? undefined };
         } catch (error: any) {
             // If it's our own error (multiple streams), re-throw
             if (error.message?.includes("Multiple active")) {
@@ -0,0 +1,108 @@
+import { youtube_v3 as youtubeV3 } from "@googleapis/youtube";
+import { IntegrationConstants } from "../constants";
+import type { YouTubeIntegration } from "../integration-singleton";
+import { firebot, logger } from "../main";
+import { QUOTA_COSTS } from "../types/quota-tracking";
+import { ApiCallType } from "./error-constants";
+import { ErrorTracker } from "./error-tracker";
+
+/**
+ * The YouTube channel an application is authorized for (i.e. the broadcaster)
+ */
+export interface ChannelIdentity {
+    channelId: string;
+
+    /**
+     * Channel handle including the leading "@" (empty if the channel has no handle)
+     */
+    handle: string;
+
+    displayName: string;
+    avatarUrl: string;
+}
+
+/**
+ * ChannelManager resolves the channel each application is authorized for
+ *
+ * Responsibilities:
+ * - Query the YouTube API for the authenticated channel (channels.list mine=true)
+ * - Cache the channel identity per application so it is only looked up once
+ * - Track quota consumption for API calls
+ */
+export class ChannelManager {
+    private youtube: youtubeV3.Youtube;
+    private integration: YouTubeIntegration;
+    private errorTracker: ErrorTracker;
+    private channels = new Map<string, ChannelIdentity>();
+
+    constructor(integration: YouTubeIntegration, errorTracker: ErrorTracker) {
+        this.youtube = new youtubeV3.Youtube({});
+        this.integration = integration;
+        this.errorTracker = errorTracker;
+    }
+
+    /**
+     * Look up the channel an application is authorized for and cache it.
+     * Failures are not fatal: the previously cached identity (if any) is returned.
+     *
+     * @param accessToken - YouTube API access token for the application
+     * @param applicationId - YouTube application ID for caching and quota tracking
+     * @returns The channel identity, or null if it could not be determined
+     */
+    async resolveChannel(accessToken: string, applicationId: string): Promise<ChannelIdentity | null> {
+        try {
+            const response = await this.youtube.channels.list({
+                // eslint-disable-next-line camelcase
+                access_token: accessToken,
+                part: ["id", "snippet"],
+                mine: true
+            });
+
+            // Record quota consumption
+            const quotaManager = this.integration.getQuotaManager();
+            quotaManager.recordApiCall(applicationId, "channels.list", QUOTA_COSTS.CHANNELS_LIST);
+
+            this.errorTracker.recordSuccess(ApiCallType.GET_CHANNEL);
+
+            const channel = response.data.items?.[0];
+            if (!channel?.id) {
+                logger.warn(`No YouTube channel found for application ${applicationId}`);
+                return this.getChannel(applicationId) ?? null;
+            }
+
+            const snippet = channel.snippet;
+            const identity: ChannelIdentity = {
+                channelId: channel.id,
+                handle: snippet?.customUrl || "",
+                displayName: snippet?.title || "",
+                avatarUrl: snippet?.thumbnails?.high?.url || snippet?.thumbnails?.medium?.url || snippet?.thumbnails?.default?.url || ""
+            };
+
+            this.channels.set(applicationId, identity);
+            logger.debug(`Application ${applicationId} is authorized for YouTube channel ${identity.displayName} (${identity.channelId})`);
+            return identity;
+        } catch (error: any) {
+            const errorMetadata = this.errorTracker.recordError(ApiCallType.GET_CHANNEL, error);
+            logger.error(`Error looking up YouTube channel for application ${applicationId}: ${error.message}`);
+
+            const { eventManager } = firebot.modules;
+            eventManager.triggerEvent(IntegrationConstants.INTEGRATION_ID, "api-error", errorMetadata as unknown as Record<string, unknown>);
+
+            return this.getChannel(applicationId) ?? null;
+        }
+    }
+
+    /**
+     * Get the cached channel identity for an application
+     */
+    getChannel(applicationId: string): ChannelIdentity | undefined {
+        return this.channels.get(applicationId);
+    }
+
+    /**
+     * Forget the cached channel identity for an application (e.g. when it is deauthorized)
+     */
+    forgetChannel(applicationId: string): void {
+        this.channels.delete(applicationId);
+    }
+}
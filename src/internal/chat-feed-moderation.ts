@@ -0,0 +1,154 @@
+import type { YouTubeIntegration } from "../integration-singleton";
+import { logger } from "../main";
+import { unYouTubeifyUserId, youTubeifyUsername } from "../util/user";
+
+export interface UserBanRequest {
+    username: string;
+    shouldBeBanned: boolean;
+}
+
+export interface UserModRequest {
+    username: string;
+    shouldBeMod: boolean;
+}
+
+/**
+ * Default timeout length for "/timeout" without a duration (matches Firebot's chat feed)
+ */
+const DEFAULT_TIMEOUT_SECONDS = 300;
+
+const MODERATION_COMMANDS = ["timeout", "ban", "unban", "mod", "unmod"];
+
+/**
+ * Whether a chat feed username belongs to a YouTube viewer
+ */
+export function isYouTubeUsername(username: string | undefined): boolean {
+    return !!username && username.endsWith("@youtube");
+}
+
+/**
+ * ChatFeedModeration routes Firebot chat feed moderation actions to YouTube
+ *
+ * Responsibilities:
+ * - Delete YouTube messages selected in the chat feed
+ * - Ban, unban, mod and unmod YouTube viewers from the chat feed context menu
+ * - Handle moderation slash commands (/timeout, /ban, ...) typed in the chat feed
+ *
+ * Actions that target Twitch messages or users are ignored so that Firebot
+ * can handle them as usual.
+ */
+export class ChatFeedModeration {
+    private integration: YouTubeIntegration;
+
+    constructor(integration: YouTubeIntegration) {
+        this.integration = integration;
+    }
+
+    /**
+     * Delete a message from the chat feed if it came from YouTube
+     * @returns True if a YouTube message was deleted
+     */
+    async deleteMessage(messageId: string): Promise<boolean> {
+        if (!messageId || !this.integration.getRecentChatMessage(messageId)) {
+            return false;
+        }
+
+        logger.debug(`Chat feed: Deleting YouTube message ${messageId}`);
+        return this.integration.getRestApiClient().deleteChatMessage(messageId);
+    }
+
+    /**
+     * Ban or unban a YouTube viewer from the chat feed
+     * @returns True if the YouTube action succeeded
+     */
+    async setBanned(request: UserBanRequest): Promise<boolean> {
+        if (!isYouTubeUsername(request?.username)) {
+            return false;
+        }
+
+        const channelId = await this.resolveChannelId(request.username);
+        if (!channelId) {
+            return false;
+        }
+
+        const restApiClient = this.integration.getRestApiClient();
+        return request.shouldBeBanned ? restApiClient.banUser(channelId) : restApiClient.unbanUser(channelId);
+    }
+
+    /**
+     * Add or remove a YouTube moderator from the chat feed
+     * @returns True if the YouTube action succeeded
+     */
+    async setModerator(request: UserModRequest): Promise<boolean> {
+        if (!isYouTubeUsername(request?.username)) {
+            return false;
+        }
+
+        const channelId = await this.resolveChannelId(request.username);
+        if (!channelId) {
+            return false;
+        }
+
+        const moderatorManager = this.integration.getModeratorManager();
+        return request.shouldBeMod ? moderatorManager.addModerator(channelId) : moderatorManager.removeModerator(channelId);
+    }
+
+    /**
+     * Handle a moderation slash command typed in the chat feed
+     * @param message The message typed in the chat feed
+     * @returns null if the message is not a moderation command (and should be sent as chat);
+     * otherwise whether a YouTube action was taken
+     */
+    async handleSlashCommand(message: string): Promise<boolean | null> {
+        const [rawCommand, target, ...args] = message.trim().split(/\s+/);
+        const command = rawCommand.toLowerCase().replace(/^\//, "");
+        if (!rawCommand.startsWith("/") || !MODERATION_COMMANDS.includes(command)) {
+            return null;
+        }
+
+        // Commands aimed at Twitch users are left to Firebot and never sent to YouTube chat
+        const username = target?.replace(/^@/, "");
+        if (!isYouTubeUsername(username)) {
+            logger.debug(`Chat feed: Ignoring /${command} for non-YouTube user "${target || ""}"`);
+            return false;
+        }
+
+        switch (command) {
+            case "timeout": {
+                const duration = args.length > 0 ? Math.floor(Number(args[0])) : DEFAULT_TIMEOUT_SECONDS;
+                if (!Number.isFinite(duration) || duration <= 0) {
+                    logger.warn(`Chat feed: Invalid timeout duration "${args[0]}"`);
+                    return false;
+                }
+                const channelId = await this.resolveChannelId(username);
+                return channelId ? this.integration.getRestApiClient().banUser(channelId, duration) : false;
+            }
+            case "ban":
+            case "unban":
+                return this.setBanned({ username, shouldBeBanned: command === "ban" });
+            default:
+                return this.setModerator({ username, shouldBeMod: command === "mod" });
+        }
+    }
+
+    /**
+     * Resolve a YouTubeified username to a YouTube channel ID, preferring
+     * recent chatters and falling back to the viewer database
+     */
+    private async resolveChannelId(username: string): Promise<string | null> {
+        const platformUsername = youTubeifyUsername(username);
+
+        const recentUserId = this.integration.findRecentChatUserId(platformUsername);
+        if (recentUserId) {
+            return unYouTubeifyUserId(recentUserId);
+        }
+
+        const viewer = await this.integration.getUserManager().getViewerByUsername(platformUsername);
+        if (viewer?.userId) {
+            return unYouTubeifyUserId(viewer.userId);
+        }
+
+        logger.warn(`Chat feed: Could not find YouTube channel ID for ${platformUsername}`);
+        return null;
+    }
+}
@@ -3,10 +3,11 @@
  *
  * Responsibilities:
  * - Stream YouTube chat messages using gRPC API
- * - Respect quota-based polling delays
+ * - Respect quota-based polling delays, optionally adapting them after each poll
  * - Emit Firebot events for each message
  * - Handle quota exceeded errors
  * - Detect when stream ends
+ * - Resume from the saved position in the live chat, skipping messages already handled
  *
  * Supports multiple client implementations:
  * - ChatStreamClient: Real-time streaming via ChatStream gRPC API
@@ -14,15 +15,42 @@
 
 import { IntegrationConstants, YouTubeMessageTypeStrings } from "../constants";
 import { FirebotChatHelpers, mapYouTubeChatMessageToChat } from "../events/chat-message-sent";
+import {
+    triggerGiftMembershipReceived,
+    triggerMemberMilestone,
+    triggerMembershipGifting,
+    triggerNewMember,
+    YouTubeGiftMembershipReceivedEvent,
+    YouTubeMemberMilestoneEvent,
+    YouTubeMembershipGiftingEvent,
+    YouTubeNewMemberEvent
+} from "../events/membership";
+import { triggerMessageDeleted, triggerViewerBanned, triggerViewerTimeout, YouTubeMessageDeletedEvent, YouTubeViewerBannedEvent } from "../events/moderation";
+import { buildPollEventData, triggerPollEnded, triggerPollStarted, triggerPollUpdated, YouTubePollEvent } from "../events/poll";
+import { microsToAmount, triggerSuperChat, triggerSuperSticker, YouTubeSuperChatEvent, YouTubeSuperStickerEvent } from "../events/super-chat";
 import { triggerViewerArrived } from "../events/viewer-arrived";
-import { LiveChatMessage } from "../generated/proto/stream_list";
+import { LiveChatMessage, LiveChatPollDetails_PollStatusWrapper_PollStatus, LiveChatUserBannedMessageDetails_BanTypeWrapper_BanType } from "../generated/proto/stream_list";
 import type { YouTubeIntegration } from "../integration-singleton";
 import { firebot } from "../main";
-import { YouTubeUser } from "../types";
+import { YouTubeRepliesTo, YouTubeUser } from "../types";
+import { unYouTubeifyUserId, unYouTubeifyUsername, youTubeifyUserId, youTubeifyUsername } from "../util/user";
+import { chatResumeStore } from "./chat-resume-store";
 import { commandHandler } from "./command";
+import { calculateBackoffDelay } from "./connection-supervisor";
 import { QuotaManager } from "./quota-manager";
 import { YouTubeUserManager } from "./youtube-user-manager";
 
+/**
+ * A chat message recently seen on this connection, kept so that later
+ * events (deletions, etc.) that only carry a message ID can be resolved.
+ */
+export interface RecentChatMessage {
+    username: string;
+    userId: string;
+    userDisplayName: string;
+    messageText: string;
+}
+
 export class ChatManager {
     private client: any = null;
     private isStreaming = false;
@@ -32,14 +60,30 @@ export class ChatManager {
     private multiAuthManager: any;
     private pollingDelayMs = 0;
     private nextPollTimer: NodeJS.Timeout | null = null;
+    private pollInProgress = false;
+    private consecutivePollFailures = 0;
     private pageToken: string | undefined;
     private clientFactory: () => any;
     private integration: YouTubeIntegration;
     private activeApplicationId = "";
     private dailyQuota = 10000;
     private connectionTimestamp: Date | null = null;
+    private skipMessagesBefore: Date | null = null;
+    private processedMessageIds = new Set<string>();
     private viewerArrivedCache = new Set<string>();
     private userManager: YouTubeUserManager;
+    private recentGifters = new Map<string, { username: string; userDisplayName: string }>();
+    private recentMessages = new Map<string, RecentChatMessage>();
+    private sentReplies = new Map<string, string>();
+    private activePoll: YouTubePollEvent | null = null;
+    private lastEndedPollId: string | null = null;
+    private recentMessageTimes: number[] = [];
+
+    private static readonly RECENT_GIFTERS_LIMIT = 100;
+    private static readonly RECENT_MESSAGES_LIMIT = 500;
+    private static readonly SENT_REPLIES_LIMIT = 100;
+    private static readonly CHAT_ACTIVITY_WINDOW_MS = 5 * 60 * 1000;
+    private static readonly PROCESSED_MESSAGE_IDS_LIMIT = 500;
 
     constructor(logger: any, quotaManager: QuotaManager, multiAuthManager: any, clientFactory: () => any, integration: YouTubeIntegration, userManager: YouTubeUserManager) {
         this.logger = logger;
@@ -82,16 +126,62 @@ export class ChatManager {
         this.dailyQuota = activeApplication.quotaSettings.dailyQuota;
         this.client = this.clientFactory();
         this.isStreaming = true;
-        this.pageToken = undefined;
+        this.consecutivePollFailures = 0;
         this.connectionTimestamp = new Date();
+        this.recentMessageTimes = [];
+
+        // Resume where chat reading last stopped in this live chat; otherwise skip the chat history
+        // YouTube returns on the first page
+        const savedPosition = chatResumeStore.getPosition(liveChatId);
+        this.pageToken = savedPosition?.pageToken;
+        this.processedMessageIds = new Set(savedPosition?.messageIds ?? []);
+        this.skipMessagesBefore = savedPosition ? null : this.connectionTimestamp;
 
         this.logger.info(`Starting YouTube chat stream for: ${liveChatId}`);
+        if (savedPosition) {
+            this.logger.info(`Resuming YouTube chat from the position saved at ${new Date(savedPosition.updatedAt).toISOString()}`);
+        }
         this.logger.info(`Polling delay: ${this.quotaManager.formatDelay(delay)}`);
 
         // Start first poll immediately
         this.scheduleNextPoll(0);
     }
 
+    /**
+     * Continue the current chat stream with another application
+     *
+     * The page token and message caches are kept, so no messages are lost or repeated.
+     * Used after failing over from an application whose quota is exhausted.
+     */
+    resumeWithApplication(applicationId: string): void {
+        if (!this.client || !this.liveChatId) {
+            throw new Error("Chat stream has not been started");
+        }
+
+        const application = this.integration.getApplicationsStorage().applications[applicationId];
+        if (!application) {
+            throw new Error(`Application ${applicationId} not found`);
+        }
+
+        const delay = this.quotaManager.calculateDelay(application.quotaSettings);
+        if (delay === null) {
+            throw new Error("Invalid quota settings. Cannot calculate polling delay.");
+        }
+
+        this.activeApplicationId = applicationId;
+        this.dailyQuota = application.quotaSettings.dailyQuota;
+        this.pollingDelayMs = delay;
+
+        this.logger.info(`Resuming YouTube chat stream for ${this.liveChatId} with application ${applicationId}`);
+        this.logger.info(`Polling delay: ${this.quotaManager.formatDelay(delay)}`);
+
+        // A poll in progress schedules the next one with the new application when it finishes
+        this.isStreaming = true;
+        if (!this.pollInProgress) {
+            this.scheduleNextPoll(0);
+        }
+    }
+
     /**
      * Schedule the next poll after a delay
      */
@@ -106,20 +196,30 @@ export class ChatManager {
         }
 
         this.nextPollTimer = setTimeout(() => {
-            this.pollOnce().catch((err) => {
-                this.logger.error(`Poll error: ${err.message}`);
-
-                // Check if it's a quota error
-                if (this.quotaManager.isQuotaExceededError(err)) {
-                    this.logger.error("Quota exceeded error detected");
-                    this.isStreaming = false;
-                    // The integration-singleton will handle disconnection
-                } else if (this.isStreaming) {
-                    // On other errors, retry after delay
-                    this.logger.warn(`Retrying after error in ${this.quotaManager.formatDelay(this.pollingDelayMs)}...`);
-                    this.scheduleNextPoll(this.pollingDelayMs);
-                }
-            });
+            this.pollInProgress = true;
+            this.pollOnce()
+                .finally(() => {
+                    this.pollInProgress = false;
+                })
+                .catch((err) => {
+                    this.logger.error(`Poll error: ${err.message}`);
+
+                    // The daily quota is used up: pause, and let the integration fail over to another
+                    // application, which resumes polling from the same page token
+                    if (this.quotaManager.isQuotaExceededError(err) && this.quotaManager.isDailyQuotaExhaustedError(err)) {
+                        this.logger.error("Quota exceeded error detected");
+                        this.isStreaming = false;
+                        this.integration.handleQuotaExhausted(this.activeApplicationId).catch((error: any) => {
+                            this.logger.error(`Failed to handle exhausted quota: ${error.message}`);
+                        });
+                    } else if (this.isStreaming) {
+                        // On other errors (including rate limits), retry with backoff while they keep failing
+                        this.consecutivePollFailures++;
+                        const retryDelayMs = Math.max(this.pollingDelayMs, calculateBackoffDelay(this.consecutivePollFailures));
+                        this.logger.warn(`Retrying after error in ${this.quotaManager.formatDelay(retryDelayMs)}...`);
+                        this.scheduleNextPoll(retryDelayMs);
+                    }
+                });
         }, delayMs);
     }
 
@@ -137,9 +237,11 @@ export class ChatManager {
             this.logger.error("Failed to get access token for chat polling");
             this.isStreaming = false;
 
-            // Notify integration of token failure so it can disconnect
-            this.integration.sendCriticalErrorNotification("Failed to get access token for chat polling. Please reconnect the integration.");
-            await this.integration.disconnect();
+            // Notify integration of token failure so it can disconnect, and reconnect if the failure is temporary
+            const retrying = await this.integration.disconnectAfterFailure(new Error("Failed to get access token for chat polling"));
+            if (!retrying) {
+                this.integration.sendCriticalErrorNotification("Failed to get access token for chat polling. Please reconnect the integration.");
+            }
             return;
         }
 
@@ -158,120 +260,681 @@ export class ChatManager {
                 }
             }
 
-            // Update page token for continuation
+            // The active poll item carries the latest vote tallies
+            if (response.activePollItem) {
+                this.handlePoll(response.activePollItem);
+            }
+
+            // Update page token for continuation, and save it so a restarted stream continues from here.
+            // The saved position can lag behind by up to the save interval, so the whole (bounded) window
+            // of processed message IDs is saved to recognize the pages YouTube returns again.
             if (response.nextPageToken) {
                 this.pageToken = response.nextPageToken;
+                chatResumeStore.savePosition(this.liveChatId, response.nextPageToken, Array.from(this.processedMessageIds));
             }
 
             // Check if stream ended
             if (response.offlineAt) {
                 this.logger.info("YouTube stream ended (offline)");
                 this.isStreaming = false;
+                chatResumeStore.clearPosition(this.liveChatId);
                 // Notify integration of stream offline event
                 await this.integration.handleStreamOffline();
                 return;
             }
         }
 
+        this.consecutivePollFailures = 0;
+
         // Schedule next poll after delay
         if (this.isStreaming) {
+            this.updateAdaptivePollingDelay();
             this.logger.debug(`Scheduling next poll in ${this.quotaManager.formatDelay(this.pollingDelayMs)}`);
             this.scheduleNextPoll(this.pollingDelayMs);
         }
     }
 
+    /**
+     * Get the delay before the next poll
+     * @returns Delay in milliseconds, or null if chat is not streaming
+     */
+    getPollingDelay(): number | null {
+        return this.isStreaming ? this.pollingDelayMs : null;
+    }
+
+    /**
+     * Recalculate the polling delay from remaining quota and chat activity when adaptive polling is enabled
+     */
+    private updateAdaptivePollingDelay(): void {
+        if (!this.integration.getSettings()?.advanced?.adaptivePollingDelay || !this.connectionTimestamp) {
+            return;
+        }
+
+        const application = this.integration.getApplicationsStorage().applications[this.activeApplicationId];
+        if (!application) {
+            return;
+        }
+
+        const delay = this.quotaManager.calculateAdaptiveDelay(this.activeApplicationId, application.quotaSettings, {
+            streamStartedAt: this.connectionTimestamp.getTime(),
+            messagesPerMinute: this.getMessagesPerMinute()
+        });
+        if (delay === null) {
+            return;
+        }
+
+        if (delay !== this.pollingDelayMs) {
+            this.logger.debug(`Adaptive polling delay changed from ${this.quotaManager.formatDelay(this.pollingDelayMs)} to ${this.quotaManager.formatDelay(delay)}`);
+        }
+        this.pollingDelayMs = delay;
+    }
+
+    /**
+     * Count a chat message towards recent chat activity
+     */
+    private recordChatActivity(): void {
+        const now = Date.now();
+        this.recentMessageTimes.push(now);
+        this.pruneChatActivity(now);
+    }
+
+    /**
+     * Get recent chat activity in messages per minute
+     */
+    private getMessagesPerMinute(): number {
+        const now = Date.now();
+        this.pruneChatActivity(now);
+
+        // Average over the time chat has been observed, up to the activity window
+        const observedMs = Math.min(ChatManager.CHAT_ACTIVITY_WINDOW_MS, now - (this.connectionTimestamp?.getTime() ?? now));
+        return observedMs > 0 ? (this.recentMessageTimes.length * 60000) / observedMs : 0;
+    }
+
+    private pruneChatActivity(now: number): void {
+        const cutoff = now - ChatManager.CHAT_ACTIVITY_WINDOW_MS;
+        while (this.recentMessageTimes.length > 0 && this.recentMessageTimes[0] < cutoff) {
+            this.recentMessageTimes.shift();
+        }
+    }
+
     /**
      * Handle a single chat message
-     * Processes message and emits Firebot event
+     * Dispatches the message to the handler for its type
      */
     async handleMessage(message: LiveChatMessage): Promise<void> {
         try {
-            const messageText = message.snippet?.displayMessage || message.snippet?.textMessageDetails?.messageText || "";
             const messageType = this.getMessageType(message.snippet?.type);
 
-            // Only process text messages for now
-            if (messageType !== "text" || !messageText) {
-                return;
+            // Filter out messages already handled before the stream was restarted
+            if (message.id) {
+                if (this.processedMessageIds.has(message.id)) {
+                    this.logger.debug(`Filtered message that was already processed: ${message.id}`);
+                    return;
+                }
+                this.recordProcessedMessage(message.id);
             }
 
-            // Filter out messages posted before the connection timestamp
-            if (message.snippet?.publishedAt && this.connectionTimestamp) {
+            // Filter out messages posted before the connection timestamp (unless resuming from a saved position)
+            if (message.snippet?.publishedAt && this.skipMessagesBefore) {
                 const publishedTime = new Date(message.snippet.publishedAt);
-                if (publishedTime < this.connectionTimestamp) {
+                if (publishedTime < this.skipMessagesBefore) {
                     this.logger.debug(`Filtered message posted before connection: ${publishedTime.toISOString()}`);
                     return;
                 }
             }
 
-            // Create a broadcaster object (we would need to get this from the stream context)
-            // For now, use a placeholder that would be set from the integration context
-            const broadcaster: YouTubeUser = {
+            if (messageType === "text" || messageType === "superChat" || messageType === "superSticker") {
+                this.recordChatActivity();
+            }
+
+            switch (messageType) {
+                case "text":
+                    await this.handleTextMessage(message);
+                    break;
+                case "superChat":
+                    this.handleSuperChat(message);
+                    break;
+                case "superSticker":
+                    this.handleSuperSticker(message);
+                    break;
+                case "newSponsor":
+                    this.handleNewMember(message);
+                    break;
+                case "memberMilestone":
+                    this.handleMemberMilestone(message);
+                    break;
+                case "membershipGifting":
+                    this.handleMembershipGifting(message);
+                    break;
+                case "giftMembershipReceived":
+                    this.handleGiftMembershipReceived(message);
+                    break;
+                case "messageDeleted":
+                    this.handleMessageDeleted(message, message.snippet?.messageDeletedDetails?.deletedMessageId, false);
+                    break;
+                case "messageRetracted":
+                    this.handleMessageDeleted(message, message.snippet?.messageRetractedDetails?.retractedMessageId, true);
+                    break;
+                case "userBanned":
+                    this.handleUserBanned(message);
+                    break;
+                case "poll":
+                    this.handlePoll(message);
+                    break;
+                default:
+                    // Other message types are not supported yet
+                    break;
+            }
+        } catch (error: any) {
+            this.logger.error(`Error handling message: ${error.message}`);
+        }
+    }
+
+    /**
+     * Remember a message ID so the message is not handled again, keeping only the most recent ones
+     */
+    private recordProcessedMessage(messageId: string): void {
+        this.processedMessageIds.add(messageId);
+        if (this.processedMessageIds.size > ChatManager.PROCESSED_MESSAGE_IDS_LIMIT) {
+            const oldest = this.processedMessageIds.values().next().value;
+            if (oldest !== undefined) {
+                this.processedMessageIds.delete(oldest);
+            }
+        }
+    }
+
+    /**
+     * Handle a text chat message
+     * Processes message and emits Firebot event
+     */
+    private async handleTextMessage(message: LiveChatMessage): Promise<void> {
+        const messageText = message.snippet?.displayMessage || message.snippet?.textMessageDetails?.messageText || "";
+        if (!messageText) {
+            return;
+        }
+
+        const broadcaster = this.getBroadcaster();
+
+        // Map YouTube API response to our ChatMessage type
+        const chatMessage = mapYouTubeChatMessageToChat(message, broadcaster);
+        chatMessage.repliesTo = this.getRepliesTo(chatMessage.messageId);
+
+        // Build Firebot chat message
+        const helpers = new FirebotChatHelpers();
+        const firebotChatMessage = await helpers.buildFirebotChatMessage(chatMessage, messageText);
+
+        this.rememberMessage(firebotChatMessage.id, {
+            username: firebotChatMessage.username,
+            userId: firebotChatMessage.userId,
+            userDisplayName: firebotChatMessage.userDisplayName || firebotChatMessage.username,
+            messageText
+        });
+
+        // Get roles for this user
+        const twitchBadgeRoles = helpers.getTwitchRoles(chatMessage.sender.identity);
+
+        // Log to console
+        this.logger.info(`[YouTube Chat] ${firebotChatMessage.username}: ${messageText} (text)`);
+        this.logger.debug(`User roles: ${twitchBadgeRoles.join(", ")}`);
+
+        // Update user statistics and roles
+        await this.userManager.updateLastSeenTime(chatMessage.sender.userId);
+        await this.userManager.incrementChatMessageCount(chatMessage.sender.userId);
+        await this.userManager.setViewerRoles(chatMessage.sender.userId, twitchBadgeRoles);
+
+        // Check if message is a command and handle it
+        const wasCommand = await commandHandler.handleChatMessage(firebotChatMessage, {
+            sendReply: (message, replyToMessageId) => this.integration.queueChatMessage(message, replyToMessageId),
+            deleteMessage: (messageId) => this.deleteCommandTrigger(messageId)
+        });
+        if (wasCommand) {
+            this.logger.debug("Message was handled as a command");
+        }
+
+        // Check if this is the first time we've seen this user (viewer arrived)
+        if (this.checkViewerArrived(firebotChatMessage.userId)) {
+            triggerViewerArrived(firebotChatMessage.username, firebotChatMessage.userId, firebotChatMessage.userDisplayName || firebotChatMessage.username, firebotChatMessage.rawText, firebotChatMessage, firebotChatMessage.roles);
+        }
+
+        // Emit Firebot event with full chat message
+        const { eventManager } = firebot.modules;
+        const metadata = {
+            eventSource: {
+                id: IntegrationConstants.INTEGRATION_ID
+            },
+            platform: "youtube",
+            username: firebotChatMessage.username,
+            userId: firebotChatMessage.userId,
+            userDisplayName: firebotChatMessage.userDisplayName,
+            twitchUserRoles: twitchBadgeRoles,
+            messageText: firebotChatMessage.rawText,
+            messageId: firebotChatMessage.id,
+            chatMessage: firebotChatMessage,
+            profilePicUrl: chatMessage.sender.profilePicture
+        };
+
+        eventManager.triggerEvent(IntegrationConstants.INTEGRATION_ID, "chat-message", metadata as unknown as Record<string, unknown>);
+
+        // Send to the chat feed
+        if (this.integration.isChatFeedEnabled()) {
+            const { frontendCommunicator } = firebot.modules;
+            frontendCommunicator.send("twitch:chat:message", firebotChatMessage);
+        }
+    }
+
+    /**
+     * Delete the message that triggered a command with "auto delete trigger" set,
+     * unless trigger deletion is turned off in the integration settings
+     */
+    private deleteCommandTrigger(messageId: string): void {
+        if (this.integration.getSettings()?.chat?.autoDeleteCommandTriggers === false) {
+            this.logger.debug(`Not deleting command trigger message ${messageId}: auto-delete is turned off in the integration settings`);
+            return;
+        }
+
+        this.integration
+            .getRestApiClient()
+            .deleteChatMessage(messageId)
+            .catch((error: any) => {
+                this.logger.warn(`Failed to delete command trigger message ${messageId}: ${error.message}`);
+            });
+    }
+
+    /**
+     * Handle a Super Chat message
+     */
+    private handleSuperChat(message: LiveChatMessage): void {
+        const details = message.snippet?.superChatDetails;
+        if (!details) {
+            this.logger.warn(`Super Chat message ${message.id} has no superChatDetails`);
+            return;
+        }
+
+        const eventData: YouTubeSuperChatEvent = {
+            ...this.getMessageAuthor(message),
+            amount: microsToAmount(details.amountMicros),
+            amountMicros: Number(details.amountMicros || 0),
+            currency: details.currency || "",
+            amountDisplayString: details.amountDisplayString || "",
+            tier: details.tier || 0,
+            userComment: details.userComment || ""
+        };
+
+        this.logger.info(`[YouTube Super Chat] ${eventData.username}: ${eventData.amountDisplayString} (${eventData.currency}) ${eventData.userComment}`);
+        triggerSuperChat(eventData);
+    }
+
+    /**
+     * Handle a Super Sticker message
+     */
+    private handleSuperSticker(message: LiveChatMessage): void {
+        const details = message.snippet?.superStickerDetails;
+        if (!details) {
+            this.logger.warn(`Super Sticker message ${message.id} has no superStickerDetails`);
+            return;
+        }
+
+        const eventData: YouTubeSuperStickerEvent = {
+            ...this.getMessageAuthor(message),
+            amount: microsToAmount(details.amountMicros),
+            amountMicros: Number(details.amountMicros || 0),
+            currency: details.currency || "",
+            amountDisplayString: details.amountDisplayString || "",
+            tier: details.tier || 0,
+            stickerId: details.superStickerMetadata?.stickerId || "",
+            stickerAltText: details.superStickerMetadata?.altText || "",
+            stickerAltTextLanguage: details.superStickerMetadata?.altTextLanguage || ""
+        };
+
+        this.logger.info(`[YouTube Super Sticker] ${eventData.username}: ${eventData.amountDisplayString} (${eventData.currency}) ${eventData.stickerAltText}`);
+        triggerSuperSticker(eventData);
+    }
+
+    /**
+     * Handle a new member (new sponsor) message
+     */
+    private handleNewMember(message: LiveChatMessage): void {
+        const details = message.snippet?.newSponsorDetails;
+
+        const eventData: YouTubeNewMemberEvent = {
+            ...this.getMessageAuthor(message),
+            memberLevelName: details?.memberLevelName || "",
+            isUpgrade: details?.isUpgrade || false
+        };
+
+        this.logger.info(`[YouTube Membership] ${eventData.username} ${eventData.isUpgrade ? "upgraded to" : "joined"} ${eventData.memberLevelName || "membership"}`);
+        triggerNewMember(eventData);
+    }
+
+    /**
+     * Handle a member milestone message
+     */
+    private handleMemberMilestone(message: LiveChatMessage): void {
+        const details = message.snippet?.memberMilestoneChatDetails;
+        if (!details) {
+            this.logger.warn(`Member milestone message ${message.id} has no memberMilestoneChatDetails`);
+            return;
+        }
+
+        const eventData: YouTubeMemberMilestoneEvent = {
+            ...this.getMessageAuthor(message),
+            memberLevelName: details.memberLevelName || "",
+            memberMonth: details.memberMonth || 0,
+            userComment: details.userComment || ""
+        };
+
+        this.logger.info(`[YouTube Membership] ${eventData.username} reached ${eventData.memberMonth} months of ${eventData.memberLevelName || "membership"}`);
+        triggerMemberMilestone(eventData);
+    }
+
+    /**
+     * Handle a membership gifting message
+     */
+    private handleMembershipGifting(message: LiveChatMessage): void {
+        const details = message.snippet?.membershipGiftingDetails;
+        if (!details) {
+            this.logger.warn(`Membership gifting message ${message.id} has no membershipGiftingDetails`);
+            return;
+        }
+
+        const eventData: YouTubeMembershipGiftingEvent = {
+            ...this.getMessageAuthor(message),
+            memberLevelName: details.giftMembershipsLevelName || "",
+            giftCount: details.giftMembershipsCount || 0
+        };
+
+        // Remember the gifter so that the individual gift received messages can name them
+        if (eventData.messageId) {
+            this.recentGifters.set(eventData.messageId, { username: eventData.username, userDisplayName: eventData.userDisplayName });
+            if (this.recentGifters.size > ChatManager.RECENT_GIFTERS_LIMIT) {
+                const oldest = this.recentGifters.keys().next().value;
+                if (oldest !== undefined) {
+                    this.recentGifters.delete(oldest);
+                }
+            }
+        }
+
+        this.logger.info(`[YouTube Membership] ${eventData.username} gifted ${eventData.giftCount} ${eventData.memberLevelName || "membership"} memberships`);
+        triggerMembershipGifting(eventData);
+    }
+
+    /**
+     * Handle a gift membership received message
+     */
+    private handleGiftMembershipReceived(message: LiveChatMessage): void {
+        const details = message.snippet?.giftMembershipReceivedDetails;
+        if (!details) {
+            this.logger.warn(`Gift membership received message ${message.id} has no giftMembershipReceivedDetails`);
+            return;
+        }
+
+        const associatedGiftingMessageId = details.associatedMembershipGiftingMessageId || "";
+        const gifter = this.recentGifters.get(associatedGiftingMessageId);
+
+        const eventData: YouTubeGiftMembershipReceivedEvent = {
+            ...this.getMessageAuthor(message),
+            memberLevelName: details.memberLevelName || "",
+            gifterUserId: details.gifterChannelId ? youTubeifyUserId(details.gifterChannelId) : "",
+            gifterUsername: gifter?.username || "",
+            gifterDisplayName: gifter?.userDisplayName || "",
+            associatedGiftingMessageId
+        };
+
+        this.logger.info(`[YouTube Membership] ${eventData.username} received a gifted ${eventData.memberLevelName || "membership"} from ${eventData.gifterUsername || eventData.gifterUserId}`);
+        triggerGiftMembershipReceived(eventData);
+    }
+
+    /**
+     * Handle a deleted (by a moderator) or retracted (by the author) message
+     */
+    private handleMessageDeleted(message: LiveChatMessage, deletedMessageId: string | undefined, retracted: boolean): void {
+        if (!deletedMessageId) {
+            this.logger.warn(`Message ${retracted ? "retraction" : "deletion"} ${message.id} has no target message ID`);
+            return;
+        }
+
+        const original = this.recentMessages.get(deletedMessageId);
+        this.recentMessages.delete(deletedMessageId);
+
+        const eventData: YouTubeMessageDeletedEvent = {
+            deletedMessageId,
+            retracted,
+            username: original?.username || "",
+            userId: original?.userId || "",
+            userDisplayName: original?.userDisplayName || "",
+            messageText: original?.messageText || "",
+            moderator: retracted ? "" : message.authorDetails?.displayName || ""
+        };
+
+        this.logger.info(`[YouTube Moderation] Message ${deletedMessageId} ${retracted ? "retracted by author" : `deleted by ${eventData.moderator}`}`);
+
+        if (this.integration.isChatFeedEnabled()) {
+            const { frontendCommunicator } = firebot.modules;
+            frontendCommunicator.send("twitch:chat:message:deleted", deletedMessageId);
+        }
+
+        triggerMessageDeleted(eventData);
+    }
+
+    /**
+     * Handle a user banned message (permanent ban or timeout)
+     */
+    private handleUserBanned(message: LiveChatMessage): void {
+        const details = message.snippet?.userBannedDetails;
+        const bannedUser = details?.bannedUserDetails;
+        if (!details || !bannedUser?.channelId) {
+            this.logger.warn(`User banned message ${message.id} has no bannedUserDetails`);
+            return;
+        }
+
+        const isTemporary = details.banType === LiveChatUserBannedMessageDetails_BanTypeWrapper_BanType.TEMPORARY;
+        const banDurationSeconds = isTemporary ? Number(details.banDurationSeconds || 0) : 0;
+        const displayName = bannedUser.displayName || "";
+
+        const eventData: YouTubeViewerBannedEvent = {
+            username: youTubeifyUsername(displayName),
+            userId: youTubeifyUserId(bannedUser.channelId),
+            userDisplayName: displayName,
+            profilePicUrl: bannedUser.profileImageUrl || "",
+            moderator: message.authorDetails?.displayName || "",
+            banType: isTemporary ? "temporary" : "permanent",
+            banDurationSeconds
+        };
+
+        this.logger.info(`[YouTube Moderation] ${eventData.username} ${isTemporary ? `timed out for ${banDurationSeconds}s` : "banned"} by ${eventData.moderator}`);
+
+        // Forget the user's messages and clear them from the chat feed
+        for (const [messageId, recent] of this.recentMessages) {
+            if (recent.userId === eventData.userId) {
+                this.recentMessages.delete(messageId);
+            }
+        }
+        if (this.integration.isChatFeedEnabled()) {
+            const { frontendCommunicator } = firebot.modules;
+            frontendCommunicator.send("twitch:chat:user:delete-messages", eventData.username);
+        }
+
+        if (isTemporary) {
+            triggerViewerTimeout({ ...eventData, timeoutDuration: banDurationSeconds });
+        } else {
+            triggerViewerBanned(eventData);
+        }
+    }
+
+    /**
+     * Handle a poll message, either from the chat items or the active poll item
+     * Tracks the active poll so start, tally changes and close each fire once
+     */
+    private handlePoll(message: LiveChatMessage): void {
+        const details = message.snippet?.pollDetails;
+        const pollId = message.id;
+        if (!details?.metadata || !pollId) {
+            this.logger.warn(`Poll message ${message.id} has no pollDetails`);
+            return;
+        }
+
+        // Ignore stale reports of a poll that has already ended
+        if (pollId === this.lastEndedPollId) {
+            return;
+        }
+
+        const eventData = buildPollEventData(pollId, details.metadata.questionText || "", details.metadata.options);
+
+        // A different poll replacing the one we were tracking means the old one is over
+        if (this.activePoll && this.activePoll.pollId !== pollId) {
+            this.endPoll(this.activePoll);
+        }
+
+        if (details.status === LiveChatPollDetails_PollStatusWrapper_PollStatus.CLOSED) {
+            this.endPoll(eventData);
+            return;
+        }
+
+        if (!this.activePoll) {
+            this.activePoll = eventData;
+            this.logger.info(`[YouTube Poll] Poll started: ${eventData.questionText}`);
+            triggerPollStarted(eventData);
+            return;
+        }
+
+        const talliesChanged = eventData.options.some((option, index) => option.tally !== this.activePoll?.options[index]?.tally);
+        if (talliesChanged) {
+            this.activePoll = eventData;
+            this.logger.debug(`[YouTube Poll] Poll updated: ${eventData.totalVotes} total votes`);
+            triggerPollUpdated(eventData);
+        }
+    }
+
+    /**
+     * Mark a poll as ended and emit the poll ended event
+     */
+    private endPoll(eventData: YouTubePollEvent): void {
+        this.activePoll = null;
+        this.lastEndedPollId = eventData.pollId;
+        this.logger.info(`[YouTube Poll] Poll ended: ${eventData.questionText} (winner: ${eventData.winningOption || "none"})`);
+        triggerPollEnded(eventData);
+    }
+
+    /**
+     * Get the ID of the poll currently running in chat, if any
+     */
+    getActivePollId(): string | null {
+        return this.activePoll?.pollId ?? null;
+    }
+
+    /**
+     * Build the broadcaster user from the channel the active application is authorized for,
+     * falling back to a placeholder if the channel has not been resolved
+     */
+    private getBroadcaster(): YouTubeUser {
+        const identity = this.integration.getBroadcasterIdentity();
+        if (!identity) {
+            return {
                 userId: "unknown",
                 username: "Broadcaster",
                 displayName: "Broadcaster",
                 isVerified: false,
                 profilePicture: ""
             };
+        }
 
-            // Map YouTube API response to our ChatMessage type
-            const chatMessage = mapYouTubeChatMessageToChat(message, broadcaster);
-
-            // Build Firebot chat message
-            const helpers = new FirebotChatHelpers();
-            const firebotChatMessage = await helpers.buildFirebotChatMessage(chatMessage, messageText);
-
-            // Get roles for this user
-            const twitchBadgeRoles = helpers.getTwitchRoles(chatMessage.sender.identity);
-
-            // Log to console
-            this.logger.info(`[YouTube Chat] ${firebotChatMessage.username}: ${messageText} (${messageType})`);
-            this.logger.debug(`User roles: ${twitchBadgeRoles.join(", ")}`);
+        return {
+            userId: identity.channelId,
+            username: identity.handle.replace(/^@/, "") || identity.displayName,
+            displayName: identity.displayName,
+            isVerified: false,
+            profilePicture: identity.avatarUrl
+        };
+    }
 
-            // Update user statistics and roles
-            await this.userManager.updateLastSeenTime(chatMessage.sender.userId);
-            await this.userManager.incrementChatMessageCount(chatMessage.sender.userId);
-            await this.userManager.setViewerRoles(chatMessage.sender.userId, twitchBadgeRoles);
+    /**
+     * Look up a chat message seen on this connection by its message ID
+     */
+    getRecentMessage(messageId: string): RecentChatMessage | undefined {
+        return this.recentMessages.get(messageId);
+    }
 
-            // Check if message is a command and handle it
-            const wasCommand = await commandHandler.handleChatMessage(firebotChatMessage);
-            if (wasCommand) {
-                this.logger.debug("Message was handled as a command");
+    /**
+     * Find the YouTubeified user ID of a recent chatter by their YouTubeified username
+     */
+    findRecentUserId(username: string): string | undefined {
+        for (const recent of this.recentMessages.values()) {
+            if (recent.username === username) {
+                return recent.userId;
             }
+        }
+        return undefined;
+    }
 
-            // Check if this is the first time we've seen this user (viewer arrived)
-            if (this.checkViewerArrived(firebotChatMessage.userId)) {
-                triggerViewerArrived(firebotChatMessage.username, firebotChatMessage.userId, firebotChatMessage.userDisplayName || firebotChatMessage.username, firebotChatMessage.rawText, firebotChatMessage, firebotChatMessage.roles);
+    /**
+     * Record that a message sent by this integration is a reply to another chat message,
+     * so that it is shown as a reply when it comes back through the chat stream
+     */
+    recordSentReply(sentMessageId: string, parentMessageId: string): void {
+        this.sentReplies.set(sentMessageId, parentMessageId);
+        if (this.sentReplies.size > ChatManager.SENT_REPLIES_LIMIT) {
+            const oldest = this.sentReplies.keys().next().value;
+            if (oldest !== undefined) {
+                this.sentReplies.delete(oldest);
             }
+        }
+    }
 
-            // Emit Firebot event with full chat message
-            const { eventManager } = firebot.modules;
-            const metadata = {
-                eventSource: {
-                    id: IntegrationConstants.INTEGRATION_ID
-                },
-                platform: "youtube",
-                username: firebotChatMessage.username,
-                userId: firebotChatMessage.userId,
-                userDisplayName: firebotChatMessage.userDisplayName,
-                twitchUserRoles: twitchBadgeRoles,
-                messageText: firebotChatMessage.rawText,
-                messageId: firebotChatMessage.id,
-                chatMessage: firebotChatMessage,
-                profilePicUrl: chatMessage.sender.profilePicture
-            };
+    /**
+     * Build the reply context for a message previously sent as a reply, if its parent is still known
+     */
+    private getRepliesTo(messageId: string): YouTubeRepliesTo | undefined {
+        const parentMessageId = this.sentReplies.get(messageId);
+        const parent = parentMessageId ? this.recentMessages.get(parentMessageId) : undefined;
+        if (!parentMessageId || !parent) {
+            return undefined;
+        }
+
+        return {
+            messageId: parentMessageId,
+            content: parent.messageText,
+            sender: {
+                userId: unYouTubeifyUserId(parent.userId),
+                username: unYouTubeifyUsername(parent.username),
+                displayName: parent.userDisplayName,
+                isVerified: false,
+                profilePicture: ""
+            }
+        };
+    }
 
-            eventManager.triggerEvent(IntegrationConstants.INTEGRATION_ID, "chat-message", metadata as unknown as Record<string, unknown>);
+    /**
+     * Remember a chat message so that later events referencing its ID can be resolved
+     */
+    private rememberMessage(messageId: string, message: RecentChatMessage): void {
+        if (!messageId) {
+            return;
+        }
 
-            // Send to the chat feed
-            if (this.integration.isChatFeedEnabled()) {
-                const { frontendCommunicator } = firebot.modules;
-                frontendCommunicator.send("twitch:chat:message", firebotChatMessage);
+        this.recentMessages.set(messageId, message);
+        if (this.recentMessages.size > ChatManager.RECENT_MESSAGES_LIMIT) {
+            const oldest = this.recentMessages.keys().next().value;
+            if (oldest !== undefined) {
+                this.recentMessages.delete(oldest);
             }
-        } catch (error: any) {
-            this.logger.error(`Error handling message: ${error.message}`);
         }
     }
 
+    /**
+     * Extract the Firebot-style author fields for a message
+     */
+    private getMessageAuthor(message: LiveChatMessage): { username: string; userId: string; userDisplayName: string; profilePicUrl: string; messageId: string } {
+        const author = message.authorDetails;
+        const displayName = author?.displayName || "";
+        return {
+            username: youTubeifyUsername(displayName),
+            userId: youTubeifyUserId(author?.channelId || ""),
+            userDisplayName: displayName,
+            profilePicUrl: author?.profileImageUrl || "",
+            messageId: message.id || ""
+        };
+    }
+
     /**
      * Get human-readable message type
      */
@@ -292,10 +955,14 @@ export class ChatManager {
             this.nextPollTimer = null;
         }
 
+        // Write the latest position now rather than waiting for the save interval
+        chatResumeStore.flush();
+
         this.client = null;
         this.liveChatId = null;
         this.pageToken = undefined;
         this.connectionTimestamp = null;
+        this.skipMessagesBefore = null;
     }
 
     /**
@@ -1,23 +1,43 @@
 import { logger } from "../main";
 
-type SendChatMessage = (message: string) => Promise<boolean>;
+type SendChatMessage = (message: string, replyToMessageId?: string) => Promise<boolean>;
+
+/**
+ * Returns false if sending the message now would exceed the quota budgets
+ */
+type CheckChatMessageBudget = (message: string, notifyIfBlocked: boolean) => boolean;
 
 type QueueItem = {
     message: string;
+    replyToMessageId?: string;
+    // Unix timestamp (ms) when the message was first deferred for lack of quota budget
+    deferredSince?: number;
 };
 
 export class ChatMessageQueue {
+    /**
+     * How long to wait before checking the budget of a deferred message again (ms)
+     */
+    private static readonly DEFER_RETRY_MS = 30000;
+
+    /**
+     * How long a message may be deferred before it is dropped (ms)
+     */
+    private static readonly MAX_DEFER_MS = 300000;
+
     private sendChatMessage: SendChatMessage;
+    private checkBudget?: CheckChatMessageBudget;
     private queue: QueueItem[] = [];
     private processing = false;
     private processTimer: NodeJS.Timeout | null = null;
 
-    constructor(sendChatMessage: SendChatMessage) {
+    constructor(sendChatMessage: SendChatMessage, checkBudget?: CheckChatMessageBudget) {
         this.sendChatMessage = sendChatMessage;
+        this.checkBudget = checkBudget;
     }
 
-    enqueue(message: string): void {
-        this.queue.push({ message });
+    enqueue(message: string, replyToMessageId?: string): void {
+        this.queue.push({ message, replyToMessageId });
         this.startProcessing();
     }
 
@@ -29,10 +49,10 @@ export class ChatMessageQueue {
         this.scheduleNext();
     }
 
-    private scheduleNext(): void {
+    private scheduleNext(delayMs = 0): void {
         this.processTimer = setTimeout(() => {
             void this.processNext();
-        }, 0);
+        }, delayMs);
     }
 
     private async processNext(): Promise<void> {
@@ -42,13 +62,27 @@ export class ChatMessageQueue {
             return;
         }
 
-        try {
-            const success = await this.sendChatMessage(next.message);
-            if (!success) {
-                logger.warn("Queued YouTube chat message send returned false");
+        // Messages over budget wait at the head of the queue (keeping chat order) in case
+        // quota frees up, e.g. after a failover to another application or the daily reset
+        if (this.checkBudget && !this.checkBudget(next.message, next.deferredSince === undefined)) {
+            const now = Date.now();
+            next.deferredSince ??= now;
+            if (now - next.deferredSince < ChatMessageQueue.MAX_DEFER_MS) {
+                logger.info(`Deferring queued YouTube chat message: Quota budget exceeded. Retrying in ${ChatMessageQueue.DEFER_RETRY_MS / 1000}s`);
+                this.queue.unshift(next);
+                this.scheduleNext(ChatMessageQueue.DEFER_RETRY_MS);
+                return;
+            }
+            logger.warn(`Dropping queued YouTube chat message: Quota budget still exceeded after ${ChatMessageQueue.MAX_DEFER_MS / 1000}s`);
+        } else {
+            try {
+                const success = await this.sendChatMessage(next.message, next.replyToMessageId);
+                if (!success) {
+                    logger.warn("Queued YouTube chat message send returned false");
+                }
+            } catch (error) {
+                logger.error(`Error sending YouTube chat message from queue: ${error}`);
             }
-        } catch (error) {
-            logger.error(`Error sending YouTube chat message from queue: ${error}`);
         }
 
         if (this.queue.length > 0) {
@@ -0,0 +1,164 @@
+import { logger } from "../main";
+import { DataFileOptions, getDataFilePath, readDataFile, writeDataFile } from "../util/datafile";
+
+/**
+ * Where chat reading stopped in a live chat
+ */
+export interface ChatResumePosition {
+    /**
+     * Page token to request the next page of chat messages with
+     */
+    pageToken: string;
+
+    /**
+     * IDs of the most recently processed messages, oldest first
+     */
+    messageIds: string[];
+
+    /**
+     * When the position was saved (epoch ms)
+     */
+    updatedAt: number;
+}
+
+/**
+ * Persistent storage format for chat-resume.json: resume positions by liveChatId
+ */
+interface ChatResumeStorage {
+    chats: Record<string, ChatResumePosition>;
+}
+
+const CHAT_RESUME_FILE = "chat-resume.json";
+
+/**
+ * Positions not updated for this long are dropped; their page tokens are of no use any more
+ */
+export const CHAT_RESUME_RETENTION_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Shortest interval between writes of the resume file while chat is being read
+ */
+export const CHAT_RESUME_SAVE_INTERVAL_MS = 30 * 1000;
+
+/**
+ * Persists how far chat has been read in each live chat
+ *
+ * Saving the last page token and the IDs of recently processed messages lets a restarted chat
+ * stream (after a reconnect, an application switch or a Firebot restart) continue exactly where
+ * the previous one left off, without skipping messages sent in between or handling any twice.
+ */
+export class ChatResumeStore {
+    private static readonly DATA_FILE_OPTIONS: DataFileOptions = {
+        schemaVersion: 1,
+        migrations: {
+            1: (data) => data
+        },
+        // The file is rewritten often and is only worth anything while it is current
+        backupCount: 0
+    };
+
+    private positions = new Map<string, ChatResumePosition>();
+    private lastSavedAt = 0;
+    private saveTimer: NodeJS.Timeout | null = null;
+
+    /**
+     * Load saved positions from disk, dropping any that are too old to resume from
+     * Must be called after firebot global is initialized
+     */
+    initialize(): void {
+        try {
+            const result = readDataFile<ChatResumeStorage>(getDataFilePath(CHAT_RESUME_FILE), ChatResumeStore.DATA_FILE_OPTIONS);
+            if (!result) {
+                logger.debug("Chat resume file does not exist, starting with no saved positions");
+                return;
+            }
+
+            const cutoff = Date.now() - CHAT_RESUME_RETENTION_MS;
+            this.positions = new Map(Object.entries(result.data.chats ?? {}).filter(([, position]) => position.updatedAt > cutoff));
+            logger.debug(`Loaded chat resume positions for ${this.positions.size} live chat(s)`);
+        } catch (error) {
+            logger.error(`Failed to load chat resume positions: ${error instanceof Error ? error.message : String(error)}`);
+            this.positions.clear();
+        }
+    }
+
+    /**
+     * Get the saved position of a live chat
+     * @param liveChatId The live chat ID
+     * @returns The position, or null if there is none to resume from
+     */
+    getPosition(liveChatId: string): ChatResumePosition | null {
+        const position = this.positions.get(liveChatId);
+        if (!position || position.updatedAt <= Date.now() - CHAT_RESUME_RETENTION_MS) {
+            return null;
+        }
+        return position;
+    }
+
+    /**
+     * Save the position of a live chat. The file is written at most once per
+     * CHAT_RESUME_SAVE_INTERVAL_MS; later positions are written when the interval has passed
+     * or on flush().
+     * @param liveChatId The live chat ID
+     * @param pageToken Page token to request the next page of chat messages with
+     * @param messageIds IDs of the most recently processed messages, oldest first
+     */
+    savePosition(liveChatId: string, pageToken: string, messageIds: string[]): void {
+        this.positions.set(liveChatId, { pageToken, messageIds, updatedAt: Date.now() });
+
+        const wait = this.lastSavedAt + CHAT_RESUME_SAVE_INTERVAL_MS - Date.now();
+        if (wait <= 0) {
+            this.save();
+        } else if (!this.saveTimer) {
+            this.saveTimer = setTimeout(() => {
+                this.saveTimer = null;
+                this.save();
+            }, wait);
+        }
+    }
+
+    /**
+     * Write positions that are waiting for the save interval, e.g. because chat reading stopped
+     */
+    flush(): void {
+        if (this.saveTimer) {
+            this.save();
+        }
+    }
+
+    /**
+     * Forget the position of a live chat, e.g. because its stream ended
+     * @param liveChatId The live chat ID
+     */
+    clearPosition(liveChatId: string): void {
+        if (this.positions.delete(liveChatId)) {
+            this.save();
+        }
+    }
+
+    private save(): void {
+        if (this.saveTimer) {
+            clearTimeout(this.saveTimer);
+            this.saveTimer = null;
+        }
+        this.lastSavedAt = Date.now();
+
+        const cutoff = Date.now() - CHAT_RESUME_RETENTION_MS;
+        for (const [liveChatId, position] of this.positions) {
+            if (position.updatedAt <= cutoff) {
+                this.positions.delete(liveChatId);
+            }
+        }
+
+        try {
+            const storage: ChatResumeStorage = {
+                chats: Object.fromEntries(this.positions)
+            };
+            writeDataFile(getDataFilePath(CHAT_RESUME_FILE), storage, ChatResumeStore.DATA_FILE_OPTIONS);
+        } catch (error) {
+            logger.error(`Failed to save chat resume positions: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+}
+
+export const chatResumeStore = new ChatResumeStore();
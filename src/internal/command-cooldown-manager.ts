@@ -0,0 +1,188 @@
+import { logger } from "../main";
+import { DataFileOptions, getDataFilePath, readDataFile, writeDataFile } from "../util/datafile";
+
+/**
+ * Cooldown settings of a command or subcommand, in seconds
+ */
+export interface CommandCooldown {
+    global?: number;
+    user?: number;
+}
+
+/**
+ * The parts of a command or subcommand that determine its cooldown
+ */
+export interface CooldownSource {
+    id?: string;
+    cooldown?: CommandCooldown;
+}
+
+/**
+ * Persistent storage format for command-cooldowns.json: cooldown expiry times (epoch ms) by key
+ */
+interface CommandCooldownStorage {
+    global: Record<string, number>;
+    user: Record<string, number>;
+}
+
+const COMMAND_COOLDOWNS_FILE = "command-cooldowns.json";
+
+/**
+ * Shortest interval between writes of the cooldown file; commands can be triggered many times a second
+ */
+export const COMMAND_COOLDOWNS_SAVE_INTERVAL_MS = 30 * 1000;
+
+/**
+ * Tracks global and per-user cooldowns of commands triggered from YouTube chat
+ *
+ * Firebot's cooldown manager is not exposed to custom scripts, so the integration keeps its own.
+ * A subcommand with its own cooldown settings has its own cooldown; otherwise it shares the base
+ * command's. Cooldowns are saved so they survive reconnecting the integration and restarting Firebot.
+ */
+export class CommandCooldownManager {
+    private static readonly DATA_FILE_OPTIONS: DataFileOptions = {
+        schemaVersion: 1,
+        migrations: {
+            1: (data) => data
+        },
+        // Cooldowns are short-lived, so older versions of the file are of no use
+        backupCount: 0
+    };
+
+    private globalCooldowns = new Map<string, number>();
+    private userCooldowns = new Map<string, number>();
+    private lastSavedAt = 0;
+    private saveTimer: NodeJS.Timeout | null = null;
+
+    /**
+     * Load saved cooldowns from disk, dropping any that have expired
+     * Must be called after firebot global is initialized
+     */
+    initialize(): void {
+        try {
+            const result = readDataFile<CommandCooldownStorage>(getDataFilePath(COMMAND_COOLDOWNS_FILE), CommandCooldownManager.DATA_FILE_OPTIONS);
+            if (!result) {
+                logger.debug("Command cooldown file does not exist, starting with no cooldowns");
+                return;
+            }
+
+            const now = Date.now();
+            this.globalCooldowns = new Map(Object.entries(result.data.global ?? {}).filter(([, expiresAt]) => expiresAt > now));
+            this.userCooldowns = new Map(Object.entries(result.data.user ?? {}).filter(([, expiresAt]) => expiresAt > now));
+            logger.debug(`Loaded ${this.globalCooldowns.size} global and ${this.userCooldowns.size} per-user command cooldowns`);
+        } catch (error) {
+            logger.error(`Failed to load command cooldowns: ${error instanceof Error ? error.message : String(error)}`);
+            this.globalCooldowns.clear();
+            this.userCooldowns.clear();
+        }
+    }
+
+    /**
+     * Get how long a user must wait before triggering a command again
+     * @param command The base command
+     * @param subcommand The triggered subcommand, if any
+     * @param userId The YouTube channel ID of the user
+     * @returns Remaining cooldown in whole seconds (0 if the command is not on cooldown)
+     */
+    getRemainingCooldown(command: CooldownSource, subcommand: CooldownSource | undefined, userId: string): number {
+        const key = this.getCooldownKey(command, subcommand);
+        const now = Date.now();
+        const globalExpiresAt = this.globalCooldowns.get(key) ?? 0;
+        const userExpiresAt = this.userCooldowns.get(`${key}:${userId}`) ?? 0;
+        const remainingMs = Math.max(globalExpiresAt, userExpiresAt) - now;
+        return remainingMs > 0 ? Math.ceil(remainingMs / 1000) : 0;
+    }
+
+    /**
+     * Start the cooldowns of a command that was just triggered
+     * @param command The base command
+     * @param subcommand The triggered subcommand, if any
+     * @param userId The YouTube channel ID of the user
+     */
+    cooldownCommand(command: CooldownSource, subcommand: CooldownSource | undefined, userId: string): void {
+        const cooldown = this.getCooldown(command, subcommand);
+        const globalSeconds = cooldown?.global ?? 0;
+        const userSeconds = cooldown?.user ?? 0;
+        if (globalSeconds <= 0 && userSeconds <= 0) {
+            return;
+        }
+
+        const key = this.getCooldownKey(command, subcommand);
+        const now = Date.now();
+        if (globalSeconds > 0) {
+            this.globalCooldowns.set(key, now + globalSeconds * 1000);
+        }
+        if (userSeconds > 0 && userId) {
+            this.userCooldowns.set(`${key}:${userId}`, now + userSeconds * 1000);
+        }
+
+        this.scheduleSave();
+    }
+
+    /**
+     * Write cooldowns that are waiting for the save interval, e.g. because the integration disconnects
+     */
+    flush(): void {
+        if (this.saveTimer) {
+            this.save();
+        }
+    }
+
+    /**
+     * The cooldown settings that apply: the subcommand's own, or else the base command's
+     */
+    private getCooldown(command: CooldownSource, subcommand?: CooldownSource): CommandCooldown | undefined {
+        return subcommand && this.hasCooldown(subcommand) ? subcommand.cooldown : command.cooldown;
+    }
+
+    private getCooldownKey(command: CooldownSource, subcommand?: CooldownSource): string {
+        const commandId = command.id ?? "";
+        return subcommand && this.hasCooldown(subcommand) ? `${commandId}:${subcommand.id ?? ""}` : commandId;
+    }
+
+    private hasCooldown(source: CooldownSource): boolean {
+        return (source.cooldown?.global ?? 0) > 0 || (source.cooldown?.user ?? 0) > 0;
+    }
+
+    /**
+     * Save now, or once COMMAND_COOLDOWNS_SAVE_INTERVAL_MS has passed since the last save
+     */
+    private scheduleSave(): void {
+        const wait = this.lastSavedAt + COMMAND_COOLDOWNS_SAVE_INTERVAL_MS - Date.now();
+        if (wait <= 0) {
+            this.save();
+        } else if (!this.saveTimer) {
+            this.saveTimer = setTimeout(() => {
+                this.saveTimer = null;
+                this.save();
+            }, wait);
+        }
+    }
+
+    private save(): void {
+        if (this.saveTimer) {
+            clearTimeout(this.saveTimer);
+            this.saveTimer = null;
+        }
+        this.lastSavedAt = Date.now();
+
+        const now = Date.now();
+        for (const cooldowns of [this.globalCooldowns, this.userCooldowns]) {
+            for (const [key, expiresAt] of cooldowns) {
+                if (expiresAt <= now) {
+                    cooldowns.delete(key);
+                }
+            }
+        }
+
+        try {
+            const storage: CommandCooldownStorage = {
+                global: Object.fromEntries(this.globalCooldowns),
+                user: Object.fromEntries(this.userCooldowns)
+            };
+            writeDataFile(getDataFilePath(COMMAND_COOLDOWNS_FILE), storage, CommandCooldownManager.DATA_FILE_OPTIONS);
+        } catch (error) {
+            logger.error(`Failed to save command cooldowns: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+}
@@ -2,6 +2,7 @@ import { FirebotChatMessage } from "@crowbartools/firebot-custom-scripts-types/t
 import { CommandDefinition, UserCommand } from "@crowbartools/firebot-custom-scripts-types/types/modules/command-manager";
 import { Trigger } from "@crowbartools/firebot-custom-scripts-types/types/triggers";
 import { firebot, logger } from "../main";
+import { CommandCooldownManager } from "./command-cooldown-manager";
 
 interface TriggerWithArgs {
     trigger: string;
@@ -13,16 +14,79 @@ interface CommandMatch {
     matchedTrigger?: string;
 }
 
+/**
+ * Cooldown message options of a Firebot command
+ */
+interface CooldownMessageOptions {
+    sendCooldownMessage?: boolean;
+    useCustomCooldownMessage?: boolean;
+    cooldownMessage?: string;
+}
+
+/**
+ * Failure message options of a Firebot command's restrictions
+ */
+interface RestrictionFailMessageOptions {
+    sendFailMessage?: boolean;
+    useCustomFailMessage?: boolean;
+    failMessage?: string;
+}
+
+/**
+ * Chat actions a command can take in response to the message that triggered it
+ */
+export interface CommandChatActions {
+    /** Send a chat message in reply to a message */
+    sendReply: (message: string, replyToMessageId: string) => void;
+
+    /** Delete a chat message */
+    deleteMessage: (messageId: string) => void;
+}
+
+const DEFAULT_COOLDOWN_MESSAGE = "This command is still on cooldown for: {timeLeft}";
+const DEFAULT_RESTRICTION_FAIL_MESSAGE = "Sorry, you cannot use this command because: {reason}";
+
+/**
+ * Minimum time between feedback replies (usage, cooldown and restriction messages) to the same user,
+ * so that a user repeating a bad command cannot drain the quota (each reply costs 20 units)
+ */
+export const COMMAND_FEEDBACK_INTERVAL_MS = 60 * 1000;
+
 const escapeRegExp = (str: string) => {
     return str.replace(/[-[\]/{}()*+?.\\^$|]/g, "\\$&");
 };
 
+const formatTimeLeft = (seconds: number) => {
+    const hours = Math.floor(seconds / 3600);
+    const minutes = Math.floor((seconds % 3600) / 60);
+    const parts = [hours > 0 ? `${hours}h` : "", minutes > 0 ? `${minutes}m` : "", seconds % 60 > 0 ? `${seconds % 60}s` : ""];
+    return parts.filter((part) => part !== "").join(" ");
+};
+
 export class CommandHandler {
     private _handledMessageIds: string[] = [];
     private commandRunner: CommandRunner;
+    private cooldownManager: CommandCooldownManager;
+    private lastFeedbackTimes = new Map<string, number>();
 
     constructor() {
         this.commandRunner = new CommandRunner();
+        this.cooldownManager = new CommandCooldownManager();
+    }
+
+    /**
+     * Load saved command cooldowns
+     * Must be called after firebot global is initialized
+     */
+    initialize(): void {
+        this.cooldownManager.initialize();
+    }
+
+    /**
+     * Save command cooldowns that have not been written yet
+     */
+    flushCooldowns(): void {
+        this.cooldownManager.flush();
     }
 
     private buildCommandRegexStr(trigger: string, scanWholeMessage: boolean): string {
@@ -81,7 +145,37 @@ export class CommandHandler {
         });
     }
 
-    async handleChatMessage(firebotChatMessage: FirebotChatMessage): Promise<boolean> {
+    /**
+     * Reply to a user about a command they could not run, at most once per feedback interval per user
+     */
+    private sendFeedback(firebotChatMessage: FirebotChatMessage, message: string, chatActions?: CommandChatActions): void {
+        if (!chatActions) {
+            return;
+        }
+
+        const now = Date.now();
+        for (const [userId, sentAt] of this.lastFeedbackTimes) {
+            if (now - sentAt >= COMMAND_FEEDBACK_INTERVAL_MS) {
+                this.lastFeedbackTimes.delete(userId);
+            }
+        }
+
+        if (this.lastFeedbackTimes.has(firebotChatMessage.userId)) {
+            logger.debug(`Not sending command feedback to ${firebotChatMessage.username}: rate limited. Message: ${message}`);
+            return;
+        }
+
+        this.lastFeedbackTimes.set(firebotChatMessage.userId, now);
+        chatActions.sendReply(message, firebotChatMessage.id);
+    }
+
+    /**
+     * Run the command triggered by a chat message, if any
+     * @param firebotChatMessage The chat message
+     * @param chatActions Used to tell the user why a command could not be run and to delete trigger messages
+     * @returns true if a command was run
+     */
+    async handleChatMessage(firebotChatMessage: FirebotChatMessage, chatActions?: CommandChatActions): Promise<boolean> {
         logger.debug("Checking for command in message...");
 
         // Username of the person that sent the command.
@@ -137,22 +231,35 @@ export class CommandHandler {
         }
 
         if (userCmd.isInvalidSubcommandTrigger === true) {
-            // Send message to chat?
+            this.sendFeedback(firebotChatMessage, "Invalid Command: unknown arg used.", chatActions);
             return false;
         }
 
-        // YouTube API does not support message deletion yet
-        // Placeholder for potential future implementation: auto-delete trigger
+        if (command.autoDeleteTrigger || (triggeredSubcmd && triggeredSubcmd.autoDeleteTrigger)) {
+            logger.debug("Auto delete trigger is on, attempting to delete chat message");
+            chatActions?.deleteMessage(firebotChatMessage.id);
+        }
 
         // check if command meets min args requirement
         const minArgs = triggeredSubcmd ? triggeredSubcmd.minArgs || 0 : command.minArgs || 0;
         if (userCmd.args.length < minArgs) {
-            // const usage = triggeredSubcmd ? triggeredSubcmd.usage : command.usage;
-            // Send message to chat?
+            const usage = triggeredSubcmd ? triggeredSubcmd.usage : command.usage;
+            this.sendFeedback(firebotChatMessage, `Invalid command. Usage: ${command.trigger} ${usage || ""}`.trim(), chatActions);
             return false;
         }
 
-        // Cooldown manager is not currently exposed from Firebot to custom scripts.
+        // Cooldown manager is not currently exposed from Firebot to custom scripts, so the integration tracks its own.
+        const remainingCooldown = this.cooldownManager.getRemainingCooldown(command, triggeredSubcmd, firebotChatMessage.userId);
+        if (remainingCooldown > 0) {
+            logger.debug(`Command '${command.trigger}' is still on cooldown for ${remainingCooldown}s`);
+            const messageOptions = command as CommandDefinition & CooldownMessageOptions;
+            if (messageOptions.sendCooldownMessage === true) {
+                const template = messageOptions.useCustomCooldownMessage && messageOptions.cooldownMessage ? messageOptions.cooldownMessage : DEFAULT_COOLDOWN_MESSAGE;
+                const message = template.replace(/\{user\}/g, firebotChatMessage.userDisplayName || commandSender).replace(/\{timeLeft\}/g, formatTimeLeft(remainingCooldown));
+                this.sendFeedback(firebotChatMessage, message, chatActions);
+            }
+            return false;
+        }
 
         // Check if command passes all restrictions
         let restrictionData = command.restrictionData;
@@ -198,12 +305,18 @@ export class CommandHandler {
                 }
 
                 logger.debug(`${commandSender} could not use command '${command.trigger}' because: ${reason}`);
+
+                const failMessageOptions = restrictionData as typeof restrictionData & RestrictionFailMessageOptions;
+                if (failMessageOptions.sendFailMessage !== false) {
+                    const template = failMessageOptions.useCustomFailMessage && failMessageOptions.failMessage ? failMessageOptions.failMessage : DEFAULT_RESTRICTION_FAIL_MESSAGE;
+                    this.sendFeedback(firebotChatMessage, template.replace(/\{reason\}/g, String(reason)), chatActions);
+                }
                 return false;
             }
         }
 
         // If command is not on cooldown AND it passes restrictions, then we can run it. Store the cooldown.
-        // commandCooldownManager.cooldownCommand(command, triggeredSubcmd, commandSender);
+        this.cooldownManager.cooldownCommand(command, triggeredSubcmd, firebotChatMessage.userId);
 
         // update the count for the command
         if (command.type === "custom") {
@@ -0,0 +1,187 @@
+import { ConnectionState } from "../events";
+import { triggerConnectionStateChanged } from "../events/connection";
+import type { YouTubeIntegration } from "../integration-singleton";
+import { logger } from "../main";
+import { ApiCallType, ErrorCategory } from "./error-constants";
+import { ErrorTracker } from "./error-tracker";
+import { QuotaManager } from "./quota-manager";
+
+/**
+ * Delay before the first reconnect attempt after a network failure
+ */
+export const RECONNECT_BASE_DELAY_MS = 5 * 1000;
+
+/**
+ * Longest delay between reconnect attempts
+ */
+export const RECONNECT_MAX_DELAY_MS = 5 * 60 * 1000;
+
+/**
+ * Wait after the quota reset before reconnecting, plus up to the same again at random
+ */
+const QUOTA_RESET_GRACE_MS = 60 * 1000;
+
+/**
+ * Calculate a capped exponential backoff delay with jitter
+ *
+ * The delay doubles with each attempt up to the cap, and a random part of up to half of
+ * it is taken off so that retries from several clients do not line up.
+ *
+ * @param attempt The attempt number (1 for the first retry)
+ * @param baseDelayMs Delay of the first attempt before jitter
+ * @param maxDelayMs Cap on the delay before jitter
+ * @returns Delay in milliseconds
+ */
+export function calculateBackoffDelay(attempt: number, baseDelayMs = RECONNECT_BASE_DELAY_MS, maxDelayMs = RECONNECT_MAX_DELAY_MS): number {
+    const cappedDelay = Math.min(maxDelayMs, baseDelayMs * 2 ** Math.max(0, attempt - 1));
+    return Math.round(cappedDelay / 2 + (cappedDelay / 2) * Math.random());
+}
+
+/**
+ * Reconnects the integration automatically after failures that go away by themselves
+ *
+ * Failures are classified with the ErrorTracker's categories:
+ * - NETWORK_ERROR (including token refreshes that failed for network reasons): retry with
+ *   capped exponential backoff and jitter
+ * - QUOTA_EXCEEDED: wait for the daily quota reset at midnight Pacific Time
+ * - anything else (e.g. UNAUTHENTICATED): give up, since the user has to act
+ */
+export class ConnectionSupervisor {
+    private integration: YouTubeIntegration;
+    private errorTracker: ErrorTracker;
+    private quotaManager: QuotaManager;
+    private state = ConnectionState.DISCONNECTED;
+    private attempt = 0;
+    private retryTimer: NodeJS.Timeout | null = null;
+    private nextRetryAt: number | null = null;
+
+    constructor(integration: YouTubeIntegration, errorTracker: ErrorTracker, quotaManager: QuotaManager) {
+        this.integration = integration;
+        this.errorTracker = errorTracker;
+        this.quotaManager = quotaManager;
+    }
+
+    getState(): ConnectionState {
+        return this.state;
+    }
+
+    /**
+     * Get the time until the next reconnect attempt
+     * @returns Delay in milliseconds, or null if no attempt is scheduled
+     */
+    getRetryDelay(): number | null {
+        return this.nextRetryAt === null ? null : Math.max(0, this.nextRetryAt - Date.now());
+    }
+
+    /**
+     * Classify a failure, falling back to the last token refresh failure when the error itself
+     * does not say (a failed refresh surfaces as a missing access token or an application that
+     * is no longer ready). Rate limits are retried like network errors rather than waiting for
+     * the daily quota reset.
+     */
+    classifyFailure(error: any): ErrorCategory {
+        const category = this.errorTracker.categorize(error);
+        if (category === ErrorCategory.QUOTA_EXCEEDED && !this.quotaManager.isDailyQuotaExhaustedError(error)) {
+            return ErrorCategory.NETWORK_ERROR;
+        }
+        if ((category === ErrorCategory.UNKNOWN || category === ErrorCategory.UNAUTHENTICATED) && this.errorTracker.getLastErrorCategory(ApiCallType.REFRESH_TOKEN) === ErrorCategory.NETWORK_ERROR) {
+            return ErrorCategory.NETWORK_ERROR;
+        }
+        return category;
+    }
+
+    /**
+     * Record that the integration connected
+     */
+    handleConnected(): void {
+        this.cancelRetry();
+        if (this.attempt > 0) {
+            logger.info(`YouTube integration reconnected after ${this.attempt} attempt(s)`);
+        }
+        this.setState(ConnectionState.CONNECTED, "", "");
+        this.attempt = 0;
+    }
+
+    /**
+     * Handle a failure that disconnected the integration
+     * @param error The failure
+     * @param category The failure's category, if known better than from the error
+     * @returns true if a reconnect was scheduled
+     */
+    handleFailure(error: any, category: ErrorCategory = this.classifyFailure(error)): boolean {
+        this.cancelRetry();
+        const errorMessage = error instanceof Error ? error.message : String(error);
+
+        if (category === ErrorCategory.NETWORK_ERROR) {
+            this.attempt++;
+            const delay = calculateBackoffDelay(this.attempt);
+            logger.warn(`YouTube connection failed (${category}): ${errorMessage}. Reconnect attempt ${this.attempt} in ${Math.round(delay / 1000)}s`);
+            this.scheduleRetry(delay);
+            this.setState(ConnectionState.RECONNECTING, category, errorMessage);
+            return true;
+        }
+
+        if (category === ErrorCategory.QUOTA_EXCEEDED) {
+            this.attempt++;
+            const delay = Math.max(0, this.quotaManager.calculateNextMidnightPT() - Date.now()) + QUOTA_RESET_GRACE_MS + Math.round(QUOTA_RESET_GRACE_MS * Math.random());
+            logger.warn(`YouTube quota exceeded: ${errorMessage}. Reconnecting after the quota reset in ${Math.round(delay / 60000)} minute(s)`);
+            this.scheduleRetry(delay);
+            this.setState(ConnectionState.WAITING_FOR_QUOTA_RESET, category, errorMessage);
+            return true;
+        }
+
+        logger.error(`YouTube connection failed (${category}): ${errorMessage}. Not reconnecting automatically.`);
+        this.setState(ConnectionState.FAILED, category, errorMessage);
+        this.attempt = 0;
+        return false;
+    }
+
+    /**
+     * Stop reconnecting, e.g. because the user disconnected the integration
+     */
+    stop(): void {
+        this.cancelRetry();
+        this.attempt = 0;
+        this.setState(ConnectionState.DISCONNECTED, "", "");
+    }
+
+    private scheduleRetry(delayMs: number): void {
+        this.nextRetryAt = Date.now() + delayMs;
+        this.retryTimer = setTimeout(() => {
+            this.retryTimer = null;
+            this.nextRetryAt = null;
+            logger.info(`Reconnecting YouTube integration (attempt ${this.attempt})`);
+            this.integration.connect().catch((error: any) => {
+                logger.error(`Reconnect attempt failed: ${error.message}`);
+            });
+        }, delayMs);
+    }
+
+    private cancelRetry(): void {
+        if (this.retryTimer) {
+            clearTimeout(this.retryTimer);
+            this.retryTimer = null;
+        }
+        this.nextRetryAt = null;
+    }
+
+    private setState(state: ConnectionState, errorCategory: ErrorCategory | "", errorMessage: string): void {
+        const previousState = this.state;
+        this.state = state;
+
+        // Each failed attempt is reported, even when the state does not change
+        if (previousState === state && errorCategory === "") {
+            return;
+        }
+
+        const retryDelay = this.getRetryDelay();
+        triggerConnectionStateChanged({
+            state,
+            previousState,
+            errorCategory,
+            errorMessage,
+            attempt: this.attempt,
+            retryInSeconds: retryDelay === null ? -1 : Math.round(retryDelay / 1000)
+        });
+    }
+}
@@ -0,0 +1,220 @@
+/**
+ * CredentialStore encrypts OAuth credentials (client secrets, refresh tokens) at rest
+ *
+ * Responsibilities:
+ * - Encrypt and decrypt credential values with AES-256-GCM using a per-install key
+ * - Protect the key with the OS keychain (Electron safeStorage) where available,
+ *   falling back to a user-only key file (always the case on Linux without a keyring)
+ * - Keep the key outside the Firebot profile so backups and support zips cannot decrypt credentials
+ * - Pass plaintext values through on decryption so existing files can be migrated transparently
+ */
+
+import { createCipheriv, createDecipheriv, randomBytes } from "crypto";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { IntegrationConstants } from "../constants";
+import { logger } from "../main";
+
+const ENCRYPTED_PREFIX = "enc:v1:";
+const CIPHER_ALGORITHM = "aes-256-gcm";
+const KEY_LENGTH_BYTES = 32;
+const IV_LENGTH_BYTES = 12;
+const KEY_FILE_NAME = "credentials.key";
+
+export const REDACTED_VALUE = "[REDACTED]";
+
+/**
+ * How the per-install key is protected on disk
+ */
+export type KeyProtection = "os-keychain" | "file";
+
+interface KeyFile {
+    version: 1;
+    protection: KeyProtection;
+    key: string;
+}
+
+/**
+ * The subset of Electron's safeStorage API used to protect the key
+ */
+interface SafeStorage {
+    isEncryptionAvailable(): boolean;
+    encryptString(plainText: string): Buffer;
+    decryptString(encrypted: Buffer): string;
+    getSelectedStorageBackend?(): string;
+}
+
+/**
+ * Get Electron's safeStorage if it is usable for protecting the key.
+ * On Linux, safeStorage silently falls back to a hard-coded password when no
+ * keyring is available, so a key file is used instead in that case.
+ */
+function getSafeStorage(): SafeStorage | null {
+    try {
+        // biome-ignore lint/style/noCommonJs: Electron is only available at runtime inside Firebot
+        const { safeStorage } = require("electron") as { safeStorage?: SafeStorage };
+        if (!safeStorage?.isEncryptionAvailable()) {
+            return null;
+        }
+
+        if (process.platform === "linux") {
+            const backend = safeStorage.getSelectedStorageBackend?.() ?? "unknown";
+            if (backend === "basic_text" || backend === "unknown") {
+                return null;
+            }
+        }
+
+        return safeStorage;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Get the path of the key file in the per-user configuration directory (outside the Firebot profile)
+ */
+function getDefaultKeyFilePath(): string {
+    let configDir: string;
+    if (process.platform === "win32") {
+        configDir = process.env.APPDATA || path.join(os.homedir(), "AppData", "Roaming");
+    } else if (process.platform === "darwin") {
+        configDir = path.join(os.homedir(), "Library", "Application Support");
+    } else {
+        configDir = process.env.XDG_CONFIG_HOME || path.join(os.homedir(), ".config");
+    }
+    return path.join(configDir, IntegrationConstants.INTEGRATION_ID, KEY_FILE_NAME);
+}
+
+export class CredentialStore {
+    private keyFilePath: string;
+    private safeStorageProvider: () => SafeStorage | null;
+    private key: Buffer | null = null;
+    private keyMissing = false;
+
+    constructor(keyFilePath?: string, safeStorageProvider: () => SafeStorage | null = getSafeStorage) {
+        this.keyFilePath = keyFilePath ?? getDefaultKeyFilePath();
+        this.safeStorageProvider = safeStorageProvider;
+    }
+
+    /**
+     * Whether a stored value is encrypted (as opposed to legacy plaintext)
+     */
+    isEncrypted(value: string | undefined): boolean {
+        return !!value && value.startsWith(ENCRYPTED_PREFIX);
+    }
+
+    /**
+     * Encrypt a credential value for storage. Empty values are stored as-is.
+     */
+    encrypt(plaintext: string): string {
+        if (!plaintext || this.isEncrypted(plaintext)) {
+            return plaintext;
+        }
+
+        const iv = randomBytes(IV_LENGTH_BYTES);
+        const cipher = createCipheriv(CIPHER_ALGORITHM, this.getKey(!this.keyMissing), iv);
+        const ciphertext = Buffer.concat([cipher.update(plaintext, "utf8"), cipher.final()]);
+        const tag = cipher.getAuthTag();
+
+        return `${ENCRYPTED_PREFIX}${iv.toString("base64")}:${tag.toString("base64")}:${ciphertext.toString("base64")}`;
+    }
+
+    /**
+     * Decrypt a stored credential value. Plaintext (unmigrated) values are returned unchanged.
+     * @throws Error if the value is encrypted but cannot be decrypted with this install's key,
+     * or if the key file is missing
+     */
+    decrypt(value: string): string {
+        if (!this.isEncrypted(value)) {
+            return value;
+        }
+
+        const [iv, tag, ciphertext] = value.substring(ENCRYPTED_PREFIX.length).split(":");
+        if (!iv || !tag || ciphertext === undefined) {
+            throw new Error("Malformed encrypted credential");
+        }
+
+        const decipher = createDecipheriv(CIPHER_ALGORITHM, this.getKey(false), Buffer.from(iv, "base64"));
+        decipher.setAuthTag(Buffer.from(tag, "base64"));
+        return Buffer.concat([decipher.update(Buffer.from(ciphertext, "base64")), decipher.final()]).toString("utf8");
+    }
+
+    /**
+     * Allow a new key to be created again once no values encrypted with the missing key are left
+     * (e.g. after the affected applications were removed)
+     */
+    clearMissingKey(): void {
+        this.keyMissing = false;
+    }
+
+    /**
+     * Load the per-install key, creating it on first use.
+     * A new key is never created for a decryption, or once an encrypted value has been found
+     * without a key file: values encrypted with a new key would become unreadable if the
+     * original key file were restored.
+     * @param allowCreate Whether a missing key may be created
+     */
+    private getKey(allowCreate: boolean): Buffer {
+        if (this.key) {
+            return this.key;
+        }
+
+        if (fs.existsSync(this.keyFilePath)) {
+            this.key = this.readKeyFile();
+            this.keyMissing = false;
+            return this.key;
+        }
+
+        if (!allowCreate) {
+            if (!this.keyMissing) {
+                logger.error(`Credential encryption key "${this.keyFilePath}" is missing, but encrypted credentials exist. Restore the key file, or re-enter the client secret and re-authorize the affected applications.`);
+                this.keyMissing = true;
+            }
+            throw new Error("Credential encryption key is missing");
+        }
+
+        this.key = this.createKeyFile();
+        return this.key;
+    }
+
+    private readKeyFile(): Buffer {
+        const keyFile = JSON.parse(fs.readFileSync(this.keyFilePath, "utf8")) as KeyFile;
+        const stored = Buffer.from(keyFile.key, "base64");
+
+        if (keyFile.protection === "os-keychain") {
+            const safeStorage = this.safeStorageProvider();
+            if (!safeStorage) {
+                throw new Error("Credential key is protected by the OS keychain, but the keychain is not available");
+            }
+            return Buffer.from(safeStorage.decryptString(stored), "base64");
+        }
+
+        return stored;
+    }
+
+    private createKeyFile(): Buffer {
+        const key = randomBytes(KEY_LENGTH_BYTES);
+        const safeStorage = this.safeStorageProvider();
+
+        const keyFile: KeyFile = safeStorage ? { version: 1, protection: "os-keychain", key: safeStorage.encryptString(key.toString("base64")).toString("base64") } : { version: 1, protection: "file", key: key.toString("base64") };
+
+        fs.mkdirSync(path.dirname(this.keyFilePath), { recursive: true });
+        const tempPath = `${this.keyFilePath}.tmp`;
+        fs.rmSync(tempPath, { force: true });
+        fs.writeFileSync(tempPath, JSON.stringify(keyFile, null, 2), { encoding: "utf8", mode: 0o600 });
+        fs.renameSync(tempPath, this.keyFilePath);
+        logger.info(`Created credential encryption key (protection: ${keyFile.protection}) at "${this.keyFilePath}"`);
+
+        return key;
+    }
+}
+
+/**
+ * Replace a credential with a placeholder for sharing (empty values stay empty so "not set" is still visible)
+ */
+export function redactCredential(value: string | undefined): string {
+    return value ? REDACTED_VALUE : "";
+}
+
+export const credentialStore = new CredentialStore();
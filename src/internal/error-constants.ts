@@ -30,5 +30,12 @@ export enum ApiCallType {
     SEND_CHAT_MESSAGE = "SendChatMessage",
     GET_LIVE_BROADCASTS = "GetLiveBroadcasts",
     STREAM_CHAT_MESSAGES = "StreamChatMessages",
-    REFRESH_TOKEN = "RefreshToken"
+    REFRESH_TOKEN = "RefreshToken",
+    MANAGE_POLL = "ManagePoll",
+    DELETE_CHAT_MESSAGE = "DeleteChatMessage",
+    BAN_USER = "BanUser",
+    UNBAN_USER = "UnbanUser",
+    MANAGE_MODERATORS = "ManageModerators",
+    UPDATE_BROADCAST = "UpdateBroadcast",
+    GET_CHANNEL = "GetChannel"
 }
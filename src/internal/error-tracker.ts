@@ -25,6 +25,7 @@ interface ErrorMetadata {
  */
 export class ErrorTracker {
     private consecutiveFailuresMap = new Map<ApiCallType, number>();
+    private lastErrorCategoryMap = new Map<ApiCallType, ErrorCategory>();
 
     constructor() {
         // Initialize all API call types with 0 failures
@@ -47,6 +48,7 @@ export class ErrorTracker {
 
         const errorMessage = this.extractErrorMessage(error);
         const errorCategory = this.categorizeError(error, errorMessage);
+        this.lastErrorCategoryMap.set(apiCall, errorCategory);
 
         return {
             apiCall,
@@ -63,6 +65,7 @@ export class ErrorTracker {
      */
     recordSuccess(apiCall: ApiCallType): void {
         this.consecutiveFailuresMap.set(apiCall, 0);
+        this.lastErrorCategoryMap.delete(apiCall);
     }
 
     /**
@@ -75,6 +78,26 @@ export class ErrorTracker {
         return this.consecutiveFailuresMap.get(apiCall) ?? 0;
     }
 
+    /**
+     * Get the category of the most recent error for an API call type
+     *
+     * @param apiCall The type of API call
+     * @returns The category, or null if the last call succeeded or no call has failed
+     */
+    getLastErrorCategory(apiCall: ApiCallType): ErrorCategory | null {
+        return this.lastErrorCategoryMap.get(apiCall) ?? null;
+    }
+
+    /**
+     * Categorize an error without recording it
+     *
+     * @param error The error object/message
+     * @returns The categorized ErrorCategory
+     */
+    categorize(error: any): ErrorCategory {
+        return this.categorizeError(error, this.extractErrorMessage(error));
+    }
+
     /**
      * Extract a readable error message from an error object
      *
@@ -141,8 +164,10 @@ export class ErrorTracker {
             return ErrorCategory.INVALID_REQUEST;
         }
 
-        // Check for NETWORK_ERROR
-        if (message.includes("timeout") || message.includes("econnrefused") || message.includes("enotfound") || message.includes("network") || error?.code === 14) {
+        // Check for NETWORK_ERROR (including server errors, which are temporary)
+        const networkMessages = ["timeout", "econnrefused", "econnreset", "etimedout", "enotfound", "eai_again", "socket hang up", "fetch failed", "network"];
+        const status = error?.status ?? error?.response?.status;
+        if (networkMessages.some((text) => message.includes(text)) || error?.code === 4 || error?.code === 14 || (typeof status === "number" && status >= 500 && status <= 599)) {
             return ErrorCategory.NETWORK_ERROR;
         }
 
@@ -0,0 +1,98 @@
+import { logger } from "../main";
+import { RestApiClient } from "./rest-api-client";
+
+export interface YouTubeModerator {
+    /**
+     * ID of the moderator resource, required to remove the moderator
+     */
+    moderatorId: string;
+    channelId: string;
+    displayName: string;
+    profilePicUrl: string;
+}
+
+/**
+ * ModeratorManager keeps a cached list of the current live chat's moderators
+ *
+ * Responsibilities:
+ * - Refresh the moderator list when chat streaming starts
+ * - Add and remove moderators through the REST API, keeping the cache in sync
+ * - Resolve channel IDs to moderator resource IDs (required by the API for removal)
+ */
+export class ModeratorManager {
+    private restApiClient: RestApiClient;
+    private moderators: YouTubeModerator[] = [];
+
+    constructor(restApiClient: RestApiClient) {
+        this.restApiClient = restApiClient;
+    }
+
+    /**
+     * Replace the cached moderator list with the current list from YouTube.
+     * The cache is left unchanged if the list cannot be retrieved.
+     */
+    async refresh(): Promise<void> {
+        const moderators = await this.restApiClient.listModerators();
+        if (moderators === null) {
+            logger.warn("Failed to refresh YouTube moderator list; keeping cached list");
+            return;
+        }
+
+        this.moderators = moderators;
+        logger.debug(`Cached ${moderators.length} YouTube moderator(s)`);
+    }
+
+    /**
+     * Clear the cached moderator list (e.g. when the stream ends)
+     */
+    clear(): void {
+        this.moderators = [];
+    }
+
+    getModerators(): YouTubeModerator[] {
+        return [...this.moderators];
+    }
+
+    isModerator(channelId: string): boolean {
+        return this.moderators.some((moderator) => moderator.channelId === channelId);
+    }
+
+    /**
+     * Promote a user to moderator in the current live chat
+     * @param channelId The YouTube channel ID of the user
+     * @returns True if the user is a moderator after the call
+     */
+    async addModerator(channelId: string): Promise<boolean> {
+        if (this.isModerator(channelId)) {
+            logger.debug(`YouTube user ${channelId} is already a moderator`);
+            return true;
+        }
+
+        const moderator = await this.restApiClient.addModerator(channelId);
+        if (!moderator) {
+            return false;
+        }
+
+        this.moderators.push(moderator);
+        return true;
+    }
+
+    /**
+     * Demote a moderator in the current live chat
+     * @param channelId The YouTube channel ID of the moderator
+     * @returns True if the moderator was removed
+     */
+    async removeModerator(channelId: string): Promise<boolean> {
+        const moderator = this.moderators.find((m) => m.channelId === channelId);
+        if (!moderator) {
+            logger.warn(`Cannot remove YouTube moderator ${channelId}: User is not in the moderator list`);
+            return false;
+        }
+
+        const success = await this.restApiClient.removeModerator(moderator.moderatorId);
+        if (success) {
+            this.moderators = this.moderators.filter((m) => m.channelId !== channelId);
+        }
+        return success;
+    }
+}
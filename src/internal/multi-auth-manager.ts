@@ -489,6 +489,11 @@ class ApplicationAuthManager {
             throw new Error("No refresh token available");
         }
 
+        // Never send undecryptable credentials to Google: the refresh would fail as invalid and clear them
+        if (this.applicationManager.hasUndecryptableCredentials(application)) {
+            throw new Error("Stored credentials could not be decrypted. Please re-enter the client secret and re-authorize.");
+        }
+
         const oauth2Client = new OAuth2Client(application.clientId, application.clientSecret);
 
         oauth2Client.setCredentials({
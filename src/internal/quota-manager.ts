@@ -5,24 +5,55 @@
  * - Calculate delay between streamList calls based on quota settings
  * - Record actual API call consumption per application
  * - Track quota usage across Firebot restarts
+ * - Keep a per-day, per-endpoint usage history for a configurable number of days
  * - Reset quota at midnight Pacific Time daily
  * - Validate quota availability before API calls
  * - Consider daily quota budget and maximum stream duration
  * - Target 80% quota usage to leave buffer for other API calls
  * - Support manual override of calculated delays
+ * - Optionally adapt the delay to remaining quota, time until reset and chat activity
+ * - Optionally enforce quota budgets per operation class, keeping a reservation for chat polling
+ * - Reconcile estimated usage with observed usage (quotaExceeded errors and manual entry)
  */
 
-import fs from "fs";
 import { DateTime } from "luxon";
-import path from "path";
+import { triggerQuotaBudgetBlocked } from "../events/quota-budget";
 import { triggerQuotaThresholdCrossed } from "../events/quota-threshold";
 import type { YouTubeIntegration } from "../integration-singleton";
 import { logger } from "../main";
 import { QuotaSettings } from "../types";
-import { QUOTA_COSTS, QUOTA_PROPERTIES, QuotaTrackingStorage, QuotaUsage } from "../types/quota-tracking";
-import { getDataFilePath } from "../util/datafile";
+import {
+    QUOTA_COSTS,
+    QUOTA_OPERATION_CLASSES,
+    QUOTA_PROPERTIES,
+    QuotaEndpointTotal,
+    QuotaHistory,
+    QuotaHistoryDay,
+    QuotaHistoryReport,
+    QuotaOperationClass,
+    QuotaReconciliation,
+    QuotaReconciliationSource,
+    QuotaTrackingStorage,
+    QuotaUsage
+} from "../types/quota-tracking";
+import { DataFileOptions, getDataFilePath, readDataFile, writeDataFile } from "../util/datafile";
 import { FAILOVER_THRESHOLD_DEFAULT } from "./quota-failover-manager";
 
+export const QUOTA_HISTORY_RETENTION_DAYS_DEFAULT = 30;
+export const QUOTA_POLLING_RESERVE_PERCENT_DEFAULT = 80;
+export const QUOTA_CLASS_CAP_PERCENT_DEFAULT = 100;
+
+/**
+ * Observed state of the chat stream used to adapt the polling delay
+ */
+export interface AdaptiveDelayContext {
+    /** Unix timestamp (ms) when chat streaming started */
+    streamStartedAt: number;
+
+    /** Recent chat activity in messages per minute */
+    messagesPerMinute: number;
+}
+
 export class QuotaManager {
     /**
      * Target percentage of daily quota to use for chat polling
@@ -36,11 +67,68 @@ export class QuotaManager {
      */
     private static readonly SAVE_DEBOUNCE_MS = 5000;
 
+    /**
+     * Schema of quota-tracking.json. Version 1 introduced the versioned file format.
+     * Version 2 moved the per-application usage under "usage" and added "history".
+     * Version 3 added "reconciliations".
+     */
+    private static readonly DATA_FILE_OPTIONS: DataFileOptions = {
+        schemaVersion: 3,
+        migrations: {
+            1: (data) => data,
+            2: (data) => ({ usage: data, history: {} }),
+            3: (data) => ({ ...data, reconciliations: {} })
+        }
+    };
+
+    /**
+     * Number of reconciliations kept per application
+     */
+    private static readonly MAX_RECONCILIATIONS = 20;
+
+    /**
+     * Adaptive delay bounds (ms)
+     */
+    private static readonly ADAPTIVE_MIN_DELAY_MS = 1000;
+    private static readonly ADAPTIVE_MAX_DELAY_MS = 120000;
+
+    /**
+     * Chat activity (messages per minute) at or above which chat is considered busy,
+     * and below which it is considered quiet
+     */
+    private static readonly ADAPTIVE_BUSY_MESSAGES_PER_MINUTE = 20;
+    private static readonly ADAPTIVE_QUIET_MESSAGES_PER_MINUTE = 2;
+
+    /**
+     * Fraction of the daily quota that must remain before busy chat may speed up polling
+     */
+    private static readonly ADAPTIVE_PLENTIFUL_QUOTA_FRACTION = 0.5;
+
+    /**
+     * Minimum time (seconds) to plan for when the stream has run past maxStreamHours
+     */
+    private static readonly ADAPTIVE_MIN_HORIZON_SECONDS = 1800;
+
+    /**
+     * Time zone in which YouTube quota days start and end
+     */
+    private static readonly QUOTA_TIME_ZONE = "America/Los_Angeles";
+
     /**
      * In-memory tracking of quota usage per application
      */
     private quotaData: Map<string, QuotaUsage>;
 
+    /**
+     * In-memory per-day, per-endpoint usage history per application
+     */
+    private quotaHistory: Map<string, QuotaHistory>;
+
+    /**
+     * In-memory recent reconciliations per application
+     */
+    private reconciliations: Map<string, QuotaReconciliation[]>;
+
     /**
      * Timer for debounced save operations
      */
@@ -53,6 +141,8 @@ export class QuotaManager {
 
     constructor(integration?: YouTubeIntegration) {
         this.quotaData = new Map();
+        this.quotaHistory = new Map();
+        this.reconciliations = new Map();
         this.integration = integration;
     }
 
@@ -102,6 +192,175 @@ export class QuotaManager {
         return delayMilliseconds < 0 ? 0 : Math.round(delayMilliseconds);
     }
 
+    /**
+     * Calculate the delay in milliseconds before the next streamList call from the
+     * quota actually remaining, rather than from the settings alone
+     *
+     * The polling budget (remaining quota less the buffer kept for other operations) is spread
+     * over the shorter of the time until the quota resets and the expected remaining stream time.
+     * Busy chat speeds polling up while quota is plentiful; quiet chat slows it down to save quota.
+     *
+     * @param applicationId Application ID whose quota is used for polling
+     * @param quotaSettings The quota settings for the application
+     * @param context Observed stream duration and chat activity
+     * @returns delay in milliseconds, or null if settings are invalid
+     */
+    calculateAdaptiveDelay(applicationId: string, quotaSettings: QuotaSettings, context: AdaptiveDelayContext): number | null {
+        // A manual override always wins
+        if (quotaSettings.overridePollingDelay && quotaSettings.customPollingDelaySeconds >= 0) {
+            return Math.round(1000 * quotaSettings.customPollingDelaySeconds);
+        }
+
+        const { dailyQuota, maxStreamHours } = quotaSettings;
+        if (!dailyQuota || dailyQuota <= 0 || !maxStreamHours || maxStreamHours <= 0) {
+            logger.error("Invalid quota settings. dailyQuota and maxStreamHours must be > 0");
+            return null;
+        }
+
+        const now = Date.now();
+        const remaining = this.getQuotaRemaining(applicationId, dailyQuota);
+        const reserved = dailyQuota * (1 - QuotaManager.QUOTA_TARGET_PERCENT);
+        const pollingBudget = remaining - reserved;
+        const affordableCalls = Math.floor(pollingBudget / QUOTA_COSTS.STREAM_LIST);
+
+        if (affordableCalls <= 1) {
+            logger.debug(`Adaptive polling: quota budget exhausted for application ${applicationId} (${remaining} remaining), using maximum delay`);
+            return QuotaManager.ADAPTIVE_MAX_DELAY_MS;
+        }
+
+        const resetTime = this.getQuotaUsage(applicationId)?.quotaResetTime ?? this.calculateNextMidnightPT();
+        const secondsUntilReset = Math.max(0, (resetTime - now) / 1000);
+        const elapsedStreamSeconds = Math.max(0, (now - context.streamStartedAt) / 1000);
+        const remainingStreamSeconds = Math.max(QuotaManager.ADAPTIVE_MIN_HORIZON_SECONDS, maxStreamHours * 3600 - elapsedStreamSeconds);
+        const horizonSeconds = Math.min(secondsUntilReset, remainingStreamSeconds);
+
+        // Same model as calculateDelay: each call holds the stream open, then waits for the delay
+        const baseDelayMs = (1000 * (horizonSeconds - affordableCalls * QUOTA_PROPERTIES.STREAM_LIST_DURATION_SECONDS)) / (affordableCalls - 1);
+
+        let activityFactor = 1;
+        if (context.messagesPerMinute >= QuotaManager.ADAPTIVE_BUSY_MESSAGES_PER_MINUTE && remaining >= dailyQuota * QuotaManager.ADAPTIVE_PLENTIFUL_QUOTA_FRACTION) {
+            activityFactor = 0.5;
+        } else if (context.messagesPerMinute < QuotaManager.ADAPTIVE_QUIET_MESSAGES_PER_MINUTE) {
+            activityFactor = 2;
+        }
+
+        const delayMs = Math.min(QuotaManager.ADAPTIVE_MAX_DELAY_MS, Math.max(QuotaManager.ADAPTIVE_MIN_DELAY_MS, baseDelayMs * activityFactor));
+
+        logger.debug(
+            `Adaptive polling: remaining=${remaining}, affordableCalls=${affordableCalls}, horizon=${horizonSeconds.toFixed(0)}s, ` + `messagesPerMinute=${context.messagesPerMinute.toFixed(1)}, delayMilliseconds=${delayMs.toFixed(0)}ms`
+        );
+
+        return Math.round(delayMs);
+    }
+
+    /**
+     * Get the operation class an API endpoint is budgeted under.
+     * Endpoints without a known class are budgeted as broadcast calls.
+     */
+    getOperationClass(endpoint: string): QuotaOperationClass {
+        return QUOTA_OPERATION_CLASSES[endpoint] ?? "broadcast";
+    }
+
+    /**
+     * Get the quota units an application has used in the current quota day for one operation class
+     */
+    getOperationClassUsage(applicationId: string, operationClass: QuotaOperationClass): number {
+        const today = this.quotaHistory.get(applicationId)?.[this.getQuotaDay()] ?? {};
+        let units = 0;
+        for (const [endpoint, usage] of Object.entries(today)) {
+            if (this.getOperationClass(endpoint) === operationClass) {
+                units += usage.units;
+            }
+        }
+        return units;
+    }
+
+    /**
+     * Check whether an API call fits within the quota budgets, when budgets are enforced
+     *
+     * A call is refused if it would take its operation class past the class cap, or leave less
+     * quota than is still reserved for chat polling. Polling itself is never refused here:
+     * its rate is governed by the polling delay.
+     *
+     * @param applicationId Application that would make the call
+     * @param endpoint API endpoint name (as passed to recordApiCall)
+     * @param cost Total quota cost of the call
+     * @param notifyIfBlocked Whether to trigger the quota-budget-blocked event if the call is refused
+     * @returns true if the call may be made, false otherwise
+     */
+    checkBudget(applicationId: string, endpoint: string, cost: number, notifyIfBlocked = true): boolean {
+        const budgets = this.getSettings()?.quotaBudgets;
+        if (!budgets?.enforceQuotaBudgets) {
+            return true;
+        }
+
+        const operationClass = this.getOperationClass(endpoint);
+        if (operationClass === "polling") {
+            return true;
+        }
+
+        const application = this.integration?.getApplicationManager().getApplication(applicationId);
+        const dailyQuota = application?.quotaSettings?.dailyQuota;
+        if (!dailyQuota || dailyQuota <= 0) {
+            return true;
+        }
+
+        const reason = this.getBudgetViolation(applicationId, operationClass, cost, dailyQuota, budgets);
+        if (!reason) {
+            return true;
+        }
+
+        logger.warn(`Quota budget blocked ${endpoint} (${cost} units) for application ${applicationId}: ${reason}`);
+
+        if (notifyIfBlocked) {
+            triggerQuotaBudgetBlocked({
+                applicationId,
+                applicationName: application?.name ?? applicationId,
+                endpoint,
+                operationClass,
+                cost,
+                reason,
+                quotaConsumed: this.getQuotaUsage(applicationId)?.quotaUnitsUsed ?? 0,
+                quotaLimit: dailyQuota
+            });
+        }
+
+        return false;
+    }
+
+    /**
+     * Work out which budget (if any) a call would break
+     *
+     * @returns A description of the broken budget, or null if the call fits
+     */
+    private getBudgetViolation(applicationId: string, operationClass: QuotaOperationClass, cost: number, dailyQuota: number, budgets: any): string | null {
+        const capPercent = this.getPercentSetting(budgets[`${operationClass}CapPercent`], QUOTA_CLASS_CAP_PERCENT_DEFAULT);
+        if (capPercent < 100) {
+            const cap = Math.floor((dailyQuota * capPercent) / 100);
+            const classUsed = this.getOperationClassUsage(applicationId, operationClass);
+            if (classUsed + cost > cap) {
+                return `the ${operationClass} budget of ${cap} units (${capPercent}% of daily quota) would be exceeded (${classUsed} used)`;
+            }
+        }
+
+        // Quota still reserved for polling shrinks as polling uses it
+        const reservePercent = this.getPercentSetting(budgets.pollingReservePercent, QUOTA_POLLING_RESERVE_PERCENT_DEFAULT);
+        const pollingReserve = Math.max(0, Math.ceil((dailyQuota * reservePercent) / 100) - this.getOperationClassUsage(applicationId, "polling"));
+        const remaining = this.getQuotaRemaining(applicationId, dailyQuota);
+        if (remaining - cost < pollingReserve) {
+            return `${pollingReserve} units are reserved for chat polling and only ${remaining} remain`;
+        }
+
+        return null;
+    }
+
+    /**
+     * Read a percentage setting, falling back to the default when it is missing or out of range
+     */
+    private getPercentSetting(value: unknown, defaultValue: number): number {
+        return typeof value === "number" && Number.isFinite(value) && value >= 0 && value <= 100 ? value : defaultValue;
+    }
+
     /**
      * Check if an API error indicates quota exceeded
      *
@@ -137,6 +396,118 @@ export class QuotaManager {
         return false;
     }
 
+    /**
+     * Check if an API error means the daily quota is used up (as opposed to a short-term rate limit)
+     *
+     * YouTube is the authority on quota usage, so this is used to correct the local estimate.
+     */
+    isDailyQuotaExhaustedError(error: any): boolean {
+        if (!error) {
+            return false;
+        }
+
+        const reason = error.errors?.[0]?.reason ?? error.response?.data?.error?.errors?.[0]?.reason;
+        if (reason !== undefined) {
+            return reason === "quotaExceeded";
+        }
+
+        // gRPC errors only carry a message
+        const message = error.message?.toLowerCase() || "";
+        return message.includes("quota") && message.includes("exceed") && !message.includes("rate");
+    }
+
+    /**
+     * Mark an application's quota as exhausted until the next reset, because YouTube said so
+     *
+     * Usage is raised to the daily quota (crossing any thresholds on the way) and the
+     * difference from the local estimate is recorded as drift.
+     *
+     * @param applicationId Application whose call was rejected
+     */
+    markQuotaExhausted(applicationId: string): void {
+        const usage = this.getOrCreateQuotaUsage(applicationId);
+        if (usage.exhaustedAt) {
+            return;
+        }
+
+        const dailyQuota = this.getDailyQuota(applicationId);
+        const estimatedUnits = usage.quotaUnitsUsed;
+        const observedUnits = Math.max(estimatedUnits, dailyQuota ?? 0);
+        usage.exhaustedAt = Date.now();
+
+        logger.warn(`YouTube reported the quota of application ${applicationId} exhausted. Estimated usage was ${estimatedUnits}/${dailyQuota ?? "?"} units (drift: ${observedUnits - estimatedUnits} units)`);
+
+        this.applyObservedUsage(applicationId, usage, "quotaExceeded", observedUnits);
+    }
+
+    /**
+     * Set the quota units an application has used today, e.g. as shown in the Google Cloud console
+     *
+     * @param applicationId Application ID
+     * @param quotaUnitsUsed Quota units used since the last reset
+     * @throws Error if the value is not a non-negative integer
+     */
+    setQuotaUsage(applicationId: string, quotaUnitsUsed: number): void {
+        if (typeof quotaUnitsUsed !== "number" || !Number.isInteger(quotaUnitsUsed) || quotaUnitsUsed < 0) {
+            throw new Error("Quota usage must be a whole number of units, 0 or more");
+        }
+
+        const usage = this.getOrCreateQuotaUsage(applicationId);
+        const dailyQuota = this.getDailyQuota(applicationId);
+
+        // The user knows better than an earlier quotaExceeded error (e.g. after a quota increase)
+        if (!dailyQuota || quotaUnitsUsed < dailyQuota) {
+            usage.exhaustedAt = undefined;
+        }
+
+        logger.info(`Quota usage of application ${applicationId} set to ${quotaUnitsUsed} units (was estimated at ${usage.quotaUnitsUsed})`);
+
+        this.applyObservedUsage(applicationId, usage, "manual", quotaUnitsUsed);
+    }
+
+    /**
+     * Check if YouTube has reported an application's quota exhausted since the last reset
+     */
+    isQuotaExhausted(applicationId: string): boolean {
+        return !!this.getQuotaUsage(applicationId)?.exhaustedAt;
+    }
+
+    /**
+     * Get recent corrections of an application's estimated usage, oldest first
+     */
+    getQuotaReconciliations(applicationId: string): QuotaReconciliation[] {
+        return [...(this.reconciliations.get(applicationId) ?? [])];
+    }
+
+    /**
+     * Replace the estimated usage with observed usage and record the drift
+     */
+    private applyObservedUsage(applicationId: string, usage: QuotaUsage, source: QuotaReconciliationSource, observedUnits: number): void {
+        const estimatedUnits = usage.quotaUnitsUsed;
+        const now = Date.now();
+
+        const entries = this.reconciliations.get(applicationId) ?? [];
+        entries.push({ timestamp: now, source, estimatedUnits, observedUnits, drift: observedUnits - estimatedUnits });
+        this.reconciliations.set(applicationId, entries.slice(-QuotaManager.MAX_RECONCILIATIONS));
+
+        usage.quotaUnitsUsed = observedUnits;
+        usage.lastUpdated = now;
+
+        const dailyQuota = this.getDailyQuota(applicationId);
+        if (dailyQuota && dailyQuota > 0) {
+            this.checkThresholdCrossings(applicationId, estimatedUnits, observedUnits, dailyQuota);
+        }
+
+        this.scheduleSave();
+    }
+
+    /**
+     * Look up the daily quota of an application
+     */
+    private getDailyQuota(applicationId: string): number | undefined {
+        return this.integration?.getApplicationManager().getApplication(applicationId)?.quotaSettings?.dailyQuota;
+    }
+
     /**
      * Format delay for display to user
      */
@@ -180,21 +551,11 @@ export class QuotaManager {
      * Automatically schedules a debounced save
      *
      * @param applicationId Application ID making the API call
-     * @param endpoint API endpoint name for logging
+     * @param endpoint API endpoint name for logging and usage history
      * @param cost Quota cost of the API call
      */
     recordApiCall(applicationId: string, endpoint: string, cost: number): void {
-        this.checkAndResetIfNeeded(applicationId);
-
-        let usage = this.quotaData.get(applicationId);
-        if (!usage) {
-            usage = {
-                quotaUnitsUsed: 0,
-                quotaResetTime: this.calculateNextMidnightPT(),
-                lastUpdated: Date.now()
-            };
-            this.quotaData.set(applicationId, usage);
-        }
+        const usage = this.getOrCreateQuotaUsage(applicationId);
 
         const oldUsage = usage.quotaUnitsUsed;
         usage.quotaUnitsUsed += cost;
@@ -202,6 +563,8 @@ export class QuotaManager {
 
         logger.debug(`Quota recorded for application ${applicationId}: ${endpoint} (${cost} units), total: ${usage.quotaUnitsUsed}`);
 
+        this.recordHistory(applicationId, endpoint, cost);
+
         // Check for threshold crossings by looking up daily quota from application
         if (this.integration) {
             const application = this.integration.getApplicationManager().getApplication(applicationId);
@@ -214,6 +577,124 @@ export class QuotaManager {
         this.scheduleSave();
     }
 
+    /**
+     * Get the current quota usage of an application, starting a new record if there is none
+     */
+    private getOrCreateQuotaUsage(applicationId: string): QuotaUsage {
+        this.checkAndResetIfNeeded(applicationId);
+
+        let usage = this.quotaData.get(applicationId);
+        if (!usage) {
+            usage = {
+                quotaUnitsUsed: 0,
+                quotaResetTime: this.calculateNextMidnightPT(),
+                lastUpdated: Date.now()
+            };
+            this.quotaData.set(applicationId, usage);
+        }
+        return usage;
+    }
+
+    /**
+     * Add an API call to the usage history for the current quota day
+     */
+    private recordHistory(applicationId: string, endpoint: string, cost: number): void {
+        let history = this.quotaHistory.get(applicationId);
+        if (!history) {
+            history = {};
+            this.quotaHistory.set(applicationId, history);
+        }
+
+        const today = this.getQuotaDay();
+        if (!history[today]) {
+            history[today] = {};
+            // First call of a new quota day: drop days that are past retention
+            this.pruneHistory();
+        }
+
+        const endpointUsage = history[today][endpoint] ?? { calls: 0, units: 0 };
+        endpointUsage.calls += 1;
+        endpointUsage.units += cost;
+        history[today][endpoint] = endpointUsage;
+    }
+
+    /**
+     * Get the quota usage history of an application, one entry per day (oldest first)
+     *
+     * @param applicationId Application ID
+     * @param days Number of days to include, ending today (defaults to the retention period)
+     * @returns Daily usage and per-endpoint totals over the range
+     */
+    getQuotaHistory(applicationId: string, days?: number): QuotaHistoryReport {
+        const retentionDays = this.getHistoryRetentionDays();
+        const dayCount = days && Number.isInteger(days) && days > 0 ? Math.min(days, retentionDays) : retentionDays;
+        const history = this.quotaHistory.get(applicationId) ?? {};
+        const today = DateTime.now().setZone(QuotaManager.QUOTA_TIME_ZONE).startOf("day");
+
+        const reportDays: QuotaHistoryDay[] = [];
+        const totals = new Map<string, QuotaEndpointTotal>();
+
+        for (let offset = dayCount - 1; offset >= 0; offset--) {
+            const date = today.minus({ days: offset }).toISODate() as string;
+            const endpoints = history[date] ?? {};
+            let totalUnits = 0;
+
+            for (const [endpoint, usage] of Object.entries(endpoints)) {
+                totalUnits += usage.units;
+                const total = totals.get(endpoint) ?? { endpoint, calls: 0, units: 0 };
+                total.calls += usage.calls;
+                total.units += usage.units;
+                totals.set(endpoint, total);
+            }
+
+            reportDays.push({ date, totalUnits, endpoints: { ...endpoints } });
+        }
+
+        return {
+            days: reportDays,
+            endpoints: [...totals.values()].sort((a, b) => b.units - a.units || a.endpoint.localeCompare(b.endpoint))
+        };
+    }
+
+    /**
+     * Get the number of days of usage history to keep, from the integration settings
+     */
+    getHistoryRetentionDays(): number {
+        const configured = this.getSettings()?.advanced?.quotaHistoryRetentionDays;
+        return Number.isInteger(configured) && configured > 0 ? configured : QUOTA_HISTORY_RETENTION_DAYS_DEFAULT;
+    }
+
+    /**
+     * Remove history older than the retention period for all applications
+     */
+    private pruneHistory(): void {
+        const cutoff = DateTime.now()
+            .setZone(QuotaManager.QUOTA_TIME_ZONE)
+            .startOf("day")
+            .minus({ days: this.getHistoryRetentionDays() - 1 })
+            .toISODate() as string;
+
+        for (const [applicationId, history] of this.quotaHistory) {
+            for (const date of Object.keys(history)) {
+                // ISO dates compare correctly as strings
+                if (date < cutoff) {
+                    delete history[date];
+                }
+            }
+
+            if (Object.keys(history).length === 0) {
+                this.quotaHistory.delete(applicationId);
+            }
+        }
+    }
+
+    /**
+     * Get the current quota day (YYYY-MM-DD in Pacific Time)
+     */
+    getQuotaDay(): string {
+        return DateTime.now().setZone(QuotaManager.QUOTA_TIME_ZONE).toISODate() as string;
+    }
+
     /**
      * Check for threshold crossings and emit events
      */
@@ -279,6 +760,9 @@ export class QuotaManager {
         if (!usage) {
             return dailyQuota;
         }
+        if (usage.exhaustedAt) {
+            return 0;
+        }
         return Math.max(0, dailyQuota - usage.quotaUnitsUsed);
     }
 
@@ -320,6 +804,7 @@ export class QuotaManager {
             usage.quotaUnitsUsed = 0;
             usage.quotaResetTime = this.calculateNextMidnightPT();
             usage.lastUpdated = now;
+            usage.exhaustedAt = undefined;
 
             this.scheduleSave();
         }
@@ -330,8 +815,8 @@ export class QuotaManager {
      *
      * @returns Unix timestamp (ms) of next midnight PT
      */
-    private calculateNextMidnightPT(): number {
-        const now = DateTime.now().setZone("America/Los_Angeles");
+    calculateNextMidnightPT(): number {
+        const now = DateTime.now().setZone(QuotaManager.QUOTA_TIME_ZONE);
         const nextMidnight = now.plus({ days: 1 }).startOf("day");
         return nextMidnight.toMillis();
     }
@@ -343,20 +828,27 @@ export class QuotaManager {
     private loadQuotaData(): void {
         try {
             const quotaDataPath = getDataFilePath("quota-tracking.json");
-            if (!fs.existsSync(quotaDataPath)) {
+            const result = readDataFile<QuotaTrackingStorage>(quotaDataPath, QuotaManager.DATA_FILE_OPTIONS);
+            if (!result) {
                 logger.debug("Quota tracking file does not exist, starting with empty state");
                 return;
             }
 
-            const fileContents = fs.readFileSync(quotaDataPath, "utf-8");
-            const storage: QuotaTrackingStorage = JSON.parse(fileContents);
-
-            this.quotaData = new Map(Object.entries(storage));
+            this.quotaData = new Map(Object.entries(result.data.usage ?? {}));
+            this.quotaHistory = new Map(Object.entries(result.data.history ?? {}));
+            this.reconciliations = new Map(Object.entries(result.data.reconciliations ?? {}));
+            this.pruneHistory();
             logger.info(`Loaded quota data for ${this.quotaData.size} application(s)`);
+
+            if (result.needsSave) {
+                this.scheduleSave();
+            }
         } catch (error) {
             logger.error(`Failed to load quota tracking data: ${error instanceof Error ? error.message : String(error)}`);
             logger.info("Starting with empty quota state");
             this.quotaData = new Map();
+            this.quotaHistory = new Map();
+            this.reconciliations = new Map();
         }
     }
 
@@ -394,15 +886,12 @@ export class QuotaManager {
     private saveQuotaData(): void {
         try {
             const quotaDataPath = getDataFilePath("quota-tracking.json");
-            const storage: QuotaTrackingStorage = Object.fromEntries(this.quotaData);
-            const data = JSON.stringify(storage, null, 2);
-
-            const dir = path.dirname(quotaDataPath);
-            if (!fs.existsSync(dir)) {
-                fs.mkdirSync(dir, { recursive: true });
-            }
-
-            fs.writeFileSync(quotaDataPath, data, "utf-8");
+            const storage: QuotaTrackingStorage = {
+                usage: Object.fromEntries(this.quotaData),
+                history: Object.fromEntries(this.quotaHistory),
+                reconciliations: Object.fromEntries(this.reconciliations)
+            };
+            writeDataFile(quotaDataPath, storage, QuotaManager.DATA_FILE_OPTIONS);
             logger.debug("Quota tracking data saved");
         } catch (error) {
             logger.error(`Failed to save quota tracking data: ${error instanceof Error ? error.message : String(error)}`);
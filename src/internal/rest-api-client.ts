@@ -3,10 +3,14 @@ import { OAuth2Client } from "google-auth-library";
 import { IntegrationConstants } from "../constants";
 import type { YouTubeIntegration } from "../integration-singleton";
 import { firebot, logger } from "../main";
-import { QUOTA_COSTS } from "../types/quota-tracking";
+import { QUOTA_COSTS, QUOTA_OPERATION_CLASSES } from "../types/quota-tracking";
 import { chunkMessage } from "../util/message-chunker";
+import { prefixReplyMention } from "../util/reply";
+import { banStore } from "./ban-store";
+import type { BroadcastMetadata, BroadcastMetadataUpdate, BroadcastPrivacyStatus } from "./broadcast-manager";
 import { ApiCallType } from "./error-constants";
 import { ErrorTracker } from "./error-tracker";
+import type { YouTubeModerator } from "./moderator-manager";
 
 export class RestApiClient {
     private integration: YouTubeIntegration;
@@ -17,10 +21,10 @@ export class RestApiClient {
         this.errorTracker = errorTracker;
     }
 
-    private async getAuthClient(): Promise<OAuth2Client> {
-        // Get active application
+    private async getAuthClient(applicationId?: string): Promise<OAuth2Client> {
+        // Get the requested application, defaulting to the active application
         const applicationsStorage = this.integration.getApplicationsStorage();
-        const activeApplicationId = applicationsStorage.activeApplicationId;
+        const activeApplicationId = applicationId ?? applicationsStorage.activeApplicationId;
 
         if (!activeApplicationId) {
             throw new Error("No active YouTube application configured");
@@ -49,8 +53,8 @@ export class RestApiClient {
         return oauth2Client;
     }
 
-    private async client(): Promise<youtubeV3.Youtube> {
-        const authClient = await this.getAuthClient();
+    private async client(applicationId?: string): Promise<youtubeV3.Youtube> {
+        const authClient = await this.getAuthClient(applicationId);
         const client = new youtubeV3.Youtube({
             auth: authClient
         });
@@ -60,14 +64,17 @@ export class RestApiClient {
     /**
      * Send a chat message to YouTube live chat
      * Handles all validation of active application, live chat state, and authentication
+     * Messages are sent with an application from the sending pool when one can be used
      * @param messageText The message text to send
+     * @param replyToMessageId Optional ID of a chat message to reply to (the author is @mentioned)
      * @returns Promise<boolean> True if successful, false otherwise
      */
-    async sendChatMessage(messageText: string): Promise<boolean> {
+    async sendChatMessage(messageText: string, replyToMessageId?: string): Promise<boolean> {
+        let activeApplicationId: string | null = null;
         try {
-            // Validate active application exists and is ready
+            // Validate sending application exists and is ready
             const applicationsStorage = this.integration.getApplicationsStorage();
-            const activeApplicationId = applicationsStorage.activeApplicationId;
+            activeApplicationId = this.getCallingApplicationId("liveChatMessages.insert");
 
             if (!activeApplicationId) {
                 logger.error("Cannot send YouTube chat message: No active application selected");
@@ -87,6 +94,15 @@ export class RestApiClient {
                 return false;
             }
 
+            // YouTube has no native replies, so mention the author of the original message instead
+            const replyParent = replyToMessageId ? this.integration.getRecentChatMessage(replyToMessageId) : undefined;
+            if (replyToMessageId && !replyParent) {
+                logger.debug(`Cannot reply to YouTube message ${replyToMessageId}: Message not found in recent chat; sending without mention`);
+            }
+            if (replyParent) {
+                messageText = prefixReplyMention(messageText, replyParent.userDisplayName);
+            }
+
             // Chunk the message if it exceeds the character limit
             const chunks = chunkMessage(messageText, IntegrationConstants.YOUTUBE_CHAT_MESSAGE_CHARACTER_LIMIT);
 
@@ -94,7 +110,12 @@ export class RestApiClient {
                 logger.debug(`Chunking message into ${chunks.length} parts (original length: ${messageText.length})`);
             }
 
-            const client = await this.client();
+            // Check the budget for all chunks up front so a message is never cut off part way
+            if (!this.hasQuotaBudget(activeApplicationId, "liveChatMessages.insert", chunks.length * QUOTA_COSTS.LIVE_CHAT_MESSAGES_INSERT, "send YouTube chat message")) {
+                return false;
+            }
+
+            const client = await this.client(activeApplicationId);
             const quotaManager = this.integration.getQuotaManager();
 
             // Send each chunk
@@ -121,6 +142,11 @@ export class RestApiClient {
                 if (response.status === 200) {
                     logger.debug(`Successfully sent chunk ${i + 1}/${chunks.length}. Message ID: ${response.data.id}`);
                     this.errorTracker.recordSuccess(ApiCallType.SEND_CHAT_MESSAGE);
+
+                    // The first chunk carries the mention, so it is the one shown as the reply in the chat feed
+                    if (i === 0 && replyParent && replyToMessageId && response.data.id) {
+                        this.integration.recordSentReply(response.data.id, replyToMessageId);
+                    }
                 } else {
                     // If any chunk fails, stop sending remaining chunks
                     const error = new Error(`Failed to send chunk ${i + 1}/${chunks.length}. Status: ${response.status}`);
@@ -138,6 +164,7 @@ export class RestApiClient {
             logger.debug(`Successfully sent all ${chunks.length} chunk(s)`);
             return true;
         } catch (error: any) {
+            this.reconcileQuotaError(error, activeApplicationId);
             const errorMetadata = this.errorTracker.recordError(ApiCallType.SEND_CHAT_MESSAGE, error);
             logger.error(`Error sending YouTube chat message: ${error}`);
             if (error.response?.data) {
@@ -150,4 +177,612 @@ export class RestApiClient {
             return false;
         }
     }
+
+    /**
+     * Create a poll in the current YouTube live chat
+     * @param questionText The poll question
+     * @param options The poll options (YouTube allows 2 to 4)
+     * @returns Promise<string | null> The ID of the poll message if successful, null otherwise
+     */
+    async createPoll(questionText: string, options: string[]): Promise<string | null> {
+        const context = this.getLiveChatContext("create YouTube poll", "liveChatMessages.insert");
+        if (!context) {
+            return null;
+        }
+
+        if (!this.hasQuotaBudget(context.applicationId, "liveChatMessages.insert", QUOTA_COSTS.LIVE_CHAT_MESSAGES_INSERT, "create YouTube poll")) {
+            return null;
+        }
+
+        try {
+            const client = await this.client(context.applicationId);
+            const quotaManager = this.integration.getQuotaManager();
+
+            logger.debug(`Creating YouTube poll in chat ${context.liveChatId}: ${questionText} [${options.join(" | ")}]`);
+
+            const response = await client.liveChatMessages.insert({
+                part: ["snippet"],
+                requestBody: {
+                    snippet: {
+                        liveChatId: context.liveChatId,
+                        type: "pollEvent",
+                        pollDetails: {
+                            metadata: {
+                                questionText,
+                                options: options.map((optionText) => ({ optionText }))
+                            }
+                        }
+                    }
+                }
+            });
+
+            quotaManager.recordApiCall(context.applicationId, "liveChatMessages.insert", QUOTA_COSTS.LIVE_CHAT_MESSAGES_INSERT);
+
+            if (response.status !== 200) {
+                const error = new Error(`Failed to create poll. Status: ${response.status}`);
+                (error as any).status = response.status;
+                this.reportApiError(ApiCallType.MANAGE_POLL, error, "Error creating YouTube poll", context.applicationId);
+                return null;
+            }
+
+            this.errorTracker.recordSuccess(ApiCallType.MANAGE_POLL);
+            logger.info(`Created YouTube poll. Message ID: ${response.data.id}`);
+            return response.data.id || null;
+        } catch (error: any) {
+            this.reportApiError(ApiCallType.MANAGE_POLL, error, "Error creating YouTube poll", context.applicationId);
+            return null;
+        }
+    }
+
+    /**
+     * End (close) a poll in the current YouTube live chat
+     * @param pollId The ID of the poll message to close
+     * @returns Promise<boolean> True if successful, false otherwise
+     */
+    async endPoll(pollId: string): Promise<boolean> {
+        const context = this.getLiveChatContext("end YouTube poll", "liveChatMessages.transition");
+        if (!context) {
+            return false;
+        }
+
+        if (!this.hasQuotaBudget(context.applicationId, "liveChatMessages.transition", QUOTA_COSTS.LIVE_CHAT_MESSAGES_TRANSITION, "end YouTube poll")) {
+            return false;
+        }
+
+        try {
+            const client = await this.client(context.applicationId);
+            const quotaManager = this.integration.getQuotaManager();
+
+            logger.debug(`Ending YouTube poll ${pollId}`);
+
+            const response = await client.liveChatMessages.transition({
+                id: pollId,
+                status: "closed"
+            });
+
+            quotaManager.recordApiCall(context.applicationId, "liveChatMessages.transition", QUOTA_COSTS.LIVE_CHAT_MESSAGES_TRANSITION);
+
+            if (response.status !== 200) {
+                const error = new Error(`Failed to end poll. Status: ${response.status}`);
+                (error as any).status = response.status;
+                this.reportApiError(ApiCallType.MANAGE_POLL, error, "Error ending YouTube poll", context.applicationId);
+                return false;
+            }
+
+            this.errorTracker.recordSuccess(ApiCallType.MANAGE_POLL);
+            logger.info(`Ended YouTube poll ${pollId}`);
+            return true;
+        } catch (error: any) {
+            this.reportApiError(ApiCallType.MANAGE_POLL, error, "Error ending YouTube poll", context.applicationId);
+            return false;
+        }
+    }
+
+    /**
+     * Delete a message from the current YouTube live chat
+     * @param messageId The ID of the chat message to delete
+     * @returns Promise<boolean> True if successful, false otherwise
+     */
+    async deleteChatMessage(messageId: string): Promise<boolean> {
+        const context = this.getLiveChatContext("delete YouTube chat message", "liveChatMessages.delete");
+        if (!context) {
+            return false;
+        }
+
+        if (!this.hasQuotaBudget(context.applicationId, "liveChatMessages.delete", QUOTA_COSTS.LIVE_CHAT_MESSAGES_DELETE, "delete YouTube chat message")) {
+            return false;
+        }
+
+        try {
+            const client = await this.client(context.applicationId);
+            const quotaManager = this.integration.getQuotaManager();
+
+            logger.debug(`Deleting YouTube chat message ${messageId}`);
+
+            const response = await client.liveChatMessages.delete({
+                id: messageId
+            });
+
+            quotaManager.recordApiCall(context.applicationId, "liveChatMessages.delete", QUOTA_COSTS.LIVE_CHAT_MESSAGES_DELETE);
+
+            if (response.status < 200 || response.status >= 300) {
+                const error = new Error(`Failed to delete chat message. Status: ${response.status}`);
+                (error as any).status = response.status;
+                this.reportApiError(ApiCallType.DELETE_CHAT_MESSAGE, error, "Error deleting YouTube chat message", context.applicationId);
+                return false;
+            }
+
+            this.errorTracker.recordSuccess(ApiCallType.DELETE_CHAT_MESSAGE);
+            logger.info(`Deleted YouTube chat message ${messageId}`);
+            return true;
+        } catch (error: any) {
+            this.reportApiError(ApiCallType.DELETE_CHAT_MESSAGE, error, "Error deleting YouTube chat message", context.applicationId);
+            return false;
+        }
+    }
+
+    /**
+     * Ban a user from the current YouTube live chat
+     * @param channelId The YouTube channel ID of the user to ban
+     * @param durationSeconds Length of a temporary ban (timeout) in seconds; omit for a permanent ban
+     * @returns Promise<boolean> True if successful, false otherwise
+     */
+    async banUser(channelId: string, durationSeconds?: number): Promise<boolean> {
+        const context = this.getLiveChatContext("ban YouTube user", "liveChatBans.insert");
+        if (!context) {
+            return false;
+        }
+
+        if (!this.hasQuotaBudget(context.applicationId, "liveChatBans.insert", QUOTA_COSTS.LIVE_CHAT_BANS_INSERT, "ban YouTube user")) {
+            return false;
+        }
+
+        const isTemporary = durationSeconds !== undefined;
+
+        try {
+            const client = await this.client(context.applicationId);
+            const quotaManager = this.integration.getQuotaManager();
+
+            logger.debug(`Banning YouTube user ${channelId} from chat ${context.liveChatId} (${isTemporary ? `${durationSeconds} seconds` : "permanent"})`);
+
+            const response = await client.liveChatBans.insert({
+                part: ["snippet"],
+                requestBody: {
+                    snippet: {
+                        liveChatId: context.liveChatId,
+                        type: isTemporary ? "temporary" : "permanent",
+                        banDurationSeconds: isTemporary ? String(durationSeconds) : undefined,
+                        bannedUserDetails: {
+                            channelId
+                        }
+                    }
+                }
+            });
+
+            quotaManager.recordApiCall(context.applicationId, "liveChatBans.insert", QUOTA_COSTS.LIVE_CHAT_BANS_INSERT);
+
+            if (response.status !== 200) {
+                const error = new Error(`Failed to ban user. Status: ${response.status}`);
+                (error as any).status = response.status;
+                this.reportApiError(ApiCallType.BAN_USER, error, "Error banning YouTube user", context.applicationId);
+                return false;
+            }
+
+            // Remember the ban ID so the ban can be lifted later
+            if (response.data.id) {
+                banStore.addBan(channelId, response.data.id, durationSeconds);
+            }
+
+            this.errorTracker.recordSuccess(ApiCallType.BAN_USER);
+            logger.info(`Banned YouTube user ${channelId}. Ban ID: ${response.data.id}`);
+            return true;
+        } catch (error: any) {
+            this.reportApiError(ApiCallType.BAN_USER, error, "Error banning YouTube user", context.applicationId);
+            return false;
+        }
+    }
+
+    /**
+     * Lift a ban or timeout from a user in the current YouTube live chat.
+     *
+     * YouTube identifies bans by ban ID rather than by user, so only bans
+     * issued through this integration can be lifted.
+     * @param channelId The YouTube channel ID of the banned user
+     * @returns Promise<boolean> True if successful, false otherwise
+     */
+    async unbanUser(channelId: string): Promise<boolean> {
+        const context = this.getLiveChatContext("unban YouTube user", "liveChatBans.delete");
+        if (!context) {
+            return false;
+        }
+
+        const banId = banStore.getBanId(channelId);
+        if (!banId) {
+            logger.warn(`Cannot unban YouTube user ${channelId}: No ban issued by this integration was found for this user`);
+            return false;
+        }
+
+        if (!this.hasQuotaBudget(context.applicationId, "liveChatBans.delete", QUOTA_COSTS.LIVE_CHAT_BANS_DELETE, "unban YouTube user")) {
+            return false;
+        }
+
+        try {
+            const client = await this.client(context.applicationId);
+            const quotaManager = this.integration.getQuotaManager();
+
+            logger.debug(`Unbanning YouTube user ${channelId} (ban ID: ${banId})`);
+
+            const response = await client.liveChatBans.delete({
+                id: banId
+            });
+
+            quotaManager.recordApiCall(context.applicationId, "liveChatBans.delete", QUOTA_COSTS.LIVE_CHAT_BANS_DELETE);
+
+            if (response.status < 200 || response.status >= 300) {
+                const error = new Error(`Failed to unban user. Status: ${response.status}`);
+                (error as any).status = response.status;
+                this.reportApiError(ApiCallType.UNBAN_USER, error, "Error unbanning YouTube user", context.applicationId);
+                return false;
+            }
+
+            banStore.removeBan(channelId);
+            this.errorTracker.recordSuccess(ApiCallType.UNBAN_USER);
+            logger.info(`Unbanned YouTube user ${channelId}`);
+            return true;
+        } catch (error: any) {
+            this.reportApiError(ApiCallType.UNBAN_USER, error, "Error unbanning YouTube user", context.applicationId);
+            return false;
+        }
+    }
+
+    /**
+     * List the moderators of the current YouTube live chat
+     * @returns Promise<YouTubeModerator[] | null> The moderators if successful, null otherwise
+     */
+    async listModerators(): Promise<YouTubeModerator[] | null> {
+        const context = this.getLiveChatContext("list YouTube moderators", "liveChatModerators.list");
+        if (!context) {
+            return null;
+        }
+
+        try {
+            const client = await this.client(context.applicationId);
+            const quotaManager = this.integration.getQuotaManager();
+            const moderators: YouTubeModerator[] = [];
+            let pageToken: string | undefined;
+
+            do {
+                if (!this.hasQuotaBudget(context.applicationId, "liveChatModerators.list", QUOTA_COSTS.LIVE_CHAT_MODERATORS_LIST, "list YouTube moderators")) {
+                    return null;
+                }
+
+                const response = await client.liveChatModerators.list({
+                    liveChatId: context.liveChatId,
+                    part: ["snippet"],
+                    maxResults: 50,
+                    pageToken
+                });
+
+                quotaManager.recordApiCall(context.applicationId, "liveChatModerators.list", QUOTA_COSTS.LIVE_CHAT_MODERATORS_LIST);
+
+                if (response.status !== 200) {
+                    const error = new Error(`Failed to list moderators. Status: ${response.status}`);
+                    (error as any).status = response.status;
+                    this.reportApiError(ApiCallType.MANAGE_MODERATORS, error, "Error listing YouTube moderators", context.applicationId);
+                    return null;
+                }
+
+                for (const item of response.data.items || []) {
+                    moderators.push(this.toYouTubeModerator(item));
+                }
+                pageToken = response.data.nextPageToken || undefined;
+            } while (pageToken);
+
+            this.errorTracker.recordSuccess(ApiCallType.MANAGE_MODERATORS);
+            logger.debug(`Retrieved ${moderators.length} YouTube moderator(s)`);
+            return moderators;
+        } catch (error: any) {
+            this.reportApiError(ApiCallType.MANAGE_MODERATORS, error, "Error listing YouTube moderators", context.applicationId);
+            return null;
+        }
+    }
+
+    /**
+     * Add a moderator to the current YouTube live chat
+     * @param channelId The YouTube channel ID of the user to promote
+     * @returns Promise<YouTubeModerator | null> The new moderator if successful, null otherwise
+     */
+    async addModerator(channelId: string): Promise<YouTubeModerator | null> {
+        const context = this.getLiveChatContext("add YouTube moderator", "liveChatModerators.insert");
+        if (!context) {
+            return null;
+        }
+
+        if (!this.hasQuotaBudget(context.applicationId, "liveChatModerators.insert", QUOTA_COSTS.LIVE_CHAT_MODERATORS_INSERT, "add YouTube moderator")) {
+            return null;
+        }
+
+        try {
+            const client = await this.client(context.applicationId);
+            const quotaManager = this.integration.getQuotaManager();
+
+            logger.debug(`Adding YouTube moderator ${channelId} to chat ${context.liveChatId}`);
+
+            const response = await client.liveChatModerators.insert({
+                part: ["snippet"],
+                requestBody: {
+                    snippet: {
+                        liveChatId: context.liveChatId,
+                        moderatorDetails: {
+                            channelId
+                        }
+                    }
+                }
+            });
+
+            quotaManager.recordApiCall(context.applicationId, "liveChatModerators.insert", QUOTA_COSTS.LIVE_CHAT_MODERATORS_INSERT);
+
+            if (response.status !== 200) {
+                const error = new Error(`Failed to add moderator. Status: ${response.status}`);
+                (error as any).status = response.status;
+                this.reportApiError(ApiCallType.MANAGE_MODERATORS, error, "Error adding YouTube moderator", context.applicationId);
+                return null;
+            }
+
+            this.errorTracker.recordSuccess(ApiCallType.MANAGE_MODERATORS);
+            logger.info(`Added YouTube moderator ${channelId}. Moderator ID: ${response.data.id}`);
+            return this.toYouTubeModerator(response.data);
+        } catch (error: any) {
+            this.reportApiError(ApiCallType.MANAGE_MODERATORS, error, "Error adding YouTube moderator", context.applicationId);
+            return null;
+        }
+    }
+
+    /**
+     * Remove a moderator from the current YouTube live chat
+     * @param moderatorId The ID of the moderator resource (not the channel ID)
+     * @returns Promise<boolean> True if successful, false otherwise
+     */
+    async removeModerator(moderatorId: string): Promise<boolean> {
+        const context = this.getLiveChatContext("remove YouTube moderator", "liveChatModerators.delete");
+        if (!context) {
+            return false;
+        }
+
+        if (!this.hasQuotaBudget(context.applicationId, "liveChatModerators.delete", QUOTA_COSTS.LIVE_CHAT_MODERATORS_DELETE, "remove YouTube moderator")) {
+            return false;
+        }
+
+        try {
+            const client = await this.client(context.applicationId);
+            const quotaManager = this.integration.getQuotaManager();
+
+            logger.debug(`Removing YouTube moderator ${moderatorId}`);
+
+            const response = await client.liveChatModerators.delete({
+                id: moderatorId
+            });
+
+            quotaManager.recordApiCall(context.applicationId, "liveChatModerators.delete", QUOTA_COSTS.LIVE_CHAT_MODERATORS_DELETE);
+
+            if (response.status < 200 || response.status >= 300) {
+                const error = new Error(`Failed to remove moderator. Status: ${response.status}`);
+                (error as any).status = response.status;
+                this.reportApiError(ApiCallType.MANAGE_MODERATORS, error, "Error removing YouTube moderator", context.applicationId);
+                return false;
+            }
+
+            this.errorTracker.recordSuccess(ApiCallType.MANAGE_MODERATORS);
+            logger.info(`Removed YouTube moderator ${moderatorId}`);
+            return true;
+        } catch (error: any) {
+            this.reportApiError(ApiCallType.MANAGE_MODERATORS, error, "Error removing YouTube moderator", context.applicationId);
+            return false;
+        }
+    }
+
+    /**
+     * Update the metadata of a broadcast.
+     *
+     * Title, description and category live on the broadcast's video, so this
+     * reads the current video and writes it back with the requested changes
+     * (videos.update replaces every field in the parts it is given).
+     * @param broadcastId The ID of the broadcast (which is also its video ID)
+     * @param update The fields to change; omitted fields are left unchanged
+     * @returns Promise<BroadcastMetadata | null> The metadata after the update if successful, null otherwise
+     */
+    async updateBroadcast(broadcastId: string, update: BroadcastMetadataUpdate): Promise<BroadcastMetadata | null> {
+        const context = this.getLiveChatContext("update YouTube broadcast", "videos.update");
+        if (!context) {
+            return null;
+        }
+
+        if (!this.hasQuotaBudget(context.applicationId, "videos.update", QUOTA_COSTS.VIDEOS_LIST + QUOTA_COSTS.VIDEOS_UPDATE, "update YouTube broadcast")) {
+            return null;
+        }
+
+        try {
+            const client = await this.client(context.applicationId);
+            const quotaManager = this.integration.getQuotaManager();
+
+            const listResponse = await client.videos.list({
+                id: [broadcastId],
+                part: ["snippet", "status"]
+            });
+
+            quotaManager.recordApiCall(context.applicationId, "videos.list", QUOTA_COSTS.VIDEOS_LIST);
+
+            const video = listResponse.data.items?.[0];
+            if (listResponse.status !== 200 || !video?.snippet) {
+                const error = new Error(`Failed to read broadcast ${broadcastId}. Status: ${listResponse.status}`);
+                (error as any).status = listResponse.status === 200 ? 404 : listResponse.status;
+                this.reportApiError(ApiCallType.UPDATE_BROADCAST, error, "Error updating YouTube broadcast", context.applicationId);
+                return null;
+            }
+
+            const snippet: youtubeV3.Schema$VideoSnippet = {
+                title: update.title ?? video.snippet.title,
+                description: update.description ?? video.snippet.description,
+                categoryId: update.categoryId ?? video.snippet.categoryId,
+                tags: video.snippet.tags,
+                defaultLanguage: video.snippet.defaultLanguage,
+                defaultAudioLanguage: video.snippet.defaultAudioLanguage
+            };
+
+            // Only send the status part when it changes so that other status settings are never touched
+            const updateStatus = update.privacyStatus !== undefined && update.privacyStatus !== video.status?.privacyStatus;
+            const part = updateStatus ? ["snippet", "status"] : ["snippet"];
+
+            logger.debug(`Updating YouTube broadcast ${broadcastId}: ${JSON.stringify(update)}`);
+
+            const response = await client.videos.update({
+                part,
+                requestBody: {
+                    id: broadcastId,
+                    snippet,
+                    status: updateStatus ? { ...video.status, privacyStatus: update.privacyStatus } : undefined
+                }
+            });
+
+            quotaManager.recordApiCall(context.applicationId, "videos.update", QUOTA_COSTS.VIDEOS_UPDATE);
+
+            if (response.status !== 200) {
+                const error = new Error(`Failed to update broadcast. Status: ${response.status}`);
+                (error as any).status = response.status;
+                this.reportApiError(ApiCallType.UPDATE_BROADCAST, error, "Error updating YouTube broadcast", context.applicationId);
+                return null;
+            }
+
+            this.errorTracker.recordSuccess(ApiCallType.UPDATE_BROADCAST);
+            logger.info(`Updated YouTube broadcast ${broadcastId}`);
+
+            const updated = response.data;
+            return {
+                title: updated.snippet?.title ?? snippet.title ?? "",
+                description: updated.snippet?.description ?? snippet.description ?? "",
+                privacyStatus: (updated.status?.privacyStatus ?? (updateStatus ? update.privacyStatus : video.status?.privacyStatus)) as BroadcastPrivacyStatus | undefined,
+                categoryId: updated.snippet?.categoryId ?? snippet.categoryId ?? ""
+            };
+        } catch (error: any) {
+            this.reportApiError(ApiCallType.UPDATE_BROADCAST, error, "Error updating YouTube broadcast", context.applicationId);
+            return null;
+        }
+    }
+
+    private toYouTubeModerator(item: youtubeV3.Schema$LiveChatModerator): YouTubeModerator {
+        const details = item.snippet?.moderatorDetails;
+        return {
+            moderatorId: item.id || "",
+            channelId: details?.channelId || "",
+            displayName: details?.displayName || "",
+            profilePicUrl: details?.profileImageUrl || ""
+        };
+    }
+
+    /**
+     * Check whether a chat message fits within the quota budgets without sending it
+     *
+     * The cost is estimated from the number of chunks the message will be split into.
+     * @param messageText The message text to send
+     * @param notifyIfBlocked Whether to trigger the quota-budget-blocked event if the message would be refused
+     * @returns true if the message may be sent (or no application is active to check against)
+     */
+    checkChatMessageBudget(messageText: string, notifyIfBlocked = true): boolean {
+        const activeApplicationId = this.getCallingApplicationId("liveChatMessages.insert");
+        if (!activeApplicationId) {
+            return true;
+        }
+
+        const chunks = chunkMessage(messageText, IntegrationConstants.YOUTUBE_CHAT_MESSAGE_CHARACTER_LIMIT);
+        return this.integration.getQuotaManager().checkBudget(activeApplicationId, "liveChatMessages.insert", chunks.length * QUOTA_COSTS.LIVE_CHAT_MESSAGES_INSERT, notifyIfBlocked);
+    }
+
+    /**
+     * Check an API call against the quota budgets before making it
+     * @param action Description of the action, used in log messages
+     * @returns true if the call may be made, false otherwise
+     */
+    private hasQuotaBudget(applicationId: string, endpoint: string, cost: number, action: string): boolean {
+        if (this.integration.getQuotaManager().checkBudget(applicationId, endpoint, cost)) {
+            return true;
+        }
+
+        logger.error(`Cannot ${action}: Quota budget exceeded`);
+        return false;
+    }
+
+    /**
+     * Choose the application that makes a call
+     *
+     * Sending and moderation calls use the first usable application in the sending pool,
+     * so they do not drain the quota of the application polling chat. Everything else,
+     * and any call when the pool is empty or used up, uses the active application.
+     * @param endpoint The API endpoint being called
+     */
+    private getCallingApplicationId(endpoint: string): string | null {
+        const operationClass = QUOTA_OPERATION_CLASSES[endpoint];
+        const pooled = operationClass === "sending" || operationClass === "moderation";
+        return (pooled ? this.integration.getSendingApplicationId() : null) ?? this.integration.getApplicationsStorage().activeApplicationId;
+    }
+
+    /**
+     * Validate that a live chat API call can be made
+     * @param action Description of the action, used in log messages
+     * @param endpoint The API endpoint being called, used to choose the calling application
+     * @returns The calling application ID and live chat ID, or null if the call cannot be made
+     */
+    private getLiveChatContext(action: string, endpoint: string): { applicationId: string; liveChatId: string } | null {
+        const applicationsStorage = this.integration.getApplicationsStorage();
+        const activeApplicationId = this.getCallingApplicationId(endpoint);
+
+        if (!activeApplicationId) {
+            logger.error(`Cannot ${action}: No active application selected`);
+            return null;
+        }
+
+        const activeApp = applicationsStorage.applications[activeApplicationId];
+        if (!activeApp || !activeApp.ready) {
+            logger.error(`Cannot ${action}: Active application "${activeApp?.name || activeApplicationId}" is not ready`);
+            return null;
+        }
+
+        const liveChatId = this.integration.getCurrentLiveChatId();
+        if (!liveChatId) {
+            logger.error(`Cannot ${action}: No active live chat`);
+            return null;
+        }
+
+        return { applicationId: activeApplicationId, liveChatId };
+    }
+
+    /**
+     * If YouTube rejected a call because the daily quota is used up, mark the application exhausted
+     * and fail over if it was the active application
+     * @param applicationId The application that made the call (default: the active application)
+     */
+    private reconcileQuotaError(error: any, applicationId?: string | null): void {
+        const quotaManager = this.integration.getQuotaManager();
+        const callingApplicationId = applicationId ?? this.integration.getApplicationsStorage().activeApplicationId;
+        if (callingApplicationId && quotaManager.isDailyQuotaExhaustedError(error)) {
+            this.integration.handleQuotaExhausted(callingApplicationId).catch((quotaError: any) => {
+                logger.error(`Failed to handle exhausted quota: ${quotaError.message}`);
+            });
+        }
+    }
+
+    /**
+     * Record a failed API call and emit the api-error event
+     * @param applicationId The application that made the call (default: the active application)
+     */
+    private reportApiError(apiCall: ApiCallType, error: any, description: string, applicationId?: string): void {
+        this.reconcileQuotaError(error, applicationId);
+        const errorMetadata = this.errorTracker.recordError(apiCall, error);
+        logger.error(`${description}: ${error}`);
+        if (error.response?.data) {
+            logger.error(`YouTube API error details: ${JSON.stringify(error.response.data)}`);
+        }
+
+        const { eventManager } = firebot.modules;
+        eventManager.triggerEvent(IntegrationConstants.INTEGRATION_ID, "api-error", errorMetadata as unknown as Record<string, unknown>);
+    }
 }
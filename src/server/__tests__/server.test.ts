@@ -117,7 +117,23 @@ describe("send-chat-message route", () => {
 
         await handler({ body: { message: "Hello", chatter: "Streamer", offlineSendMode: "send-anyway" } }, res);
 
-        expect(queueChatMessage).toHaveBeenCalledWith("Hello");
+        expect(queueChatMessage).toHaveBeenCalledWith("Hello", undefined);
+        expect(res.json).toHaveBeenCalledWith({ success: true });
+    });
+
+    it("queues the message as a reply when replyId is provided", async () => {
+        const queueChatMessage = jest.fn();
+        const youtubeIntegration = createIntegration({
+            queueChatMessage
+        }) as unknown as YouTubeIntegration;
+        registerRoutes(youtubeIntegration);
+
+        const handler = getSendChatHandler();
+        const res = { status: jest.fn().mockReturnThis(), json: jest.fn() };
+
+        await handler({ body: { message: "Hello", chatter: "Streamer", offlineSendMode: "send-anyway", replyId: "parent-msg" } }, res);
+
+        expect(queueChatMessage).toHaveBeenCalledWith("Hello", "parent-msg");
         expect(res.json).toHaveBeenCalledWith({ success: true });
     });
 });
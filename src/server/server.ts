@@ -18,10 +18,6 @@ export function registerRoutes(youtubeIntegration: YouTubeIntegration) {
                 res.status(400).json({ success: false, error: "Invalid chatter value" });
                 return;
             }
-            if (replyId) {
-                logger.debug("send-chat-message: replyId is not supported and will be ignored");
-            }
-
             if (!youtubeIntegration.connected) {
                 logger.error("send-chat-message: Integration not connected");
                 res.status(503).json({ success: false, error: "Integration not connected" });
@@ -71,7 +67,7 @@ export function registerRoutes(youtubeIntegration: YouTubeIntegration) {
                 }
             }
 
-            youtubeIntegration.queueChatMessage(message);
+            youtubeIntegration.queueChatMessage(message, replyId || undefined);
             res.json({ success: true });
         } catch (error) {
             logger.error(`send-chat-message operation failed: ${error}`);
@@ -0,0 +1,52 @@
+/**
+ * How applications are chosen when failing over or starting a stream
+ * - lowest-usage: the application with the lowest percentage of quota used (the original behavior)
+ * - priority: applications in the configured priority order
+ * - round-robin: the next application after the one used for the previous stream
+ */
+export type RotationMode = "lowest-usage" | "priority" | "round-robin";
+
+/**
+ * A daily time window (local time) during which an application is preferred
+ */
+export interface RotationScheduleEntry {
+    applicationId: string;
+
+    /** Start of the window, "HH:MM" (24-hour, local time) */
+    startTime: string;
+
+    /** End of the window, "HH:MM" (24-hour, local time). Windows may wrap past midnight. */
+    endTime: string;
+}
+
+/**
+ * User-configured rules for rotating between YouTube applications
+ */
+export interface RotationPolicy {
+    mode: RotationMode;
+
+    /** Application IDs, most preferred first */
+    priorityOrder: string[];
+
+    /** Time-of-day windows; the first matching window wins */
+    schedule: RotationScheduleEntry[];
+
+    /**
+     * Applications used to send chat messages and moderate, most preferred first.
+     * Empty to use the active application (the one polling chat) for everything.
+     */
+    sendingApplicationIds: string[];
+
+    /** Switch back to the preferred application after the quota resets at midnight Pacific Time */
+    failBackAfterReset: boolean;
+}
+
+/**
+ * Persistent storage format for application-rotation.json
+ */
+export interface ApplicationRotationStorage {
+    policy: RotationPolicy;
+
+    /** Application used for the most recent stream (used by round-robin) */
+    lastStreamApplicationId: string | null;
+}
@@ -10,12 +10,131 @@ export interface QuotaUsage {
 
     /** Unix timestamp (ms) of last update */
     lastUpdated: number;
+
+    /** Unix timestamp (ms) when YouTube reported the quota exhausted; cleared at the next reset */
+    exhaustedAt?: number;
+}
+
+/**
+ * Where an observation of actual quota usage came from
+ * - quotaExceeded: YouTube rejected a call because the daily quota is used up
+ * - manual: the user entered the usage (e.g. from the Google Cloud console)
+ */
+export type QuotaReconciliationSource = "quotaExceeded" | "manual";
+
+/**
+ * A correction of the locally estimated quota usage to the observed usage
+ */
+export interface QuotaReconciliation {
+    /** Unix timestamp (ms) of the correction */
+    timestamp: number;
+
+    source: QuotaReconciliationSource;
+
+    /** Quota units this instance had counted before the correction */
+    estimatedUnits: number;
+
+    /** Quota units actually used, as observed */
+    observedUnits: number;
+
+    /** observedUnits - estimatedUnits (positive when usage was undercounted) */
+    drift: number;
 }
 
+/**
+ * Calls and quota units recorded for a single API endpoint
+ */
+export interface QuotaEndpointUsage {
+    /** Number of calls made */
+    calls: number;
+
+    /** Quota units consumed by those calls */
+    units: number;
+}
+
+/**
+ * Quota usage for one quota day, keyed by API endpoint name (e.g. "streamList", "liveChatMessages.insert")
+ */
+export type QuotaDayUsage = Record<string, QuotaEndpointUsage>;
+
+/**
+ * Quota usage history for one application, keyed by quota day (YYYY-MM-DD in Pacific Time)
+ */
+export type QuotaHistory = Record<string, QuotaDayUsage>;
+
 /**
  * Persistent storage structure for quota tracking data
  */
-export type QuotaTrackingStorage = Record<string, QuotaUsage>;
+export interface QuotaTrackingStorage {
+    /** Current quota usage per application */
+    usage: Record<string, QuotaUsage>;
+
+    /** Per-day, per-endpoint usage history per application */
+    history: Record<string, QuotaHistory>;
+
+    /** Recent corrections of estimated usage per application, oldest first */
+    reconciliations: Record<string, QuotaReconciliation[]>;
+}
+
+/**
+ * Quota usage for one day of a history report
+ */
+export interface QuotaHistoryDay {
+    /** Quota day (YYYY-MM-DD in Pacific Time) */
+    date: string;
+
+    /** Total quota units consumed on this day */
+    totalUnits: number;
+
+    /** Usage per endpoint on this day */
+    endpoints: QuotaDayUsage;
+}
+
+/**
+ * Usage of one endpoint totalled over a history report
+ */
+export interface QuotaEndpointTotal extends QuotaEndpointUsage {
+    endpoint: string;
+}
+
+/**
+ * Quota usage history for one application over a range of days
+ */
+export interface QuotaHistoryReport {
+    /** One entry per day, oldest first (days without usage are included) */
+    days: QuotaHistoryDay[];
+
+    /** Totals per endpoint over the whole range, highest usage first */
+    endpoints: QuotaEndpointTotal[];
+}
+
+/**
+ * Classes of API operations that are budgeted separately
+ * - polling: reading chat (streamList)
+ * - sending: posting to chat (messages and polls)
+ * - broadcast: finding, reading and updating the broadcast and channel
+ * - moderation: deleting messages, banning users and managing moderators
+ */
+export type QuotaOperationClass = "polling" | "sending" | "broadcast" | "moderation";
+
+/**
+ * Operation class of each known API endpoint (as recorded in the usage history)
+ */
+export const QUOTA_OPERATION_CLASSES: Record<string, QuotaOperationClass> = {
+    streamList: "polling",
+    "liveChatMessages.insert": "sending",
+    "liveChatMessages.transition": "sending",
+    "liveChatMessages.delete": "moderation",
+    "liveChatBans.insert": "moderation",
+    "liveChatBans.delete": "moderation",
+    "liveChatModerators.list": "moderation",
+    "liveChatModerators.insert": "moderation",
+    "liveChatModerators.delete": "moderation",
+    "liveBroadcasts.list": "broadcast",
+    "videos.list": "broadcast",
+    "videos.update": "broadcast",
+    "channels.list": "broadcast"
+};
 
 /**
  * Known YouTube API quota costs
@@ -23,7 +142,17 @@ export type QuotaTrackingStorage = Record<string, QuotaUsage>;
 export const QUOTA_COSTS = {
     STREAM_LIST: 5, // streamList gRPC endpoint
     LIVE_BROADCASTS_LIST: 1, // liveBroadcasts.list REST API
-    LIVE_CHAT_MESSAGES_INSERT: 20 // liveChatMessages.insert REST API
+    LIVE_CHAT_MESSAGES_INSERT: 20, // liveChatMessages.insert REST API
+    LIVE_CHAT_MESSAGES_TRANSITION: 50, // liveChatMessages.transition REST API (standard write cost)
+    LIVE_CHAT_MESSAGES_DELETE: 50, // liveChatMessages.delete REST API
+    LIVE_CHAT_BANS_INSERT: 50, // liveChatBans.insert REST API
+    LIVE_CHAT_BANS_DELETE: 50, // liveChatBans.delete REST API
+    LIVE_CHAT_MODERATORS_LIST: 50, // liveChatModerators.list REST API (per page)
+    LIVE_CHAT_MODERATORS_INSERT: 50, // liveChatModerators.insert REST API
+    LIVE_CHAT_MODERATORS_DELETE: 50, // liveChatModerators.delete REST API
+    VIDEOS_LIST: 1, // videos.list REST API
+    VIDEOS_UPDATE: 50, // videos.update REST API
+    CHANNELS_LIST: 1 // channels.list REST API
 } as const;
 
 /**
@@ -65,6 +65,34 @@ function youTubeApplicationsServiceFunction(backendCommunicator: any): any {
         return backendCommunicator.fireEventAsync("youTube:connectIntegration", {});
     };
 
+    service.getRedactedApplications = (): any => {
+        return backendCommunicator.fireEventSync("youTube:getRedactedApplications", {});
+    };
+
+    service.getQuotaHistory = (applicationId: string, days: number): any => {
+        return backendCommunicator.fireEventSync("youTube:getQuotaHistory", { applicationId, days });
+    };
+
+    service.setQuotaUsage = (applicationId: string, quotaUnitsUsed: number): any => {
+        return backendCommunicator.fireEventSync("youTube:setQuotaUsage", { applicationId, quotaUnitsUsed });
+    };
+
+    service.getRotationPolicy = (): any => {
+        return backendCommunicator.fireEventSync("youTube:getRotationPolicy", {});
+    };
+
+    service.saveRotationPolicy = (policy: any): any => {
+        return backendCommunicator.fireEventSync("youTube:saveRotationPolicy", { policy });
+    };
+
+    service.exportApplications = async (includeSecrets: boolean): Promise<any> => {
+        return backendCommunicator.fireEventAsync("youTube:exportApplications", { includeSecrets });
+    };
+
+    service.importApplications = async (conflictMode: string): Promise<any> => {
+        return backendCommunicator.fireEventAsync("youTube:importApplications", { conflictMode });
+    };
+
     return service;
 }
 
@@ -264,7 +292,23 @@ const youTubePage: AngularJsPage = {
                                 <span ng-if="!app.ready" style="color: #ff7875;">
                                     <i class="fas fa-times-circle"></i> Not Ready
                                 </span>
-                                <span style="margin-left: 15px;">Quota: {{app.quotaUnitsUsed || 0}}/{{app.quotaSettings.dailyQuota}}</span>
+                                <span style="margin-left: 15px;" ng-if="quotaAdjust.applicationId !== app.id">
+                                    Quota: {{app.quotaUnitsUsed || 0}}/{{app.quotaSettings.dailyQuota}}
+                                    <span ng-if="app.quotaExhausted" style="color: #ff4d4f;" uib-tooltip="YouTube reported this application's quota used up. It will not be used again until the quota resets at midnight Pacific Time." tooltip-append-to-body="true">(exhausted)</span>
+                                    <span uib-tooltip="Correct today's usage, e.g. from the Google Cloud console" tooltip-append-to-body="true" class="clickable" ng-click="startQuotaAdjust(app)">
+                                        <i class="fas fa-pencil-alt"></i>
+                                    </span>
+                                </span>
+                                <span ng-if="quotaAdjust.applicationId === app.id" style="margin-left: 15px; display: inline-flex; gap: 5px; align-items: center;">
+                                    Quota used today:
+                                    <input type="number" min="0" step="1" class="form-control input-sm" style="width: 100px;" ng-model="quotaAdjust.quotaUnitsUsed" />
+                                    /{{app.quotaSettings.dailyQuota}}
+                                    <button type="button" class="btn btn-xs btn-primary" ng-click="saveQuotaAdjust()">Save</button>
+                                    <button type="button" class="btn btn-xs btn-default" ng-click="cancelQuotaAdjust()">Cancel</button>
+                                </span>
+                                <span ng-if="app.lastReconciliation" style="margin-left: 15px;" uib-tooltip="Difference between the usage counted by Firebot and the usage observed {{app.lastReconciliation.source === 'manual' ? 'when it was last entered manually' : 'when YouTube last reported the quota exhausted'}} ({{app.lastReconciliation.timestamp | date:'short'}})" tooltip-append-to-body="true">
+                                    Drift: {{app.lastReconciliation.drift > 0 ? '+' : ''}}{{app.lastReconciliation.drift}}
+                                </span>
                                 <span style="margin-left: 15px;">{{app.pollingIntervalDisplay}}</span>
                                 <span ng-if="app.email" style="margin-left: 15px;">
                                     Email: <span ng-if="!showFullEmails">{{redactEmail(app.email)}}</span><span ng-if="showFullEmails">{{app.email}}</span>
@@ -299,6 +343,124 @@ const youTubePage: AngularJsPage = {
                         <span ng-if="!showFullEmails">Show Full Email Addresses</span>
                         <span ng-if="showFullEmails">Hide Full Email Addresses</span>
                     </button>
+                    <button type="button" class="btn btn-default" ng-click="copyRedactedSettings()">Copy Redacted Settings</button>
+                </div>
+            </eos-container>
+
+            <eos-container header="Quota Usage History" pad-top="true" ng-if="applications.length > 0">
+                <p class="help-text">Quota units used per day, broken down by API endpoint. Days follow YouTube's quota reset at midnight Pacific Time.</p>
+                <div style="display: flex; gap: 10px; align-items: center; margin-bottom: 15px;">
+                    <select class="form-control" style="width: auto;" ng-model="quotaHistory.applicationId" ng-change="loadQuotaHistory()" ng-options="app.id as app.name for app in applications"></select>
+                    <select class="form-control" style="width: auto;" ng-model="quotaHistory.days" ng-change="loadQuotaHistory()" ng-options="range.days as range.label for range in quotaHistoryRanges"></select>
+                    <button type="button" class="btn btn-default" ng-click="loadQuotaHistory()">Refresh</button>
+                </div>
+
+                <div ng-if="quotaHistory.report.endpoints.length === 0" style="text-align: center; padding: 20px; color: #999;">
+                    No quota usage recorded in this period.
+                </div>
+
+                <div ng-if="quotaHistory.report.endpoints.length > 0">
+                    <div style="display: flex; align-items: flex-end; gap: 2px; height: 160px; border-bottom: 1px solid #666; padding-top: 10px;">
+                        <div ng-repeat="day in quotaHistory.report.days" style="flex: 1; height: 100%; display: flex; flex-direction: column-reverse;" title="{{day.date}}: {{day.totalUnits}} units">
+                            <div ng-repeat="endpoint in quotaHistory.report.endpoints" ng-if="day.endpoints[endpoint.endpoint]" style="background: {{endpointColor($index)}}; height: {{ 100 * day.endpoints[endpoint.endpoint].units / quotaHistory.maxDailyUnits }}%;" title="{{day.date}} {{endpoint.endpoint}}: {{day.endpoints[endpoint.endpoint].units}} units ({{day.endpoints[endpoint.endpoint].calls}} calls)"></div>
+                        </div>
+                    </div>
+                    <div style="display: flex; justify-content: space-between; font-size: 11px; color: #999; margin-bottom: 15px;">
+                        <span>{{quotaHistory.report.days[0].date}}</span>
+                        <span>{{quotaHistory.report.days[quotaHistory.report.days.length - 1].date}}</span>
+                    </div>
+
+                    <table class="table table-condensed" style="margin-bottom: 0;">
+                        <thead>
+                            <tr>
+                                <th>Endpoint</th>
+                                <th style="text-align: right;">Calls</th>
+                                <th style="text-align: right;">Units</th>
+                                <th style="text-align: right;">Share</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            <tr ng-repeat="endpoint in quotaHistory.report.endpoints">
+                                <td><span style="display: inline-block; width: 10px; height: 10px; margin-right: 6px; background: {{endpointColor($index)}};"></span>{{endpoint.endpoint}}</td>
+                                <td style="text-align: right;">{{endpoint.calls}}</td>
+                                <td style="text-align: right;">{{endpoint.units}}</td>
+                                <td style="text-align: right;">{{ (100 * endpoint.units / quotaHistory.totalUnits) | number:1 }}%</td>
+                            </tr>
+                        </tbody>
+                    </table>
+                </div>
+            </eos-container>
+
+            <eos-container header="Application Rotation" pad-top="true" ng-if="applications.length > 1 && rotation.policy">
+                <p class="help-text">Choose how the integration moves between applications when failing over, when a stream starts, and at set times of day.</p>
+                <div class="form-group">
+                    <label class="control-label">Rotation mode</label>
+                    <select class="form-control" ng-model="rotation.policy.mode" ng-options="mode.value as mode.label for mode in rotationModes"></select>
+                </div>
+
+                <div class="form-group" ng-if="rotation.policy.mode !== 'lowest-usage'">
+                    <label class="control-label">Priority order</label>
+                    <p class="help-text">Applications not listed here are used after the listed ones{{ rotation.policy.mode === 'round-robin' ? ', in name order' : ', lowest usage first' }}.</p>
+                    <div ng-repeat="applicationId in rotation.policy.priorityOrder" style="display: flex; gap: 6px; align-items: center; margin-bottom: 4px;">
+                        <span style="flex: 1;">{{$index + 1}}. {{rotationApplicationName(applicationId)}}</span>
+                        <button type="button" class="btn btn-default btn-xs" ng-click="moveApplication(rotation.policy.priorityOrder, $index, -1)" ng-disabled="$first"><i class="fas fa-arrow-up"></i></button>
+                        <button type="button" class="btn btn-default btn-xs" ng-click="moveApplication(rotation.policy.priorityOrder, $index, 1)" ng-disabled="$last"><i class="fas fa-arrow-down"></i></button>
+                        <button type="button" class="btn btn-danger btn-xs" ng-click="rotation.policy.priorityOrder.splice($index, 1)"><i class="fas fa-times"></i></button>
+                    </div>
+                    <select class="form-control" style="width: auto;" ng-model="rotation.addPriorityId" ng-change="addPriority()" ng-options="app.id as app.name for app in applications | filter:notInPriorityOrder">
+                        <option value="">Add an application...</option>
+                    </select>
+                </div>
+
+                <div class="form-group">
+                    <label class="control-label">Schedule</label>
+                    <p class="help-text">Prefer an application during a daily time window (24-hour local time, e.g. 20:00 to 02:00). The first matching window wins.</p>
+                    <div ng-repeat="entry in rotation.policy.schedule" style="display: flex; gap: 6px; align-items: center; margin-bottom: 4px;">
+                        <select class="form-control" style="width: auto;" ng-model="entry.applicationId" ng-options="app.id as app.name for app in applications"></select>
+                        <input type="text" class="form-control" style="width: 80px;" ng-model="entry.startTime" placeholder="HH:MM" />
+                        <span>to</span>
+                        <input type="text" class="form-control" style="width: 80px;" ng-model="entry.endTime" placeholder="HH:MM" />
+                        <button type="button" class="btn btn-danger btn-xs" ng-click="rotation.policy.schedule.splice($index, 1)"><i class="fas fa-times"></i></button>
+                    </div>
+                    <button type="button" class="btn btn-default btn-sm" ng-click="addScheduleEntry()">Add Time Window</button>
+                </div>
+
+                <div class="form-group">
+                    <label class="control-label">Sending pool</label>
+                    <p class="help-text">Applications used to send chat messages, run polls and moderate, so they do not use the quota of the application polling chat. The first usable application in the list is used; one that is not ready, exhausted or over the failover threshold is skipped. Leave empty to do everything with the active application.</p>
+                    <div ng-repeat="applicationId in rotation.policy.sendingApplicationIds" style="display: flex; gap: 6px; align-items: center; margin-bottom: 4px;">
+                        <span style="flex: 1;">{{$index + 1}}. {{rotationApplicationName(applicationId)}}</span>
+                        <button type="button" class="btn btn-default btn-xs" ng-click="moveApplication(rotation.policy.sendingApplicationIds, $index, -1)" ng-disabled="$first"><i class="fas fa-arrow-up"></i></button>
+                        <button type="button" class="btn btn-default btn-xs" ng-click="moveApplication(rotation.policy.sendingApplicationIds, $index, 1)" ng-disabled="$last"><i class="fas fa-arrow-down"></i></button>
+                        <button type="button" class="btn btn-danger btn-xs" ng-click="rotation.policy.sendingApplicationIds.splice($index, 1)"><i class="fas fa-times"></i></button>
+                    </div>
+                    <select class="form-control" style="width: auto;" ng-model="rotation.addSendingId" ng-change="addSending()" ng-options="app.id as app.name for app in applications | filter:notInSendingPool">
+                        <option value="">Add an application...</option>
+                    </select>
+                </div>
+
+                <div class="form-group">
+                    <firebot-checkbox label="Fail back to the preferred application after the daily quota reset" model="rotation.policy.failBackAfterReset" tooltip="At midnight Pacific Time, switch back to the scheduled application, or the first application in the priority order." />
+                </div>
+
+                <button type="button" class="btn btn-primary" ng-click="saveRotationPolicy()">Save Rotation Policy</button>
+            </eos-container>
+
+            <eos-container header="Export / Import Applications" pad-top="true">
+                <p class="help-text">Export your applications and quota settings to a file, or import them from a file exported on another computer. Authorizations are never exported; re-authorize each application after importing.</p>
+                <div class="form-group">
+                    <firebot-checkbox label="Include client secrets in the export" model="transfer.includeSecrets" tooltip="Client secrets are written to the file in plain text. Keep the file private. Applications imported without a secret need it re-entered before they can be authorized." />
+                </div>
+                <div class="form-group">
+                    <label class="control-label">When an imported application has the same client ID as an existing one:</label>
+                    <select class="form-control" ng-model="transfer.conflictMode">
+                        <option value="skip">Keep the existing application</option>
+                        <option value="replace">Replace its quota settings and client secret</option>
+                    </select>
+                </div>
+                <div style="display: flex; gap: 10px;">
+                    <button type="button" class="btn btn-default" ng-click="exportApplications()" ng-disabled="applications.length === 0">Export Applications</button>
+                    <button type="button" class="btn btn-default" ng-click="importApplications()">Import Applications</button>
                 </div>
             </eos-container>
         </div>
@@ -357,6 +519,36 @@ const youTubePage: AngularJsPage = {
         $scope.authorizeApplicationName = "";
         $scope.deauthorizeApplicationId = "";
         $scope.showFullEmails = false;
+        $scope.quotaHistory = {
+            applicationId: null,
+            days: 7,
+            report: null,
+            maxDailyUnits: 0,
+            totalUnits: 0
+        };
+        $scope.quotaHistoryRanges = [
+            { days: 7, label: "Last 7 days" },
+            { days: 14, label: "Last 14 days" },
+            { days: 30, label: "Last 30 days" }
+        ];
+        $scope.transfer = {
+            includeSecrets: false,
+            conflictMode: "skip"
+        };
+        $scope.quotaAdjust = {
+            applicationId: null,
+            quotaUnitsUsed: 0
+        };
+        $scope.rotation = {
+            policy: null,
+            addPriorityId: null,
+            addSendingId: null
+        };
+        $scope.rotationModes = [
+            { value: "lowest-usage", label: "Lowest usage (fail over to the application with the most quota left)" },
+            { value: "priority", label: "Priority order" },
+            { value: "round-robin", label: "Round-robin (next application for each stream)" }
+        ];
 
         $scope.redactEmail = (email: string): string => {
             if (!email) {
@@ -630,6 +822,198 @@ const youTubePage: AngularJsPage = {
             $scope.loadApplications();
         };
 
+        $scope.copyRedactedSettings = async () => {
+            const response = youTubeApplicationsService.getRedactedApplications();
+            if (response.errorMessage) {
+                ngToast.create({
+                    className: "danger",
+                    content: `Error exporting application settings: ${response.errorMessage}`
+                });
+                return;
+            }
+
+            try {
+                await navigator.clipboard.writeText(response.settings);
+                ngToast.create({
+                    className: "success",
+                    content: "Redacted application settings copied to clipboard."
+                });
+            } catch (error: any) {
+                ngToast.create({
+                    className: "danger",
+                    content: `Error copying application settings: ${error.message}`
+                });
+            }
+        };
+
+        const endpointColors = ["#1f77b4", "#ff7f0e", "#2ca02c", "#d62728", "#9467bd", "#8c564b", "#e377c2", "#7f7f7f", "#bcbd22", "#17becf"];
+
+        $scope.endpointColor = (index: number): string => {
+            return endpointColors[index % endpointColors.length];
+        };
+
+        $scope.loadQuotaHistory = () => {
+            if (!$scope.quotaHistory.applicationId || !$scope.applications.some((app: any) => app.id === $scope.quotaHistory.applicationId)) {
+                $scope.quotaHistory.applicationId = $scope.activeApplicationId || $scope.applications[0]?.id || null;
+            }
+
+            if (!$scope.quotaHistory.applicationId) {
+                $scope.quotaHistory.report = null;
+                return;
+            }
+
+            const response = youTubeApplicationsService.getQuotaHistory($scope.quotaHistory.applicationId, $scope.quotaHistory.days);
+            if (response.errorMessage) {
+                ngToast.create({
+                    className: "danger",
+                    content: `Error loading quota history: ${response.errorMessage}`
+                });
+                return;
+            }
+
+            $scope.quotaHistory.report = response;
+            $scope.quotaHistory.maxDailyUnits = Math.max(1, ...response.days.map((day: any) => day.totalUnits));
+            $scope.quotaHistory.totalUnits = response.endpoints.reduce((sum: number, endpoint: any) => sum + endpoint.units, 0);
+        };
+
+        $scope.startQuotaAdjust = (app: any) => {
+            $scope.quotaAdjust.applicationId = app.id;
+            $scope.quotaAdjust.quotaUnitsUsed = app.quotaUnitsUsed || 0;
+        };
+
+        $scope.cancelQuotaAdjust = () => {
+            $scope.quotaAdjust.applicationId = null;
+        };
+
+        $scope.saveQuotaAdjust = () => {
+            const response = youTubeApplicationsService.setQuotaUsage($scope.quotaAdjust.applicationId, $scope.quotaAdjust.quotaUnitsUsed);
+            if (response.errorMessage) {
+                ngToast.create({
+                    className: "danger",
+                    content: `Error setting quota usage: ${response.errorMessage}`
+                });
+                return;
+            }
+
+            $scope.quotaAdjust.applicationId = null;
+            $scope.loadApplications();
+        };
+
+        $scope.rotationApplicationName = (applicationId: string): string => {
+            return $scope.applications.find((app: any) => app.id === applicationId)?.name ?? applicationId;
+        };
+
+        $scope.notInPriorityOrder = (app: any): boolean => {
+            return !$scope.rotation.policy?.priorityOrder.includes(app.id);
+        };
+
+        $scope.addPriority = () => {
+            if ($scope.rotation.addPriorityId) {
+                $scope.rotation.policy.priorityOrder.push($scope.rotation.addPriorityId);
+            }
+            $scope.rotation.addPriorityId = null;
+        };
+
+        $scope.notInSendingPool = (app: any): boolean => {
+            return !$scope.rotation.policy?.sendingApplicationIds.includes(app.id);
+        };
+
+        $scope.addSending = () => {
+            if ($scope.rotation.addSendingId) {
+                $scope.rotation.policy.sendingApplicationIds.push($scope.rotation.addSendingId);
+            }
+            $scope.rotation.addSendingId = null;
+        };
+
+        $scope.moveApplication = (list: string[], index: number, offset: number) => {
+            const [applicationId] = list.splice(index, 1);
+            list.splice(index + offset, 0, applicationId);
+        };
+
+        $scope.addScheduleEntry = () => {
+            $scope.rotation.policy.schedule.push({ applicationId: $scope.applications[0]?.id, startTime: "", endTime: "" });
+        };
+
+        $scope.loadRotationPolicy = () => {
+            const response = youTubeApplicationsService.getRotationPolicy();
+            if (response.errorMessage) {
+                ngToast.create({
+                    className: "danger",
+                    content: `Error loading rotation policy: ${response.errorMessage}`
+                });
+                return;
+            }
+
+            $scope.rotation.policy = response;
+        };
+
+        $scope.saveRotationPolicy = () => {
+            const response = youTubeApplicationsService.saveRotationPolicy($scope.rotation.policy);
+            if (response.errorMessage) {
+                ngToast.create({
+                    className: "danger",
+                    content: response.errorMessage
+                });
+                return;
+            }
+
+            $scope.rotation.policy = response.policy;
+            ngToast.create({
+                className: "success",
+                content: "Rotation policy saved."
+            });
+        };
+
+        $scope.exportApplications = async () => {
+            const response = await youTubeApplicationsService.exportApplications($scope.transfer.includeSecrets);
+            if (response.errorMessage) {
+                ngToast.create({
+                    className: "danger",
+                    content: `Error exporting applications: ${response.errorMessage}`
+                });
+                return;
+            }
+
+            if (response.canceled) {
+                return;
+            }
+
+            ngToast.create({
+                className: "success",
+                content: `Exported ${response.count} application(s) to ${response.filePath}.`
+            });
+        };
+
+        $scope.importApplications = async () => {
+            const response = await youTubeApplicationsService.importApplications($scope.transfer.conflictMode);
+            if (response.errorMessage) {
+                ngToast.create({
+                    className: "danger",
+                    content: `Error importing applications: ${response.errorMessage}`
+                });
+                return;
+            }
+
+            if (response.canceled) {
+                return;
+            }
+
+            const { added, updated, skipped, missingSecrets, errors } = response.result;
+            ngToast.create({
+                className: errors.length > 0 ? "warning" : "success",
+                content: `Imported applications: ${added.length} added, ${updated.length} updated, ${skipped.length} skipped${errors.length > 0 ? `, ${errors.length} invalid (see log)` : ""}.`
+            });
+
+            if (missingSecrets.length > 0) {
+                ngToast.create({
+                    className: "warning",
+                    content: `Enter the client secret for ${missingSecrets.join(", ")} before authorizing.`
+                });
+            }
+
+            $scope.loadApplications();
+        };
+
         $scope.refreshButton = async () => {
             const response = await youTubeApplicationsService.refreshApplicationStates();
             if (response.errorMessage) {
@@ -693,6 +1077,8 @@ const youTubePage: AngularJsPage = {
 
         $scope.$applyAsync(() => {
             $scope.loadApplications();
+            $scope.loadQuotaHistory();
+            $scope.loadRotationPolicy();
         });
 
         // Set up periodic refresh of quota numbers (every 5 seconds)
@@ -0,0 +1,207 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { DataFileCorruptedError, DataFileNewerSchemaError, DataFileOptions, deleteDataFile, readDataFile, removeDataFileBackups, writeDataFile } from "../datafile";
+
+jest.mock("../../main", () => ({
+    firebot: {},
+    logger: {
+        debug: jest.fn(),
+        info: jest.fn(),
+        warn: jest.fn(),
+        error: jest.fn()
+    }
+}));
+
+describe("datafile persistence", () => {
+    let tempDir: string;
+    let filePath: string;
+
+    const options: DataFileOptions = {
+        schemaVersion: 1,
+        migrations: {
+            1: (data) => data
+        },
+        backupCount: 2
+    };
+
+    beforeEach(() => {
+        tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "datafile-"));
+        filePath = path.join(tempDir, "nested", "data.json");
+    });
+
+    afterEach(() => {
+        fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    const readRaw = (file: string) => JSON.parse(fs.readFileSync(file, "utf-8"));
+
+    describe("writeDataFile", () => {
+        it("writes the data with a schema version and leaves no temporary file", () => {
+            writeDataFile(filePath, { value: 1 }, options);
+
+            const contents = readRaw(filePath);
+            expect(contents.schemaVersion).toBe(1);
+            expect(contents.data).toEqual({ value: 1 });
+            expect(typeof contents.savedAt).toBe("number");
+            expect(fs.existsSync(`${filePath}.tmp`)).toBe(false);
+        });
+
+        it("keeps a limited number of rotating backups", () => {
+            writeDataFile(filePath, { value: 1 }, options);
+            writeDataFile(filePath, { value: 2 }, options);
+            writeDataFile(filePath, { value: 3 }, options);
+            writeDataFile(filePath, { value: 4 }, options);
+
+            expect(readRaw(filePath).data).toEqual({ value: 4 });
+            expect(readRaw(`${filePath}.bak.1`).data).toEqual({ value: 3 });
+            expect(readRaw(`${filePath}.bak.2`).data).toEqual({ value: 2 });
+            expect(fs.existsSync(`${filePath}.bak.3`)).toBe(false);
+        });
+    });
+
+    describe("readDataFile", () => {
+        it("returns null when the file does not exist", () => {
+            expect(readDataFile(filePath, options)).toBeNull();
+        });
+
+        it("reads data written by writeDataFile without needing a save", () => {
+            writeDataFile(filePath, { value: 1 }, options);
+
+            expect(readDataFile(filePath, options)).toEqual({ data: { value: 1 }, needsSave: false });
+        });
+
+        it("treats unversioned files as schema version 0 and migrates them", () => {
+            fs.mkdirSync(path.dirname(filePath), { recursive: true });
+            fs.writeFileSync(filePath, JSON.stringify({ legacy: true }));
+
+            expect(readDataFile(filePath, options)).toEqual({ data: { legacy: true }, needsSave: true });
+        });
+
+        it("runs migrations in order up to the current version", () => {
+            writeDataFile(filePath, { count: 1 }, options);
+            const upgraded: DataFileOptions = {
+                schemaVersion: 3,
+                migrations: {
+                    2: (data) => ({ ...data, count: data.count * 10 }),
+                    3: (data) => ({ ...data, count: data.count + 1, renamed: true })
+                }
+            };
+
+            expect(readDataFile(filePath, upgraded)).toEqual({ data: { count: 11, renamed: true }, needsSave: true });
+        });
+
+        it("quarantines a file that cannot be migrated and falls back to the backups", () => {
+            fs.mkdirSync(path.dirname(filePath), { recursive: true });
+            const upgraded: DataFileOptions = {
+                schemaVersion: 2,
+                migrations: {
+                    2: (data) => {
+                        if (data.count === 1) {
+                            throw new Error("bad data");
+                        }
+                        return data;
+                    }
+                }
+            };
+            fs.writeFileSync(filePath, JSON.stringify({ schemaVersion: 1, savedAt: 0, data: { count: 1 } }));
+            fs.writeFileSync(`${filePath}.bak.1`, JSON.stringify({ schemaVersion: 2, savedAt: 0, data: { count: 2 } }));
+
+            expect(readDataFile(filePath, upgraded)).toEqual({ data: { count: 2 }, needsSave: true });
+            expect(fs.readdirSync(path.dirname(filePath)).filter((name) => name.startsWith("data.json.corrupt-"))).toHaveLength(1);
+        });
+
+        it("treats a missing migration step like an unreadable file", () => {
+            writeDataFile(filePath, { count: 1 }, options);
+
+            expect(() => readDataFile(filePath, { schemaVersion: 2, backupCount: 0 })).toThrow(DataFileCorruptedError);
+            expect(fs.readdirSync(path.dirname(filePath)).filter((name) => name.startsWith("data.json.corrupt-"))).toHaveLength(1);
+        });
+
+        it("quarantines a file that fails validation and keeps it for inspection", () => {
+            writeDataFile(filePath, { value: 1 }, options);
+            writeDataFile(filePath, { wrong: true }, options);
+            const validated: DataFileOptions = {
+                ...options,
+                validate: (data) => {
+                    if (typeof data.value !== "number") {
+                        throw new Error("Invalid format");
+                    }
+                }
+            };
+
+            expect(readDataFile(filePath, validated)).toEqual({ data: { value: 1 }, needsSave: true });
+            const quarantined = fs.readdirSync(path.dirname(filePath)).filter((name) => name.startsWith("data.json.corrupt-"));
+            expect(quarantined).toHaveLength(1);
+            expect(readRaw(path.join(path.dirname(filePath), quarantined[0])).data).toEqual({ wrong: true });
+        });
+
+        it("loads files from a newer schema version as-is and refuses to overwrite them", () => {
+            writeDataFile(filePath, { value: 1 }, { schemaVersion: 5 });
+
+            expect(readDataFile(filePath, options)).toEqual({ data: { value: 1 }, needsSave: false });
+            expect(() => writeDataFile(filePath, { value: 2 }, options)).toThrow(DataFileNewerSchemaError);
+            expect(readRaw(filePath)).toEqual(expect.objectContaining({ schemaVersion: 5, data: { value: 1 } }));
+        });
+
+        it("quarantines a corrupted file and recovers from the newest backup", () => {
+            writeDataFile(filePath, { value: 1 }, options);
+            writeDataFile(filePath, { value: 2 }, options);
+            fs.writeFileSync(filePath, '{"schemaVersion": 1, "data": {"val');
+
+            const result = readDataFile(filePath, options);
+
+            expect(result).toEqual({ data: { value: 1 }, needsSave: true });
+            expect(fs.existsSync(filePath)).toBe(false);
+            const quarantined = fs.readdirSync(path.dirname(filePath)).filter((name) => name.startsWith("data.json.corrupt-"));
+            expect(quarantined).toHaveLength(1);
+        });
+
+        it("recovers from the newest backup when the file is missing", () => {
+            writeDataFile(filePath, { value: 1 }, options);
+            writeDataFile(filePath, { value: 2 }, options);
+            fs.rmSync(filePath);
+
+            expect(readDataFile(filePath, options)).toEqual({ data: { value: 1 }, needsSave: true });
+        });
+
+        it("throws after quarantining when the file and all backups are unreadable", () => {
+            fs.mkdirSync(path.dirname(filePath), { recursive: true });
+            fs.writeFileSync(filePath, "not json");
+            fs.writeFileSync(`${filePath}.bak.1`, "also not json");
+
+            expect(() => readDataFile(filePath, options)).toThrow(DataFileCorruptedError);
+            const remaining = fs.readdirSync(path.dirname(filePath));
+            expect(remaining.filter((name) => name.includes(".corrupt-"))).toHaveLength(2);
+            expect(remaining).not.toContain("data.json");
+        });
+    });
+
+    describe("removeDataFileBackups", () => {
+        it("deletes backups and quarantined copies but keeps the file and other files", () => {
+            writeDataFile(filePath, { value: 1 }, options);
+            writeDataFile(filePath, { value: 2 }, options);
+            writeDataFile(filePath, { value: 3 }, options);
+            fs.writeFileSync(`${filePath}.corrupt-1700000000000`, "not json");
+            fs.writeFileSync(path.join(path.dirname(filePath), "other.json.bak.1"), "{}");
+
+            removeDataFileBackups(filePath);
+
+            expect(fs.readdirSync(path.dirname(filePath)).sort()).toEqual(["data.json", "other.json.bak.1"]);
+            expect(readRaw(filePath).data).toEqual({ value: 3 });
+        });
+    });
+
+    describe("deleteDataFile", () => {
+        it("deletes the file along with its backups and quarantined copies", () => {
+            writeDataFile(filePath, { value: 1 }, options);
+            writeDataFile(filePath, { value: 2 }, options);
+            fs.writeFileSync(`${filePath}.corrupt-1700000000000`, "not json");
+
+            deleteDataFile(filePath);
+
+            expect(fs.readdirSync(path.dirname(filePath))).toEqual([]);
+            expect(readDataFile(filePath, options)).toBeNull();
+        });
+    });
+});
@@ -0,0 +1,19 @@
+import { prefixReplyMention } from "../reply";
+
+describe("prefixReplyMention", () => {
+    it("prefixes the author's display name as a mention", () => {
+        expect(prefixReplyMention("Thanks for the follow!", "John Viewer")).toBe("@John Viewer Thanks for the follow!");
+    });
+
+    it("does not double the mention when the message already starts with it", () => {
+        expect(prefixReplyMention("@john viewer thanks!", "John Viewer")).toBe("@john viewer thanks!");
+    });
+
+    it("strips a leading @ from the display name", () => {
+        expect(prefixReplyMention("hi", "@Handle")).toBe("@Handle hi");
+    });
+
+    it("returns the message unchanged when the display name is empty", () => {
+        expect(prefixReplyMention("hi", " ")).toBe("hi");
+    });
+});
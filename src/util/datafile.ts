@@ -1,7 +1,86 @@
 import * as fs from "fs";
 import * as path from "path";
 
-import { firebot } from "../main";
+import { firebot, logger } from "../main";
+
+/**
+ * Number of previous versions of a data file kept as rotating backups
+ */
+const DEFAULT_BACKUP_COUNT = 3;
+
+/**
+ * A migration upgrades the data of a file by one schema version.
+ * Migrations are keyed by the version they produce (e.g. key 2 upgrades version 1 data to version 2).
+ */
+export type DataFileMigration = (data: any) => any;
+
+export interface DataFileOptions {
+    /**
+     * Current schema version of the data, stamped into the file when saving
+     */
+    schemaVersion: number;
+
+    /**
+     * Migrations keyed by the schema version they produce. Files written before
+     * versioning was introduced are treated as version 0.
+     */
+    migrations?: Record<number, DataFileMigration>;
+
+    /**
+     * Number of rotating backups to keep (default 3)
+     */
+    backupCount?: number;
+
+    /**
+     * Check the shape of the data after migration. Throwing treats the file like an unreadable
+     * one: it is quarantined and the backups are tried instead.
+     */
+    validate?: (data: any) => void;
+}
+
+export interface DataFileReadResult<T> {
+    data: T;
+
+    /**
+     * True if the data was upgraded or recovered and should be saved again
+     */
+    needsSave: boolean;
+}
+
+/**
+ * On-disk format of a versioned data file
+ */
+interface DataFileEnvelope {
+    schemaVersion: number;
+    savedAt: number;
+    data: unknown;
+}
+
+/**
+ * Thrown when a data file and all of its backups are unreadable.
+ * The unreadable files have been quarantined, not deleted.
+ */
+export class DataFileCorruptedError extends Error {
+    constructor(filePath: string) {
+        super(`Data file "${path.basename(filePath)}" and its backups are unreadable; corrupted files were quarantined`);
+        this.name = "DataFileCorruptedError";
+    }
+}
+
+/**
+ * Thrown when saving would overwrite a data file written by a newer version of the plugin
+ */
+export class DataFileNewerSchemaError extends Error {
+    constructor(filePath: string, schemaVersion: number) {
+        super(`Data file "${path.basename(filePath)}" was written by a newer version (schema ${schemaVersion}); not overwriting it`);
+        this.name = "DataFileNewerSchemaError";
+    }
+}
+
+/**
+ * Newest schema version seen when reading data files that were written by a newer version, by path
+ */
+const newerSchemaFiles = new Map<string, number>();
 
 /**
  * Get the path to a data file in the script data directory
@@ -20,3 +99,197 @@ export function getDataFilePath(filename: string): string {
 
     return result;
 }
+
+function getBackupPath(filePath: string, index: number): string {
+    return `${filePath}.bak.${index}`;
+}
+
+/**
+ * Write a data file atomically: the current file is rotated into the backups,
+ * the new contents are written to a temporary file, and the temporary file is
+ * renamed over the original so a crash never leaves a half-written file.
+ */
+export function writeDataFile(filePath: string, data: unknown, options: DataFileOptions): void {
+    // Saving would stamp the newer data with the older schema, and a later upgrade would migrate it again
+    const newerSchemaVersion = newerSchemaFiles.get(filePath);
+    if (newerSchemaVersion !== undefined && newerSchemaVersion > options.schemaVersion) {
+        throw new DataFileNewerSchemaError(filePath, newerSchemaVersion);
+    }
+
+    const envelope: DataFileEnvelope = {
+        schemaVersion: options.schemaVersion,
+        savedAt: Date.now(),
+        data
+    };
+
+    const dir = path.dirname(filePath);
+    if (!fs.existsSync(dir)) {
+        fs.mkdirSync(dir, { recursive: true });
+    }
+
+    rotateBackups(filePath, options.backupCount ?? DEFAULT_BACKUP_COUNT);
+
+    const tempPath = `${filePath}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(envelope, null, 2), "utf-8");
+    fs.renameSync(tempPath, filePath);
+}
+
+/**
+ * Read a data file, running any migrations needed to bring it to the current schema version.
+ * If the file is missing, unreadable, cannot be migrated or fails validation, the newest usable
+ * backup is used instead (unusable files are quarantined). A file from a newer schema version is
+ * loaded as-is, and writeDataFile refuses to overwrite it afterwards.
+ *
+ * @returns The data, or null if neither the file nor any backup exists
+ * @throws DataFileCorruptedError if the file and all backups are unusable
+ */
+export function readDataFile<T>(filePath: string, options: DataFileOptions): DataFileReadResult<T> | null {
+    const candidates = [filePath];
+    const backupCount = options.backupCount ?? DEFAULT_BACKUP_COUNT;
+    for (let i = 1; i <= backupCount; i++) {
+        candidates.push(getBackupPath(filePath, i));
+    }
+
+    if (!candidates.some((candidate) => fs.existsSync(candidate))) {
+        return null;
+    }
+
+    for (const candidate of candidates) {
+        if (!fs.existsSync(candidate)) {
+            continue;
+        }
+
+        let envelope: DataFileEnvelope;
+        let data: unknown;
+        let migrated: boolean;
+        try {
+            envelope = parseDataFile(fs.readFileSync(candidate, "utf-8"));
+            ({ data, migrated } = migrate(envelope, options, path.basename(filePath)));
+            options.validate?.(data);
+        } catch (error) {
+            logger.error(`Data file "${candidate}" is unusable: ${error instanceof Error ? error.message : String(error)}`);
+            quarantine(candidate);
+            continue;
+        }
+
+        if (envelope.schemaVersion > options.schemaVersion) {
+            newerSchemaFiles.set(filePath, envelope.schemaVersion);
+        } else {
+            newerSchemaFiles.delete(filePath);
+        }
+
+        const recovered = candidate !== filePath;
+        if (recovered) {
+            logger.warn(`Recovered "${path.basename(filePath)}" from backup "${path.basename(candidate)}"`);
+        }
+
+        return { data: data as T, needsSave: recovered || migrated };
+    }
+
+    throw new DataFileCorruptedError(filePath);
+}
+
+/**
+ * Delete the backups and quarantined copies of a data file, e.g. because they still hold
+ * credentials that have since been encrypted in the file itself
+ */
+export function removeDataFileBackups(filePath: string): void {
+    const dir = path.dirname(filePath);
+    const baseName = path.basename(filePath);
+    try {
+        if (!fs.existsSync(dir)) {
+            return;
+        }
+
+        for (const entry of fs.readdirSync(dir)) {
+            const suffix = entry.startsWith(baseName) ? entry.substring(baseName.length) : "";
+            if (/^\.bak\.\d+$/.test(suffix) || /^\.corrupt-\d+$/.test(suffix)) {
+                fs.rmSync(path.join(dir, entry), { force: true });
+            }
+        }
+    } catch (error) {
+        logger.error(`Failed to delete backups of "${baseName}": ${error instanceof Error ? error.message : String(error)}`);
+    }
+}
+
+/**
+ * Delete a data file along with its backups and quarantined copies
+ */
+export function deleteDataFile(filePath: string): void {
+    fs.rmSync(filePath, { force: true });
+    fs.rmSync(`${filePath}.tmp`, { force: true });
+    removeDataFileBackups(filePath);
+    newerSchemaFiles.delete(filePath);
+}
+
+/**
+ * Parse file contents into an envelope. Files written before versioning are
+ * plain JSON objects and are treated as schema version 0.
+ */
+function parseDataFile(contents: string): DataFileEnvelope {
+    const parsed = JSON.parse(contents);
+    if (!parsed || typeof parsed !== "object") {
+        throw new Error("Data file does not contain a JSON object");
+    }
+
+    if (typeof parsed.schemaVersion === "number" && "data" in parsed) {
+        return parsed as DataFileEnvelope;
+    }
+
+    return { schemaVersion: 0, savedAt: 0, data: parsed };
+}
+
+function migrate(envelope: DataFileEnvelope, options: DataFileOptions, fileName: string): { data: unknown; migrated: boolean } {
+    let data = envelope.data;
+    let version = envelope.schemaVersion;
+
+    if (version > options.schemaVersion) {
+        logger.warn(`"${fileName}" was written by a newer version (schema ${version}, expected ${options.schemaVersion}); loading it as-is without saving changes`);
+        return { data, migrated: false };
+    }
+
+    while (version < options.schemaVersion) {
+        const next = version + 1;
+        const migration = options.migrations?.[next];
+        if (!migration) {
+            throw new Error(`No migration registered for "${fileName}" from schema ${version} to ${next}`);
+        }
+
+        logger.info(`Migrating "${fileName}" from schema ${version} to ${next}`);
+        data = migration(data);
+        version = next;
+    }
+
+    return { data, migrated: envelope.schemaVersion !== options.schemaVersion };
+}
+
+/**
+ * Shift existing backups down by one (dropping the oldest) and copy the current file into the first slot
+ */
+function rotateBackups(filePath: string, backupCount: number): void {
+    if (backupCount <= 0 || !fs.existsSync(filePath)) {
+        return;
+    }
+
+    for (let i = backupCount - 1; i >= 1; i--) {
+        const from = getBackupPath(filePath, i);
+        if (fs.existsSync(from)) {
+            fs.renameSync(from, getBackupPath(filePath, i + 1));
+        }
+    }
+
+    fs.copyFileSync(filePath, getBackupPath(filePath, 1));
+}
+
+/**
+ * Move an unreadable file aside so it can be inspected (and is never overwritten)
+ */
+function quarantine(filePath: string): void {
+    const quarantinePath = `${filePath}.corrupt-${Date.now()}`;
+    try {
+        fs.renameSync(filePath, quarantinePath);
+        logger.warn(`Quarantined unreadable data file as "${quarantinePath}"`);
+    } catch (error) {
+        logger.error(`Failed to quarantine "${filePath}": ${error instanceof Error ? error.message : String(error)}`);
+    }
+}
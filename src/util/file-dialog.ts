@@ -0,0 +1,43 @@
+/**
+ * The subset of Electron's dialog API used to choose files
+ */
+interface ElectronDialog {
+    showSaveDialog(options: { title?: string; defaultPath?: string; filters?: FileFilter[] }): Promise<{ canceled: boolean; filePath?: string }>;
+    showOpenDialog(options: { title?: string; filters?: FileFilter[]; properties?: string[] }): Promise<{ canceled: boolean; filePaths: string[] }>;
+}
+
+interface FileFilter {
+    name: string;
+    extensions: string[];
+}
+
+const JSON_FILTERS: FileFilter[] = [{ name: "JSON Files", extensions: ["json"] }];
+
+function getDialog(): ElectronDialog {
+    // biome-ignore lint/style/noCommonJs: Electron is only available at runtime inside Firebot
+    const { dialog } = require("electron") as { dialog?: ElectronDialog };
+    if (!dialog) {
+        throw new Error("File dialogs are not available");
+    }
+    return dialog;
+}
+
+/**
+ * Ask the user where to save a JSON file
+ *
+ * @returns The chosen path, or null if the user cancelled
+ */
+export async function chooseJsonSavePath(title: string, defaultFileName: string): Promise<string | null> {
+    const result = await getDialog().showSaveDialog({ title, defaultPath: defaultFileName, filters: JSON_FILTERS });
+    return result.canceled || !result.filePath ? null : result.filePath;
+}
+
+/**
+ * Ask the user to choose a JSON file to open
+ *
+ * @returns The chosen path, or null if the user cancelled
+ */
+export async function chooseJsonOpenPath(title: string): Promise<string | null> {
+    const result = await getDialog().showOpenDialog({ title, filters: JSON_FILTERS, properties: ["openFile"] });
+    return result.canceled || result.filePaths.length === 0 ? null : result.filePaths[0];
+}
@@ -0,0 +1,23 @@
+/**
+ * Prefix a message with an @mention of the author it replies to.
+ * YouTube live chat has no native replies, so a mention is the closest equivalent.
+ * The message is returned unchanged if it already starts with the mention.
+ *
+ * @param message - The reply text
+ * @param authorDisplayName - Display name of the author of the original message
+ * @returns The message with the mention prefixed
+ */
+export function prefixReplyMention(message: string, authorDisplayName: string): string {
+    const name = authorDisplayName.trim().replace(/^@/, "");
+    if (!name) {
+        return message;
+    }
+
+    const mention = `@${name}`;
+    const trimmed = message.trimStart();
+    if (trimmed.toLowerCase().startsWith(mention.toLowerCase())) {
+        return message;
+    }
+
+    return `${mention} ${trimmed}`;
+}
@@ -0,0 +1,34 @@
+import { Trigger } from "@crowbartools/firebot-custom-scripts-types/types/triggers";
+import { youtubeBanDurationVariable } from "../youtube-ban-duration";
+
+describe("youtubeBanDurationVariable.evaluator", () => {
+    const makeTrigger = (eventData?: any): Trigger =>
+        ({
+            type: "event",
+            metadata: {
+                username: "testuser",
+                eventData
+            }
+        }) as Trigger;
+
+    it("returns banDurationSeconds from eventData", () => {
+        const trigger = makeTrigger({ banDurationSeconds: 300 });
+
+        const result = youtubeBanDurationVariable.evaluator(trigger);
+        expect(result).toBe(300);
+    });
+
+    it("returns null when eventData is missing", () => {
+        const trigger = makeTrigger(undefined);
+
+        const result = youtubeBanDurationVariable.evaluator(trigger);
+        expect(result).toBeNull();
+    });
+
+    it("returns null when banDurationSeconds is missing from eventData", () => {
+        const trigger = makeTrigger({ username: "ExampleUser@youtube" });
+
+        const result = youtubeBanDurationVariable.evaluator(trigger);
+        expect(result).toBeNull();
+    });
+});
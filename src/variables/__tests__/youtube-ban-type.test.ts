@@ -0,0 +1,34 @@
+import { Trigger } from "@crowbartools/firebot-custom-scripts-types/types/triggers";
+import { youtubeBanTypeVariable } from "../youtube-ban-type";
+
+describe("youtubeBanTypeVariable.evaluator", () => {
+    const makeTrigger = (eventData?: any): Trigger =>
+        ({
+            type: "event",
+            metadata: {
+                username: "testuser",
+                eventData
+            }
+        }) as Trigger;
+
+    it("returns banType from eventData", () => {
+        const trigger = makeTrigger({ banType: "temporary" });
+
+        const result = youtubeBanTypeVariable.evaluator(trigger);
+        expect(result).toBe("temporary");
+    });
+
+    it("returns empty string when eventData is missing", () => {
+        const trigger = makeTrigger(undefined);
+
+        const result = youtubeBanTypeVariable.evaluator(trigger);
+        expect(result).toBe("");
+    });
+
+    it("returns empty string when banType is missing from eventData", () => {
+        const trigger = makeTrigger({ username: "ExampleUser@youtube" });
+
+        const result = youtubeBanTypeVariable.evaluator(trigger);
+        expect(result).toBe("");
+    });
+});
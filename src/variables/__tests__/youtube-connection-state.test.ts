@@ -0,0 +1,40 @@
+import { Trigger } from "@crowbartools/firebot-custom-scripts-types/types/triggers";
+import { youtubeConnectionStateVariable } from "../youtube-connection-state";
+
+const mockGetState = jest.fn();
+
+jest.mock("../../integration-singleton", () => ({
+    integration: {
+        getConnectionSupervisor: () => ({
+            getState: mockGetState
+        })
+    }
+}));
+
+describe("youtubeConnectionStateVariable.evaluator", () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+    });
+
+    const makeTrigger = (eventData?: any): Trigger =>
+        ({
+            type: "event",
+            metadata: {
+                username: "testuser",
+                eventData
+            }
+        }) as Trigger;
+
+    it("returns the state from eventData when present", () => {
+        const result = youtubeConnectionStateVariable.evaluator(makeTrigger({ state: "Reconnecting" }));
+
+        expect(result).toBe("Reconnecting");
+        expect(mockGetState).not.toHaveBeenCalled();
+    });
+
+    it("falls back to the connection supervisor's state when eventData is missing", () => {
+        mockGetState.mockReturnValue("Waiting for quota reset");
+
+        expect(youtubeConnectionStateVariable.evaluator(makeTrigger(undefined))).toBe("Waiting for quota reset");
+    });
+});
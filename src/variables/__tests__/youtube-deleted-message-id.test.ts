@@ -0,0 +1,34 @@
+import { Trigger } from "@crowbartools/firebot-custom-scripts-types/types/triggers";
+import { youtubeDeletedMessageIdVariable } from "../youtube-deleted-message-id";
+
+describe("youtubeDeletedMessageIdVariable.evaluator", () => {
+    const makeTrigger = (eventData?: any): Trigger =>
+        ({
+            type: "event",
+            metadata: {
+                username: "testuser",
+                eventData
+            }
+        }) as Trigger;
+
+    it("returns deletedMessageId from eventData", () => {
+        const trigger = makeTrigger({ deletedMessageId: "example-message-id" });
+
+        const result = youtubeDeletedMessageIdVariable.evaluator(trigger);
+        expect(result).toBe("example-message-id");
+    });
+
+    it("returns empty string when eventData is missing", () => {
+        const trigger = makeTrigger(undefined);
+
+        const result = youtubeDeletedMessageIdVariable.evaluator(trigger);
+        expect(result).toBe("");
+    });
+
+    it("returns empty string when deletedMessageId is missing from eventData", () => {
+        const trigger = makeTrigger({ username: "ExampleUser@youtube" });
+
+        const result = youtubeDeletedMessageIdVariable.evaluator(trigger);
+        expect(result).toBe("");
+    });
+});
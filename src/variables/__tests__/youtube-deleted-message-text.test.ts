@@ -0,0 +1,34 @@
+import { Trigger } from "@crowbartools/firebot-custom-scripts-types/types/triggers";
+import { youtubeDeletedMessageTextVariable } from "../youtube-deleted-message-text";
+
+describe("youtubeDeletedMessageTextVariable.evaluator", () => {
+    const makeTrigger = (eventData?: any): Trigger =>
+        ({
+            type: "event",
+            metadata: {
+                username: "testuser",
+                eventData
+            }
+        }) as Trigger;
+
+    it("returns messageText from eventData", () => {
+        const trigger = makeTrigger({ messageText: "Example deleted message" });
+
+        const result = youtubeDeletedMessageTextVariable.evaluator(trigger);
+        expect(result).toBe("Example deleted message");
+    });
+
+    it("returns empty string when eventData is missing", () => {
+        const trigger = makeTrigger(undefined);
+
+        const result = youtubeDeletedMessageTextVariable.evaluator(trigger);
+        expect(result).toBe("");
+    });
+
+    it("returns empty string when messageText is missing from eventData", () => {
+        const trigger = makeTrigger({ username: "ExampleUser@youtube" });
+
+        const result = youtubeDeletedMessageTextVariable.evaluator(trigger);
+        expect(result).toBe("");
+    });
+});
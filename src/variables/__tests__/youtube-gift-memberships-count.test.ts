@@ -0,0 +1,34 @@
+import { Trigger } from "@crowbartools/firebot-custom-scripts-types/types/triggers";
+import { youtubeGiftMembershipsCountVariable } from "../youtube-gift-memberships-count";
+
+describe("youtubeGiftMembershipsCountVariable.evaluator", () => {
+    const makeTrigger = (eventData?: any): Trigger =>
+        ({
+            type: "event",
+            metadata: {
+                username: "testuser",
+                eventData
+            }
+        }) as Trigger;
+
+    it("returns giftCount from eventData", () => {
+        const trigger = makeTrigger({ giftCount: 5 });
+
+        const result = youtubeGiftMembershipsCountVariable.evaluator(trigger);
+        expect(result).toBe(5);
+    });
+
+    it("returns null when eventData is missing", () => {
+        const trigger = makeTrigger(undefined);
+
+        const result = youtubeGiftMembershipsCountVariable.evaluator(trigger);
+        expect(result).toBeNull();
+    });
+
+    it("returns null when giftCount is missing from eventData", () => {
+        const trigger = makeTrigger({ username: "ExampleUser@youtube" });
+
+        const result = youtubeGiftMembershipsCountVariable.evaluator(trigger);
+        expect(result).toBeNull();
+    });
+});
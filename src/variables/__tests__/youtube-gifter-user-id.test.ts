@@ -0,0 +1,34 @@
+import { Trigger } from "@crowbartools/firebot-custom-scripts-types/types/triggers";
+import { youtubeGifterUserIdVariable } from "../youtube-gifter-user-id";
+
+describe("youtubeGifterUserIdVariable.evaluator", () => {
+    const makeTrigger = (eventData?: any): Trigger =>
+        ({
+            type: "event",
+            metadata: {
+                username: "testuser",
+                eventData
+            }
+        }) as Trigger;
+
+    it("returns gifterUserId from eventData", () => {
+        const trigger = makeTrigger({ gifterUserId: "yUC0987654321" });
+
+        const result = youtubeGifterUserIdVariable.evaluator(trigger);
+        expect(result).toBe("yUC0987654321");
+    });
+
+    it("returns empty string when eventData is missing", () => {
+        const trigger = makeTrigger(undefined);
+
+        const result = youtubeGifterUserIdVariable.evaluator(trigger);
+        expect(result).toBe("");
+    });
+
+    it("returns empty string when gifterUserId is missing from eventData", () => {
+        const trigger = makeTrigger({ username: "ExampleUser@youtube" });
+
+        const result = youtubeGifterUserIdVariable.evaluator(trigger);
+        expect(result).toBe("");
+    });
+});
@@ -0,0 +1,34 @@
+import { Trigger } from "@crowbartools/firebot-custom-scripts-types/types/triggers";
+import { youtubeGifterUsernameVariable } from "../youtube-gifter-username";
+
+describe("youtubeGifterUsernameVariable.evaluator", () => {
+    const makeTrigger = (eventData?: any): Trigger =>
+        ({
+            type: "event",
+            metadata: {
+                username: "testuser",
+                eventData
+            }
+        }) as Trigger;
+
+    it("returns gifterUsername from eventData", () => {
+        const trigger = makeTrigger({ gifterUsername: "GenerousUser@youtube" });
+
+        const result = youtubeGifterUsernameVariable.evaluator(trigger);
+        expect(result).toBe("GenerousUser@youtube");
+    });
+
+    it("returns empty string when eventData is missing", () => {
+        const trigger = makeTrigger(undefined);
+
+        const result = youtubeGifterUsernameVariable.evaluator(trigger);
+        expect(result).toBe("");
+    });
+
+    it("returns empty string when gifterUsername is missing from eventData", () => {
+        const trigger = makeTrigger({ username: "ExampleUser@youtube" });
+
+        const result = youtubeGifterUsernameVariable.evaluator(trigger);
+        expect(result).toBe("");
+    });
+});
@@ -0,0 +1,34 @@
+import { Trigger } from "@crowbartools/firebot-custom-scripts-types/types/triggers";
+import { youtubeMemberIsUpgradeVariable } from "../youtube-member-is-upgrade";
+
+describe("youtubeMemberIsUpgradeVariable.evaluator", () => {
+    const makeTrigger = (eventData?: any): Trigger =>
+        ({
+            type: "event",
+            metadata: {
+                username: "testuser",
+                eventData
+            }
+        }) as Trigger;
+
+    it("returns isUpgrade from eventData", () => {
+        const trigger = makeTrigger({ isUpgrade: true });
+
+        const result = youtubeMemberIsUpgradeVariable.evaluator(trigger);
+        expect(result).toBe(true);
+    });
+
+    it("returns false when eventData is missing", () => {
+        const trigger = makeTrigger(undefined);
+
+        const result = youtubeMemberIsUpgradeVariable.evaluator(trigger);
+        expect(result).toBe(false);
+    });
+
+    it("returns false when isUpgrade is missing from eventData", () => {
+        const trigger = makeTrigger({ username: "ExampleUser@youtube" });
+
+        const result = youtubeMemberIsUpgradeVariable.evaluator(trigger);
+        expect(result).toBe(false);
+    });
+});
@@ -0,0 +1,34 @@
+import { Trigger } from "@crowbartools/firebot-custom-scripts-types/types/triggers";
+import { youtubeMemberLevelNameVariable } from "../youtube-member-level-name";
+
+describe("youtubeMemberLevelNameVariable.evaluator", () => {
+    const makeTrigger = (eventData?: any): Trigger =>
+        ({
+            type: "event",
+            metadata: {
+                username: "testuser",
+                eventData
+            }
+        }) as Trigger;
+
+    it("returns memberLevelName from eventData", () => {
+        const trigger = makeTrigger({ memberLevelName: "Member" });
+
+        const result = youtubeMemberLevelNameVariable.evaluator(trigger);
+        expect(result).toBe("Member");
+    });
+
+    it("returns empty string when eventData is missing", () => {
+        const trigger = makeTrigger(undefined);
+
+        const result = youtubeMemberLevelNameVariable.evaluator(trigger);
+        expect(result).toBe("");
+    });
+
+    it("returns empty string when memberLevelName is missing from eventData", () => {
+        const trigger = makeTrigger({ username: "ExampleUser@youtube" });
+
+        const result = youtubeMemberLevelNameVariable.evaluator(trigger);
+        expect(result).toBe("");
+    });
+});
@@ -0,0 +1,34 @@
+import { Trigger } from "@crowbartools/firebot-custom-scripts-types/types/triggers";
+import { youtubeMemberMilestoneCommentVariable } from "../youtube-member-milestone-comment";
+
+describe("youtubeMemberMilestoneCommentVariable.evaluator", () => {
+    const makeTrigger = (eventData?: any): Trigger =>
+        ({
+            type: "event",
+            metadata: {
+                username: "testuser",
+                eventData
+            }
+        }) as Trigger;
+
+    it("returns userComment from eventData", () => {
+        const trigger = makeTrigger({ userComment: "Half a year already!" });
+
+        const result = youtubeMemberMilestoneCommentVariable.evaluator(trigger);
+        expect(result).toBe("Half a year already!");
+    });
+
+    it("returns empty string when eventData is missing", () => {
+        const trigger = makeTrigger(undefined);
+
+        const result = youtubeMemberMilestoneCommentVariable.evaluator(trigger);
+        expect(result).toBe("");
+    });
+
+    it("returns empty string when userComment is missing from eventData", () => {
+        const trigger = makeTrigger({ username: "ExampleUser@youtube" });
+
+        const result = youtubeMemberMilestoneCommentVariable.evaluator(trigger);
+        expect(result).toBe("");
+    });
+});
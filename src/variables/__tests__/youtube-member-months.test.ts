@@ -0,0 +1,34 @@
+import { Trigger } from "@crowbartools/firebot-custom-scripts-types/types/triggers";
+import { youtubeMemberMonthsVariable } from "../youtube-member-months";
+
+describe("youtubeMemberMonthsVariable.evaluator", () => {
+    const makeTrigger = (eventData?: any): Trigger =>
+        ({
+            type: "event",
+            metadata: {
+                username: "testuser",
+                eventData
+            }
+        }) as Trigger;
+
+    it("returns memberMonth from eventData", () => {
+        const trigger = makeTrigger({ memberMonth: 6 });
+
+        const result = youtubeMemberMonthsVariable.evaluator(trigger);
+        expect(result).toBe(6);
+    });
+
+    it("returns null when eventData is missing", () => {
+        const trigger = makeTrigger(undefined);
+
+        const result = youtubeMemberMonthsVariable.evaluator(trigger);
+        expect(result).toBeNull();
+    });
+
+    it("returns null when memberMonth is missing from eventData", () => {
+        const trigger = makeTrigger({ username: "ExampleUser@youtube" });
+
+        const result = youtubeMemberMonthsVariable.evaluator(trigger);
+        expect(result).toBeNull();
+    });
+});
@@ -0,0 +1,44 @@
+/* eslint-disable @typescript-eslint/unbound-method */
+import { Trigger } from "@crowbartools/firebot-custom-scripts-types/types/triggers";
+import { youtubeModeratorsVariable } from "../youtube-moderators";
+
+const mockGetModerators = jest.fn();
+
+jest.mock("../../integration-singleton", () => ({
+    integration: {
+        getModeratorManager: () => ({
+            getModerators: mockGetModerators
+        })
+    }
+}));
+
+describe("youtubeModeratorsVariable.evaluator", () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+    });
+
+    const makeTrigger = (): Trigger =>
+        ({
+            type: "event",
+            metadata: {
+                username: "testuser"
+            }
+        }) as Trigger;
+
+    it("returns the display names of cached moderators", () => {
+        mockGetModerators.mockReturnValue([
+            { moderatorId: "mod1", channelId: "UCalice", displayName: "Alice", profilePicUrl: "" },
+            { moderatorId: "mod2", channelId: "UCbob", displayName: "Bob", profilePicUrl: "" }
+        ]);
+
+        const result = youtubeModeratorsVariable.evaluator(makeTrigger());
+        expect(result).toEqual(["Alice", "Bob"]);
+    });
+
+    it("returns an empty array when there are no moderators", () => {
+        mockGetModerators.mockReturnValue([]);
+
+        const result = youtubeModeratorsVariable.evaluator(makeTrigger());
+        expect(result).toEqual([]);
+    });
+});
@@ -0,0 +1,34 @@
+import { Trigger } from "@crowbartools/firebot-custom-scripts-types/types/triggers";
+import { youtubePollIdVariable } from "../youtube-poll-id";
+
+describe("youtubePollIdVariable.evaluator", () => {
+    const makeTrigger = (eventData?: any): Trigger =>
+        ({
+            type: "event",
+            metadata: {
+                username: "testuser",
+                eventData
+            }
+        }) as Trigger;
+
+    it("returns pollId from eventData", () => {
+        const trigger = makeTrigger({ pollId: "example-poll-id", questionText: "What should we play next?" });
+
+        const result = youtubePollIdVariable.evaluator(trigger);
+        expect(result).toBe("example-poll-id");
+    });
+
+    it("returns empty string when eventData is missing", () => {
+        const trigger = makeTrigger(undefined);
+
+        const result = youtubePollIdVariable.evaluator(trigger);
+        expect(result).toBe("");
+    });
+
+    it("returns empty string when pollId is missing from eventData", () => {
+        const trigger = makeTrigger({ questionText: "What should we play next?" });
+
+        const result = youtubePollIdVariable.evaluator(trigger);
+        expect(result).toBe("");
+    });
+});
@@ -0,0 +1,45 @@
+import { Trigger } from "@crowbartools/firebot-custom-scripts-types/types/triggers";
+import { youtubePollOptionTextVariable } from "../youtube-poll-option-text";
+
+describe("youtubePollOptionTextVariable.evaluator", () => {
+    const makeTrigger = (eventData?: any): Trigger =>
+        ({
+            type: "event",
+            metadata: {
+                username: "testuser",
+                eventData
+            }
+        }) as Trigger;
+
+    const pollEventData = {
+        options: [
+            { optionText: "Puzzle game", tally: 12 },
+            { optionText: "Racing game", tally: 7 }
+        ]
+    };
+
+    it("returns the first option when no position is given", () => {
+        const result = youtubePollOptionTextVariable.evaluator(makeTrigger(pollEventData));
+        expect(result).toBe("Puzzle game");
+    });
+
+    it("returns the option at the given 1-based position", () => {
+        const result = youtubePollOptionTextVariable.evaluator(makeTrigger(pollEventData), "2");
+        expect(result).toBe("Racing game");
+    });
+
+    it("returns empty string for a position past the last option", () => {
+        const result = youtubePollOptionTextVariable.evaluator(makeTrigger(pollEventData), "3");
+        expect(result).toBe("");
+    });
+
+    it("returns empty string for an invalid position", () => {
+        expect(youtubePollOptionTextVariable.evaluator(makeTrigger(pollEventData), "0")).toBe("");
+        expect(youtubePollOptionTextVariable.evaluator(makeTrigger(pollEventData), "abc")).toBe("");
+    });
+
+    it("returns empty string when eventData is missing", () => {
+        const result = youtubePollOptionTextVariable.evaluator(makeTrigger(undefined));
+        expect(result).toBe("");
+    });
+});
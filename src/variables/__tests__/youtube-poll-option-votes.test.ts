@@ -0,0 +1,45 @@
+import { Trigger } from "@crowbartools/firebot-custom-scripts-types/types/triggers";
+import { youtubePollOptionVotesVariable } from "../youtube-poll-option-votes";
+
+describe("youtubePollOptionVotesVariable.evaluator", () => {
+    const makeTrigger = (eventData?: any): Trigger =>
+        ({
+            type: "event",
+            metadata: {
+                username: "testuser",
+                eventData
+            }
+        }) as Trigger;
+
+    const pollEventData = {
+        options: [
+            { optionText: "Puzzle game", tally: 12 },
+            { optionText: "Racing game", tally: 7 }
+        ]
+    };
+
+    it("returns the first option when no position is given", () => {
+        const result = youtubePollOptionVotesVariable.evaluator(makeTrigger(pollEventData));
+        expect(result).toBe(12);
+    });
+
+    it("returns the option at the given 1-based position", () => {
+        const result = youtubePollOptionVotesVariable.evaluator(makeTrigger(pollEventData), "2");
+        expect(result).toBe(7);
+    });
+
+    it("returns null for a position past the last option", () => {
+        const result = youtubePollOptionVotesVariable.evaluator(makeTrigger(pollEventData), "3");
+        expect(result).toBeNull();
+    });
+
+    it("returns null for an invalid position", () => {
+        expect(youtubePollOptionVotesVariable.evaluator(makeTrigger(pollEventData), "0")).toBeNull();
+        expect(youtubePollOptionVotesVariable.evaluator(makeTrigger(pollEventData), "abc")).toBeNull();
+    });
+
+    it("returns null when eventData is missing", () => {
+        const result = youtubePollOptionVotesVariable.evaluator(makeTrigger(undefined));
+        expect(result).toBeNull();
+    });
+});
@@ -0,0 +1,34 @@
+import { Trigger } from "@crowbartools/firebot-custom-scripts-types/types/triggers";
+import { youtubePollQuestionVariable } from "../youtube-poll-question";
+
+describe("youtubePollQuestionVariable.evaluator", () => {
+    const makeTrigger = (eventData?: any): Trigger =>
+        ({
+            type: "event",
+            metadata: {
+                username: "testuser",
+                eventData
+            }
+        }) as Trigger;
+
+    it("returns questionText from eventData", () => {
+        const trigger = makeTrigger({ questionText: "What should we play next?" });
+
+        const result = youtubePollQuestionVariable.evaluator(trigger);
+        expect(result).toBe("What should we play next?");
+    });
+
+    it("returns empty string when eventData is missing", () => {
+        const trigger = makeTrigger(undefined);
+
+        const result = youtubePollQuestionVariable.evaluator(trigger);
+        expect(result).toBe("");
+    });
+
+    it("returns empty string when questionText is missing from eventData", () => {
+        const trigger = makeTrigger({ pollId: "example-poll-id" });
+
+        const result = youtubePollQuestionVariable.evaluator(trigger);
+        expect(result).toBe("");
+    });
+});
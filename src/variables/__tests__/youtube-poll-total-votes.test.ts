@@ -0,0 +1,34 @@
+import { Trigger } from "@crowbartools/firebot-custom-scripts-types/types/triggers";
+import { youtubePollTotalVotesVariable } from "../youtube-poll-total-votes";
+
+describe("youtubePollTotalVotesVariable.evaluator", () => {
+    const makeTrigger = (eventData?: any): Trigger =>
+        ({
+            type: "event",
+            metadata: {
+                username: "testuser",
+                eventData
+            }
+        }) as Trigger;
+
+    it("returns totalVotes from eventData", () => {
+        const trigger = makeTrigger({ totalVotes: 19 });
+
+        const result = youtubePollTotalVotesVariable.evaluator(trigger);
+        expect(result).toBe(19);
+    });
+
+    it("returns null when eventData is missing", () => {
+        const trigger = makeTrigger(undefined);
+
+        const result = youtubePollTotalVotesVariable.evaluator(trigger);
+        expect(result).toBeNull();
+    });
+
+    it("returns null when totalVotes is missing from eventData", () => {
+        const trigger = makeTrigger({ pollId: "example-poll-id" });
+
+        const result = youtubePollTotalVotesVariable.evaluator(trigger);
+        expect(result).toBeNull();
+    });
+});
@@ -0,0 +1,34 @@
+import { Trigger } from "@crowbartools/firebot-custom-scripts-types/types/triggers";
+import { youtubePollWinningOptionVariable } from "../youtube-poll-winning-option";
+
+describe("youtubePollWinningOptionVariable.evaluator", () => {
+    const makeTrigger = (eventData?: any): Trigger =>
+        ({
+            type: "event",
+            metadata: {
+                username: "testuser",
+                eventData
+            }
+        }) as Trigger;
+
+    it("returns winningOption from eventData", () => {
+        const trigger = makeTrigger({ winningOption: "Puzzle game" });
+
+        const result = youtubePollWinningOptionVariable.evaluator(trigger);
+        expect(result).toBe("Puzzle game");
+    });
+
+    it("returns empty string when eventData is missing", () => {
+        const trigger = makeTrigger(undefined);
+
+        const result = youtubePollWinningOptionVariable.evaluator(trigger);
+        expect(result).toBe("");
+    });
+
+    it("returns empty string when winningOption is missing from eventData", () => {
+        const trigger = makeTrigger({ pollId: "example-poll-id" });
+
+        const result = youtubePollWinningOptionVariable.evaluator(trigger);
+        expect(result).toBe("");
+    });
+});
@@ -0,0 +1,45 @@
+/* eslint-disable @typescript-eslint/unbound-method */
+import { Trigger } from "@crowbartools/firebot-custom-scripts-types/types/triggers";
+import { youtubePollingDelayVariable } from "../youtube-polling-delay";
+
+jest.mock("../../integration-singleton", () => ({
+    integration: {
+        getChatPollingDelay: jest.fn()
+    }
+}));
+
+import { integration } from "../../integration-singleton";
+
+describe("youtubePollingDelayVariable.evaluator", () => {
+    const mockGetChatPollingDelay = integration.getChatPollingDelay as jest.Mock;
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+    });
+
+    const makeTrigger = (): Trigger =>
+        ({
+            type: "event",
+            metadata: {
+                username: "testuser"
+            }
+        }) as Trigger;
+
+    it("returns the polling delay in seconds", () => {
+        mockGetChatPollingDelay.mockReturnValue(8005);
+
+        expect(youtubePollingDelayVariable.evaluator(makeTrigger())).toBe(8);
+    });
+
+    it("rounds the delay to a tenth of a second", () => {
+        mockGetChatPollingDelay.mockReturnValue(4563);
+
+        expect(youtubePollingDelayVariable.evaluator(makeTrigger())).toBe(4.6);
+    });
+
+    it("returns -1 when chat is not streaming", () => {
+        mockGetChatPollingDelay.mockReturnValue(null);
+
+        expect(youtubePollingDelayVariable.evaluator(makeTrigger())).toBe(-1);
+    });
+});
@@ -0,0 +1,34 @@
+import { Trigger } from "@crowbartools/firebot-custom-scripts-types/types/triggers";
+import { youtubePreviousStreamTitleVariable } from "../youtube-previous-stream-title";
+
+describe("youtubePreviousStreamTitleVariable.evaluator", () => {
+    const makeTrigger = (eventData?: any): Trigger =>
+        ({
+            type: "event",
+            metadata: {
+                username: "testuser",
+                eventData
+            }
+        }) as Trigger;
+
+    it("returns previousTitle from eventData", () => {
+        const trigger = makeTrigger({ previousTitle: "Just chatting" });
+
+        const result = youtubePreviousStreamTitleVariable.evaluator(trigger);
+        expect(result).toBe("Just chatting");
+    });
+
+    it("returns empty string when eventData is missing", () => {
+        const trigger = makeTrigger(undefined);
+
+        const result = youtubePreviousStreamTitleVariable.evaluator(trigger);
+        expect(result).toBe("");
+    });
+
+    it("returns empty string when previousTitle is missing from eventData", () => {
+        const trigger = makeTrigger({ title: "Playing something new!" });
+
+        const result = youtubePreviousStreamTitleVariable.evaluator(trigger);
+        expect(result).toBe("");
+    });
+});
@@ -0,0 +1,34 @@
+import { Trigger } from "@crowbartools/firebot-custom-scripts-types/types/triggers";
+import { youtubeQuotaBudgetEndpointVariable } from "../youtube-quota-budget-endpoint";
+
+describe("youtubeQuotaBudgetEndpointVariable.evaluator", () => {
+    const makeTrigger = (eventData?: any): Trigger =>
+        ({
+            type: "event",
+            metadata: {
+                username: "testuser",
+                eventData
+            }
+        }) as Trigger;
+
+    it("returns endpoint from eventData", () => {
+        const trigger = makeTrigger({ applicationId: "test-app", endpoint: "liveChatMessages.insert" });
+
+        const result = youtubeQuotaBudgetEndpointVariable.evaluator(trigger);
+        expect(result).toBe("liveChatMessages.insert");
+    });
+
+    it("returns empty string when eventData is missing", () => {
+        const trigger = makeTrigger(undefined);
+
+        const result = youtubeQuotaBudgetEndpointVariable.evaluator(trigger);
+        expect(result).toBe("");
+    });
+
+    it("returns empty string when endpoint is missing from eventData", () => {
+        const trigger = makeTrigger({ applicationId: "test-app" });
+
+        const result = youtubeQuotaBudgetEndpointVariable.evaluator(trigger);
+        expect(result).toBe("");
+    });
+});
@@ -0,0 +1,34 @@
+import { Trigger } from "@crowbartools/firebot-custom-scripts-types/types/triggers";
+import { youtubeQuotaBudgetReasonVariable } from "../youtube-quota-budget-reason";
+
+describe("youtubeQuotaBudgetReasonVariable.evaluator", () => {
+    const makeTrigger = (eventData?: any): Trigger =>
+        ({
+            type: "event",
+            metadata: {
+                username: "testuser",
+                eventData
+            }
+        }) as Trigger;
+
+    it("returns reason from eventData", () => {
+        const trigger = makeTrigger({ applicationId: "test-app", reason: "8000 units are reserved for chat polling and only 8010 remain" });
+
+        const result = youtubeQuotaBudgetReasonVariable.evaluator(trigger);
+        expect(result).toBe("8000 units are reserved for chat polling and only 8010 remain");
+    });
+
+    it("returns empty string when eventData is missing", () => {
+        const trigger = makeTrigger(undefined);
+
+        const result = youtubeQuotaBudgetReasonVariable.evaluator(trigger);
+        expect(result).toBe("");
+    });
+
+    it("returns empty string when reason is missing from eventData", () => {
+        const trigger = makeTrigger({ applicationId: "test-app" });
+
+        const result = youtubeQuotaBudgetReasonVariable.evaluator(trigger);
+        expect(result).toBe("");
+    });
+});
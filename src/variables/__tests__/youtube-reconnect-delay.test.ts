@@ -0,0 +1,44 @@
+import { Trigger } from "@crowbartools/firebot-custom-scripts-types/types/triggers";
+import { youtubeReconnectDelayVariable } from "../youtube-reconnect-delay";
+
+const mockGetRetryDelay = jest.fn();
+
+jest.mock("../../integration-singleton", () => ({
+    integration: {
+        getConnectionSupervisor: () => ({
+            getRetryDelay: mockGetRetryDelay
+        })
+    }
+}));
+
+describe("youtubeReconnectDelayVariable.evaluator", () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+    });
+
+    const makeTrigger = (eventData?: any): Trigger =>
+        ({
+            type: "event",
+            metadata: {
+                username: "testuser",
+                eventData
+            }
+        }) as Trigger;
+
+    it("returns the retry delay from eventData when present", () => {
+        expect(youtubeReconnectDelayVariable.evaluator(makeTrigger({ retryInSeconds: 40 }))).toBe(40);
+        expect(mockGetRetryDelay).not.toHaveBeenCalled();
+    });
+
+    it("returns the time until the next reconnect attempt in seconds", () => {
+        mockGetRetryDelay.mockReturnValue(12600);
+
+        expect(youtubeReconnectDelayVariable.evaluator(makeTrigger(undefined))).toBe(13);
+    });
+
+    it("returns -1 when no reconnect is scheduled", () => {
+        mockGetRetryDelay.mockReturnValue(null);
+
+        expect(youtubeReconnectDelayVariable.evaluator(makeTrigger(undefined))).toBe(-1);
+    });
+});
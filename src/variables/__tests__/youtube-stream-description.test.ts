@@ -0,0 +1,44 @@
+/* eslint-disable @typescript-eslint/unbound-method */
+import { Trigger } from "@crowbartools/firebot-custom-scripts-types/types/triggers";
+import { youtubeStreamDescriptionVariable } from "../youtube-stream-description";
+
+jest.mock("../../integration-singleton", () => ({
+    integration: {
+        getCurrentBroadcastDescription: jest.fn()
+    }
+}));
+
+import { integration } from "../../integration-singleton";
+
+describe("youtubeStreamDescriptionVariable.evaluator", () => {
+    const mockGetCurrentBroadcastDescription = integration.getCurrentBroadcastDescription as jest.Mock;
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+    });
+
+    const makeTrigger = (): Trigger =>
+        ({
+            type: "event",
+            metadata: {
+                username: "testuser"
+            }
+        }) as Trigger;
+
+    it("returns the broadcast description when available", () => {
+        const trigger = makeTrigger();
+        mockGetCurrentBroadcastDescription.mockReturnValue("My stream description");
+
+        const result = youtubeStreamDescriptionVariable.evaluator(trigger);
+        expect(result).toBe("My stream description");
+        expect(mockGetCurrentBroadcastDescription).toHaveBeenCalledTimes(1);
+    });
+
+    it("returns empty string when the description is null (stream not live)", () => {
+        const trigger = makeTrigger();
+        mockGetCurrentBroadcastDescription.mockReturnValue(null);
+
+        const result = youtubeStreamDescriptionVariable.evaluator(trigger);
+        expect(result).toBe("");
+    });
+});
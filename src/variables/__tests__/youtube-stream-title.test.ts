@@ -0,0 +1,44 @@
+/* eslint-disable @typescript-eslint/unbound-method */
+import { Trigger } from "@crowbartools/firebot-custom-scripts-types/types/triggers";
+import { youtubeStreamTitleVariable } from "../youtube-stream-title";
+
+jest.mock("../../integration-singleton", () => ({
+    integration: {
+        getCurrentBroadcastTitle: jest.fn()
+    }
+}));
+
+import { integration } from "../../integration-singleton";
+
+describe("youtubeStreamTitleVariable.evaluator", () => {
+    const mockGetCurrentBroadcastTitle = integration.getCurrentBroadcastTitle as jest.Mock;
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+    });
+
+    const makeTrigger = (): Trigger =>
+        ({
+            type: "event",
+            metadata: {
+                username: "testuser"
+            }
+        }) as Trigger;
+
+    it("returns the broadcast title when available", () => {
+        const trigger = makeTrigger();
+        mockGetCurrentBroadcastTitle.mockReturnValue("My stream title");
+
+        const result = youtubeStreamTitleVariable.evaluator(trigger);
+        expect(result).toBe("My stream title");
+        expect(mockGetCurrentBroadcastTitle).toHaveBeenCalledTimes(1);
+    });
+
+    it("returns empty string when the title is null (stream not live)", () => {
+        const trigger = makeTrigger();
+        mockGetCurrentBroadcastTitle.mockReturnValue(null);
+
+        const result = youtubeStreamTitleVariable.evaluator(trigger);
+        expect(result).toBe("");
+    });
+});
@@ -0,0 +1,49 @@
+/* eslint-disable @typescript-eslint/unbound-method */
+import { Trigger } from "@crowbartools/firebot-custom-scripts-types/types/triggers";
+import { youtubeStreamerAvatarVariable } from "../youtube-streamer-avatar";
+
+jest.mock("../../integration-singleton", () => ({
+    integration: {
+        getBroadcasterIdentity: jest.fn()
+    }
+}));
+
+import { integration } from "../../integration-singleton";
+
+describe("youtubeStreamerAvatarVariable.evaluator", () => {
+    const mockGetBroadcasterIdentity = integration.getBroadcasterIdentity as jest.Mock;
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+    });
+
+    const makeTrigger = (): Trigger =>
+        ({
+            type: "event",
+            metadata: {
+                username: "testuser"
+            }
+        }) as Trigger;
+
+    it("returns the avatar URL when the channel has been resolved", () => {
+        const trigger = makeTrigger();
+        mockGetBroadcasterIdentity.mockReturnValue({
+            channelId: "UCrDkAvwXgOFDjlW9wqyYeIQ",
+            handle: "@streamer",
+            displayName: "The Streamer",
+            avatarUrl: "https://yt3.ggpht.com/avatar.jpg"
+        });
+
+        const result = youtubeStreamerAvatarVariable.evaluator(trigger);
+        expect(result).toBe("https://yt3.ggpht.com/avatar.jpg");
+        expect(mockGetBroadcasterIdentity).toHaveBeenCalledTimes(1);
+    });
+
+    it("returns empty string when the channel has not been resolved", () => {
+        const trigger = makeTrigger();
+        mockGetBroadcasterIdentity.mockReturnValue(null);
+
+        const result = youtubeStreamerAvatarVariable.evaluator(trigger);
+        expect(result).toBe("");
+    });
+});
@@ -0,0 +1,34 @@
+import { Trigger } from "@crowbartools/firebot-custom-scripts-types/types/triggers";
+import { youtubeSuperChatAmountDisplayVariable } from "../youtube-super-chat-amount-display";
+
+describe("youtubeSuperChatAmountDisplayVariable.evaluator", () => {
+    const makeTrigger = (eventData?: any): Trigger =>
+        ({
+            type: "event",
+            metadata: {
+                username: "testuser",
+                eventData
+            }
+        }) as Trigger;
+
+    it("returns amountDisplayString from eventData", () => {
+        const trigger = makeTrigger({ amountDisplayString: "$5.00" });
+
+        const result = youtubeSuperChatAmountDisplayVariable.evaluator(trigger);
+        expect(result).toBe("$5.00");
+    });
+
+    it("returns empty string when eventData is missing", () => {
+        const trigger = makeTrigger(undefined);
+
+        const result = youtubeSuperChatAmountDisplayVariable.evaluator(trigger);
+        expect(result).toBe("");
+    });
+
+    it("returns empty string when amountDisplayString is missing from eventData", () => {
+        const trigger = makeTrigger({ username: "Generous Viewer@youtube" });
+
+        const result = youtubeSuperChatAmountDisplayVariable.evaluator(trigger);
+        expect(result).toBe("");
+    });
+});
@@ -0,0 +1,41 @@
+import { Trigger } from "@crowbartools/firebot-custom-scripts-types/types/triggers";
+import { youtubeSuperChatAmountVariable } from "../youtube-super-chat-amount";
+
+describe("youtubeSuperChatAmountVariable.evaluator", () => {
+    const makeTrigger = (eventData?: any): Trigger =>
+        ({
+            type: "event",
+            metadata: {
+                username: "testuser",
+                eventData
+            }
+        }) as Trigger;
+
+    it("returns amount from eventData", () => {
+        const trigger = makeTrigger({ amount: 5 });
+
+        const result = youtubeSuperChatAmountVariable.evaluator(trigger);
+        expect(result).toBe(5);
+    });
+
+    it("returns 0 from eventData", () => {
+        const trigger = makeTrigger({ amount: 0 });
+
+        const result = youtubeSuperChatAmountVariable.evaluator(trigger);
+        expect(result).toBe(0);
+    });
+
+    it("returns null when eventData is missing", () => {
+        const trigger = makeTrigger(undefined);
+
+        const result = youtubeSuperChatAmountVariable.evaluator(trigger);
+        expect(result).toBeNull();
+    });
+
+    it("returns null when amount is missing from eventData", () => {
+        const trigger = makeTrigger({ username: "Generous Viewer@youtube" });
+
+        const result = youtubeSuperChatAmountVariable.evaluator(trigger);
+        expect(result).toBeNull();
+    });
+});
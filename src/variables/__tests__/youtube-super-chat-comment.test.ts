@@ -0,0 +1,34 @@
+import { Trigger } from "@crowbartools/firebot-custom-scripts-types/types/triggers";
+import { youtubeSuperChatCommentVariable } from "../youtube-super-chat-comment";
+
+describe("youtubeSuperChatCommentVariable.evaluator", () => {
+    const makeTrigger = (eventData?: any): Trigger =>
+        ({
+            type: "event",
+            metadata: {
+                username: "testuser",
+                eventData
+            }
+        }) as Trigger;
+
+    it("returns userComment from eventData", () => {
+        const trigger = makeTrigger({ userComment: "Keep it up!" });
+
+        const result = youtubeSuperChatCommentVariable.evaluator(trigger);
+        expect(result).toBe("Keep it up!");
+    });
+
+    it("returns empty string when eventData is missing", () => {
+        const trigger = makeTrigger(undefined);
+
+        const result = youtubeSuperChatCommentVariable.evaluator(trigger);
+        expect(result).toBe("");
+    });
+
+    it("returns empty string when userComment is missing from eventData", () => {
+        const trigger = makeTrigger({ username: "Generous Viewer@youtube" });
+
+        const result = youtubeSuperChatCommentVariable.evaluator(trigger);
+        expect(result).toBe("");
+    });
+});
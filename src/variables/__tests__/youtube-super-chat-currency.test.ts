@@ -0,0 +1,34 @@
+import { Trigger } from "@crowbartools/firebot-custom-scripts-types/types/triggers";
+import { youtubeSuperChatCurrencyVariable } from "../youtube-super-chat-currency";
+
+describe("youtubeSuperChatCurrencyVariable.evaluator", () => {
+    const makeTrigger = (eventData?: any): Trigger =>
+        ({
+            type: "event",
+            metadata: {
+                username: "testuser",
+                eventData
+            }
+        }) as Trigger;
+
+    it("returns currency from eventData", () => {
+        const trigger = makeTrigger({ currency: "USD" });
+
+        const result = youtubeSuperChatCurrencyVariable.evaluator(trigger);
+        expect(result).toBe("USD");
+    });
+
+    it("returns empty string when eventData is missing", () => {
+        const trigger = makeTrigger(undefined);
+
+        const result = youtubeSuperChatCurrencyVariable.evaluator(trigger);
+        expect(result).toBe("");
+    });
+
+    it("returns empty string when currency is missing from eventData", () => {
+        const trigger = makeTrigger({ username: "Generous Viewer@youtube" });
+
+        const result = youtubeSuperChatCurrencyVariable.evaluator(trigger);
+        expect(result).toBe("");
+    });
+});
@@ -0,0 +1,41 @@
+import { Trigger } from "@crowbartools/firebot-custom-scripts-types/types/triggers";
+import { youtubeSuperChatTierVariable } from "../youtube-super-chat-tier";
+
+describe("youtubeSuperChatTierVariable.evaluator", () => {
+    const makeTrigger = (eventData?: any): Trigger =>
+        ({
+            type: "event",
+            metadata: {
+                username: "testuser",
+                eventData
+            }
+        }) as Trigger;
+
+    it("returns tier from eventData", () => {
+        const trigger = makeTrigger({ tier: 2 });
+
+        const result = youtubeSuperChatTierVariable.evaluator(trigger);
+        expect(result).toBe(2);
+    });
+
+    it("returns 0 from eventData", () => {
+        const trigger = makeTrigger({ tier: 0 });
+
+        const result = youtubeSuperChatTierVariable.evaluator(trigger);
+        expect(result).toBe(0);
+    });
+
+    it("returns null when eventData is missing", () => {
+        const trigger = makeTrigger(undefined);
+
+        const result = youtubeSuperChatTierVariable.evaluator(trigger);
+        expect(result).toBeNull();
+    });
+
+    it("returns null when tier is missing from eventData", () => {
+        const trigger = makeTrigger({ username: "Generous Viewer@youtube" });
+
+        const result = youtubeSuperChatTierVariable.evaluator(trigger);
+        expect(result).toBeNull();
+    });
+});
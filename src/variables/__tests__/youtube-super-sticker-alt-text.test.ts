@@ -0,0 +1,34 @@
+import { Trigger } from "@crowbartools/firebot-custom-scripts-types/types/triggers";
+import { youtubeSuperStickerAltTextVariable } from "../youtube-super-sticker-alt-text";
+
+describe("youtubeSuperStickerAltTextVariable.evaluator", () => {
+    const makeTrigger = (eventData?: any): Trigger =>
+        ({
+            type: "event",
+            metadata: {
+                username: "testuser",
+                eventData
+            }
+        }) as Trigger;
+
+    it("returns stickerAltText from eventData", () => {
+        const trigger = makeTrigger({ stickerAltText: "Dancing cat" });
+
+        const result = youtubeSuperStickerAltTextVariable.evaluator(trigger);
+        expect(result).toBe("Dancing cat");
+    });
+
+    it("returns empty string when eventData is missing", () => {
+        const trigger = makeTrigger(undefined);
+
+        const result = youtubeSuperStickerAltTextVariable.evaluator(trigger);
+        expect(result).toBe("");
+    });
+
+    it("returns empty string when stickerAltText is missing from eventData", () => {
+        const trigger = makeTrigger({ username: "Generous Viewer@youtube" });
+
+        const result = youtubeSuperStickerAltTextVariable.evaluator(trigger);
+        expect(result).toBe("");
+    });
+});
@@ -0,0 +1,23 @@
+import { ReplaceVariable } from "@crowbartools/firebot-custom-scripts-types/types/modules/replace-variable-manager";
+import { Trigger, TriggersObject } from "@crowbartools/firebot-custom-scripts-types/types/triggers";
+import { IntegrationConstants } from "../constants";
+
+const triggers: TriggersObject = {};
+triggers["event"] = [`${IntegrationConstants.INTEGRATION_ID}:viewer-banned`, `${IntegrationConstants.INTEGRATION_ID}:viewer-timeout`];
+triggers["manual"] = true;
+
+export const youtubeBanDurationVariable: ReplaceVariable = {
+    definition: {
+        handle: "youtubeBanDuration",
+        description: "The length of the YouTube chat ban in seconds (0 for permanent bans)",
+        categories: ["common"],
+        possibleDataOutput: ["number"],
+        triggers
+    },
+    evaluator: (trigger: Trigger) => {
+        if (trigger.metadata.eventData?.banDurationSeconds !== undefined) {
+            return Number(trigger.metadata.eventData.banDurationSeconds);
+        }
+        return null;
+    }
+};
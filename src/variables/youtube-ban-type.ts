@@ -0,0 +1,20 @@
+import { ReplaceVariable } from "@crowbartools/firebot-custom-scripts-types/types/modules/replace-variable-manager";
+import { Trigger, TriggersObject } from "@crowbartools/firebot-custom-scripts-types/types/triggers";
+import { IntegrationConstants } from "../constants";
+
+const triggers: TriggersObject = {};
+triggers["event"] = [`${IntegrationConstants.INTEGRATION_ID}:viewer-banned`, `${IntegrationConstants.INTEGRATION_ID}:viewer-timeout`];
+triggers["manual"] = true;
+
+export const youtubeBanTypeVariable: ReplaceVariable = {
+    definition: {
+        handle: "youtubeBanType",
+        description: "The type of YouTube chat ban: 'permanent' or 'temporary' (timeout)",
+        categories: ["common"],
+        possibleDataOutput: ["text"],
+        triggers
+    },
+    evaluator: (trigger: Trigger) => {
+        return trigger.metadata.eventData?.banType ?? "";
+    }
+};
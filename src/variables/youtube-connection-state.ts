@@ -0,0 +1,24 @@
+import { ReplaceVariable } from "@crowbartools/firebot-custom-scripts-types/types/modules/replace-variable-manager";
+import { Trigger } from "@crowbartools/firebot-custom-scripts-types/types/triggers";
+import { integration } from "../integration-singleton";
+
+export const youtubeConnectionStateVariable: ReplaceVariable = {
+    definition: {
+        handle: "youtubeConnectionState",
+        description: "The state of the YouTube connection: Connected, Disconnected, Reconnecting, Waiting for quota reset or Failed",
+        categories: ["common"],
+        possibleDataOutput: ["text"],
+        examples: [
+            {
+                usage: "youtubeConnectionState",
+                description: "Returns the connection state (e.g., 'Reconnecting')"
+            }
+        ]
+    },
+    evaluator: (trigger: Trigger) => {
+        if (trigger.metadata.eventData?.state !== undefined) {
+            return trigger.metadata.eventData.state;
+        }
+        return integration.getConnectionSupervisor().getState();
+    }
+};
@@ -0,0 +1,20 @@
+import { ReplaceVariable } from "@crowbartools/firebot-custom-scripts-types/types/modules/replace-variable-manager";
+import { Trigger, TriggersObject } from "@crowbartools/firebot-custom-scripts-types/types/triggers";
+import { IntegrationConstants } from "../constants";
+
+const triggers: TriggersObject = {};
+triggers["event"] = [`${IntegrationConstants.INTEGRATION_ID}:message-deleted`];
+triggers["manual"] = true;
+
+export const youtubeDeletedMessageIdVariable: ReplaceVariable = {
+    definition: {
+        handle: "youtubeDeletedMessageId",
+        description: "The ID of the deleted or retracted YouTube chat message",
+        categories: ["common"],
+        possibleDataOutput: ["text"],
+        triggers
+    },
+    evaluator: (trigger: Trigger) => {
+        return trigger.metadata.eventData?.deletedMessageId ?? "";
+    }
+};
@@ -0,0 +1,20 @@
+import { ReplaceVariable } from "@crowbartools/firebot-custom-scripts-types/types/modules/replace-variable-manager";
+import { Trigger, TriggersObject } from "@crowbartools/firebot-custom-scripts-types/types/triggers";
+import { IntegrationConstants } from "../constants";
+
+const triggers: TriggersObject = {};
+triggers["event"] = [`${IntegrationConstants.INTEGRATION_ID}:message-deleted`];
+triggers["manual"] = true;
+
+export const youtubeDeletedMessageTextVariable: ReplaceVariable = {
+    definition: {
+        handle: "youtubeDeletedMessageText",
+        description: "The text of the deleted or retracted YouTube chat message (empty if the message was not seen)",
+        categories: ["common"],
+        possibleDataOutput: ["text"],
+        triggers
+    },
+    evaluator: (trigger: Trigger) => {
+        return trigger.metadata.eventData?.messageText ?? "";
+    }
+};
@@ -9,7 +9,7 @@ import { Trigger, TriggersObject } from "@crowbartools/firebot-custom-scripts-ty
 import { IntegrationConstants } from "../constants";
 
 const triggers: TriggersObject = {};
-triggers["event"] = [`${IntegrationConstants.INTEGRATION_ID}:api-error`];
+triggers["event"] = [`${IntegrationConstants.INTEGRATION_ID}:api-error`, `${IntegrationConstants.INTEGRATION_ID}:connection-state-changed`];
 triggers["manual"] = true;
 
 export const youtubeErrorCategoryVariable: ReplaceVariable = {
@@ -20,7 +20,7 @@ export const youtubeErrorCategoryVariable: ReplaceVariable = {
         examples: [
             {
                 usage: "youtubeErrorCategory",
-                description: "Gets the error category (e.g., 'Unauthenticated', 'QuotaExceeded', 'NetworkError'). Only available during YouTube API Error events."
+                description: "Gets the error category (e.g., 'Unauthenticated', 'QuotaExceeded', 'NetworkError'). Only available during YouTube API Error and Connection State Changed events."
             }
         ],
         triggers: triggers,
@@ -10,7 +10,7 @@ import { Trigger, TriggersObject } from "@crowbartools/firebot-custom-scripts-ty
 import { IntegrationConstants } from "../constants";
 
 const triggers: TriggersObject = {};
-triggers["event"] = [`${IntegrationConstants.INTEGRATION_ID}:api-error`];
+triggers["event"] = [`${IntegrationConstants.INTEGRATION_ID}:api-error`, `${IntegrationConstants.INTEGRATION_ID}:connection-state-changed`];
 triggers["manual"] = true;
 
 export const youtubeErrorMessageVariable: ReplaceVariable = {
@@ -21,7 +21,7 @@ export const youtubeErrorMessageVariable: ReplaceVariable = {
         examples: [
             {
                 usage: "youtubeErrorMessage",
-                description: "Gets the full error message text. Only available during YouTube API Error events."
+                description: "Gets the full error message text. Only available during YouTube API Error and Connection State Changed events."
             }
         ],
         triggers: triggers,
@@ -0,0 +1,23 @@
+import { ReplaceVariable } from "@crowbartools/firebot-custom-scripts-types/types/modules/replace-variable-manager";
+import { Trigger, TriggersObject } from "@crowbartools/firebot-custom-scripts-types/types/triggers";
+import { IntegrationConstants } from "../constants";
+
+const triggers: TriggersObject = {};
+triggers["event"] = [`${IntegrationConstants.INTEGRATION_ID}:membership-gifting`];
+triggers["manual"] = true;
+
+export const youtubeGiftMembershipsCountVariable: ReplaceVariable = {
+    definition: {
+        handle: "youtubeGiftMembershipsCount",
+        description: "The number of memberships gifted",
+        categories: ["common"],
+        possibleDataOutput: ["number"],
+        triggers
+    },
+    evaluator: (trigger: Trigger) => {
+        if (trigger.metadata.eventData?.giftCount !== undefined) {
+            return Number(trigger.metadata.eventData.giftCount);
+        }
+        return null;
+    }
+};
@@ -0,0 +1,20 @@
+import { ReplaceVariable } from "@crowbartools/firebot-custom-scripts-types/types/modules/replace-variable-manager";
+import { Trigger, TriggersObject } from "@crowbartools/firebot-custom-scripts-types/types/triggers";
+import { IntegrationConstants } from "../constants";
+
+const triggers: TriggersObject = {};
+triggers["event"] = [`${IntegrationConstants.INTEGRATION_ID}:gift-membership-received`];
+triggers["manual"] = true;
+
+export const youtubeGifterUserIdVariable: ReplaceVariable = {
+    definition: {
+        handle: "youtubeGifterUserId",
+        description: "The user ID of the viewer who gifted the membership",
+        categories: ["common"],
+        possibleDataOutput: ["text"],
+        triggers
+    },
+    evaluator: (trigger: Trigger) => {
+        return trigger.metadata.eventData?.gifterUserId ?? "";
+    }
+};
@@ -0,0 +1,20 @@
+import { ReplaceVariable } from "@crowbartools/firebot-custom-scripts-types/types/modules/replace-variable-manager";
+import { Trigger, TriggersObject } from "@crowbartools/firebot-custom-scripts-types/types/triggers";
+import { IntegrationConstants } from "../constants";
+
+const triggers: TriggersObject = {};
+triggers["event"] = [`${IntegrationConstants.INTEGRATION_ID}:gift-membership-received`];
+triggers["manual"] = true;
+
+export const youtubeGifterUsernameVariable: ReplaceVariable = {
+    definition: {
+        handle: "youtubeGifterUsername",
+        description: "The username of the viewer who gifted the membership (empty if the gifting message was not seen)",
+        categories: ["common"],
+        possibleDataOutput: ["text"],
+        triggers
+    },
+    evaluator: (trigger: Trigger) => {
+        return trigger.metadata.eventData?.gifterUsername ?? "";
+    }
+};
@@ -0,0 +1,23 @@
+import { ReplaceVariable } from "@crowbartools/firebot-custom-scripts-types/types/modules/replace-variable-manager";
+import { Trigger, TriggersObject } from "@crowbartools/firebot-custom-scripts-types/types/triggers";
+import { IntegrationConstants } from "../constants";
+
+const triggers: TriggersObject = {};
+triggers["event"] = [`${IntegrationConstants.INTEGRATION_ID}:new-member`];
+triggers["manual"] = true;
+
+export const youtubeMemberIsUpgradeVariable: ReplaceVariable = {
+    definition: {
+        handle: "youtubeMemberIsUpgrade",
+        description: "Whether the new membership is an upgrade from a lower membership level",
+        categories: ["common"],
+        possibleDataOutput: ["text"],
+        triggers
+    },
+    evaluator: (trigger: Trigger) => {
+        if (trigger.metadata.eventData?.isUpgrade !== undefined) {
+            return trigger.metadata.eventData.isUpgrade === true;
+        }
+        return false;
+    }
+};
@@ -0,0 +1,25 @@
+import { ReplaceVariable } from "@crowbartools/firebot-custom-scripts-types/types/modules/replace-variable-manager";
+import { Trigger, TriggersObject } from "@crowbartools/firebot-custom-scripts-types/types/triggers";
+import { IntegrationConstants } from "../constants";
+
+const triggers: TriggersObject = {};
+triggers["event"] = [
+    `${IntegrationConstants.INTEGRATION_ID}:new-member`,
+    `${IntegrationConstants.INTEGRATION_ID}:member-milestone`,
+    `${IntegrationConstants.INTEGRATION_ID}:membership-gifting`,
+    `${IntegrationConstants.INTEGRATION_ID}:gift-membership-received`
+];
+triggers["manual"] = true;
+
+export const youtubeMemberLevelNameVariable: ReplaceVariable = {
+    definition: {
+        handle: "youtubeMemberLevelName",
+        description: "The name of the channel membership level from a YouTube membership event",
+        categories: ["common"],
+        possibleDataOutput: ["text"],
+        triggers
+    },
+    evaluator: (trigger: Trigger) => {
+        return trigger.metadata.eventData?.memberLevelName ?? "";
+    }
+};
@@ -0,0 +1,20 @@
+import { ReplaceVariable } from "@crowbartools/firebot-custom-scripts-types/types/modules/replace-variable-manager";
+import { Trigger, TriggersObject } from "@crowbartools/firebot-custom-scripts-types/types/triggers";
+import { IntegrationConstants } from "../constants";
+
+const triggers: TriggersObject = {};
+triggers["event"] = [`${IntegrationConstants.INTEGRATION_ID}:member-milestone`];
+triggers["manual"] = true;
+
+export const youtubeMemberMilestoneCommentVariable: ReplaceVariable = {
+    definition: {
+        handle: "youtubeMemberMilestoneComment",
+        description: "The comment the member attached to their membership milestone",
+        categories: ["common"],
+        possibleDataOutput: ["text"],
+        triggers
+    },
+    evaluator: (trigger: Trigger) => {
+        return trigger.metadata.eventData?.userComment ?? "";
+    }
+};
@@ -0,0 +1,23 @@
+import { ReplaceVariable } from "@crowbartools/firebot-custom-scripts-types/types/modules/replace-variable-manager";
+import { Trigger, TriggersObject } from "@crowbartools/firebot-custom-scripts-types/types/triggers";
+import { IntegrationConstants } from "../constants";
+
+const triggers: TriggersObject = {};
+triggers["event"] = [`${IntegrationConstants.INTEGRATION_ID}:member-milestone`];
+triggers["manual"] = true;
+
+export const youtubeMemberMonthsVariable: ReplaceVariable = {
+    definition: {
+        handle: "youtubeMemberMonths",
+        description: "The number of months the viewer has been a channel member",
+        categories: ["common"],
+        possibleDataOutput: ["number"],
+        triggers
+    },
+    evaluator: (trigger: Trigger) => {
+        if (trigger.metadata.eventData?.memberMonth !== undefined) {
+            return Number(trigger.metadata.eventData.memberMonth);
+        }
+        return null;
+    }
+};
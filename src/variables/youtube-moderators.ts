@@ -0,0 +1,28 @@
+import { ReplaceVariable } from "@crowbartools/firebot-custom-scripts-types/types/modules/replace-variable-manager";
+import { Trigger } from "@crowbartools/firebot-custom-scripts-types/types/triggers";
+import { integration } from "../integration-singleton";
+
+export const youtubeModeratorsVariable: ReplaceVariable = {
+    definition: {
+        handle: "youtubeModerators",
+        description: "The display names of the current YouTube live chat moderators (refreshed when chat connects)",
+        categories: ["common"],
+        possibleDataOutput: ["array"],
+        examples: [
+            {
+                usage: "youtubeModerators",
+                description: "Returns an array of moderator display names (e.g., ['Alice', 'Bob'])"
+            },
+            {
+                usage: 'arrayJoin[$youtubeModerators, ", "]',
+                description: "Returns the moderator display names as a comma-separated list"
+            }
+        ]
+    },
+    evaluator: (_trigger: Trigger) => {
+        return integration
+            .getModeratorManager()
+            .getModerators()
+            .map((moderator) => moderator.displayName);
+    }
+};
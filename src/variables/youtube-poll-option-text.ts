@@ -0,0 +1,34 @@
+import { ReplaceVariable } from "@crowbartools/firebot-custom-scripts-types/types/modules/replace-variable-manager";
+import { Trigger, TriggersObject } from "@crowbartools/firebot-custom-scripts-types/types/triggers";
+import { IntegrationConstants } from "../constants";
+
+const triggers: TriggersObject = {};
+triggers["event"] = [`${IntegrationConstants.INTEGRATION_ID}:poll-started`, `${IntegrationConstants.INTEGRATION_ID}:poll-updated`, `${IntegrationConstants.INTEGRATION_ID}:poll-ended`];
+triggers["manual"] = true;
+
+export const youtubePollOptionTextVariable: ReplaceVariable = {
+    definition: {
+        handle: "youtubePollOptionText",
+        description: "The text of a YouTube poll option, by position (starting at 1)",
+        usage: "youtubePollOptionText[position]",
+        examples: [
+            {
+                usage: "youtubePollOptionText[1]",
+                description: "Returns the text of the first poll option"
+            }
+        ],
+        categories: ["common"],
+        possibleDataOutput: ["text"],
+        triggers
+    },
+    evaluator: (trigger: Trigger, position?: string | number) => {
+        const options = trigger.metadata.eventData?.options;
+        const index = Number(position ?? 1) - 1;
+        if (!Array.isArray(options) || !Number.isInteger(index) || index < 0) {
+            return "";
+        }
+
+        const option = options[index] as { optionText: string; tally: number } | undefined;
+        return option?.optionText ?? "";
+    }
+};
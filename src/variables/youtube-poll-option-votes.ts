@@ -0,0 +1,34 @@
+import { ReplaceVariable } from "@crowbartools/firebot-custom-scripts-types/types/modules/replace-variable-manager";
+import { Trigger, TriggersObject } from "@crowbartools/firebot-custom-scripts-types/types/triggers";
+import { IntegrationConstants } from "../constants";
+
+const triggers: TriggersObject = {};
+triggers["event"] = [`${IntegrationConstants.INTEGRATION_ID}:poll-started`, `${IntegrationConstants.INTEGRATION_ID}:poll-updated`, `${IntegrationConstants.INTEGRATION_ID}:poll-ended`];
+triggers["manual"] = true;
+
+export const youtubePollOptionVotesVariable: ReplaceVariable = {
+    definition: {
+        handle: "youtubePollOptionVotes",
+        description: "The number of votes for a YouTube poll option, by position (starting at 1)",
+        usage: "youtubePollOptionVotes[position]",
+        examples: [
+            {
+                usage: "youtubePollOptionVotes[1]",
+                description: "Returns the number of votes for the first poll option"
+            }
+        ],
+        categories: ["common"],
+        possibleDataOutput: ["number"],
+        triggers
+    },
+    evaluator: (trigger: Trigger, position?: string | number) => {
+        const options = trigger.metadata.eventData?.options;
+        const index = Number(position ?? 1) - 1;
+        if (!Array.isArray(options) || !Number.isInteger(index) || index < 0) {
+            return null;
+        }
+
+        const option = options[index] as { optionText: string; tally: number } | undefined;
+        return option?.tally ?? null;
+    }
+};
@@ -0,0 +1,20 @@
+import { ReplaceVariable } from "@crowbartools/firebot-custom-scripts-types/types/modules/replace-variable-manager";
+import { Trigger, TriggersObject } from "@crowbartools/firebot-custom-scripts-types/types/triggers";
+import { IntegrationConstants } from "../constants";
+
+const triggers: TriggersObject = {};
+triggers["event"] = [`${IntegrationConstants.INTEGRATION_ID}:poll-started`, `${IntegrationConstants.INTEGRATION_ID}:poll-updated`, `${IntegrationConstants.INTEGRATION_ID}:poll-ended`];
+triggers["manual"] = true;
+
+export const youtubePollQuestionVariable: ReplaceVariable = {
+    definition: {
+        handle: "youtubePollQuestion",
+        description: "The question of the YouTube poll",
+        categories: ["common"],
+        possibleDataOutput: ["text"],
+        triggers
+    },
+    evaluator: (trigger: Trigger) => {
+        return trigger.metadata.eventData?.questionText ?? "";
+    }
+};
@@ -0,0 +1,23 @@
+import { ReplaceVariable } from "@crowbartools/firebot-custom-scripts-types/types/modules/replace-variable-manager";
+import { Trigger, TriggersObject } from "@crowbartools/firebot-custom-scripts-types/types/triggers";
+import { IntegrationConstants } from "../constants";
+
+const triggers: TriggersObject = {};
+triggers["event"] = [`${IntegrationConstants.INTEGRATION_ID}:poll-started`, `${IntegrationConstants.INTEGRATION_ID}:poll-updated`, `${IntegrationConstants.INTEGRATION_ID}:poll-ended`];
+triggers["manual"] = true;
+
+export const youtubePollTotalVotesVariable: ReplaceVariable = {
+    definition: {
+        handle: "youtubePollTotalVotes",
+        description: "The total number of votes cast in the YouTube poll",
+        categories: ["common"],
+        possibleDataOutput: ["number"],
+        triggers
+    },
+    evaluator: (trigger: Trigger) => {
+        if (trigger.metadata.eventData?.totalVotes !== undefined) {
+            return Number(trigger.metadata.eventData.totalVotes);
+        }
+        return null;
+    }
+};
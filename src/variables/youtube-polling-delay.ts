@@ -0,0 +1,25 @@
+import { ReplaceVariable } from "@crowbartools/firebot-custom-scripts-types/types/modules/replace-variable-manager";
+import { Trigger } from "@crowbartools/firebot-custom-scripts-types/types/triggers";
+import { integration } from "../integration-singleton";
+
+export const youtubePollingDelayVariable: ReplaceVariable = {
+    definition: {
+        handle: "youtubePollingDelay",
+        description: "The current delay in seconds between YouTube chat polls, or -1 when chat is not streaming",
+        categories: ["common"],
+        possibleDataOutput: ["number"],
+        examples: [
+            {
+                usage: "youtubePollingDelay",
+                description: "Returns the polling delay in seconds (e.g., 8.5)"
+            }
+        ]
+    },
+    evaluator: (_trigger: Trigger) => {
+        const delay = integration.getChatPollingDelay();
+        if (delay === null) {
+            return -1;
+        }
+        return Math.round(delay / 100) / 10;
+    }
+};
@@ -0,0 +1,20 @@
+import { ReplaceVariable } from "@crowbartools/firebot-custom-scripts-types/types/modules/replace-variable-manager";
+import { Trigger, TriggersObject } from "@crowbartools/firebot-custom-scripts-types/types/triggers";
+import { IntegrationConstants } from "../constants";
+
+const triggers: TriggersObject = {};
+triggers["event"] = [`${IntegrationConstants.INTEGRATION_ID}:title-changed`];
+triggers["manual"] = true;
+
+export const youtubePreviousStreamTitleVariable: ReplaceVariable = {
+    definition: {
+        handle: "youtubePreviousStreamTitle",
+        description: "The title of the YouTube broadcast before it was changed",
+        categories: ["common"],
+        possibleDataOutput: ["text"],
+        triggers
+    },
+    evaluator: (trigger: Trigger) => {
+        return trigger.metadata.eventData?.previousTitle ?? "";
+    }
+};
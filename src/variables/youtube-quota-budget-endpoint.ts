@@ -0,0 +1,20 @@
+import { ReplaceVariable } from "@crowbartools/firebot-custom-scripts-types/types/modules/replace-variable-manager";
+import { Trigger, TriggersObject } from "@crowbartools/firebot-custom-scripts-types/types/triggers";
+import { IntegrationConstants } from "../constants";
+
+const triggers: TriggersObject = {};
+triggers["event"] = [`${IntegrationConstants.INTEGRATION_ID}:quota-budget-blocked`];
+triggers["manual"] = true;
+
+export const youtubeQuotaBudgetEndpointVariable: ReplaceVariable = {
+    definition: {
+        handle: "youtubeQuotaBudgetEndpoint",
+        description: "The YouTube API endpoint of the call blocked by the quota budget (e.g. liveChatMessages.insert)",
+        categories: ["common"],
+        possibleDataOutput: ["text"],
+        triggers
+    },
+    evaluator: (trigger: Trigger) => {
+        return trigger.metadata.eventData?.endpoint ?? "";
+    }
+};
@@ -0,0 +1,28 @@
+import { ReplaceVariable } from "@crowbartools/firebot-custom-scripts-types/types/modules/replace-variable-manager";
+import { Trigger } from "@crowbartools/firebot-custom-scripts-types/types/triggers";
+import { integration } from "../integration-singleton";
+
+export const youtubeReconnectDelayVariable: ReplaceVariable = {
+    definition: {
+        handle: "youtubeReconnectDelay",
+        description: "Seconds until the YouTube integration next tries to reconnect, or -1 when no reconnect is scheduled",
+        categories: ["common"],
+        possibleDataOutput: ["number"],
+        examples: [
+            {
+                usage: "youtubeReconnectDelay",
+                description: "Returns the time until the next reconnect attempt in seconds (e.g., 40)"
+            }
+        ]
+    },
+    evaluator: (trigger: Trigger) => {
+        if (trigger.metadata.eventData?.retryInSeconds !== undefined) {
+            return trigger.metadata.eventData.retryInSeconds;
+        }
+        const delay = integration.getConnectionSupervisor().getRetryDelay();
+        if (delay === null) {
+            return -1;
+        }
+        return Math.round(delay / 1000);
+    }
+};
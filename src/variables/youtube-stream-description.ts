@@ -0,0 +1,21 @@
+import { ReplaceVariable } from "@crowbartools/firebot-custom-scripts-types/types/modules/replace-variable-manager";
+import { Trigger } from "@crowbartools/firebot-custom-scripts-types/types/triggers";
+import { integration } from "../integration-singleton";
+
+export const youtubeStreamDescriptionVariable: ReplaceVariable = {
+    definition: {
+        handle: "youtubeStreamDescription",
+        description: "The description of the current YouTube live broadcast",
+        categories: ["common"],
+        possibleDataOutput: ["text"],
+        examples: [
+            {
+                usage: "youtubeStreamDescription",
+                description: "Returns the broadcast description, or empty string if no stream is live"
+            }
+        ]
+    },
+    evaluator: (_trigger: Trigger) => {
+        return integration.getCurrentBroadcastDescription() ?? "";
+    }
+};
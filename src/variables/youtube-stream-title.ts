@@ -0,0 +1,21 @@
+import { ReplaceVariable } from "@crowbartools/firebot-custom-scripts-types/types/modules/replace-variable-manager";
+import { Trigger } from "@crowbartools/firebot-custom-scripts-types/types/triggers";
+import { integration } from "../integration-singleton";
+
+export const youtubeStreamTitleVariable: ReplaceVariable = {
+    definition: {
+        handle: "youtubeStreamTitle",
+        description: "The title of the current YouTube live broadcast",
+        categories: ["common"],
+        possibleDataOutput: ["text"],
+        examples: [
+            {
+                usage: "youtubeStreamTitle",
+                description: "Returns the broadcast title, or empty string if no stream is live"
+            }
+        ]
+    },
+    evaluator: (_trigger: Trigger) => {
+        return integration.getCurrentBroadcastTitle() ?? "";
+    }
+};
@@ -0,0 +1,21 @@
+import { ReplaceVariable } from "@crowbartools/firebot-custom-scripts-types/types/modules/replace-variable-manager";
+import { Trigger } from "@crowbartools/firebot-custom-scripts-types/types/triggers";
+import { integration } from "../integration-singleton";
+
+export const youtubeStreamerAvatarVariable: ReplaceVariable = {
+    definition: {
+        handle: "youtubeStreamerAvatar",
+        description: "The avatar URL of the YouTube channel the integration is connected to",
+        categories: ["common"],
+        possibleDataOutput: ["text"],
+        examples: [
+            {
+                usage: "youtubeStreamerAvatar",
+                description: "Returns the URL of the broadcaster's channel avatar, or empty string if not connected"
+            }
+        ]
+    },
+    evaluator: (_trigger: Trigger) => {
+        return integration.getBroadcasterIdentity()?.avatarUrl ?? "";
+    }
+};
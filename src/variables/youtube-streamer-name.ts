@@ -0,0 +1,21 @@
+import { ReplaceVariable } from "@crowbartools/firebot-custom-scripts-types/types/modules/replace-variable-manager";
+import { Trigger } from "@crowbartools/firebot-custom-scripts-types/types/triggers";
+import { integration } from "../integration-singleton";
+
+export const youtubeStreamerNameVariable: ReplaceVariable = {
+    definition: {
+        handle: "youtubeStreamerName",
+        description: "The display name of the YouTube channel the integration is connected to",
+        categories: ["common"],
+        possibleDataOutput: ["text"],
+        examples: [
+            {
+                usage: "youtubeStreamerName",
+                description: "Returns the broadcaster's channel name (e.g., 'The Streamer'), or empty string if not connected"
+            }
+        ]
+    },
+    evaluator: (_trigger: Trigger) => {
+        return integration.getBroadcasterIdentity()?.displayName ?? "";
+    }
+};
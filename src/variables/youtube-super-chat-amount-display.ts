@@ -0,0 +1,20 @@
+import { ReplaceVariable } from "@crowbartools/firebot-custom-scripts-types/types/modules/replace-variable-manager";
+import { Trigger, TriggersObject } from "@crowbartools/firebot-custom-scripts-types/types/triggers";
+import { IntegrationConstants } from "../constants";
+
+const triggers: TriggersObject = {};
+triggers["event"] = [`${IntegrationConstants.INTEGRATION_ID}:super-chat`, `${IntegrationConstants.INTEGRATION_ID}:super-sticker`];
+triggers["manual"] = true;
+
+export const youtubeSuperChatAmountDisplayVariable: ReplaceVariable = {
+    definition: {
+        handle: "youtubeSuperChatAmountDisplay",
+        description: "The Super Chat or Super Sticker amount as displayed by YouTube, including currency symbol (e.g. $5.00)",
+        categories: ["common"],
+        possibleDataOutput: ["text"],
+        triggers
+    },
+    evaluator: (trigger: Trigger) => {
+        return trigger.metadata.eventData?.amountDisplayString ?? "";
+    }
+};
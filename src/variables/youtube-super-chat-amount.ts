@@ -0,0 +1,23 @@
+import { ReplaceVariable } from "@crowbartools/firebot-custom-scripts-types/types/modules/replace-variable-manager";
+import { Trigger, TriggersObject } from "@crowbartools/firebot-custom-scripts-types/types/triggers";
+import { IntegrationConstants } from "../constants";
+
+const triggers: TriggersObject = {};
+triggers["event"] = [`${IntegrationConstants.INTEGRATION_ID}:super-chat`, `${IntegrationConstants.INTEGRATION_ID}:super-sticker`];
+triggers["manual"] = true;
+
+export const youtubeSuperChatAmountVariable: ReplaceVariable = {
+    definition: {
+        handle: "youtubeSuperChatAmount",
+        description: "The amount of the Super Chat or Super Sticker in the currency's standard unit (e.g. 5 for $5.00)",
+        categories: ["common"],
+        possibleDataOutput: ["number"],
+        triggers
+    },
+    evaluator: (trigger: Trigger) => {
+        if (trigger.metadata.eventData?.amount !== undefined) {
+            return Number(trigger.metadata.eventData.amount);
+        }
+        return null;
+    }
+};
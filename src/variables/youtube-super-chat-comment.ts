@@ -0,0 +1,20 @@
+import { ReplaceVariable } from "@crowbartools/firebot-custom-scripts-types/types/modules/replace-variable-manager";
+import { Trigger, TriggersObject } from "@crowbartools/firebot-custom-scripts-types/types/triggers";
+import { IntegrationConstants } from "../constants";
+
+const triggers: TriggersObject = {};
+triggers["event"] = [`${IntegrationConstants.INTEGRATION_ID}:super-chat`];
+triggers["manual"] = true;
+
+export const youtubeSuperChatCommentVariable: ReplaceVariable = {
+    definition: {
+        handle: "youtubeSuperChatComment",
+        description: "The comment the viewer attached to the Super Chat",
+        categories: ["common"],
+        possibleDataOutput: ["text"],
+        triggers
+    },
+    evaluator: (trigger: Trigger) => {
+        return trigger.metadata.eventData?.userComment ?? "";
+    }
+};
@@ -0,0 +1,23 @@
+import { ReplaceVariable } from "@crowbartools/firebot-custom-scripts-types/types/modules/replace-variable-manager";
+import { Trigger, TriggersObject } from "@crowbartools/firebot-custom-scripts-types/types/triggers";
+import { IntegrationConstants } from "../constants";
+
+const triggers: TriggersObject = {};
+triggers["event"] = [`${IntegrationConstants.INTEGRATION_ID}:super-chat`, `${IntegrationConstants.INTEGRATION_ID}:super-sticker`];
+triggers["manual"] = true;
+
+export const youtubeSuperChatTierVariable: ReplaceVariable = {
+    definition: {
+        handle: "youtubeSuperChatTier",
+        description: "The tier of the Super Chat or Super Sticker, which determines its color and pin duration",
+        categories: ["common"],
+        possibleDataOutput: ["number"],
+        triggers
+    },
+    evaluator: (trigger: Trigger) => {
+        if (trigger.metadata.eventData?.tier !== undefined) {
+            return Number(trigger.metadata.eventData.tier);
+        }
+        return null;
+    }
+};
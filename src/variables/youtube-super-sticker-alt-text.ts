@@ -0,0 +1,20 @@
+import { ReplaceVariable } from "@crowbartools/firebot-custom-scripts-types/types/modules/replace-variable-manager";
+import { Trigger, TriggersObject } from "@crowbartools/firebot-custom-scripts-types/types/triggers";
+import { IntegrationConstants } from "../constants";
+
+const triggers: TriggersObject = {};
+triggers["event"] = [`${IntegrationConstants.INTEGRATION_ID}:super-sticker`];
+triggers["manual"] = true;
+
+export const youtubeSuperStickerAltTextVariable: ReplaceVariable = {
+    definition: {
+        handle: "youtubeSuperStickerAltText",
+        description: "The alt text describing the Super Sticker",
+        categories: ["common"],
+        possibleDataOutput: ["text"],
+        triggers
+    },
+    evaluator: (trigger: Trigger) => {
+        return trigger.metadata.eventData?.stickerAltText ?? "";
+    }
+};
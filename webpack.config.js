@@ -19,6 +19,10 @@ module.exports = {
     resolve: {
         extensions: ['.ts', '.js'],
     },
+    externals: {
+        // Provided by Firebot's Electron runtime (used for OS keychain access)
+        electron: 'commonjs electron',
+    },
     module: {
         rules: [
             {